@@ -9,6 +9,9 @@
  * Usage:
  *   node scripts/benchmark-loading.js [database-path]
  *
+ * The bd process pool comparison loads the compiled pool from out/, so run
+ * `npx tsc -p .` first to include it.
+ *
  * Examples:
  *   node scripts/benchmark-loading.js test-databases/test-db-1k.db
  *   node scripts/benchmark-loading.js test-databases/test-db-10k.db
@@ -334,6 +337,81 @@ async function benchmarkDaemonAdapter(dbPath) {
   return results;
 }
 
+// Compare unbounded concurrent spawns against the concurrency limit used by DaemonBeadsAdapter.
+// Both sides issue every command at once, as a board load does, so this measures only
+// the effect of the cap: each pooled command still spawns its own bd process.
+async function benchmarkProcessPool() {
+  console.log('\n📊 Benchmarking bd process pool vs unbounded spawns');
+  console.log('='.repeat(80));
+
+  const { execFile, execFileSync } = require('child_process');
+  const poolPath = path.join(__dirname, '..', 'out', 'bdProcessPool.js');
+
+  try {
+    execFileSync('bd', ['--version'], { stdio: 'pipe' });
+  } catch (error) {
+    console.log('⚠️  bd CLI not available, skipping process pool benchmarks');
+    return null;
+  }
+  if (!fs.existsSync(poolPath)) {
+    console.log('⚠️  out/bdProcessPool.js not found (run `npx tsc -p .`), skipping process pool benchmarks');
+    return null;
+  }
+
+  const { BdProcessPool } = require(poolPath);
+  const results = {};
+
+  // Command mix of a board load: stats, every column query, then batched shows
+  const ids = JSON.parse(execFileSync('bd', ['list', '--json', '--limit', '100'], { encoding: 'utf-8', maxBuffer: 50 * 1024 * 1024 }))
+    .map(issue => issue.id);
+  const commands = [
+    ['stats', '--json'],
+    ['ready', '--json', '--limit', '100'],
+    ['list', '--status=in_progress', '--json', '--limit', '100'],
+    ['list', '--status=blocked', '--json', '--limit', '100'],
+    ['list', '--status=closed', '--json', '--limit', '100']
+  ];
+  for (let i = 0; i < ids.length; i += 10) {
+    commands.push(['show', '--json', ...ids.slice(i, i + 10)]);
+  }
+
+  // 1. Every command spawned at once, as execBd did before the pool
+  const run = args => new Promise((resolve, reject) => {
+    execFile('bd', args, { encoding: 'utf-8', maxBuffer: 50 * 1024 * 1024 }, error => (error ? reject(error) : resolve()));
+  });
+  const spawnBench = new Benchmark(`unbounded spawns (${commands.length} commands)`).start();
+  try {
+    await Promise.all(commands.map(run));
+    spawnBench.end();
+    results.unbounded = { ...spawnBench.report(), count: commands.length, concurrency: commands.length };
+  } catch (error) {
+    spawnBench.end();
+    results.unbounded = { ...spawnBench.report(), error: error.message };
+  }
+
+  // 2. Same commands at once through the pool, at most processPoolSize (4) bd processes
+  const maxConcurrent = 4;
+  const pool = new BdProcessPool({
+    command: () => 'bd',
+    cwd: () => process.cwd(),
+    log: line => console.log(`  [pool] ${line}`),
+    maxConcurrent
+  });
+  const poolBench = new Benchmark(`process pool (${commands.length} commands)`).start();
+  try {
+    await Promise.all(commands.map(args => pool.exec(args)));
+    poolBench.end();
+    results.pooled = { ...poolBench.report(), count: commands.length, concurrency: Math.min(maxConcurrent, commands.length) };
+  } catch (error) {
+    poolBench.end();
+    results.pooled = { ...poolBench.report(), error: error.message };
+  } finally {
+    pool.dispose();
+  }
+
+  return results;
+}
+
 // Print results in a formatted table
 function printResults(adapterName, results) {
   console.log(`\n${adapterName} Results:`);
@@ -351,6 +429,9 @@ function printResults(adapterName, results) {
     if (result.size) {
       console.log(`  Size: ${result.size}`);
     }
+    if (result.concurrency) {
+      console.log(`  Concurrent bd processes: up to ${result.concurrency}`);
+    }
     if (result.memoryTotal) {
       console.log(`  Memory: ${result.memoryTotal.heapUsed} heap, ${result.memoryTotal.rss} RSS`);
       console.log(`  Delta: ${result.memoryDelta.heapUsed} heap, ${result.memoryDelta.rss} RSS`);
@@ -362,7 +443,7 @@ function printResults(adapterName, results) {
 }
 
 // Generate markdown report
-function generateMarkdownReport(dbPath, sqlJsResults, daemonResults) {
+function generateMarkdownReport(dbPath, sqlJsResults, daemonResults, poolResults) {
   const dbSize = (fs.statSync(dbPath).size / 1024 / 1024).toFixed(2);
   const dbName = path.basename(dbPath);
 
@@ -399,6 +480,16 @@ function generateMarkdownReport(dbPath, sqlJsResults, daemonResults) {
     }
   }
 
+  if (poolResults) {
+    report += `\n## bd Process Pool\n\n`;
+    report += `| Operation | Duration | Commands | Max Concurrent |\n`;
+    report += `|-----------|----------|----------|----------------|\n`;
+
+    for (const [key, result] of Object.entries(poolResults)) {
+      report += `| ${result.name} | ${result.duration} | ${result.count ?? '-'} | ${result.concurrency ?? '-'} |\n`;
+    }
+  }
+
   report += `\n## Performance Targets (10K database)
 
 | Metric | Target | Actual | Status |
@@ -457,8 +548,13 @@ async function main() {
     printResults('bd CLI / Daemon Adapter', daemonResults);
   }
 
+  const poolResults = await benchmarkProcessPool();
+  if (poolResults) {
+    printResults('bd Process Pool', poolResults);
+  }
+
   // Generate markdown report
-  const report = generateMarkdownReport(dbPath, sqlJsResults, daemonResults);
+  const report = generateMarkdownReport(dbPath, sqlJsResults, daemonResults, poolResults);
   const reportPath = path.join(__dirname, '..', 'benchmark-results', `benchmark-${path.basename(dbPath, '.db')}.md`);
 
   const reportDir = path.dirname(reportPath);
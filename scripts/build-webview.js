@@ -50,8 +50,21 @@ const buildGraphView = esbuild.build({
   logLevel: 'info'
 });
 
+// Bundle the graph layout worker (loaded by graph-view.js through a blob URL)
+const buildLayoutWorker = esbuild.build({
+  entryPoints: [path.join(__dirname, '../src/webview/layout-worker.js')],
+  bundle: true,
+  outfile: path.join(outDir, 'layout-worker.js'),
+  platform: 'browser',
+  target: ['es2020'],
+  format: 'iife',
+  minify: false,
+  sourcemap: true,
+  logLevel: 'info'
+});
+
 // Wait for all builds to complete
-Promise.all([buildBoard, buildGraphLayout, buildGraphView])
+Promise.all([buildBoard, buildGraphLayout, buildGraphView, buildLayoutWorker])
   .then(() => {
     console.log('✓ Webview bundles built successfully');
   })
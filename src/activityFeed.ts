@@ -0,0 +1,108 @@
+/**
+ * Repository-wide activity feed: the issue events of every issue, newest first.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+import { IssueEvent, rowsToIssueEvents } from './issueEvents';
+
+export interface ActivityEntry extends IssueEvent {
+  issue_id: string;
+  issue_title: string;
+}
+
+/** The feed holds at most this many entries */
+export const MAX_ACTIVITY_ENTRIES = 500;
+
+export const ACTIVITY_SQL =
+  `SELECT e.id, e.issue_id, i.title AS issue_title, e.event_type, e.actor, e.old_value, e.new_value, e.comment, e.created_at
+   FROM events e LEFT JOIN issues i ON i.id = e.issue_id
+   ORDER BY e.created_at DESC, e.id DESC LIMIT ?`;
+
+/** Time windows offered by the Activity view, in milliseconds (null: everything loaded) */
+export const ACTIVITY_WINDOWS: Record<string, number | null> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  all: null
+};
+
+export interface ActivityFilter {
+  /** Only entries by this actor; empty for everyone */
+  actor?: string;
+  /** Key of ACTIVITY_WINDOWS */
+  window?: string;
+}
+
+function timeOf(timestamp: string): number {
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function newestFirst(a: ActivityEntry, b: ActivityEntry): number {
+  return timeOf(b.created_at) - timeOf(a.created_at);
+}
+
+/** Map rows of ACTIVITY_SQL to entries */
+export function rowsToActivity(rows: Record<string, unknown>[]): ActivityEntry[] {
+  const events = rowsToIssueEvents(rows);
+  return rows.map((row, index) => ({
+    ...events[index],
+    issue_id: String(row.issue_id ?? ''),
+    issue_title: typeof row.issue_title === 'string' ? row.issue_title : ''
+  }));
+}
+
+/**
+ * Rebuild a feed from `bd list --json` issues when the event log cannot be
+ * read: each issue contributes its creation, last update and closing. Which
+ * fields an update changed, and who made it, is not known, so every entry is
+ * marked `rebuilt` and the Activity view says the feed is partial.
+ */
+export function activityFromIssues(issues: Record<string, unknown>[]): ActivityEntry[] {
+  const entries: ActivityEntry[] = [];
+  for (const issue of issues) {
+    const id = String(issue.id ?? '');
+    const base = { issue_id: id, issue_title: typeof issue.title === 'string' ? issue.title : '', changes: [], rebuilt: true };
+    const created = typeof issue.created_at === 'string' ? issue.created_at : '';
+    const closed = typeof issue.closed_at === 'string' ? issue.closed_at : '';
+    const updated = typeof issue.updated_at === 'string' ? issue.updated_at : '';
+
+    if (created) {
+      entries.push({ ...base, id: `${id}-created`, kind: 'created', actor: (issue.created_by as string) || 'unknown', created_at: created, comment: null });
+    }
+    if (updated && timeOf(updated) !== timeOf(created) && timeOf(updated) !== timeOf(closed)) {
+      entries.push({ ...base, id: `${id}-updated-${updated}`, kind: 'updated', actor: (issue.actor as string) || 'unknown', created_at: updated, comment: null });
+    }
+    if (closed) {
+      entries.push({ ...base, id: `${id}-closed`, kind: 'closed', actor: (issue.closed_by as string) || 'unknown', created_at: closed, comment: (issue.close_reason as string) || null });
+    }
+  }
+  return entries.sort(newestFirst).slice(0, MAX_ACTIVITY_ENTRIES);
+}
+
+/** Entries after `since` (all of them when it is empty), newest first */
+export function activitySince(entries: ActivityEntry[], since?: string): ActivityEntry[] {
+  const after = since ? timeOf(since) : -Infinity;
+  return entries.filter(entry => timeOf(entry.created_at) > after).sort(newestFirst);
+}
+
+/** Merge newly streamed entries into a feed, dropping duplicates and keeping it capped */
+export function mergeActivity(feed: ActivityEntry[], incoming: ActivityEntry[]): ActivityEntry[] {
+  const seen = new Set(feed.map(entry => entry.id));
+  return [...incoming.filter(entry => !seen.has(entry.id)), ...feed].sort(newestFirst).slice(0, MAX_ACTIVITY_ENTRIES);
+}
+
+export function filterActivity(entries: ActivityEntry[], filter: ActivityFilter, now: number = Date.now()): ActivityEntry[] {
+  const windowMs = filter.window ? ACTIVITY_WINDOWS[filter.window] ?? null : null;
+  return entries.filter(entry =>
+    (!filter.actor || entry.actor === filter.actor) &&
+    (windowMs === null || timeOf(entry.created_at) >= now - windowMs));
+}
+
+/** Actors in a feed, alphabetically */
+export function activityActors(entries: ActivityEntry[]): string[] {
+  return [...new Set(entries.map(entry => entry.actor))].sort((a, b) => a.localeCompare(b));
+}
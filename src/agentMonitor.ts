@@ -0,0 +1,103 @@
+/**
+ * Agent beads for the Agents view: state, hooked work and whether an agent has
+ * gone quiet for longer than its `timeout_ns`.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export interface AgentSummary {
+  id: string;
+  title: string;
+  status: string;
+  agent_state: string | null;
+  rig: string | null;
+  role_type: string | null;
+  /** Issue the agent is working on */
+  hook_bead: string | null;
+  hook_title: string | null;
+  last_activity: string | null;
+  timeout_ns: number | null;
+}
+
+export interface AgentHealth {
+  /** Milliseconds since last_activity; null when the agent never reported */
+  idleMs: number | null;
+  stalled: boolean;
+}
+
+/** States in which an agent is expected to report activity */
+export const ACTIVE_AGENT_STATES = ['spawning', 'running', 'working'];
+
+export const AGENTS_SQL =
+  `SELECT i.id, i.title, i.status, i.agent_state, i.rig, i.role_type, i.hook_bead, i.last_activity, i.timeout_ns,
+          h.title AS hook_title
+   FROM issues i LEFT JOIN issues h ON h.id = i.hook_bead`;
+
+/** Agent beads are typed `agent` or carry an agent_state */
+export function isAgentIssue(issue: Record<string, unknown>): boolean {
+  return issue.issue_type === 'agent' || (typeof issue.agent_state === 'string' && issue.agent_state !== '');
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+/**
+ * Map an issue (bd JSON or a row of AGENTS_SQL) to a summary.
+ * @param titles Titles by issue id, for hooked issues the row does not name
+ */
+export function toAgentSummary(issue: Record<string, unknown>, titles: Map<string, string> = new Map()): AgentSummary {
+  const hook = text(issue.hook_bead);
+  const timeout = Number(issue.timeout_ns);
+  return {
+    id: String(issue.id),
+    title: String(issue.title ?? ''),
+    status: String(issue.status ?? 'open'),
+    agent_state: text(issue.agent_state),
+    rig: text(issue.rig),
+    role_type: text(issue.role_type),
+    hook_bead: hook,
+    hook_title: text(issue.hook_title) ?? (hook ? titles.get(hook) ?? null : null),
+    last_activity: text(issue.last_activity),
+    timeout_ns: Number.isFinite(timeout) && timeout > 0 ? timeout : null
+  };
+}
+
+/**
+ * An agent is stalled when bd marks it `stuck`, or when it is in an active
+ * state and has not reported for longer than its timeout.
+ */
+export function agentHealth(agent: AgentSummary, now: number = Date.now()): AgentHealth {
+  const last = agent.last_activity ? Date.parse(agent.last_activity) : NaN;
+  const idleMs = Number.isNaN(last) ? null : Math.max(0, now - last);
+  const timedOut = agent.timeout_ns !== null && idleMs !== null && idleMs > agent.timeout_ns / 1e6;
+  const active = agent.agent_state !== null && ACTIVE_AGENT_STATES.includes(agent.agent_state);
+  return { idleMs, stalled: agent.agent_state === 'stuck' || (active && timedOut) };
+}
+
+/** Stalled agents first, then by rig and id */
+export function sortAgents(agents: AgentSummary[], now: number = Date.now()): AgentSummary[] {
+  return [...agents].sort((a, b) =>
+    Number(agentHealth(b, now).stalled) - Number(agentHealth(a, now).stalled) ||
+    (a.rig ?? '').localeCompare(b.rig ?? '') ||
+    a.id.localeCompare(b.id));
+}
+
+/** Compact duration, e.g. `45s`, `12m`, `3h 5m`, `2d 4h` */
+export function formatIdle(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
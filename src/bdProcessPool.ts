@@ -0,0 +1,216 @@
+import { spawn } from 'child_process';
+
+/**
+ * Raw result of a single bd invocation. Exit code and output are returned
+ * untouched so the caller decides how to interpret them (JSON vs. friendly text).
+ */
+export interface BdExecResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface BdProcessPoolOptions {
+  /** Resolve the bd executable (re-read on every spawn so settings changes apply) */
+  command: () => string;
+  /** Resolve the working directory (the workspace root), re-read on every spawn */
+  cwd: () => string;
+  /** Sink for diagnostic lines; the pool never throws for logging failures */
+  log: (line: string) => void;
+  /** Maximum number of bd processes running at once (default 4) */
+  maxConcurrent?: number;
+  /** Maximum number of requests allowed to wait for a free slot (default 200) */
+  maxQueueSize?: number;
+}
+
+export interface BdProcessPoolStats {
+  running: number;
+  queued: number;
+  completed: number;
+  failed: number;
+}
+
+interface PendingRequest {
+  args: string[];
+  deadline: number;
+  timeoutMs: number;
+  resolve: (result: BdExecResult) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout | undefined;
+  settled: boolean;
+}
+
+// Buffer size limit: 50MB to handle large bd list queries
+// Note: bd list --limit 10000 can produce ~8-12MB of JSON output
+const MAX_BUFFER_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Concurrency limiter for bd commands, shared by every adapter call.
+ *
+ * Each command spawns its own bd process; bd has no long-running server to keep
+ * warm, so the pool does not save start-up time. It only caps how many processes
+ * run at once (`maxConcurrent`) so a board load cannot fork dozens of them. The
+ * rest queue, and each request has its own timeout that covers queue wait plus
+ * execution.
+ */
+export class BdProcessPool {
+  private running = new Set<ReturnType<typeof spawn>>();
+  private queue: PendingRequest[] = [];
+  private disposed = false;
+  private completed = 0;
+  private failed = 0;
+  private readonly maxConcurrent: number;
+  private readonly maxQueueSize: number;
+
+  constructor(private options: BdProcessPoolOptions) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 4);
+    this.maxQueueSize = Math.max(1, options.maxQueueSize ?? 200);
+  }
+
+  /**
+   * Run a bd command as soon as fewer than `maxConcurrent` are running.
+   * @param args Already-sanitized CLI arguments
+   * @param timeoutMs Budget for queue wait plus execution
+   */
+  exec(args: string[], timeoutMs: number = 30000): Promise<BdExecResult> {
+    if (this.disposed) {
+      return Promise.reject(new Error('bd process pool has been disposed'));
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new Error(`bd request queue is full (${this.maxQueueSize} pending requests)`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: PendingRequest = {
+        args,
+        deadline: Date.now() + timeoutMs,
+        timeoutMs,
+        resolve,
+        reject,
+        settled: false,
+        timer: undefined
+      };
+
+      this.enqueue(request);
+      this.dispatch();
+    });
+  }
+
+  getStats(): BdProcessPoolStats {
+    return {
+      running: this.running.size,
+      queued: this.queue.length,
+      completed: this.completed,
+      failed: this.failed
+    };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    for (const request of this.queue) {
+      this.settle(request, new Error('bd process pool has been disposed'));
+    }
+    this.queue = [];
+    for (const child of this.running) {
+      child.kill('SIGTERM');
+    }
+  }
+
+  /** Queue a request. Its timer only fires while it is still waiting; running requests time out in run() */
+  private enqueue(request: PendingRequest): void {
+    request.timer = setTimeout(() => {
+      const index = this.queue.indexOf(request);
+      if (index !== -1) {
+        this.queue.splice(index, 1);
+        this.settle(request, new Error(`Command timed out after ${request.timeoutMs}ms waiting for a free bd process slot: bd ${request.args.join(' ')}`));
+      }
+    }, Math.max(1, request.deadline - Date.now()));
+
+    this.queue.push(request);
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0 && !this.disposed && this.running.size < this.maxConcurrent) {
+      const request = this.queue.shift()!;
+      clearTimeout(request.timer);
+      this.run(request);
+    }
+  }
+
+  private run(request: PendingRequest): void {
+    const bdCmd = this.options.command();
+    const command = `${bdCmd} ${request.args.join(' ')}`;
+    const child = spawn(bdCmd, request.args, {
+      cwd: this.options.cwd(),
+      shell: false
+    });
+    this.running.add(child);
+
+    let stdout = '';
+    let stderr = '';
+    let done = false;
+
+    // Settle once, free the slot and start the next queued command
+    const finish = (error: Error | null, result?: BdExecResult): void => {
+      if (done) {
+        return;
+      }
+      done = true;
+      clearTimeout(timeoutHandle);
+      this.running.delete(child);
+      this.settle(request, error, result);
+      this.dispatch();
+    };
+
+    const kill = (error: Error): void => {
+      if (!done) {
+        child.kill('SIGTERM');
+        finish(error);
+      }
+    };
+
+    const timeoutHandle = setTimeout(() => {
+      this.options.log(`Killing bd after ${request.timeoutMs}ms: ${command}`);
+      kill(new Error(`Command timed out after ${request.timeoutMs}ms: ${command}`));
+    }, Math.max(1, request.deadline - Date.now()));
+
+    child.stdout?.on('data', (data) => {
+      // Check buffer size limit BEFORE concatenation to prevent memory spikes
+      const dataStr = data.toString();
+      if (stdout.length + dataStr.length > MAX_BUFFER_SIZE) {
+        kill(new Error(`Command output exceeded ${MAX_BUFFER_SIZE} bytes limit`));
+        return;
+      }
+      stdout += dataStr;
+    });
+
+    child.stderr?.on('data', (data) => {
+      const dataStr = data.toString();
+      if (stderr.length + dataStr.length > MAX_BUFFER_SIZE) {
+        kill(new Error(`Command error output exceeded ${MAX_BUFFER_SIZE} bytes limit`));
+        return;
+      }
+      stderr += dataStr;
+    });
+
+    child.on('error', (error) => finish(error));
+
+    // A non-zero exit is bd rejecting the command; the caller interprets it
+    child.on('close', (code) => finish(null, { code, stdout, stderr }));
+  }
+
+  private settle(request: PendingRequest, error: Error | null, result?: BdExecResult): void {
+    if (request.settled) {
+      return;
+    }
+    request.settled = true;
+    clearTimeout(request.timer);
+    if (error) {
+      this.failed++;
+      request.reject(error);
+    } else {
+      this.completed++;
+      request.resolve(result!);
+    }
+  }
+}
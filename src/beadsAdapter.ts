@@ -0,0 +1,82 @@
+import {
+  BoardData,
+  BoardCard,
+  EnrichedCard,
+  FullCard,
+  IssueStatus,
+  Comment,
+  IssueCreateInput,
+  IssueUpdateFields,
+  TableFilters,
+  TableSort
+} from './types';
+import { ColumnDefinition } from './boardColumns';
+import { IssueEvent } from './issueEvents';
+import { ActivityEntry } from './activityFeed';
+import { AgentSummary } from './agentMonitor';
+
+/** Thrown by updateIssue when the issue changed after the edit was started */
+export class IssueConflictError extends Error {
+  constructor(readonly current: FullCard) {
+    super(`Issue ${current.id} was changed by someone else`);
+    this.name = 'IssueConflictError';
+  }
+}
+
+/**
+ * Data source used by the extension host. Implementations decide how reads are
+ * served (bd CLI, direct database queries); writes always go through bd so that
+ * hooks, validation and sync behave exactly as on the command line.
+ */
+export interface BeadsAdapter {
+  /** Verify the data source is reachable; throws with a user-facing message if not */
+  ensureConnected(): Promise<void>;
+  getConnectedDbPath(): string | null;
+  /** Pick up external changes to the database (called by the file watcher) */
+  reloadDatabase(): Promise<void>;
+  /** True if this adapter touched the database recently (suppresses file watcher loops) */
+  isRecentSelfSave(): boolean;
+  /** Name bd records as the actor for this workspace; resolves `assignee:me` in queries */
+  getActor(): Promise<string | null>;
+
+  // Reads
+  getBoard(): Promise<BoardData>;
+  getBoardMinimal(limit?: number): Promise<EnrichedCard[]>;
+  getBoardMetadata(): Promise<BoardData>;
+  getIssueFull(issueId: string): Promise<FullCard>;
+  getIssueComments(issueId: string): Promise<Comment[]>;
+  /** Changes recorded for an issue, newest first */
+  getIssueHistory(issueId: string): Promise<IssueEvent[]>;
+  /** Changes across the repository after `since` (all recent ones when omitted), newest first */
+  getActivity(since?: string): Promise<ActivityEntry[]>;
+  /** Agent beads with their state and hooked work */
+  getAgents(): Promise<AgentSummary[]>;
+  getColumnCount(column: string): Promise<number>;
+  getColumnData(column: string, offset?: number, limit?: number): Promise<BoardCard[]>;
+  getTableData(
+    filters: TableFilters,
+    sorting: TableSort[],
+    offset: number,
+    limit: number
+  ): Promise<{ cards: BoardCard[]; totalCount: number }>;
+
+  // Mutations
+  createIssue(input: IssueCreateInput): Promise<{ id: string }>;
+  setIssueStatus(id: string, toStatus: IssueStatus): Promise<void>;
+  /** Close with an optional reason (shown as close_reason) */
+  closeIssue(id: string, reason?: string): Promise<void>;
+  /** @throws IssueConflictError if `expectedUpdatedAt` is given and the issue's updated_at differs */
+  updateIssue(id: string, updates: IssueUpdateFields, expectedUpdatedAt?: string): Promise<void>;
+  addComment(issueId: string, text: string, author: string): Promise<void>;
+  addLabel(issueId: string, label: string): Promise<void>;
+  removeLabel(issueId: string, label: string): Promise<void>;
+  addDependency(issueId: string, dependsOnId: string, type?: 'parent-child' | 'blocks'): Promise<void>;
+  removeDependency(issueId: string, dependsOnId: string): Promise<void>;
+  /** Permanently delete an issue and its dependency links */
+  deleteIssue(id: string): Promise<void>;
+
+  /** Board columns served by getBoardMetadata, getColumnCount and getColumnData */
+  setColumns(columns: ColumnDefinition[]): void;
+  setWorkspaceRoot(newWorkspaceRoot: string): void;
+  dispose(): void;
+}
@@ -0,0 +1,199 @@
+/**
+ * Kanban column definitions.
+ *
+ * A column is a predicate over card fields (status, readiness, labels,
+ * agent_state, assignee) plus the changes to apply when a card is dropped into
+ * it. Every card lands in exactly one column: the most specific matching
+ * definition wins, and cards no column matches go to the fallback column.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+import { IssueStatus } from './types';
+
+export interface ColumnMatch {
+  /** Any of these statuses */
+  status?: string[];
+  /** Open with no open blockers (true) or anything else (false) */
+  ready?: boolean;
+  /** Every one of these labels */
+  labels?: string[];
+  /** None of these labels */
+  excludeLabels?: string[];
+  /** Any of these agent states */
+  agentState?: string[];
+  /** Any of these assignees; "" matches unassigned issues */
+  assignee?: string[];
+}
+
+/** Changes applied to a card dropped into the column */
+export interface ColumnDropAction {
+  status?: IssueStatus;
+  addLabels?: string[];
+  removeLabels?: string[];
+  /** null unassigns */
+  assignee?: string | null;
+}
+
+export interface ColumnDefinition {
+  key: string;
+  title: string;
+  match: ColumnMatch;
+  /** Receives cards that no column matches (at most one column) */
+  fallback?: boolean;
+  /** Defaults to the changes implied by `match` (see defaultDropAction) */
+  onDrop?: ColumnDropAction;
+}
+
+/** Card fields read by column predicates */
+export interface ColumnCard {
+  status: string;
+  is_ready?: boolean;
+  labels?: string[];
+  assignee?: string | null;
+  agent_state?: string | null;
+}
+
+/** Changes that move a card into a column, in the order the extension applies them */
+export interface ColumnMovePlan {
+  status?: IssueStatus;
+  addLabels: string[];
+  removeLabels: string[];
+  /** Absent leaves the assignee alone; null unassigns */
+  assignee?: string | null;
+}
+
+/** The board's original columns: Ready, In Progress, Blocked (also open but not ready) and Closed */
+export const DEFAULT_COLUMNS: ColumnDefinition[] = [
+  { key: 'ready', title: 'Ready', match: { status: ['open'], ready: true } },
+  { key: 'in_progress', title: 'In Progress', match: { status: ['in_progress'] } },
+  { key: 'blocked', title: 'Blocked', match: { status: ['blocked'] }, fallback: true },
+  { key: 'closed', title: 'Closed', match: { status: ['closed'] } }
+];
+
+const ISSUE_STATUSES: IssueStatus[] = ['open', 'in_progress', 'blocked', 'closed'];
+
+/** True if `columns` are the built-in columns, which adapters can count and page with native queries */
+export function isDefaultColumns(columns: ColumnDefinition[]): boolean {
+  return JSON.stringify(columns) === JSON.stringify(DEFAULT_COLUMNS);
+}
+
+function matchesColumn(card: ColumnCard, match: ColumnMatch): boolean {
+  const labels = card.labels ?? [];
+  if (match.status && !match.status.includes(card.status)) {
+    return false;
+  }
+  if (match.ready !== undefined && Boolean(card.is_ready) !== match.ready) {
+    return false;
+  }
+  if (match.labels && !match.labels.every(label => labels.includes(label))) {
+    return false;
+  }
+  if (match.excludeLabels && match.excludeLabels.some(label => labels.includes(label))) {
+    return false;
+  }
+  if (match.agentState && !match.agentState.includes(card.agent_state ?? '')) {
+    return false;
+  }
+  if (match.assignee && !match.assignee.includes(card.assignee ?? '')) {
+    return false;
+  }
+  return true;
+}
+
+/** Number of conditions in a predicate; a label counts once per label */
+function specificity(match: ColumnMatch): number {
+  return (match.status ? 1 : 0)
+    + (match.ready !== undefined ? 1 : 0)
+    + (match.labels?.length ?? 0)
+    + (match.excludeLabels?.length ?? 0)
+    + (match.agentState ? 1 : 0)
+    + (match.assignee ? 1 : 0);
+}
+
+/**
+ * Key of the column a card belongs to: the matching column with the most
+ * conditions, earlier columns winning ties. Cards no column matches go to the
+ * fallback column, or nowhere (null) if there is none.
+ */
+export function columnForCard(card: ColumnCard, columns: ColumnDefinition[]): string | null {
+  let best: ColumnDefinition | null = null;
+  let bestScore = -1;
+  for (const column of columns) {
+    if (matchesColumn(card, column.match)) {
+      const score = specificity(column.match);
+      if (score > bestScore) {
+        best = column;
+        bestScore = score;
+      }
+    }
+  }
+  return best?.key ?? columns.find(column => column.fallback)?.key ?? null;
+}
+
+/**
+ * Drop action implied by a column's predicate: the first status it accepts,
+ * the labels it requires (and removal of those it excludes), and a single
+ * required assignee. Agent state is set by agents, never by a drop.
+ */
+export function defaultDropAction(column: ColumnDefinition): ColumnDropAction {
+  const { match } = column;
+  const action: ColumnDropAction = {};
+  const status = match.status?.find((s): s is IssueStatus => (ISSUE_STATUSES as string[]).includes(s));
+  if (status) {
+    action.status = status;
+  }
+  if (match.labels?.length) {
+    action.addLabels = [...match.labels];
+  }
+  if (match.excludeLabels?.length) {
+    action.removeLabels = [...match.excludeLabels];
+  }
+  if (match.assignee?.length === 1) {
+    action.assignee = match.assignee[0] || null;
+  }
+  return action;
+}
+
+/**
+ * Changes that move `card` into column `toKey`. Labels required by the card's
+ * current column but not by the target are removed, so dropping a Review card
+ * (in_progress + `review`) back into In Progress takes the label off.
+ * Without a card, the target's drop action is returned as is.
+ * @throws If `toKey` is not a configured column
+ */
+export function planColumnMove(columns: ColumnDefinition[], card: ColumnCard | null, toKey: string): ColumnMovePlan {
+  const target = columns.find(column => column.key === toKey);
+  if (!target) {
+    throw new Error(`Unknown column: ${toKey}`);
+  }
+  const action = target.onDrop ?? defaultDropAction(target);
+  const addLabels = new Set(action.addLabels ?? []);
+  const removeLabels = new Set(action.removeLabels ?? []);
+
+  if (card) {
+    const fromKey = columnForCard(card, columns);
+    const source = columns.find(column => column.key === fromKey);
+    const keepLabels = new Set([...addLabels, ...(target.match.labels ?? [])]);
+    for (const label of source?.match.labels ?? []) {
+      if (!keepLabels.has(label)) {
+        removeLabels.add(label);
+      }
+    }
+  }
+  addLabels.forEach(label => removeLabels.delete(label));
+
+  const labels = card?.labels;
+  const plan: ColumnMovePlan = {
+    addLabels: [...addLabels].filter(label => !labels || !labels.includes(label)),
+    removeLabels: [...removeLabels].filter(label => !labels || labels.includes(label))
+  };
+  if (action.status && action.status !== card?.status) {
+    plan.status = action.status;
+  }
+  if (action.assignee !== undefined && (!card || (card.assignee || null) !== action.assignee)) {
+    plan.assignee = action.assignee;
+  }
+  return plan;
+}
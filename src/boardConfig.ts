@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BoardColumnsSchema } from './types';
+import { ColumnDefinition, DEFAULT_COLUMNS } from './boardColumns';
+import { sanitizeError } from './sanitizeError';
+
+/** Path of the shared board settings file, committed alongside the beads database */
+export function boardConfigPath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, '.beads', 'kanban.json');
+}
+
+/**
+ * Parsed `.beads/kanban.json`, or an empty object if the file is missing or unreadable.
+ * Callers validate the keys they use.
+ */
+export async function readBoardConfigFile(workspaceRoot: string, output: vscode.OutputChannel): Promise<Record<string, unknown>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(boardConfigPath(workspaceRoot), 'utf8');
+  } catch {
+    return {}; // No shared board config
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      output.appendLine('[BoardConfig] Ignoring .beads/kanban.json: expected a JSON object');
+      return {};
+    }
+    return parsed as Record<string, unknown>;
+  } catch (e) {
+    output.appendLine(`[BoardConfig] Ignoring unreadable .beads/kanban.json: ${sanitizeError(e)}`);
+    return {};
+  }
+}
+
+/**
+ * Kanban columns from the `beadsKanban.columns` setting or, if that is empty,
+ * `columns` in `.beads/kanban.json`. A column list replaces the defaults as a
+ * whole; an invalid list is logged and the default columns are used.
+ */
+export async function loadBoardColumns(workspaceRoot: string | null, output: vscode.OutputChannel): Promise<ColumnDefinition[]> {
+  const fromSettings = vscode.workspace.getConfiguration('beadsKanban').get<unknown[]>('columns', []);
+  if (Array.isArray(fromSettings) && fromSettings.length > 0) {
+    return parseColumns(fromSettings, 'beadsKanban.columns setting', output);
+  }
+
+  const file = workspaceRoot ? await readBoardConfigFile(workspaceRoot, output) : {};
+  if (file.columns === undefined) {
+    return DEFAULT_COLUMNS;
+  }
+  return parseColumns(file.columns, 'columns in .beads/kanban.json', output);
+}
+
+function parseColumns(value: unknown, source: string, output: vscode.OutputChannel): ColumnDefinition[] {
+  const result = BoardColumnsSchema.safeParse(value);
+  if (!result.success) {
+    output.appendLine(`[BoardConfig] Ignoring invalid ${source}, using the default columns: ${result.error.message}`);
+    return DEFAULT_COLUMNS;
+  }
+  return result.data;
+}
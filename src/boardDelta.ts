@@ -0,0 +1,101 @@
+import { EnrichedCard } from './types';
+
+/**
+ * Changes between two board snapshots, posted to the webview as `board.delta`.
+ * The webview applies a delta only if `baseVersion` matches the version it last
+ * applied; otherwise it has missed a message and asks for a full resync.
+ */
+export interface BoardDelta {
+  version: number;
+  baseVersion: number;
+  added: EnrichedCard[];
+  changed: EnrichedCard[];
+  removed: string[];
+}
+
+/**
+ * Last board state sent to one webview, keyed by issue id.
+ * Cards are stored serialized so comparing them is a plain string comparison
+ * and later mutations of the card objects cannot leak into the snapshot.
+ */
+export class BoardSnapshot {
+  private cards = new Map<string, string>();
+  private version = 0;
+  private hasBase = false;
+
+  /** Version of the last full board or delta recorded in this snapshot */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /** True once a full board has been recorded, i.e. deltas can be computed */
+  isInitialized(): boolean {
+    return this.hasBase;
+  }
+
+  /**
+   * Replace the snapshot with a full board.
+   * @returns The version to send along with the full board
+   */
+  reset(cards: EnrichedCard[]): number {
+    this.cards = new Map(cards.map(card => [card.id, JSON.stringify(card)]));
+    this.hasBase = true;
+    return ++this.version;
+  }
+
+  /**
+   * Diff a freshly loaded board against the snapshot and record it as the new snapshot.
+   * @returns The delta to send, or null if nothing changed (the version is not bumped)
+   */
+  diff(cards: EnrichedCard[]): BoardDelta | null {
+    if (!this.hasBase) {
+      throw new Error('Cannot compute a board delta before a full board was sent');
+    }
+
+    const next = new Map<string, string>();
+    const added: EnrichedCard[] = [];
+    const changed: EnrichedCard[] = [];
+
+    for (const card of cards) {
+      const serialized = JSON.stringify(card);
+      next.set(card.id, serialized);
+      const previous = this.cards.get(card.id);
+      if (previous === undefined) {
+        added.push(card);
+      } else if (previous !== serialized) {
+        changed.push(card);
+      }
+    }
+
+    const removed: string[] = [];
+    for (const id of this.cards.keys()) {
+      if (!next.has(id)) {
+        removed.push(id);
+      }
+    }
+
+    this.cards = next;
+
+    if (added.length === 0 && changed.length === 0 && removed.length === 0) {
+      return null;
+    }
+
+    const baseVersion = this.version;
+    this.version++;
+    return { version: this.version, baseVersion, added, changed, removed };
+  }
+
+  /**
+   * A delta that changes nothing, at the current version. Sent after a mutation
+   * whose reload found no change, so the webview still settles the request.
+   */
+  unchanged(): BoardDelta {
+    return { version: this.version, baseVersion: this.version, added: [], changed: [], removed: [] };
+  }
+
+  /** Forget the snapshot so the next board is sent in full (version keeps counting) */
+  clear(): void {
+    this.cards.clear();
+    this.hasBase = false;
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Search box query language, shared by the webview (kanban, table and graph filtering)
+ * and the extension host (server-side table queries), so a query matches the same
+ * issues wherever it is evaluated. This module must stay free of Node and VS Code
+ * imports because it is bundled into the webview.
+ *
+ * Grammar: whitespace-separated terms, all of which must match.
+ *
+ *   text | "quoted text"          substring of id, title, description or a label
+ *   assignee:me | assignee:alice  also label:, type:, status:, id:  (a,b = any of)
+ *   priority<=1 | priority:p0     operators : = < <= > >=
+ *   updated>-7d | due<2026-07-01  created, updated, closed, due, defer; relative
+ *                                 offsets in h/d/w/m (months) from now, or YYYY-MM-DD
+ *   is:blocked                    open, in_progress, blocked, closed, ready, unassigned,
+ *                                 pinned, ephemeral, template, gate (open gates),
+ *                                 overdue (open gates past their timeout)
+ *   has:due                       due, defer, assignee, label, description, estimate
+ *   -term                         negates any term
+ */
+
+import { isOpenGate, isOverdueGate } from './gates';
+
+export type QueryOperator = ':' | '=' | '<' | '<=' | '>' | '>=';
+
+export type QueryListField = 'assignee' | 'label' | 'type' | 'status' | 'id';
+export type QueryDateField = 'created' | 'updated' | 'closed' | 'due' | 'defer';
+
+/** A date operand: either a fixed instant or an offset from "now" resolved at evaluation */
+export type QueryDate =
+  | { kind: 'absolute'; time: number }
+  | { kind: 'relative'; offsetMs: number };
+
+export type QueryTerm =
+  | { kind: 'text'; negated: boolean; value: string }
+  | { kind: 'list'; negated: boolean; field: QueryListField; values: string[] }
+  | { kind: 'priority'; negated: boolean; op: QueryOperator; value: number }
+  | { kind: 'date'; negated: boolean; field: QueryDateField; op: QueryOperator; value: QueryDate }
+  | { kind: 'is'; negated: boolean; value: string }
+  | { kind: 'has'; negated: boolean; value: string };
+
+export interface QueryError {
+  message: string;
+  /** Character range of the offending term in the input */
+  start: number;
+  end: number;
+}
+
+export interface BoardQuery {
+  terms: QueryTerm[];
+}
+
+export interface ParsedBoardQuery {
+  /** Terms that parsed; terms with errors are left out */
+  query: BoardQuery;
+  errors: QueryError[];
+}
+
+/** Values needed to evaluate a query that depend on who and when */
+export interface QueryContext {
+  /** Resolves `assignee:me`; without it `assignee:me` matches nothing */
+  me?: string | null;
+  /** Reference time for relative dates (defaults to Date.now()) */
+  now?: number;
+}
+
+/** Card fields a query can look at (satisfied by MinimalCard/EnrichedCard/BoardCard) */
+export interface QueryableCard {
+  id: string;
+  title?: string;
+  description?: string;
+  status?: string;
+  priority?: number;
+  issue_type?: string;
+  assignee?: string | null;
+  labels?: string[];
+  created_at?: string;
+  updated_at?: string;
+  closed_at?: string | null;
+  due_at?: string | null;
+  defer_until?: string | null;
+  estimated_minutes?: number | null;
+  is_ready?: boolean;
+  blocked_by_count?: number;
+  pinned?: boolean;
+  ephemeral?: boolean;
+  is_template?: boolean;
+  await_type?: string | null;
+  timeout_ns?: number | null;
+}
+
+const LIST_FIELDS: readonly QueryListField[] = ['assignee', 'label', 'type', 'status', 'id'];
+const DATE_FIELDS: readonly QueryDateField[] = ['created', 'updated', 'closed', 'due', 'defer'];
+const IS_VALUES = ['open', 'in_progress', 'blocked', 'closed', 'ready', 'unassigned', 'pinned', 'ephemeral', 'template', 'gate', 'overdue'];
+const HAS_VALUES = ['due', 'defer', 'assignee', 'label', 'description', 'estimate'];
+
+// Aliases users are likely to type
+const FIELD_ALIASES: Record<string, string> = {
+  labels: 'label',
+  p: 'priority',
+  issue_type: 'type',
+  defer_until: 'defer'
+};
+
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  m: 30 * 24 * 60 * 60 * 1000
+};
+
+const DAY_MS = UNIT_MS.d;
+
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+  error?: string;
+}
+
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let text = '';
+    let error: string | undefined;
+
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          error = 'Unterminated quote';
+          text += input.slice(i + 1);
+          i = input.length;
+          break;
+        }
+        text += input.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        text += input[i];
+        i++;
+      }
+    }
+
+    tokens.push({ text, start, end: i, error });
+  }
+
+  return tokens;
+}
+
+function parseDate(value: string): QueryDate | null {
+  const relative = /^([+-]?)(\d+)([hdwm])$/i.exec(value);
+  if (relative) {
+    const sign = relative[1] === '+' ? 1 : -1;
+    return { kind: 'relative', offsetMs: sign * Number(relative[2]) * UNIT_MS[relative[3].toLowerCase()] };
+  }
+  if (value.toLowerCase() === 'today') {
+    return { kind: 'relative', offsetMs: 0 };
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    if (!Number.isNaN(time)) {
+      return { kind: 'absolute', time };
+    }
+  }
+  return null;
+}
+
+function parsePriority(value: string): number | null {
+  const match = /^p?([0-4])$/i.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Parse a search box query. Never throws: problems are reported per term in
+ * `errors` (with character ranges for inline highlighting) and the remaining
+ * terms are still returned, so a half-typed query keeps filtering.
+ */
+export function parseBoardQuery(input: string): ParsedBoardQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+
+  for (const token of tokenize(input || '')) {
+    const fail = (message: string) => errors.push({ message, start: token.start, end: token.end });
+
+    if (token.error) {
+      fail(token.error);
+      continue;
+    }
+
+    // '-' outside quotes negates; only the unquoted start of a token can name a field
+    const raw = input.slice(token.start, token.end);
+    const negated = raw.length > 1 && raw.startsWith('-');
+    const text = negated ? token.text.slice(1) : token.text;
+    const unquotedPrefix = raw.slice(negated ? 1 : 0).split('"')[0];
+    const fieldMatch = /^([a-z_]+)(<=|>=|:|=|<|>)/i.exec(unquotedPrefix);
+
+    if (!fieldMatch) {
+      if (text.length > 0) {
+        terms.push({ kind: 'text', negated, value: text.toLowerCase() });
+      }
+      continue;
+    }
+
+    const rawField = fieldMatch[1].toLowerCase();
+    const field = FIELD_ALIASES[rawField] ?? rawField;
+    const op = fieldMatch[2] as QueryOperator;
+    const value = text.slice(fieldMatch[0].length);
+
+    if (value === '') {
+      fail(`Missing value for "${rawField}"`);
+      continue;
+    }
+
+    if ((LIST_FIELDS as readonly string[]).includes(field)) {
+      if (op !== ':' && op !== '=') {
+        fail(`"${rawField}" only supports ":"`);
+        continue;
+      }
+      const values = value.split(',').map(v => v.trim().toLowerCase()).filter(v => v !== '');
+      terms.push({ kind: 'list', negated, field: field as QueryListField, values });
+      continue;
+    }
+
+    if (field === 'priority') {
+      const priority = parsePriority(value);
+      if (priority === null) {
+        fail(`Priority must be 0-4 (or p0-p4), got "${value}"`);
+        continue;
+      }
+      terms.push({ kind: 'priority', negated, op, value: priority });
+      continue;
+    }
+
+    if ((DATE_FIELDS as readonly string[]).includes(field)) {
+      const date = parseDate(value);
+      if (!date) {
+        fail(`Invalid date "${value}" (use YYYY-MM-DD, today, or an offset like -7d, +2w)`);
+        continue;
+      }
+      terms.push({ kind: 'date', negated, field: field as QueryDateField, op, value: date });
+      continue;
+    }
+
+    if (field === 'is' || field === 'has') {
+      const allowed = field === 'is' ? IS_VALUES : HAS_VALUES;
+      const normalized = value.toLowerCase().replace(/^labels$/, 'label').replace(/-/g, '_');
+      if (op !== ':' || !allowed.includes(normalized)) {
+        fail(`Unknown "${field}:${value}" (expected ${allowed.join(', ')})`);
+        continue;
+      }
+      terms.push({ kind: field, negated, value: normalized });
+      continue;
+    }
+
+    fail(`Unknown field "${rawField}"`);
+  }
+
+  return { query: { terms }, errors };
+}
+
+/** True if the query has no terms (matches every card) */
+export function isEmptyQuery(query: BoardQuery): boolean {
+  return query.terms.length === 0;
+}
+
+function toTime(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function compare(actual: number, op: QueryOperator, expected: number): boolean {
+  switch (op) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    default: return actual === expected;
+  }
+}
+
+function matchesDate(actual: number | null, op: QueryOperator, date: QueryDate, now: number): boolean {
+  if (actual === null) {
+    return false;
+  }
+  const instant = date.kind === 'absolute' ? date.time : now + date.offsetMs;
+
+  // Equality compares whole (UTC) days; a bare date means "on that day"
+  const dayStart = Math.floor(instant / DAY_MS) * DAY_MS;
+  const dayEnd = dayStart + DAY_MS;
+  switch (op) {
+    case ':':
+    case '=':
+      return actual >= dayStart && actual < dayEnd;
+    case '<':
+      return date.kind === 'absolute' ? actual < dayStart : actual < instant;
+    case '<=':
+      return date.kind === 'absolute' ? actual < dayEnd : actual <= instant;
+    case '>':
+      return date.kind === 'absolute' ? actual >= dayEnd : actual > instant;
+    case '>=':
+      return date.kind === 'absolute' ? actual >= dayStart : actual >= instant;
+  }
+}
+
+function dateOf(card: QueryableCard, field: QueryDateField): string | null | undefined {
+  switch (field) {
+    case 'created': return card.created_at;
+    case 'updated': return card.updated_at;
+    case 'closed': return card.closed_at;
+    case 'due': return card.due_at;
+    case 'defer': return card.defer_until;
+  }
+}
+
+function isBlocked(card: QueryableCard): boolean {
+  return card.status === 'blocked' || (card.status !== 'closed' && (card.blocked_by_count || 0) > 0);
+}
+
+function matchesTerm(term: QueryTerm, card: QueryableCard, context: QueryContext): boolean {
+  switch (term.kind) {
+    case 'text': {
+      return (card.title || '').toLowerCase().includes(term.value) ||
+        card.id.toLowerCase().includes(term.value) ||
+        (card.description || '').toLowerCase().includes(term.value) ||
+        (card.labels || []).some(label => label.toLowerCase().includes(term.value));
+    }
+
+    case 'list': {
+      const me = context.me ? context.me.toLowerCase() : null;
+      return term.values.some(value => {
+        switch (term.field) {
+          case 'assignee': {
+            const assignee = (card.assignee || '').toLowerCase();
+            const expected = value === 'me' ? me : value;
+            return expected !== null && assignee !== '' && assignee === expected;
+          }
+          case 'label':
+            return (card.labels || []).some(label => label.toLowerCase() === value);
+          case 'type':
+            return (card.issue_type || '').toLowerCase() === value;
+          case 'status':
+            return (card.status || '').toLowerCase() === value;
+          case 'id':
+            return card.id.toLowerCase() === value;
+        }
+      });
+    }
+
+    case 'priority':
+      return compare(card.priority ?? 2, term.op, term.value);
+
+    case 'date':
+      return matchesDate(toTime(dateOf(card, term.field)), term.op, term.value, context.now ?? Date.now());
+
+    case 'is':
+      switch (term.value) {
+        case 'blocked': return isBlocked(card);
+        case 'ready': return card.status === 'open' && !isBlocked(card);
+        case 'unassigned': return !card.assignee;
+        case 'pinned': return Boolean(card.pinned);
+        case 'ephemeral': return Boolean(card.ephemeral);
+        case 'template': return Boolean(card.is_template);
+        case 'gate': return isOpenGate(card);
+        case 'overdue': return isOverdueGate(card, context.now ?? Date.now());
+        default: return card.status === term.value;
+      }
+
+    case 'has':
+      switch (term.value) {
+        case 'due': return Boolean(card.due_at);
+        case 'defer': return Boolean(card.defer_until);
+        case 'assignee': return Boolean(card.assignee);
+        case 'label': return (card.labels || []).length > 0;
+        case 'description': return Boolean(card.description && card.description.trim());
+        case 'estimate': return (card.estimated_minutes || 0) > 0;
+        default: return false;
+      }
+  }
+}
+
+/** Evaluate a parsed query against one card (all terms must match) */
+export function matchesBoardQuery(query: BoardQuery, card: QueryableCard, context: QueryContext = {}): boolean {
+  return query.terms.every(term => matchesTerm(term, card, context) !== term.negated);
+}
@@ -0,0 +1,69 @@
+import { BeadsAdapter } from './beadsAdapter';
+import { BulkAction, BulkItemResult } from './types';
+import { HistoryOp, MutationTransaction, applyOp } from './mutationHistory';
+import { sanitizeError } from './sanitizeError';
+
+/**
+ * Apply one action to each issue in turn. A failure is recorded for that issue
+ * and the rest of the batch still runs, so callers can report partial success.
+ * Issues are updated one at a time because every write is a separate bd command.
+ * @param tx Records the applied changes for undo
+ */
+export async function applyBulkAction(
+  adapter: BeadsAdapter,
+  ids: string[],
+  action: BulkAction,
+  tx?: MutationTransaction
+): Promise<BulkItemResult[]> {
+  const results: BulkItemResult[] = [];
+  for (const id of ids) {
+    try {
+      const ops = await opsForIssue(adapter, id, action);
+      if (tx) {
+        await tx.run(adapter, ops);
+      } else {
+        for (const op of ops) {
+          await applyOp(adapter, op);
+        }
+      }
+      results.push({ id, ok: true });
+    } catch (e) {
+      results.push({ id, ok: false, error: sanitizeError(e) });
+    }
+  }
+  return results;
+}
+
+async function opsForIssue(adapter: BeadsAdapter, id: string, action: BulkAction): Promise<HistoryOp[]> {
+  switch (action.kind) {
+    case 'setStatus':
+      return [{ kind: 'setStatus', id, status: action.status }];
+    case 'setPriority':
+      return [{ kind: 'update', id, updates: { priority: action.priority } }];
+    case 'setAssignee':
+      return [{ kind: 'update', id, updates: { assignee: action.assignee } }];
+    case 'addLabel':
+    case 'removeLabel':
+      return [{ kind: action.kind, id, label: action.label }];
+    case 'close':
+      return [{ kind: 'close', id, reason: action.reason }];
+    case 'promote':
+      return [{ kind: 'update', id, updates: { ephemeral: false } }];
+    case 'setParent': {
+      if (action.parentId === id) {
+        throw new Error('An issue cannot be its own parent');
+      }
+      // An issue has one parent, so the old parent-child link is replaced
+      const current = (await adapter.getIssueFull(id)).parent?.id;
+      if (current === action.parentId) {
+        return [];
+      }
+      const ops: HistoryOp[] = [];
+      if (current) {
+        ops.push({ kind: 'removeDependency', id, otherId: current });
+      }
+      ops.push({ kind: 'addDependency', id, otherId: action.parentId, type: 'parent-child' });
+      return ops;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Critical path through the open blocking dependencies: the longest chain of
+ * `blocks` edges ending at a target issue. An epic target stands for itself
+ * and all of its descendants. Chains are weighed by `estimated_minutes`; issues
+ * without an estimate add nothing to the effort but still lengthen the chain,
+ * so with no estimates at all the path is the chain with the most issues.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export interface PathCard {
+  id: string;
+  status?: string;
+  issue_type?: string;
+  estimated_minutes?: number | null;
+  blocks?: { id: string }[];
+  blocked_by?: { id: string }[];
+  children?: { id: string }[];
+  parent?: { id: string } | null;
+}
+
+export interface Bottleneck {
+  id: string;
+  /** Open issues it holds up, directly or not, that are not on the path */
+  blocking: number;
+}
+
+export interface CriticalPath {
+  /** From the first issue to start to the target end */
+  ids: string[];
+  /** Sum of the estimates along the path */
+  totalMinutes: number;
+  /** Path issues without an estimate, so missing from totalMinutes */
+  unestimated: string[];
+  /** Path issues that also hold up work off the path, most first */
+  bottlenecks: Bottleneck[];
+}
+
+/** The sidebar names at most this many bottlenecks */
+export const MAX_BOTTLENECKS = 3;
+
+interface Chain {
+  minutes: number;
+  count: number;
+  prev: string | null;
+}
+
+function isOpen(card: PathCard): boolean {
+  return card.status !== 'closed';
+}
+
+function estimate(card: PathCard): number {
+  return card.estimated_minutes && card.estimated_minutes > 0 ? card.estimated_minutes : 0;
+}
+
+function longer(a: Chain, b: Chain | null): boolean {
+  return b === null || a.minutes > b.minutes || (a.minutes === b.minutes && a.count > b.count);
+}
+
+/** blocker -> blocked ids and the reverse, between open cards only */
+function blockingGraph(cards: Map<string, PathCard>): { blocks: Map<string, Set<string>>; blockedBy: Map<string, Set<string>> } {
+  const blocks = new Map<string, Set<string>>();
+  const blockedBy = new Map<string, Set<string>>();
+  const link = (from: string, to: string) => {
+    const source = cards.get(from);
+    const target = cards.get(to);
+    if (from === to || !source || !target || !isOpen(source) || !isOpen(target)) {
+      return;
+    }
+    if (!blocks.has(from)) {
+      blocks.set(from, new Set());
+    }
+    if (!blockedBy.has(to)) {
+      blockedBy.set(to, new Set());
+    }
+    (blocks.get(from) as Set<string>).add(to);
+    (blockedBy.get(to) as Set<string>).add(from);
+  };
+  for (const card of cards.values()) {
+    for (const blocked of card.blocks ?? []) {
+      link(card.id, blocked.id);
+    }
+    for (const blocker of card.blocked_by ?? []) {
+      link(blocker.id, card.id);
+    }
+  }
+  return { blocks, blockedBy };
+}
+
+/** The targets themselves plus every descendant of the epics among them */
+function expandTargets(cards: Map<string, PathCard>, targetIds: Iterable<string>): Set<string> {
+  const childrenOf = new Map<string, Set<string>>();
+  const addChild = (parent: string, child: string) => {
+    if (!childrenOf.has(parent)) {
+      childrenOf.set(parent, new Set());
+    }
+    (childrenOf.get(parent) as Set<string>).add(child);
+  };
+  for (const card of cards.values()) {
+    for (const child of card.children ?? []) {
+      addChild(card.id, child.id);
+    }
+    if (card.parent) {
+      addChild(card.parent.id, card.id);
+    }
+  }
+
+  const targets = new Set<string>();
+  const queue: string[] = [];
+  for (const id of targetIds) {
+    targets.add(id);
+    if (cards.get(id)?.issue_type === 'epic') {
+      queue.push(id);
+    }
+  }
+  while (queue.length > 0) {
+    for (const child of childrenOf.get(queue.shift() as string) ?? []) {
+      if (!targets.has(child)) {
+        targets.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  return targets;
+}
+
+/** Open issues downstream of `id` in the blocking graph */
+function downstream(blocks: Map<string, Set<string>>, id: string): Set<string> {
+  const seen = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    for (const next of blocks.get(queue.shift() as string) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Longest open blocking chain ending at one of `targetIds`, or anywhere when
+ * no target is given. Edges that close a cycle are ignored.
+ * @returns null when no target is an open issue among `cards`
+ */
+export function findCriticalPath(cards: PathCard[], targetIds: Iterable<string> = []): CriticalPath | null {
+  const byId = new Map(cards.map(card => [card.id, card]));
+  const { blocks, blockedBy } = blockingGraph(byId);
+  let targets = expandTargets(byId, targetIds);
+  if (targets.size === 0) {
+    targets = new Set(byId.keys());
+  }
+
+  const chains = new Map<string, Chain>();
+  const visiting = new Set<string>();
+  const chainTo = (id: string): Chain => {
+    const known = chains.get(id);
+    if (known) {
+      return known;
+    }
+    visiting.add(id);
+    let best: Chain | null = null;
+    for (const blocker of blockedBy.get(id) ?? []) {
+      if (visiting.has(blocker)) {
+        continue;
+      }
+      const chain = chainTo(blocker);
+      if (longer({ ...chain, prev: blocker }, best)) {
+        best = { ...chain, prev: blocker };
+      }
+    }
+    visiting.delete(id);
+    const own = estimate(byId.get(id) as PathCard);
+    const chain = best
+      ? { minutes: best.minutes + own, count: best.count + 1, prev: best.prev }
+      : { minutes: own, count: 1, prev: null };
+    chains.set(id, chain);
+    return chain;
+  };
+
+  let end: string | null = null;
+  let endChain: Chain | null = null;
+  for (const id of targets) {
+    const card = byId.get(id);
+    if (!card || !isOpen(card)) {
+      continue;
+    }
+    const chain = chainTo(id);
+    if (longer(chain, endChain)) {
+      end = id;
+      endChain = chain;
+    }
+  }
+  if (end === null || endChain === null) {
+    return null;
+  }
+
+  const ids: string[] = [];
+  for (let id: string | null = end; id !== null; id = (chains.get(id) as Chain).prev) {
+    ids.unshift(id);
+  }
+  const onPath = new Set(ids);
+  const bottlenecks = ids
+    .map(id => ({ id, blocking: [...downstream(blocks, id)].filter(other => !onPath.has(other)).length }))
+    .filter(bottleneck => bottleneck.blocking > 0)
+    .sort((a, b) => b.blocking - a.blocking || estimate(byId.get(b.id) as PathCard) - estimate(byId.get(a.id) as PathCard))
+    .slice(0, MAX_BOTTLENECKS);
+
+  return {
+    ids,
+    totalMinutes: endChain.minutes,
+    unestimated: ids.filter(id => estimate(byId.get(id) as PathCard) === 0),
+    bottlenecks
+  };
+}
+
+/** Effort as shown on estimate badges, e.g. `2h30m`; zero is `0m` */
+export function formatEffort(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours > 0 ? `${hours}h` : ''}${rest > 0 || hours === 0 ? `${rest}m` : ''}`;
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { spawn } from 'child_process';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import {
   BoardData,
   BoardColumn,
@@ -9,16 +11,44 @@ import {
   IssueStatus,
   DependencyInfo,
   Comment,
+  IssueCreateInput,
+  IssueUpdateFields,
+  TableFilters,
+  TableSort,
   ISSUE_ID_PATTERN
 } from './types';
 import { sanitizeError } from './sanitizeError';
+import { BdProcessPool, BdExecResult } from './bdProcessPool';
+import { BeadsAdapter, IssueConflictError } from './beadsAdapter';
+import { IssueEvent } from './issueEvents';
+import { ActivityEntry, activityFromIssues, activitySince } from './activityFeed';
+import { AgentSummary, isAgentIssue, toAgentSummary } from './agentMonitor';
+import { parseBoardQuery, matchesBoardQuery, QueryableCard } from './boardQuery';
+import { ColumnDefinition, DEFAULT_COLUMNS, columnForCard, isDefaultColumns } from './boardColumns';
+
+const execFileAsync = promisify(execFile);
+
+/** Compare timestamps by instant, so "…T10:00:00Z" and "…T10:00:00.000Z" are equal */
+function sameTimestamp(a: string, b: string): boolean {
+  const ta = Date.parse(a);
+  const tb = Date.parse(b);
+  return Number.isNaN(ta) || Number.isNaN(tb) ? a === b : ta === tb;
+}
+
+/** Thrown instead of running bd while the circuit breaker is open */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Circuit breaker is open - too many consecutive failures. System will retry automatically in 1 minute.');
+    this.name = 'CircuitOpenError';
+  }
+}
 
 /**
  * Read a boolean flag that bd 1.0+ stores under issue.metadata.<key>. Falls back
  * to the legacy top-level column for issues written by older bd versions. Accepts
  * true, 1, or the strings "true"/"1" as truthy (bd metadata is stringly-typed).
  */
-function readBoolFromMetadata(issue: Record<string, unknown>, key: string): boolean {
+export function readBoolFromMetadata(issue: Record<string, unknown>, key: string): boolean {
   const metadata = issue.metadata as Record<string, unknown> | undefined;
   const candidate = metadata?.[key] ?? issue[key];
   if (candidate === true || candidate === 1) {return true;}
@@ -29,10 +59,118 @@ function readBoolFromMetadata(issue: Record<string, unknown>, key: string): bool
   return false;
 }
 
+/**
+ * Parent issue id of a `bd list --json` row: the `parent` field when bd provides it,
+ * otherwise the parent-child entry of an inline `dependencies` array.
+ */
+export function readParentId(issue: Record<string, unknown>): string | null {
+  if (typeof issue.parent === 'string' && issue.parent) {
+    return issue.parent;
+  }
+  if (Array.isArray(issue.dependencies)) {
+    for (const d of issue.dependencies) {
+      const dep = d as Record<string, unknown>;
+      const type = dep.dependency_type ?? dep.type;
+      const target = dep.depends_on_id ?? dep.id;
+      if (type === 'parent-child' && typeof target === 'string' && target !== issue.id) {
+        return target;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Issues blocking a `bd list --json` row, from its inline `dependencies` array,
+ * with their status when bd includes it (`bd show` embeds the blocker itself).
+ */
+function readBlockers(issue: Record<string, unknown>): Array<{ id: string; status?: string }> {
+  const blockers: Array<{ id: string; status?: string }> = [];
+  for (const d of Array.isArray(issue.dependencies) ? issue.dependencies : []) {
+    const dep = d as Record<string, unknown>;
+    const type = dep.dependency_type ?? dep.type;
+    const target = dep.depends_on_id ?? dep.id;
+    if (type === 'blocks' && typeof target === 'string' && target !== issue.id) {
+      blockers.push({ id: target, status: typeof dep.status === 'string' ? dep.status : undefined });
+    }
+  }
+  return blockers;
+}
+
+/** Fields of a `bd list --json` row used for table filtering and sorting */
+interface TableListRow extends QueryableCard {
+  [key: string]: unknown;
+}
+
+/** Table column id -> `bd list --sort` field */
+const BD_LIST_SORT_FIELDS: Record<string, string> = {
+  id: 'id',
+  title: 'title',
+  status: 'status',
+  priority: 'priority',
+  type: 'type',
+  assignee: 'assignee',
+  created: 'created',
+  updated: 'updated',
+  closed: 'closed'
+};
+
+/** Sort fields bd orders newest-first; all others ascending. `--reverse` flips either. */
+const BD_LIST_DESC_BY_DEFAULT = new Set(['created', 'updated', 'closed']);
+
+function timestamp(value: string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+/**
+ * Compare two table rows by every sort spec in turn, falling back to updated_at desc.
+ */
+function compareTableRows(a: TableListRow, b: TableListRow, sorting: TableSort[]): number {
+  for (const sortSpec of sorting) {
+    let cmp = 0;
+
+    switch (sortSpec.id) {
+      case 'id':
+        cmp = a.id.localeCompare(b.id);
+        break;
+      case 'title':
+        cmp = (a.title || '').localeCompare(b.title || '');
+        break;
+      case 'status':
+        cmp = (a.status || '').localeCompare(b.status || '');
+        break;
+      case 'priority':
+        cmp = (a.priority ?? 2) - (b.priority ?? 2);
+        break;
+      case 'type':
+        cmp = (a.issue_type || '').localeCompare(b.issue_type || '');
+        break;
+      case 'assignee':
+        cmp = (a.assignee || '').localeCompare(b.assignee || '');
+        break;
+      case 'created':
+        cmp = timestamp(a.created_at) - timestamp(b.created_at);
+        break;
+      case 'closed':
+        cmp = timestamp(a.closed_at) - timestamp(b.closed_at);
+        break;
+      default:
+        // 'updated' and unknown ids
+        cmp = timestamp(a.updated_at) - timestamp(b.updated_at);
+    }
+
+    if (cmp !== 0) {
+      return sortSpec.dir === 'desc' ? -cmp : cmp;
+    }
+  }
+
+  return timestamp(b.updated_at) - timestamp(a.updated_at);
+}
+
 /**
  * BeadsAdapter that shells out to the bd CLI for all issue operations.
  */
-export class DaemonBeadsAdapter {
+export class DaemonBeadsAdapter implements BeadsAdapter {
   private workspaceRoot: string;
   private output: vscode.OutputChannel;
   private lastMutationTime: number = 0;
@@ -55,9 +193,26 @@ export class DaemonBeadsAdapter {
   private readonly COLUMN_CACHE_TTL_MS = 30000; // 30 seconds
   private readonly COLUMN_CACHE_MAX_SIZE = 1000; // Max items to cache per column
 
+  // Configured board columns; anything but the defaults is matched in memory
+  private columns: ColumnDefinition[] = DEFAULT_COLUMNS;
+
+  // Bounds how many bd processes all commands together run at once
+  private processPool: BdProcessPool;
+
+  // Actor name for `assignee:me`, resolved lazily
+  private actorPromise: Promise<string | null> | null = null;
+
   constructor(workspaceRoot: string, output: vscode.OutputChannel) {
     this.workspaceRoot = workspaceRoot;
     this.output = output;
+
+    const config = vscode.workspace.getConfiguration('beadsKanban');
+    this.processPool = new BdProcessPool({
+      command: () => this.getBdCommand(),
+      cwd: () => this.workspaceRoot,
+      log: (line) => this.output.appendLine(`[DaemonBeadsAdapter] ${line}`),
+      maxConcurrent: config.get<number>('processPoolSize', 4)
+    });
   }
 
   /**
@@ -161,6 +316,16 @@ export class DaemonBeadsAdapter {
     return false;
   }
 
+  /**
+   * Fail a write fast while the circuit is open rather than queueing it behind
+   * a bd that keeps failing, so the webview can roll back its optimistic change.
+   */
+  private assertCircuitClosed(): void {
+    if (this.isCircuitOpen()) {
+      throw new CircuitOpenError();
+    }
+  }
+
   /**
    * Record a successful batch operation.
    * Closes the circuit if in HALF_OPEN state, resets failure counter.
@@ -274,116 +439,52 @@ export class DaemonBeadsAdapter {
   }
 
   /**
-   * Execute a bd CLI command and return parsed JSON output
+   * Execute a bd CLI command on the shared session pool and return parsed JSON output
    * @param args Command arguments to pass to bd (will be sanitized)
-   * @param timeoutMs Timeout in milliseconds (default: 30000ms = 30s)
+   * @param timeoutMs Timeout in milliseconds, including time spent queued for a session (default: 30000ms = 30s)
    */
   private async execBd(args: string[], timeoutMs: number = 30000): Promise<unknown> {
     // Sanitize all arguments before passing to CLI
     const sanitizedArgs = args.map(arg => this.sanitizeCliArg(arg));
-    const bdCmd = this.getBdCommand();
-    return new Promise((resolve, reject) => {
-      const command = `${bdCmd} ${sanitizedArgs.join(' ')}`;
-      const child = spawn(bdCmd, sanitizedArgs, {
-        cwd: this.workspaceRoot,
-        shell: false
-      });
-
-      let stdout = '';
-      let stderr = '';
-      let killed = false;
-
-      // Buffer size limit: 50MB to handle large bd list queries
-      // Note: bd list --limit 10000 can produce ~8-12MB of JSON output
-      // With default initialLoadLimit of 100, we use ~100KB
-      const MAX_BUFFER_SIZE = 50 * 1024 * 1024;
-
-      // Set up timeout
-      const timeoutHandle = setTimeout(() => {
-        if (!killed) {
-          killed = true;
-          child.kill('SIGTERM');
-          this.output.appendLine(`[DaemonBeadsAdapter] Command timed out after ${timeoutMs}ms: ${command}`);
-          reject(new Error(`Command timed out after ${timeoutMs}ms: ${command}`));
-        }
-      }, timeoutMs);
-
-      child.stdout.on('data', (data) => {
-        // Check buffer size limit BEFORE concatenation to prevent memory spikes
-        // If data arrives in large chunks (e.g., 15MB), checking after would temporarily exceed limit
-        const dataStr = data.toString();
-        if (stdout.length + dataStr.length > MAX_BUFFER_SIZE) {
-          if (!killed) {
-            killed = true;
-            clearTimeout(timeoutHandle);
-            child.kill('SIGTERM');
-            this.output.appendLine(`[DaemonBeadsAdapter] Command exceeded buffer limit (${MAX_BUFFER_SIZE} bytes): ${command}`);
-            reject(new Error(`Command output exceeded ${MAX_BUFFER_SIZE} bytes limit`));
-          }
-          return; // Don't append the data
-        }
-        stdout += dataStr;
-      });
-
-      child.stderr.on('data', (data) => {
-        // Check buffer size limit BEFORE concatenation to prevent memory spikes
-        const dataStr = data.toString();
-        if (stderr.length + dataStr.length > MAX_BUFFER_SIZE) {
-          if (!killed) {
-            killed = true;
-            clearTimeout(timeoutHandle);
-            child.kill('SIGTERM');
-            this.output.appendLine(`[DaemonBeadsAdapter] Command error output exceeded buffer limit: ${command}`);
-            reject(new Error(`Command error output exceeded ${MAX_BUFFER_SIZE} bytes limit`));
-          }
-          return; // Don't append the data
-        }
-        stderr += dataStr;
-      });
+    const command = `${this.getBdCommand()} ${sanitizedArgs.join(' ')}`;
 
-      child.on('error', (error) => {
-        if (!killed) {
-          killed = true;
-          clearTimeout(timeoutHandle);
-          this.output.appendLine(`[DaemonBeadsAdapter] Command error: ${error.message}`);
-          this.output.appendLine(`[DaemonBeadsAdapter] Command context: ${command} (cwd: ${this.workspaceRoot})`);
-          this.output.appendLine(`[DaemonBeadsAdapter] PATH: ${process.env.PATH ?? ''}`);
-          this.output.appendLine(`[DaemonBeadsAdapter] PATHEXT: ${process.env.PATHEXT ?? ''}`);
-          reject(error);
-        }
-      });
+    let result: BdExecResult;
+    try {
+      result = await this.processPool.exec(sanitizedArgs, timeoutMs);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.output.appendLine(`[DaemonBeadsAdapter] Command error: ${message}`);
+      this.output.appendLine(`[DaemonBeadsAdapter] Command context: ${command} (cwd: ${this.workspaceRoot})`);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.output.appendLine(`[DaemonBeadsAdapter] PATH: ${process.env.PATH ?? ''}`);
+        this.output.appendLine(`[DaemonBeadsAdapter] PATHEXT: ${process.env.PATHEXT ?? ''}`);
+      }
+      throw error;
+    }
 
-      child.on('close', (code) => {
-        if (!killed) {
-          clearTimeout(timeoutHandle);
+    const { code, stdout, stderr } = result;
+    if (code === 0) {
+      const trimmed = stdout.trim();
+      if (!trimmed) {
+        // No output - success for mutation commands
+        return null;
+      }
 
-          if (code === 0) {
-            const trimmed = stdout.trim();
-            if (!trimmed) {
-              // No output - success for mutation commands
-              resolve(null);
-              return;
-            }
+      try {
+        // Try parsing as JSON (for query commands like list/show)
+        return JSON.parse(trimmed);
+      } catch {
+        // Not JSON - likely a friendly message from mutation commands
+        // This is fine, just return null to indicate success
+        this.output.appendLine(`[DaemonBeadsAdapter] Non-JSON output: ${trimmed}`);
+        return null;
+      }
+    }
 
-            try {
-              // Try parsing as JSON (for query commands like list/show)
-              const result = JSON.parse(trimmed);
-              resolve(result);
-            } catch {
-              // Not JSON - likely a friendly message from mutation commands
-              // This is fine, just return null to indicate success
-              this.output.appendLine(`[DaemonBeadsAdapter] Non-JSON output: ${trimmed}`);
-              resolve(null);
-            }
-          } else {
-            this.output.appendLine(`[DaemonBeadsAdapter] Command context: ${command} (cwd: ${this.workspaceRoot})`);
-            this.output.appendLine(`[DaemonBeadsAdapter] Command failed (exit ${code}): ${stderr || stdout}`);
-            const sanitizedOutput = sanitizeError(stderr || stdout);
-            reject(new Error(`bd command failed with exit code ${code}: ${sanitizedOutput}`));
-          }
-        }
-      });
-    });
+    this.output.appendLine(`[DaemonBeadsAdapter] Command context: ${command} (cwd: ${this.workspaceRoot})`);
+    this.output.appendLine(`[DaemonBeadsAdapter] Command failed (exit ${code}): ${stderr || stdout}`);
+    const sanitizedOutput = sanitizeError(stderr || stdout);
+    throw new Error(`bd command failed with exit code ${code}: ${sanitizedOutput}`);
   }
 
   /**
@@ -452,6 +553,40 @@ export class DaemonBeadsAdapter {
     return isRecent;
   }
 
+  /**
+   * Resolve the actor name the way bd does: BD_ACTOR, then BEADS_ACTOR, then
+   * `git config user.name`, then the OS user. Cached per workspace root.
+   */
+  public async getActor(): Promise<string | null> {
+    if (this.actorPromise) {
+      return this.actorPromise;
+    }
+
+    this.actorPromise = (async () => {
+      const fromEnv = process.env.BD_ACTOR || process.env.BEADS_ACTOR;
+      if (fromEnv) {
+        return fromEnv;
+      }
+      try {
+        const { stdout } = await execFileAsync('git', ['config', 'user.name'], { cwd: this.workspaceRoot, timeout: 5000 });
+        if (stdout.trim()) {
+          return stdout.trim();
+        }
+      } catch {
+        // Not a git repository or git not installed
+      }
+      try {
+        return os.userInfo().username || null;
+      } catch {
+        return null;
+      }
+    })();
+
+    const actor = await this.actorPromise;
+    this.output.appendLine(`[DaemonBeadsAdapter] Resolved actor: ${actor ?? '(unknown)'}`);
+    return actor;
+  }
+
   /**
    * Get board data from bd daemon
    */
@@ -470,12 +605,7 @@ export class DaemonBeadsAdapter {
       if (!Array.isArray(basicIssues) || basicIssues.length === 0) {
         // Return empty board if no issues
         const emptyBoard: BoardData = {
-          columns: [
-            { key: 'ready', title: 'Ready' },
-            { key: 'in_progress', title: 'In Progress' },
-            { key: 'blocked', title: 'Blocked' },
-            { key: 'closed', title: 'Closed' }
-          ],
+          columns: this.getBoardColumns(),
           cards: []
         };
         return emptyBoard;
@@ -521,7 +651,7 @@ export class DaemonBeadsAdapter {
           // Check circuit breaker before retrying
           if (this.isCircuitOpen()) {
             this.recordCircuitFailure();
-            throw new Error('Circuit breaker is open - too many consecutive failures. System will retry automatically in 1 minute.');
+            throw new CircuitOpenError();
           }
 
           // If batch fails (likely due to missing/invalid ID), try each issue individually
@@ -612,7 +742,16 @@ export class DaemonBeadsAdapter {
           external_ref: (i.external_ref as string | null) || null,
           pinned: readBoolFromMetadata(i, 'pinned'),
           blocked_by_count: (i.blocked_by_count as number) || 0,
-          is_ready: i.status === 'open' && ((i.blocked_by_count as number) || 0) === 0
+          is_ready: i.status === 'open' && ((i.blocked_by_count as number) || 0) === 0,
+          due_at: (i.due_at as string | null) || null,
+          defer_until: (i.defer_until as string | null) || null,
+          parent_id: readParentId(i),
+          agent_state: (i.agent_state as string | null) || null,
+          await_type: (i.await_type as string | null) || null,
+          await_id: (i.await_id as string | null) || null,
+          timeout_ns: (i.timeout_ns as number | null) || null,
+          waiters: (i.waiters as string | null) || null,
+          ephemeral: i.ephemeral === true || i.ephemeral === 1
         };
       });
 
@@ -859,15 +998,134 @@ export class DaemonBeadsAdapter {
    * Get board metadata (columns only, no cards) for incremental loading
    */
   public async getBoardMetadata(): Promise<BoardData> {
-    const columns: BoardColumn[] = [
-      { key: 'ready', title: 'Ready' },
-      { key: 'in_progress', title: 'In Progress' },
-      { key: 'blocked', title: 'Blocked' },
-      { key: 'closed', title: 'Closed' }
-    ];
-
     // Return only columns, no cards - cards will be loaded via getColumnData
-    return { columns, cards: [] };
+    return { columns: this.getBoardColumns(), cards: [] };
+  }
+
+  public setColumns(columns: ColumnDefinition[]): void {
+    if (JSON.stringify(columns) !== JSON.stringify(this.columns)) {
+      this.columns = columns;
+      this.columnDataCache.clear();
+    }
+  }
+
+  private getBoardColumns(): BoardColumn[] {
+    return this.columns.map(column => ({ key: column.key, title: column.title }));
+  }
+
+  /**
+   * All issues in a custom column, in board order (priority, then most recently updated).
+   * bd has no query for arbitrary column predicates, so every issue is listed and matched.
+   */
+  private async listCustomColumnIssues(column: string): Promise<unknown[]> {
+    if (!this.columns.some(c => c.key === column)) {
+      throw new Error(`Unknown column: ${column}`);
+    }
+    const result = await this.execBd(['list', '--json', '--all', '--limit', '0']);
+    const issues = (Array.isArray(result) ? result : []) as Record<string, unknown>[];
+    return issues
+      .filter(issue => columnForCard({
+        status: (issue.status as string) || 'open',
+        is_ready: issue.status === 'open' && ((issue.blocked_by_count as number) || 0) === 0,
+        labels: Array.isArray(issue.labels) ? issue.labels as string[] : [],
+        assignee: (issue.assignee as string | null) || null,
+        agent_state: (issue.agent_state as string | null) || null
+      }, this.columns) === column)
+      .sort((a, b) =>
+        ((a.priority as number) ?? 2) - ((b.priority as number) ?? 2)
+        || String(b.updated_at ?? '').localeCompare(String(a.updated_at ?? ''))
+      );
+  }
+
+  /**
+   * Issue history as far as bd reports it. bd has no command that prints the
+   * event log, so the history is rebuilt from `bd show`: creation, comments and
+   * closing, each marked `rebuilt` so the History tab says it is partial.
+   * Field-level diffs need the event log, which DirectQueryBeadsAdapter reads
+   * from the database.
+   */
+  public async getIssueHistory(issueId: string): Promise<IssueEvent[]> {
+    this.validateIssueId(issueId);
+    this.trackInteraction();
+    const result = await this.execBd(['show', '--json', issueId]);
+    if (!Array.isArray(result) || result.length === 0) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+    const issue = result[0] as Record<string, unknown>;
+    const events: IssueEvent[] = [];
+
+    if (typeof issue.created_at === 'string') {
+      events.push({
+        id: `${issueId}-created`,
+        kind: 'created',
+        actor: (issue.created_by as string) || 'unknown',
+        created_at: issue.created_at,
+        changes: [],
+        comment: null,
+        rebuilt: true
+      });
+    }
+    for (const c of Array.isArray(issue.comments) ? issue.comments : []) {
+      const comment = c as Record<string, unknown>;
+      events.push({
+        id: `${issueId}-comment-${String(comment.id)}`,
+        kind: 'commented',
+        actor: (comment.author as string) || 'unknown',
+        created_at: String(comment.created_at ?? ''),
+        changes: [],
+        comment: (comment.text as string) || null,
+        rebuilt: true
+      });
+    }
+    if (typeof issue.closed_at === 'string' && issue.closed_at) {
+      events.push({
+        id: `${issueId}-closed`,
+        kind: 'closed',
+        actor: (issue.closed_by as string) || 'unknown',
+        created_at: issue.closed_at,
+        changes: [],
+        comment: (issue.close_reason as string) || null,
+        rebuilt: true
+      });
+    }
+    return events.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Repository activity rebuilt from `bd list` (see activityFromIssues): the
+   * event log is only readable through DirectQueryBeadsAdapter. With `since`,
+   * only issues updated after it are listed; creating and closing an issue both
+   * bump updated_at, so none of its newer entries are missed.
+   */
+  public async getActivity(since?: string): Promise<ActivityEntry[]> {
+    this.trackInteraction();
+    const args = ['list', '--json', '--all', '--limit', '0'];
+    const sinceTime = since ? Date.parse(since) : NaN;
+    if (!Number.isNaN(sinceTime)) {
+      // Millisecond precision only widens the window; activitySince drops the overlap
+      args.push(`--updated-after=${new Date(sinceTime).toISOString()}`);
+    }
+    const issues = await this.execBd(args);
+    if (!Array.isArray(issues)) {
+      this.output.appendLine('[DaemonBeadsAdapter] getActivity: bd list returned non-array');
+      return [];
+    }
+    return activitySince(activityFromIssues(issues as Record<string, unknown>[]), since);
+  }
+
+  /**
+   * Agent beads from `bd list`; hooked issue titles come from the same listing.
+   */
+  public async getAgents(): Promise<AgentSummary[]> {
+    this.trackInteraction();
+    const result = await this.execBd(['list', '--json', '--all', '--limit', '0']);
+    if (!Array.isArray(result)) {
+      this.output.appendLine('[DaemonBeadsAdapter] getAgents: bd list returned non-array');
+      return [];
+    }
+    const issues = result as Record<string, unknown>[];
+    const titles = new Map(issues.map(issue => [String(issue.id), String(issue.title ?? '')]));
+    return issues.filter(isAgentIssue).map(issue => toAgentSummary(issue, titles));
   }
 
   /**
@@ -913,6 +1171,10 @@ export class DaemonBeadsAdapter {
    * Uses bd stats for O(1) performance instead of loading all issues.
    */
   public async getColumnCount(column: string): Promise<number> {
+    if (!isDefaultColumns(this.columns)) {
+      this.trackInteraction();
+      return (await this.listCustomColumnIssues(column)).length;
+    }
     try {
       this.trackInteraction();
       // Use bd stats --json for instant counts (no issue loading required)
@@ -1032,49 +1294,9 @@ export class DaemonBeadsAdapter {
 
       this.output.appendLine(`[DaemonBeadsAdapter] Cache miss for ${column}, fetching ${fetchLimit} items (offset=${offset}, limit=${limit})`);
 
-      let basicIssues: unknown[];
-
-      switch (column) {
-        case 'ready': {
-          // Use bd ready - it returns issues with no blockers
-          // WORKAROUND: bd ready doesn't support --offset, so we fetch a large chunk and cache it
-          // This eliminates the O(N) performance issue for subsequent page requests
-          const readyResult = await this.execBd(['ready', '--json', '--limit', String(fetchLimit)]);
-          basicIssues = Array.isArray(readyResult) ? readyResult : [];
-          break;
-        }
-
-        case 'in_progress': {
-          // Use bd list with status filter
-          const inProgressResult = await this.execBd(['list', '--status=in_progress', '--json', '--limit', String(fetchLimit)]);
-          basicIssues = Array.isArray(inProgressResult) ? inProgressResult : [];
-          break;
-        }
-
-        case 'blocked': {
-          // Use bd list --status=blocked for efficient pagination
-          const blockedResult = await this.execBd(['list', '--status=blocked', '--json', '--limit', String(fetchLimit)]);
-          basicIssues = Array.isArray(blockedResult) ? blockedResult : [];
-          break;
-        }
-
-        case 'closed': {
-          // Use bd list with status filter (supports --limit)
-          const closedResult = await this.execBd(['list', '--status=closed', '--json', '--limit', String(fetchLimit)]);
-          basicIssues = Array.isArray(closedResult) ? closedResult : [];
-          break;
-        }
-
-        case 'open': {
-          // Use bd list with status filter (supports --limit)
-          const openResult = await this.execBd(['list', '--status=open', '--json', '--limit', String(fetchLimit)]);
-          basicIssues = Array.isArray(openResult) ? openResult : [];
-          break;
-        }
-
-        default:
-          throw new Error(`Unknown column: ${column}`);
-      }
+      const basicIssues = isDefaultColumns(this.columns)
+        ? await this.fetchDefaultColumn(column, fetchLimit)
+        : await this.listCustomColumnIssues(column);
 
       // Cache the fetched data for future requests
       this.columnDataCache.set(column, {
@@ -1097,6 +1319,46 @@ export class DaemonBeadsAdapter {
     }
   }
 
+  /** Issues in one of the default columns, using bd's native status and readiness queries */
+  private async fetchDefaultColumn(column: string, fetchLimit: number): Promise<unknown[]> {
+    switch (column) {
+      case 'ready': {
+        // Use bd ready - it returns issues with no blockers
+        // WORKAROUND: bd ready doesn't support --offset, so we fetch a large chunk and cache it
+        // This eliminates the O(N) performance issue for subsequent page requests
+        const readyResult = await this.execBd(['ready', '--json', '--limit', String(fetchLimit)]);
+        return Array.isArray(readyResult) ? readyResult : [];
+      }
+
+      case 'in_progress': {
+        // Use bd list with status filter
+        const inProgressResult = await this.execBd(['list', '--status=in_progress', '--json', '--limit', String(fetchLimit)]);
+        return Array.isArray(inProgressResult) ? inProgressResult : [];
+      }
+
+      case 'blocked': {
+        // Use bd list --status=blocked for efficient pagination
+        const blockedResult = await this.execBd(['list', '--status=blocked', '--json', '--limit', String(fetchLimit)]);
+        return Array.isArray(blockedResult) ? blockedResult : [];
+      }
+
+      case 'closed': {
+        // Use bd list with status filter (supports --limit)
+        const closedResult = await this.execBd(['list', '--status=closed', '--json', '--limit', String(fetchLimit)]);
+        return Array.isArray(closedResult) ? closedResult : [];
+      }
+
+      case 'open': {
+        // Use bd list with status filter (supports --limit)
+        const openResult = await this.execBd(['list', '--status=open', '--json', '--limit', String(fetchLimit)]);
+        return Array.isArray(openResult) ? openResult : [];
+      }
+
+      default:
+        throw new Error(`Unknown column: ${column}`);
+    }
+  }
+
   /**
    * Helper method to enrich basic issue data with full details.
    * Used by getColumnData to fetch complete issue information.
@@ -1125,7 +1387,7 @@ export class DaemonBeadsAdapter {
         // Check circuit breaker before retrying
         if (this.isCircuitOpen()) {
           this.recordCircuitFailure();
-          throw new Error('Circuit breaker is open - too many consecutive failures. System will retry automatically in 1 minute.');
+          throw new CircuitOpenError();
         }
 
         // If batch fails, try each issue individually
@@ -1168,183 +1430,177 @@ export class DaemonBeadsAdapter {
     return boardData.cards || [];
   }
 
-    /**
-     * Get paginated table data with server-side filtering and sorting.
-     * For daemon adapter, we fetch and filter in memory but on the server side.
-     * 
-     * @param filters Object containing filter criteria
-     * @param sorting Array of { id: string, dir: 'asc'|'desc' } for sorting
-     * @param offset Starting row index (0-based)
-     * @param limit Number of rows to return
-     * @returns Object containing filtered/sorted cards and total count
-     */
-    public async getTableData(
-        filters: {
-            search?: string;
-            priority?: string;
-            type?: string;
-            status?: string;
-            assignee?: string;
-            labels?: string[];
-        },
-        sorting: Array<{ id: string; dir: 'asc' | 'desc' }>,
-        offset: number,
-        limit: number
-    ): Promise<{ cards: BoardCard[]; totalCount: number }> {
-        await this.ensureConnected();
-        this.trackInteraction();
-
-        this.output.appendLine(`[DaemonBeadsAdapter] getTableData: offset=${offset}, limit=${limit}, filters=${JSON.stringify(filters)}, sorting=${JSON.stringify(sorting)}`);
-
-        // Get all issues from board (uses cache if available)
-        const board = await this.getBoard();
-        let allCards = board.cards || [];
-
-        this.output.appendLine(`[DaemonBeadsAdapter] Fetched ${allCards.length} total cards from board`);
-
-        // Apply filters
-        if (filters.search || filters.priority || filters.type || filters.status || filters.assignee || filters.labels) {
-            allCards = allCards.filter(card => {
-                // Search filter
-                if (filters.search) {
-                    const searchLower = filters.search.toLowerCase();
-                    const matchesSearch = 
-                        card.title.toLowerCase().includes(searchLower) ||
-                        card.id.toLowerCase().includes(searchLower) ||
-                        (card.description && card.description.toLowerCase().includes(searchLower));
-                    if (!matchesSearch) {return false;}
-                }
-
-                // Priority filter
-                if (filters.priority && String(card.priority) !== filters.priority) {
-                    return false;
-                }
-
-                // Type filter
-                if (filters.type && card.issue_type !== filters.type) {
-                    return false;
-                }
-
-                // Status filter
-                if (filters.status) {
-                    if (filters.status === 'not_closed') {
-                        if (card.status === 'closed') {return false;}
-                    } else if (filters.status === 'active') {
-                        if (card.status !== 'in_progress' && card.status !== 'open') {return false;}
-                    } else if (filters.status === 'blocked') {
-                        if (card.status !== 'blocked') {return false;}
-                    } else if (filters.status !== 'all') {
-                        if (card.status !== filters.status) {return false;}
-                    }
-                }
-
-                // Assignee filter
-                if (filters.assignee) {
-                    if (filters.assignee === 'unassigned') {
-                        if (card.assignee) {return false;}
-                    } else {
-                        if (card.assignee !== filters.assignee) {return false;}
-                    }
-                }
-
-                // Labels filter (must have ALL specified labels)
-                if (filters.labels && filters.labels.length > 0) {
-                    if (!card.labels || card.labels.length === 0) {return false;}
-                    const hasAllLabels = filters.labels.every(label => 
-                        card.labels.includes(label)
-                    );
-                    if (!hasAllLabels) {return false;}
-                }
-
-                return true;
-            });
+  /**
+   * Get paginated table data with server-side filtering and sorting.
+   * Filters and the primary sort key are pushed down to `bd list` flags, so only the
+   * matching rows are listed (no maxIssues cap) and only the requested page is enriched
+   * with `bd show`. Free-text search, compound statuses and search box queries have no
+   * bd list flag and are applied to the listed rows instead.
+   *
+   * @param filters Object containing filter criteria
+   * @param sorting Array of { id: string, dir: 'asc'|'desc' } for sorting
+   * @param offset Starting row index (0-based)
+   * @param limit Number of rows to return
+   * @returns Object containing filtered/sorted cards and total count
+   */
+  public async getTableData(
+    filters: TableFilters,
+    sorting: TableSort[],
+    offset: number,
+    limit: number
+  ): Promise<{ cards: BoardCard[]; totalCount: number }> {
+    this.trackInteraction();
 
-            this.output.appendLine(`[DaemonBeadsAdapter] After filtering: ${allCards.length} cards`);
-        }
+    this.output.appendLine(`[DaemonBeadsAdapter] getTableData: offset=${offset}, limit=${limit}, filters=${JSON.stringify(filters)}, sorting=${JSON.stringify(sorting)}`);
 
-        // Apply sorting
-        if (sorting && sorting.length > 0) {
-            allCards.sort((a, b) => {
-                for (const sortSpec of sorting) {
-                    let cmp = 0;
-                    
-                    switch (sortSpec.id) {
-                        case 'id':
-                            cmp = a.id.localeCompare(b.id);
-                            break;
-                        case 'title':
-                            cmp = a.title.localeCompare(b.title);
-                            break;
-                        case 'status':
-                            cmp = a.status.localeCompare(b.status);
-                            break;
-                        case 'priority':
-                            cmp = a.priority - b.priority;
-                            break;
-                        case 'type':
-                            cmp = a.issue_type.localeCompare(b.issue_type);
-                            break;
-                        case 'assignee': {
-                            const aAssignee = a.assignee || '';
-                            const bAssignee = b.assignee || '';
-                            cmp = aAssignee.localeCompare(bAssignee);
-                            break;
-                        }
-                        case 'created': {
-                            const aCreated = new Date(a.created_at).getTime();
-                            const bCreated = new Date(b.created_at).getTime();
-                            cmp = aCreated - bCreated;
-                            break;
-                        }
-                        case 'updated': {
-                            const aUpdated = a.updated_at ? new Date(a.updated_at).getTime() : 0;
-                            const bUpdated = b.updated_at ? new Date(b.updated_at).getTime() : 0;
-                            cmp = aUpdated - bUpdated;
-                            break;
-                        }
-                        case 'closed': {
-                            const aClosed = a.closed_at ? new Date(a.closed_at).getTime() : 0;
-                            const bClosed = b.closed_at ? new Date(b.closed_at).getTime() : 0;
-                            cmp = aClosed - bClosed;
-                            break;
-                        }
-                        default: {
-                            // Fallback to updated_at
-                            const aTime = a.updated_at ? new Date(a.updated_at).getTime() : 0;
-                            const bTime = b.updated_at ? new Date(b.updated_at).getTime() : 0;
-                            cmp = aTime - bTime;
-                        }
-                    }
-
-                    if (cmp !== 0) {
-                        return sortSpec.dir === 'desc' ? -cmp : cmp;
-                    }
-                }
-
-                // Fallback: sort by updated_at desc
-                const aTime = a.updated_at ? new Date(a.updated_at).getTime() : 0;
-                const bTime = b.updated_at ? new Date(b.updated_at).getTime() : 0;
-                return bTime - aTime;
-            });
-        } else {
-            // Default sort: updated_at desc
-            allCards.sort((a, b) => {
-                const aTime = a.updated_at ? new Date(a.updated_at).getTime() : 0;
-                const bTime = b.updated_at ? new Date(b.updated_at).getTime() : 0;
-                return bTime - aTime;
-            });
-        }
+    const parsedQuery = parseBoardQuery(filters.query || '');
+    if (parsedQuery.errors.length > 0) {
+      throw new Error(`Invalid query: ${parsedQuery.errors[0].message}`);
+    }
 
-        const totalCount = allCards.length;
+    const args = this.buildTableListArgs(filters, sorting);
+    if (!args) {
+      // Filter value bd can never match (e.g. non-numeric priority)
+      return { cards: [], totalCount: 0 };
+    }
+
+    const listResult = await this.execBd(args);
+    let rows = (Array.isArray(listResult) ? listResult : []) as TableListRow[];
 
-        // Apply pagination
-        const paginatedCards = allCards.slice(offset, offset + limit);
+    this.output.appendLine(`[DaemonBeadsAdapter] bd list returned ${rows.length} matching rows`);
 
-        this.output.appendLine(`[DaemonBeadsAdapter] Returning ${paginatedCards.length} cards (page ${Math.floor(offset / limit) + 1}, total: ${totalCount})`);
+    // Search matches title OR id OR description; bd list only has per-field AND filters
+    if (filters.search) {
+      const searchLower = filters.search.toLowerCase();
+      rows = rows.filter(row =>
+        (row.title || '').toLowerCase().includes(searchLower) ||
+        row.id.toLowerCase().includes(searchLower) ||
+        (row.description || '').toLowerCase().includes(searchLower)
+      );
+    }
+
+    // Compound statuses: bd list already excluded closed issues, narrow further here
+    if (filters.status === 'not_closed') {
+      rows = rows.filter(row => row.status !== 'closed');
+    } else if (filters.status === 'active') {
+      rows = rows.filter(row => row.status === 'open' || row.status === 'in_progress');
+    }
+
+    if (parsedQuery.query.terms.length > 0) {
+      if (parsedQuery.query.terms.some(term => term.kind === 'is' && (term.value === 'blocked' || term.value === 'ready'))) {
+        rows = await this.withBlockedByCounts(rows);
+      }
+      const context = { me: await this.getActor() };
+      rows = rows.filter(row => matchesBoardQuery(parsedQuery.query, {
+        ...row,
+        pinned: readBoolFromMetadata(row, 'pinned'),
+        is_template: readBoolFromMetadata(row, 'template')
+      }, context));
+    }
+
+    // bd sorts by one key; secondary keys need a full (stable) in-memory pass
+    if (sorting.length > 1) {
+      rows.sort((a, b) => compareTableRows(a, b, sorting));
+    }
 
-        return { cards: paginatedCards, totalCount };
+    const totalCount = rows.length;
+    const page = rows.slice(offset, offset + limit);
+    if (page.length === 0) {
+      return { cards: [], totalCount };
     }
 
+    // bd show may return issues in any order; keep the sorted page order
+    const enriched = await this.enrichColumnIssues(page);
+    const byId = new Map(enriched.map(card => [card.id, card]));
+    const cards = page
+      .map(row => byId.get(row.id))
+      .filter((card): card is BoardCard => card !== undefined);
+
+    this.output.appendLine(`[DaemonBeadsAdapter] Returning ${cards.length} cards (page ${Math.floor(offset / limit) + 1}, total: ${totalCount})`);
+
+    return { cards, totalCount };
+  }
+
+  /**
+   * Rows with `blocked_by_count` filled in where bd listed them without it, so `is:blocked` and
+   * `is:ready` match what the board shows: blocking dependencies on issues that
+   * are not closed. Blocker statuses the rows do not carry (e.g. filtered out of
+   * the listing) come from one extra `bd list --all`.
+   */
+  private async withBlockedByCounts(rows: TableListRow[]): Promise<TableListRow[]> {
+    const missing = rows.filter(row => typeof row.blocked_by_count !== 'number');
+    if (missing.length === 0) {
+      return rows;
+    }
+    const statuses = new Map<string, string | undefined>(rows.map(row => [row.id, row.status]));
+    const blockers = new Map(missing.map(row => [row, readBlockers(row)]));
+    const unresolved = [...blockers.values()].some(list => list.some(b => !b.status && !statuses.has(b.id)));
+    if (unresolved) {
+      const all = await this.execBd(['list', '--json', '--all', '--limit', '0']);
+      for (const issue of (Array.isArray(all) ? all : []) as TableListRow[]) {
+        statuses.set(issue.id, issue.status);
+      }
+    }
+    return rows.map(row => {
+      const list = blockers.get(row);
+      if (!list) {
+        return row;
+      }
+      // A blocker bd no longer lists (deleted) does not block
+      const count = list.filter(b => {
+        const status = b.status ?? statuses.get(b.id);
+        return status !== undefined && status !== 'closed';
+      }).length;
+      return { ...row, blocked_by_count: count };
+    });
+  }
+
+  /**
+   * Translate table filters and sorting into `bd list` arguments.
+   * Values are passed as `--flag=value` so user input can never be parsed as a flag.
+   * @returns null if the filters cannot match any issue
+   */
+  private buildTableListArgs(filters: TableFilters, sorting: TableSort[]): string[] | null {
+    const args = ['list', '--json', '--limit', '0'];
+
+    // bd list hides closed issues unless --all (or an explicit --status) is given
+    if (!filters.status || filters.status === 'all') {
+      args.push('--all');
+    } else if (filters.status !== 'not_closed' && filters.status !== 'active') {
+      args.push(`--status=${filters.status}`);
+    }
+
+    if (filters.priority) {
+      if (!/^[0-4]$/.test(filters.priority)) {
+        return null;
+      }
+      args.push(`--priority=${filters.priority}`);
+    }
+
+    if (filters.type) {
+      args.push(`--type=${filters.type}`);
+    }
+
+    if (filters.assignee) {
+      args.push(filters.assignee === 'unassigned' ? '--no-assignee' : `--assignee=${filters.assignee}`);
+    }
+
+    // Repeated --label flags are ANDed by bd
+    for (const label of filters.labels || []) {
+      args.push(`--label=${label}`);
+    }
+
+    const primary = sorting[0] ?? { id: 'updated', dir: 'desc' };
+    const sortField = BD_LIST_SORT_FIELDS[primary.id] ?? 'updated';
+    args.push(`--sort=${sortField}`);
+    const defaultDir = BD_LIST_DESC_BY_DEFAULT.has(sortField) ? 'desc' : 'asc';
+    if (primary.dir !== defaultDir) {
+      args.push('--reverse');
+    }
+
+    return args;
+  }
+
   /**
    * Map daemon issue data to BoardData format
    * This implements the data mapping task (beads-nm3)
@@ -1480,41 +1736,14 @@ export class DaemonBeadsAdapter {
       cards.push(card);
     }
 
-    const columns: BoardColumn[] = [
-      { key: 'ready', title: 'Ready' },
-      { key: 'in_progress', title: 'In Progress' },
-      { key: 'blocked', title: 'Blocked' },
-      { key: 'closed', title: 'Closed' }
-    ];
-
-    return { columns, cards };
+    return { columns: this.getBoardColumns(), cards };
   }
 
   /**
    * Create a new issue using bd CLI
    */
-  public async createIssue(input: {
-    title: string;
-    description?: string;
-    status?: IssueStatus;
-    priority?: number;
-    issue_type?: string;
-    assignee?: string | null;
-    estimated_minutes?: number | null;
-    acceptance_criteria?: string;
-    design?: string;
-    notes?: string;
-    external_ref?: string | null;
-    due_at?: string | null;
-    defer_until?: string | null;
-    labels?: string[];
-    pinned?: boolean;
-    is_template?: boolean;
-    ephemeral?: boolean;
-    parent_id?: string;
-    blocked_by_ids?: string[];
-    children_ids?: string[];
-  }): Promise<{ id: string }> {
+  public async createIssue(input: IssueCreateInput): Promise<{ id: string }> {
+    this.assertCircuitClosed();
     const title = (input.title ?? '').trim();
     if (!title) {
       throw new Error('Title is required');
@@ -1644,6 +1873,7 @@ export class DaemonBeadsAdapter {
    * Update issue status using bd CLI
    */
   public async setIssueStatus(id: string, toStatus: IssueStatus): Promise<void> {
+    this.assertCircuitClosed();
     try {
       this.validateIssueId(id);
       await this.execBd(['update', id, '--status', toStatus]);
@@ -1658,23 +1888,36 @@ export class DaemonBeadsAdapter {
   }
 
   /**
-   * Update issue fields using bd CLI
+   * Close an issue using bd close, recording the reason if given
+   */
+  public async closeIssue(id: string, reason?: string): Promise<void> {
+    this.assertCircuitClosed();
+    try {
+      this.validateIssueId(id);
+      this.validateFlagValue(reason, 'reason');
+      const args = ['close'];
+      if (reason) {
+        args.push('--reason', reason);
+      }
+      await this.execBd([...args, '--', id]);
+
+      // Track mutation and invalidate cache
+      this.trackMutation();
+    } catch (error) {
+      const msg = `Failed to close issue: ${error instanceof Error ? error.message : String(error)}`;
+      this.output.appendLine(`[DaemonBeadsAdapter] ERROR: ${msg}`);
+      throw new Error(msg);
+    }
+  }
+
+  /**
+   * Update issue fields using bd CLI.
+   * With `expectedUpdatedAt`, the issue is read first and the update refused if
+   * it changed since; bd has no compare-and-set, so a write landing between the
+   * read and the update is not detected.
    */
-  public async updateIssue(id: string, updates: {
-    title?: string;
-    description?: string;
-    priority?: number;
-    issue_type?: string;
-    assignee?: string | null;
-    estimated_minutes?: number | null;
-    acceptance_criteria?: string;
-    design?: string;
-    external_ref?: string | null;
-    notes?: string;
-    due_at?: string | null;
-    defer_until?: string | null;
-    status?: string;
-  }): Promise<void> {
+  public async updateIssue(id: string, updates: IssueUpdateFields, expectedUpdatedAt?: string): Promise<void> {
+    this.assertCircuitClosed();
     this.validateIssueId(id);
 
     // Validate all string fields to prevent flag injection
@@ -1725,6 +1968,17 @@ export class DaemonBeadsAdapter {
       }
     }
     if (updates.status !== undefined) {args.push('--status', updates.status);}
+    if (updates.ephemeral !== undefined) {args.push(updates.ephemeral ? '--ephemeral' : '--persistent');}
+    // Pins are metadata since bd >= 1.0 (see createIssue)
+    if (updates.pinned !== undefined) {args.push('--set-metadata', `pinned=${updates.pinned}`);}
+
+    if (expectedUpdatedAt !== undefined) {
+      const current = await this.getIssueFull(id);
+      if (!sameTimestamp(current.updated_at, expectedUpdatedAt)) {
+        this.output.appendLine(`[DaemonBeadsAdapter] Update of ${id} refused: updated_at ${current.updated_at}, expected ${expectedUpdatedAt}`);
+        throw new IssueConflictError(current);
+      }
+    }
 
     try {
       await this.execBd(args);
@@ -1742,6 +1996,7 @@ export class DaemonBeadsAdapter {
    * Add a comment to an issue
    */
   public async addComment(issueId: string, text: string, author: string): Promise<void> {
+    this.assertCircuitClosed();
     try {
       this.validateIssueId(issueId);
 
@@ -1767,6 +2022,7 @@ export class DaemonBeadsAdapter {
    * Add a label to an issue
    */
   public async addLabel(issueId: string, label: string): Promise<void> {
+    this.assertCircuitClosed();
     try {
       this.validateIssueId(issueId);
 
@@ -1786,6 +2042,7 @@ export class DaemonBeadsAdapter {
    * Remove a label from an issue
    */
   public async removeLabel(issueId: string, label: string): Promise<void> {
+    this.assertCircuitClosed();
     try {
       this.validateIssueId(issueId);
 
@@ -1805,6 +2062,7 @@ export class DaemonBeadsAdapter {
    * Add a dependency between issues
    */
   public async addDependency(issueId: string, dependsOnId: string, type: 'parent-child' | 'blocks' = 'blocks'): Promise<void> {
+    this.assertCircuitClosed();
     try {
       this.validateIssueId(issueId);
       this.validateIssueId(dependsOnId);
@@ -1832,6 +2090,7 @@ export class DaemonBeadsAdapter {
    * Remove a dependency between issues
    */
   public async removeDependency(issueId: string, dependsOnId: string): Promise<void> {
+    this.assertCircuitClosed();
     try {
       this.validateIssueId(issueId);
       this.validateIssueId(dependsOnId);
@@ -1848,6 +2107,25 @@ export class DaemonBeadsAdapter {
     }
   }
 
+  /**
+   * Delete an issue using bd delete. --force skips bd's confirmation prompt;
+   * dependency links to the issue are removed with it.
+   */
+  public async deleteIssue(id: string): Promise<void> {
+    this.assertCircuitClosed();
+    try {
+      this.validateIssueId(id);
+      await this.execBd(['delete', '--force', '--', id]);
+
+      // Track mutation and invalidate cache
+      this.trackMutation();
+    } catch (error) {
+      const msg = `Failed to delete issue: ${error instanceof Error ? error.message : String(error)}`;
+      this.output.appendLine(`[DaemonBeadsAdapter] ERROR: ${msg}`);
+      throw new Error(msg);
+    }
+  }
+
   /**
    * Update the workspace root path (for switching repositories)
    * @param newWorkspaceRoot New workspace root path
@@ -1865,6 +2143,7 @@ export class DaemonBeadsAdapter {
     }
     this.workspaceRoot = newWorkspaceRoot;
     this.columnDataCache.clear();
+    this.actorPromise = null;
     this.output.appendLine(`[DaemonBeadsAdapter] Workspace root changed to: ${newWorkspaceRoot}`);
     // Reset circuit breaker state for new repository
     this.circuitBreakerState = 'CLOSED';
@@ -1877,6 +2156,7 @@ export class DaemonBeadsAdapter {
    */
   public dispose(): void {
     this.cancelCircuitRecovery();
+    this.processPool.dispose();
     this.output.appendLine('[DaemonBeadsAdapter] Disposed');
   }
 }
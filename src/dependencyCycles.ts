@@ -0,0 +1,221 @@
+/**
+ * Cycles in blocking dependencies, and the fewest `blocks` links to remove to
+ * break them. Each strongly connected group of issues counts as one cycle.
+ * Finding the smallest removal is exact for small groups and a greedy
+ * approximation (Eades-Lin-Smyth ordering) above that.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+/** `from` blocks `to` */
+export interface BlockingEdge {
+  from: string;
+  to: string;
+}
+
+export interface DependencyCycle {
+  /** Issues in the cycle group */
+  ids: string[];
+  /** One cycle through the group, first id repeated at the end */
+  path: string[];
+  /** Blocking links within the group */
+  edges: BlockingEdge[];
+  /** Links whose removal breaks every cycle in the group */
+  removal: BlockingEdge[];
+  /** False when the group was too large to prove `removal` the smallest */
+  minimal: boolean;
+}
+
+/** Groups with more links than this get the greedy removal */
+export const EXACT_REMOVAL_MAX_EDGES = 16;
+
+interface CycleCard {
+  id: string;
+  blocks?: { id: string }[];
+  blocked_by?: { id: string }[];
+}
+
+const key = (edge: BlockingEdge) => `${edge.from}\u0000${edge.to}`;
+
+/** Blocking links between the given cards, each once */
+export function blockingEdges(cards: CycleCard[]): BlockingEdge[] {
+  const ids = new Set(cards.map(card => card.id));
+  const edges = new Map<string, BlockingEdge>();
+  const add = (from: string, to: string) => {
+    if (ids.has(from) && ids.has(to)) {
+      edges.set(key({ from, to }), { from, to });
+    }
+  };
+  for (const card of cards) {
+    for (const blocked of card.blocks ?? []) {
+      add(card.id, blocked.id);
+    }
+    for (const blocker of card.blocked_by ?? []) {
+      add(blocker.id, card.id);
+    }
+  }
+  return [...edges.values()];
+}
+
+function successors(edges: BlockingEdge[]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const { from, to } of edges) {
+    if (!map.has(from)) {
+      map.set(from, []);
+    }
+    (map.get(from) as string[]).push(to);
+  }
+  return map;
+}
+
+/** Tarjan's strongly connected components, keeping only those with a cycle */
+function cycleGroups(edges: BlockingEdge[]): string[][] {
+  const next = successors(edges);
+  const nodes = [...new Set(edges.flatMap(edge => [edge.from, edge.to]))];
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+  let counter = 0;
+
+  const connect = (id: string) => {
+    index.set(id, counter);
+    low.set(id, counter++);
+    stack.push(id);
+    onStack.add(id);
+    for (const other of next.get(id) ?? []) {
+      if (!index.has(other)) {
+        connect(other);
+        low.set(id, Math.min(low.get(id) as number, low.get(other) as number));
+      } else if (onStack.has(other)) {
+        low.set(id, Math.min(low.get(id) as number, index.get(other) as number));
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const group: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== id);
+      const selfLoop = group.length === 1 && (next.get(id) ?? []).includes(id);
+      if (group.length > 1 || selfLoop) {
+        groups.push(group.reverse());
+      }
+    }
+  };
+  for (const id of nodes) {
+    if (!index.has(id)) {
+      connect(id);
+    }
+  }
+  return groups;
+}
+
+function isAcyclic(edges: BlockingEdge[]): boolean {
+  return cycleGroups(edges).length === 0;
+}
+
+/** A shortest cycle through the group's first issue */
+function cycleThrough(start: string, edges: BlockingEdge[]): string[] {
+  const next = successors(edges);
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const other of next.get(id) ?? []) {
+      if (other === start) {
+        const path = [start];
+        for (let at = id; at !== start; at = previous.get(at) as string) {
+          path.splice(1, 0, at);
+        }
+        return [...path, start];
+      }
+      if (!previous.has(other)) {
+        previous.set(other, id);
+        queue.push(other);
+      }
+    }
+  }
+  return [start];
+}
+
+/** Eades-Lin-Smyth: order the issues greedily, then drop the links pointing backwards */
+function greedyRemoval(ids: string[], edges: BlockingEdge[]): BlockingEdge[] {
+  const remaining = new Set(ids);
+  const degree = (id: string, side: 'from' | 'to') =>
+    edges.filter(edge => edge[side] === id && remaining.has(edge.from) && remaining.has(edge.to)).length;
+  const head: string[] = [];
+  const tail: string[] = [];
+  while (remaining.size > 0) {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const id of [...remaining]) {
+        if (degree(id, 'from') === 0) {
+          tail.unshift(id);
+          remaining.delete(id);
+          changed = true;
+        } else if (degree(id, 'to') === 0) {
+          head.push(id);
+          remaining.delete(id);
+          changed = true;
+        }
+      }
+    }
+    if (remaining.size > 0) {
+      const best = [...remaining].reduce((a, b) =>
+        degree(b, 'from') - degree(b, 'to') > degree(a, 'from') - degree(a, 'to') ? b : a);
+      head.push(best);
+      remaining.delete(best);
+    }
+  }
+  const order = new Map([...head, ...tail].map((id, at) => [id, at]));
+  return edges.filter(edge => (order.get(edge.from) as number) >= (order.get(edge.to) as number));
+}
+
+/** The smallest set of links whose removal leaves no cycle, trying sets by increasing size */
+function exactRemoval(edges: BlockingEdge[]): BlockingEdge[] {
+  for (let size = 1; size <= edges.length; size++) {
+    const chosen: number[] = [];
+    const search = (start: number): BlockingEdge[] | null => {
+      if (chosen.length === size) {
+        const removed = new Set(chosen);
+        return isAcyclic(edges.filter((_, at) => !removed.has(at))) ? chosen.map(at => edges[at]) : null;
+      }
+      for (let at = start; at < edges.length; at++) {
+        chosen.push(at);
+        const found = search(at + 1);
+        chosen.pop();
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    };
+    const found = search(0);
+    if (found) {
+      return found;
+    }
+  }
+  return edges;
+}
+
+/** Every cycle group among the links, with a suggested removal for each */
+export function findDependencyCycles(edges: BlockingEdge[]): DependencyCycle[] {
+  return cycleGroups(edges).map(ids => {
+    const members = new Set(ids);
+    const inner = edges.filter(edge => members.has(edge.from) && members.has(edge.to));
+    const minimal = inner.length <= EXACT_REMOVAL_MAX_EDGES;
+    return {
+      ids,
+      path: cycleThrough(ids[0], inner),
+      edges: inner,
+      removal: minimal ? exactRemoval(inner) : greedyRemoval(ids, inner),
+      minimal
+    };
+  });
+}
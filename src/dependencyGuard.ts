@@ -0,0 +1,68 @@
+import { BeadsAdapter } from './beadsAdapter';
+
+/**
+ * Checks a new dependency against the existing ones before it is added, so the
+ * board never creates a cycle by accident. Blocking links are followed through
+ * `blocked_by`, parent-child links through `parent`.
+ */
+
+/** Issues read while looking for a cycle; past this the user is asked instead */
+export const MAX_CYCLE_CHECK_ISSUES = 100;
+
+/** Thrown when the walk reaches MAX_CYCLE_CHECK_ISSUES before it could rule a cycle out */
+export class CycleCheckIncompleteError extends Error {
+  constructor(readonly checked: number) {
+    super(`the check stopped after ${checked} issues`);
+    this.name = 'CycleCheckIncompleteError';
+  }
+}
+
+/**
+ * The cycle that making `id` depend on `otherId` would close, or null.
+ * Reads each issue on the way with getIssueFull, nearest first.
+ * @returns Issue ids along the cycle in dependency order (blocker before
+ *          blocked, parent before child), starting and ending with `id`
+ * @throws CycleCheckIncompleteError if the walk gets too large to finish
+ */
+export async function findNewCycle(
+  adapter: BeadsAdapter,
+  id: string,
+  otherId: string,
+  type: 'blocks' | 'parent-child'
+): Promise<string[] | null> {
+  if (id === otherId) {
+    return [id, id];
+  }
+
+  // Walk from otherId towards what it depends on; reaching id closes the cycle
+  const previous = new Map<string, string>();
+  const queue = [otherId];
+  const seen = new Set<string>([otherId]);
+  let checked = 0;
+  while (queue.length > 0) {
+    if (checked >= MAX_CYCLE_CHECK_ISSUES) {
+      throw new CycleCheckIncompleteError(checked);
+    }
+    const current = queue.shift() as string;
+    const issue = await adapter.getIssueFull(current);
+    checked++;
+    const next = type === 'blocks'
+      ? (issue.blocked_by ?? []).map(dep => dep.id)
+      : issue.parent ? [issue.parent.id] : [];
+    for (const dep of next) {
+      if (dep === id) {
+        const chain = [id];
+        for (let at: string | undefined = current; at !== undefined; at = previous.get(at)) {
+          chain.push(at);
+        }
+        return [...chain, id];
+      }
+      if (!seen.has(dep)) {
+        seen.add(dep);
+        previous.set(dep, current);
+        queue.push(dep);
+      }
+    }
+  }
+  return null;
+}
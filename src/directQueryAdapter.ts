@@ -0,0 +1,786 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  BoardData,
+  BoardCard,
+  EnrichedCard,
+  FullCard,
+  IssueStatus,
+  DependencyInfo,
+  Comment,
+  IssueCreateInput,
+  IssueUpdateFields,
+  TableFilters,
+  TableSort
+} from './types';
+import { BeadsAdapter } from './beadsAdapter';
+import { ACTIVITY_SQL, ActivityEntry, MAX_ACTIVITY_ENTRIES, activitySince, rowsToActivity } from './activityFeed';
+import { AGENTS_SQL, AgentSummary, toAgentSummary } from './agentMonitor';
+import { ISSUE_EVENTS_SQL, IssueEvent, MAX_ISSUE_EVENTS, rowsToIssueEvents } from './issueEvents';
+import { parseBoardQuery, matchesBoardQuery } from './boardQuery';
+import { ColumnDefinition, DEFAULT_COLUMNS, columnForCard, isDefaultColumns } from './boardColumns';
+import { DaemonBeadsAdapter, readBoolFromMetadata } from './daemonBeadsAdapter';
+import { BdProcessPool } from './bdProcessPool';
+import { sanitizeError } from './sanitizeError';
+
+type SqlValue = string | number | null;
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal read-only query interface over the beads database.
+ */
+interface QueryRunner {
+  readonly kind: 'sqlite' | 'dolt';
+  readonly location: string;
+  all(sql: string, params?: SqlValue[]): Promise<Row[]>;
+  close(): void;
+}
+
+interface SqliteStatement {
+  all(...params: SqlValue[]): Row[];
+}
+
+interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+/**
+ * Legacy SQLite database (.beads/*.db) opened read-only with Node's built-in
+ * sqlite module. Not every VS Code build ships a Node with `node:sqlite`, in
+ * which case open() throws and the adapter falls back to bd.
+ */
+class SqliteQueryRunner implements QueryRunner {
+  readonly kind = 'sqlite' as const;
+
+  private constructor(private db: SqliteDatabase, readonly location: string) {}
+
+  static async open(dbPath: string): Promise<SqliteQueryRunner> {
+    // Resolved at runtime so older hosts without node:sqlite still load the extension
+    const moduleName = 'node:sqlite';
+    const sqlite = await import(moduleName) as {
+      DatabaseSync: new (location: string, options?: { readOnly?: boolean }) => SqliteDatabase
+    };
+    return new SqliteQueryRunner(new sqlite.DatabaseSync(dbPath, { readOnly: true }), dbPath);
+  }
+
+  async all(sql: string, params: SqlValue[] = []): Promise<Row[]> {
+    return this.db.prepare(sql).all(...params);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Dolt database (.beads/dolt, bd >= 1.0) queried with `dolt sql -r json`.
+ * dolt has no bind parameters on the command line, so values are inlined as
+ * escaped literals; only strings and finite numbers are accepted.
+ */
+class DoltQueryRunner implements QueryRunner {
+  readonly kind = 'dolt' as const;
+  private pool: BdProcessPool;
+
+  constructor(readonly location: string, output: vscode.OutputChannel) {
+    this.pool = new BdProcessPool({
+      command: () => vscode.workspace.getConfiguration('beadsKanban').get<string>('doltPath', '') || 'dolt',
+      cwd: () => this.location,
+      log: (line) => output.appendLine(`[DirectQueryAdapter] ${line}`)
+    });
+  }
+
+  async all(sql: string, params: SqlValue[] = []): Promise<Row[]> {
+    const query = inlineSqlParams(sql, params);
+    const result = await this.pool.exec(['sql', '-r', 'json', '-q', query]);
+    if (result.code !== 0) {
+      throw new Error(`dolt query failed with exit code ${result.code}: ${sanitizeError(result.stderr || result.stdout)}`);
+    }
+    const trimmed = result.stdout.trim();
+    if (!trimmed) {
+      return [];
+    }
+    const parsed = JSON.parse(trimmed) as { rows?: Row[] };
+    return Array.isArray(parsed.rows) ? parsed.rows : [];
+  }
+
+  close(): void {
+    this.pool.dispose();
+  }
+}
+
+/**
+ * Replace `?` placeholders with SQL literals (MySQL quoting rules, as used by dolt).
+ */
+export function inlineSqlParams(sql: string, params: SqlValue[]): string {
+  let index = 0;
+  const inlined = sql.replace(/\?/g, () => {
+    if (index >= params.length) {
+      throw new Error('Not enough SQL parameters for query');
+    }
+    const value = params[index++];
+    if (value === null) {
+      return 'NULL';
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error('SQL parameter must be a finite number');
+      }
+      return String(value);
+    }
+    const escaped = String(value).replace(/\0/g, '').replace(/\\/g, '\\\\').replace(/'/g, "''");
+    return `'${escaped}'`;
+  });
+  if (index !== params.length) {
+    throw new Error('Too many SQL parameters for query');
+  }
+  return inlined;
+}
+
+/**
+ * Find the beads database under .beads/, preferring the bd >= 1.0 Dolt store.
+ */
+async function locateDatabase(workspaceRoot: string): Promise<{ kind: 'sqlite' | 'dolt'; location: string } | null> {
+  const beadsDir = path.join(workspaceRoot, '.beads');
+  const isDir = async (p: string) => (await fs.stat(p).catch(() => null))?.isDirectory() ?? false;
+
+  const doltRoot = path.join(beadsDir, 'dolt');
+  if (await isDir(path.join(doltRoot, '.dolt'))) {
+    return { kind: 'dolt', location: doltRoot };
+  }
+  if (await isDir(doltRoot)) {
+    for (const entry of await fs.readdir(doltRoot)) {
+      if (await isDir(path.join(doltRoot, entry, '.dolt'))) {
+        return { kind: 'dolt', location: path.join(doltRoot, entry) };
+      }
+    }
+  }
+
+  const entries = await fs.readdir(beadsDir).catch(() => [] as string[]);
+  const dbFiles = entries.filter(f => /\.(db|sqlite|sqlite3)$/i.test(f)).sort();
+  if (dbFiles.length > 0) {
+    const preferred = dbFiles.includes('beads.db') ? 'beads.db' : dbFiles[0];
+    return { kind: 'sqlite', location: path.join(beadsDir, preferred) };
+  }
+
+  return null;
+}
+
+// SQL fragments shared by every listing query (alias `i` is the issues table)
+const OPEN_BLOCKERS_SQL = `SELECT COUNT(*) FROM dependencies d JOIN issues b ON b.id = d.depends_on_id
+  WHERE d.issue_id = i.id AND d.type = 'blocks' AND b.status != 'closed'`;
+const CARD_SELECT_SQL = `SELECT i.*,
+  (${OPEN_BLOCKERS_SQL}) AS blocked_by_count,
+  (SELECT COUNT(*) FROM dependencies d WHERE d.issue_id = i.id) AS dependency_count,
+  (SELECT COUNT(*) FROM dependencies d WHERE d.depends_on_id = i.id) AS dependent_count,
+  (SELECT d.depends_on_id FROM dependencies d WHERE d.issue_id = i.id AND d.type = 'parent-child' LIMIT 1) AS parent_id
+  FROM issues i`;
+
+const COLUMN_CONDITIONS: Record<string, { where: string; orderBy: string }> = {
+  ready: { where: `i.status = 'open' AND (${OPEN_BLOCKERS_SQL}) = 0`, orderBy: 'i.priority ASC, i.created_at ASC' },
+  open: { where: `i.status = 'open'`, orderBy: 'i.priority ASC, i.updated_at DESC' },
+  in_progress: { where: `i.status = 'in_progress'`, orderBy: 'i.priority ASC, i.updated_at DESC' },
+  blocked: { where: `i.status = 'blocked'`, orderBy: 'i.priority ASC, i.updated_at DESC' },
+  closed: { where: `i.status = 'closed'`, orderBy: 'i.closed_at DESC' }
+};
+
+// Table sort ids -> indexed columns (whitelist; never interpolate user input)
+const TABLE_SORT_COLUMNS: Record<string, string> = {
+  id: 'i.id',
+  title: 'i.title',
+  status: 'i.status',
+  priority: 'i.priority',
+  type: 'i.issue_type',
+  assignee: 'i.assignee',
+  created: 'i.created_at',
+  updated: 'i.updated_at',
+  closed: 'i.closed_at'
+};
+
+// Keep IN (...) lists under SQLite's bound-parameter limit
+const IN_CHUNK_SIZE = 500;
+
+/**
+ * Read-only BeadsAdapter that lists and counts issues by querying the .beads
+ * database with SQL, instead of `bd list` plus batched `bd show` calls. Legacy
+ * SQLite databases are read in process; Dolt databases still go through the
+ * `dolt sql -r json` CLI, so each query costs a process spawn and a JSON parse.
+ *
+ * Single-issue reads (full details, comments) and every mutation are delegated
+ * to a DaemonBeadsAdapter so writes keep going through bd. If the database cannot
+ * be found or opened, or a query fails (e.g. an unexpected schema), the adapter
+ * logs the reason and serves all reads from bd for the rest of the session.
+ */
+export class DirectQueryBeadsAdapter implements BeadsAdapter {
+  private workspaceRoot: string;
+  private output: vscode.OutputChannel;
+  private writer: DaemonBeadsAdapter;
+  private runnerProbe: Promise<QueryRunner | null> | null = null;
+  private liveFilter = `i.status != 'tombstone'`;
+  private fallbackReason: string | null = null;
+  private columns: ColumnDefinition[] = DEFAULT_COLUMNS;
+
+  constructor(workspaceRoot: string, output: vscode.OutputChannel, writer: DaemonBeadsAdapter) {
+    this.workspaceRoot = workspaceRoot;
+    this.output = output;
+    this.writer = writer;
+  }
+
+  /**
+   * Why reads are currently served by bd, or null while direct queries are in use.
+   */
+  public getFallbackReason(): string | null {
+    return this.fallbackReason;
+  }
+
+  private reader(): Promise<QueryRunner | null> {
+    if (!this.runnerProbe) {
+      this.runnerProbe = this.openRunner();
+    }
+    return this.runnerProbe;
+  }
+
+  private async openRunner(): Promise<QueryRunner | null> {
+    try {
+      const located = await locateDatabase(this.workspaceRoot);
+      if (!located) {
+        this.disableDirect('no database found under .beads/');
+        return null;
+      }
+
+      const runner = located.kind === 'sqlite'
+        ? await SqliteQueryRunner.open(located.location)
+        : new DoltQueryRunner(located.location, this.output);
+
+      // Soft-deleted issues are hidden by bd; older schemas mark them with deleted_at
+      const columns = runner.kind === 'sqlite'
+        ? (await runner.all('PRAGMA table_info(issues)')).map(r => String(r.name))
+        : (await runner.all('SHOW COLUMNS FROM issues')).map(r => String(r.Field));
+      if (columns.length === 0) {
+        runner.close();
+        this.disableDirect(`issues table not found in ${located.location}`);
+        return null;
+      }
+      if (columns.includes('deleted_at')) {
+        this.liveFilter = `i.status != 'tombstone' AND i.deleted_at IS NULL`;
+      }
+
+      this.output.appendLine(`[DirectQueryAdapter] Reading ${runner.kind} database directly: ${runner.location}`);
+      return runner;
+    } catch (error) {
+      this.disableDirect(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  private disableDirect(reason: string): void {
+    if (!this.fallbackReason) {
+      this.output.appendLine(`[DirectQueryAdapter] Direct queries unavailable, using bd CLI for reads: ${reason}`);
+    }
+    this.fallbackReason = reason;
+  }
+
+  /**
+   * Run a read against the database, falling back to bd if direct access is
+   * unavailable or the query fails.
+   */
+  private async withReader<T>(label: string, direct: (runner: QueryRunner) => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    const runner = await this.reader();
+    if (!runner) {
+      return fallback();
+    }
+    try {
+      return await direct(runner);
+    } catch (error) {
+      this.output.appendLine(`[DirectQueryAdapter] ERROR: ${label} failed: ${error instanceof Error ? error.message : String(error)}`);
+      runner.close();
+      this.runnerProbe = Promise.resolve(null);
+      this.disableDirect(`${label} query failed`);
+      return fallback();
+    }
+  }
+
+  public async ensureConnected(): Promise<void> {
+    const runner = await this.reader();
+    if (!runner) {
+      await this.writer.ensureConnected();
+    }
+  }
+
+  public getConnectedDbPath(): string | null {
+    return this.workspaceRoot;
+  }
+
+  public async reloadDatabase(): Promise<void> {
+    // Queries always read the current file contents; nothing to reload
+    this.output.appendLine('[DirectQueryAdapter] Database reload requested');
+  }
+
+  public isRecentSelfSave(): boolean {
+    // Direct reads never modify the database; only bd writes count
+    return this.writer.isRecentSelfSave();
+  }
+
+  public getActor(): Promise<string | null> {
+    return this.writer.getActor();
+  }
+
+  public async getBoard(): Promise<BoardData> {
+    const maxIssues = vscode.workspace.getConfiguration('beadsKanban').get<number>('maxIssues', 1000);
+    return this.withReader('getBoard', async (runner) => {
+      const rows = await runner.all(
+        `${CARD_SELECT_SQL} WHERE ${this.liveFilter} ORDER BY i.updated_at DESC LIMIT ?`,
+        [maxIssues]
+      );
+      const cards = await this.rowsToCards(runner, rows);
+      const metadata = await this.getBoardMetadata();
+      return { columns: metadata.columns, cards };
+    }, () => this.writer.getBoard());
+  }
+
+  public async getBoardMinimal(limit: number = 5000): Promise<EnrichedCard[]> {
+    return this.withReader('getBoardMinimal', async (runner) => {
+      const rows = await runner.all(
+        `${CARD_SELECT_SQL} WHERE ${this.liveFilter} ORDER BY i.priority ASC, i.updated_at DESC LIMIT ?`,
+        [limit]
+      );
+      const labels = await this.loadLabels(runner, rows.map(r => String(r.id)));
+      const cards = rows.map(row => {
+        const card = this.rowToCard(row, labels.get(String(row.id)) ?? []);
+        const enriched: EnrichedCard = {
+          id: card.id,
+          title: card.title,
+          description: card.description,
+          status: card.status,
+          priority: card.priority,
+          issue_type: card.issue_type,
+          created_at: card.created_at,
+          created_by: (row.created_by as string) || 'unknown',
+          updated_at: card.updated_at,
+          closed_at: card.closed_at ?? null,
+          close_reason: (row.close_reason as string | null) || null,
+          dependency_count: Number(row.dependency_count) || 0,
+          dependent_count: Number(row.dependent_count) || 0,
+          assignee: card.assignee ?? null,
+          estimated_minutes: card.estimated_minutes ?? null,
+          labels: card.labels,
+          external_ref: card.external_ref ?? null,
+          pinned: card.pinned,
+          blocked_by_count: card.blocked_by_count,
+          is_ready: card.is_ready,
+          due_at: card.due_at ?? null,
+          defer_until: card.defer_until ?? null,
+          parent_id: (row.parent_id as string | null) || null,
+          agent_state: card.agent_state ?? null,
+          await_type: card.await_type ?? null,
+          await_id: card.await_id ?? null,
+          timeout_ns: card.timeout_ns ?? null,
+          waiters: card.waiters ?? null,
+          ephemeral: card.ephemeral
+        };
+        return enriched;
+      });
+      this.output.appendLine(`[DirectQueryAdapter] getBoardMinimal: Loaded ${cards.length} enriched cards`);
+      return cards;
+    }, () => this.writer.getBoardMinimal(limit));
+  }
+
+  public async getBoardMetadata(): Promise<BoardData> {
+    return this.writer.getBoardMetadata();
+  }
+
+  public async getIssueFull(issueId: string): Promise<FullCard> {
+    return this.writer.getIssueFull(issueId);
+  }
+
+  public async getIssueComments(issueId: string): Promise<Comment[]> {
+    return this.writer.getIssueComments(issueId);
+  }
+
+  public async getIssueHistory(issueId: string): Promise<IssueEvent[]> {
+    return this.withReader('getIssueHistory', async (runner) =>
+      rowsToIssueEvents(await runner.all(ISSUE_EVENTS_SQL, [issueId, MAX_ISSUE_EVENTS])),
+      () => this.writer.getIssueHistory(issueId));
+  }
+
+  public async getActivity(since?: string): Promise<ActivityEntry[]> {
+    return this.withReader('getActivity', async (runner) =>
+      activitySince(rowsToActivity(await runner.all(ACTIVITY_SQL, [MAX_ACTIVITY_ENTRIES])), since),
+      () => this.writer.getActivity(since));
+  }
+
+  public async getAgents(): Promise<AgentSummary[]> {
+    return this.withReader('getAgents', async (runner) => {
+      const rows = await runner.all(
+        `${AGENTS_SQL} WHERE ${this.liveFilter} AND (i.issue_type = 'agent' OR COALESCE(i.agent_state, '') != '') ORDER BY i.id`
+      );
+      return rows.map(row => toAgentSummary(row));
+    }, () => this.writer.getAgents());
+  }
+
+  public async getColumnCount(column: string): Promise<number> {
+    if (!isDefaultColumns(this.columns)) {
+      this.assertColumn(column);
+      return this.withReader('getColumnCount', async (runner) => {
+        return (await this.selectCustomColumn(runner, column)).length;
+      }, () => this.writer.getColumnCount(column));
+    }
+    const condition = COLUMN_CONDITIONS[column];
+    if (!condition) {
+      throw new Error(`Unknown column: ${column}`);
+    }
+    return this.withReader('getColumnCount', async (runner) => {
+      const rows = await runner.all(`SELECT COUNT(*) AS total FROM issues i WHERE ${this.liveFilter} AND ${condition.where}`);
+      return Number(rows[0]?.total) || 0;
+    }, () => this.writer.getColumnCount(column));
+  }
+
+  public async getColumnData(column: string, offset: number = 0, limit: number = 50): Promise<BoardCard[]> {
+    if (!isDefaultColumns(this.columns)) {
+      this.assertColumn(column);
+      return this.withReader('getColumnData', async (runner) => {
+        const rows = await this.selectCustomColumn(runner, column);
+        return this.rowsToCards(runner, rows.slice(offset, offset + limit));
+      }, () => this.writer.getColumnData(column, offset, limit));
+    }
+    const condition = COLUMN_CONDITIONS[column];
+    if (!condition) {
+      throw new Error(`Unknown column: ${column}`);
+    }
+    return this.withReader('getColumnData', async (runner) => {
+      const rows = await runner.all(
+        `${CARD_SELECT_SQL} WHERE ${this.liveFilter} AND ${condition.where} ORDER BY ${condition.orderBy} LIMIT ? OFFSET ?`,
+        [limit, offset]
+      );
+      return this.rowsToCards(runner, rows);
+    }, () => this.writer.getColumnData(column, offset, limit));
+  }
+
+  public setColumns(columns: ColumnDefinition[]): void {
+    this.columns = columns;
+    this.writer.setColumns(columns);
+  }
+
+  private assertColumn(column: string): void {
+    if (!this.columns.some(c => c.key === column)) {
+      throw new Error(`Unknown column: ${column}`);
+    }
+  }
+
+  /**
+   * Rows in a custom column. Column predicates can combine labels and agent
+   * state, so every live issue is loaded and matched with the webview's rules.
+   */
+  private async selectCustomColumn(runner: QueryRunner, column: string): Promise<Row[]> {
+    const rows = await runner.all(`${CARD_SELECT_SQL} WHERE ${this.liveFilter} ORDER BY i.priority ASC, i.updated_at DESC`);
+    const labels = await this.loadLabels(runner, rows.map(r => String(r.id)));
+    return rows.filter(row =>
+      columnForCard(this.rowToCard(row, labels.get(String(row.id)) ?? []), this.columns) === column
+    );
+  }
+
+  public async getTableData(
+    filters: TableFilters,
+    sorting: TableSort[],
+    offset: number,
+    limit: number
+  ): Promise<{ cards: BoardCard[]; totalCount: number }> {
+    const parsedQuery = parseBoardQuery(filters.query || '');
+    if (parsedQuery.errors.length > 0) {
+      throw new Error(`Invalid query: ${parsedQuery.errors[0].message}`);
+    }
+
+    return this.withReader('getTableData', async (runner) => {
+      const { where, params } = this.buildTableWhere(filters);
+
+      const orderParts = (sorting || [])
+        .filter(spec => TABLE_SORT_COLUMNS[spec.id])
+        .map(spec => `${TABLE_SORT_COLUMNS[spec.id]} ${spec.dir === 'desc' ? 'DESC' : 'ASC'}`);
+      orderParts.push('i.updated_at DESC', 'i.id ASC');
+
+      if (parsedQuery.query.terms.length > 0) {
+        // Evaluate the query with the same matcher the webview uses, then page the matches
+        const candidates = await runner.all(`${CARD_SELECT_SQL} WHERE ${where} ORDER BY ${orderParts.join(', ')}`, params);
+        const labels = await this.loadLabels(runner, candidates.map(r => String(r.id)));
+        const context = { me: await this.getActor() };
+        const matching = candidates.filter(row =>
+          matchesBoardQuery(parsedQuery.query, this.rowToCard(row, labels.get(String(row.id)) ?? []), context)
+        );
+        const cards = await this.rowsToCards(runner, matching.slice(offset, offset + limit));
+
+        this.output.appendLine(`[DirectQueryAdapter] getTableData (query): ${cards.length} cards (offset ${offset}, total ${matching.length})`);
+        return { cards, totalCount: matching.length };
+      }
+
+      const countRows = await runner.all(`SELECT COUNT(*) AS total FROM issues i WHERE ${where}`, params);
+      const totalCount = Number(countRows[0]?.total) || 0;
+
+      const rows = await runner.all(
+        `${CARD_SELECT_SQL} WHERE ${where} ORDER BY ${orderParts.join(', ')} LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+      const cards = await this.rowsToCards(runner, rows);
+
+      this.output.appendLine(`[DirectQueryAdapter] getTableData: ${cards.length} cards (offset ${offset}, total ${totalCount})`);
+      return { cards, totalCount };
+    }, () => this.writer.getTableData(filters, sorting, offset, limit));
+  }
+
+  private buildTableWhere(filters: TableFilters): { where: string; params: SqlValue[] } {
+    const clauses: string[] = [this.liveFilter];
+    const params: SqlValue[] = [];
+
+    if (filters.search) {
+      // '!' escapes LIKE wildcards portably across SQLite and MySQL
+      const term = `%${filters.search.toLowerCase().replace(/[!%_]/g, '!$&')}%`;
+      clauses.push(`(LOWER(i.title) LIKE ? ESCAPE '!' OR LOWER(i.id) LIKE ? ESCAPE '!' OR LOWER(i.description) LIKE ? ESCAPE '!')`);
+      params.push(term, term, term);
+    }
+
+    if (filters.priority) {
+      clauses.push('i.priority = ?');
+      params.push(Number(filters.priority));
+    }
+
+    if (filters.type) {
+      clauses.push('i.issue_type = ?');
+      params.push(filters.type);
+    }
+
+    if (filters.status && filters.status !== 'all') {
+      if (filters.status === 'not_closed') {
+        clauses.push(`i.status != 'closed'`);
+      } else if (filters.status === 'active') {
+        clauses.push(`i.status IN ('in_progress', 'open')`);
+      } else {
+        clauses.push('i.status = ?');
+        params.push(filters.status);
+      }
+    }
+
+    if (filters.assignee) {
+      if (filters.assignee === 'unassigned') {
+        clauses.push(`(i.assignee IS NULL OR i.assignee = '')`);
+      } else {
+        clauses.push('i.assignee = ?');
+        params.push(filters.assignee);
+      }
+    }
+
+    for (const label of filters.labels ?? []) {
+      clauses.push('EXISTS (SELECT 1 FROM labels l WHERE l.issue_id = i.id AND l.label = ?)');
+      params.push(label);
+    }
+
+    return { where: clauses.join(' AND '), params };
+  }
+
+  private async loadLabels(runner: QueryRunner, ids: string[]): Promise<Map<string, string[]>> {
+    const labels = new Map<string, string[]>();
+    for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + IN_CHUNK_SIZE);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const rows = await runner.all(`SELECT issue_id, label FROM labels WHERE issue_id IN (${placeholders}) ORDER BY label`, chunk);
+      for (const row of rows) {
+        const list = labels.get(String(row.issue_id)) ?? [];
+        list.push(String(row.label));
+        labels.set(String(row.issue_id), list);
+      }
+    }
+    return labels;
+  }
+
+  /**
+   * Map issue rows to BoardCards with labels and parent/child/blocking relationships,
+   * matching what DaemonBeadsAdapter builds from `bd show`.
+   */
+  private async rowsToCards(runner: QueryRunner, rows: Row[]): Promise<BoardCard[]> {
+    const ids = rows.map(r => String(r.id));
+    const labels = await this.loadLabels(runner, ids);
+
+    const parentMap = new Map<string, DependencyInfo>();
+    const childrenMap = new Map<string, DependencyInfo[]>();
+    const blockedByMap = new Map<string, DependencyInfo[]>();
+    const blocksMap = new Map<string, DependencyInfo[]>();
+    const push = (map: Map<string, DependencyInfo[]>, key: string, info: DependencyInfo) => {
+      const list = map.get(key) ?? [];
+      list.push(info);
+      map.set(key, list);
+    };
+
+    for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + IN_CHUNK_SIZE);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const deps = await runner.all(
+        `SELECT d.issue_id, d.depends_on_id, d.type,
+           a.title AS issue_title, a.created_at AS issue_created_at, a.created_by AS issue_created_by,
+           b.title AS depends_on_title, b.created_at AS depends_on_created_at, b.created_by AS depends_on_created_by
+         FROM dependencies d
+         JOIN issues a ON a.id = d.issue_id
+         JOIN issues b ON b.id = d.depends_on_id
+         WHERE d.issue_id IN (${placeholders}) OR d.depends_on_id IN (${placeholders})`,
+        [...chunk, ...chunk]
+      );
+
+      for (const dep of deps) {
+        const issueId = String(dep.issue_id);
+        const dependsOnId = String(dep.depends_on_id);
+        const issueInfo: DependencyInfo = {
+          id: issueId,
+          title: String(dep.issue_title ?? ''),
+          created_at: dep.issue_created_at as string,
+          created_by: (dep.issue_created_by as string) || 'unknown'
+        };
+        const dependsOnInfo: DependencyInfo = {
+          id: dependsOnId,
+          title: String(dep.depends_on_title ?? ''),
+          created_at: dep.depends_on_created_at as string,
+          created_by: (dep.depends_on_created_by as string) || 'unknown'
+        };
+
+        // A chunk can see the same edge from both ends; only record it once per side
+        if (dep.type === 'parent-child') {
+          // issue_id is the child, depends_on_id the parent
+          if (chunk.includes(issueId)) {parentMap.set(issueId, dependsOnInfo);}
+          if (chunk.includes(dependsOnId)) {push(childrenMap, dependsOnId, issueInfo);}
+        } else if (dep.type === 'blocks') {
+          // issue_id is blocked by depends_on_id
+          if (chunk.includes(issueId)) {push(blockedByMap, issueId, dependsOnInfo);}
+          if (chunk.includes(dependsOnId)) {push(blocksMap, dependsOnId, issueInfo);}
+        }
+      }
+    }
+
+    return rows.map(row => {
+      const id = String(row.id);
+      const card = this.rowToCard(row, labels.get(id) ?? []);
+      card.parent = parentMap.get(id);
+      card.children = childrenMap.get(id);
+      card.blocked_by = blockedByMap.get(id);
+      card.blocks = blocksMap.get(id);
+      return card;
+    });
+  }
+
+  private rowToCard(row: Row, labels: string[]): BoardCard {
+    // metadata is stored as a JSON string; readBoolFromMetadata expects an object
+    let metadata: unknown = row.metadata;
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch {
+        metadata = undefined;
+      }
+    }
+    const issue: Row = { ...row, metadata };
+    const blockedByCount = Number(row.blocked_by_count) || 0;
+    const nullable = (value: unknown) => (value === undefined || value === null || value === '' ? null : value);
+
+    return {
+      id: String(row.id),
+      title: String(row.title ?? ''),
+      description: (row.description as string) || '',
+      status: row.status as IssueStatus,
+      priority: row.priority === null || row.priority === undefined ? 2 : Number(row.priority),
+      issue_type: (row.issue_type as string) || 'task',
+      assignee: nullable(row.assignee) as string | null,
+      estimated_minutes: nullable(row.estimated_minutes) as number | null,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+      closed_at: nullable(row.closed_at) as string | null,
+      external_ref: nullable(row.external_ref) as string | null,
+      is_ready: row.status === 'open' && blockedByCount === 0,
+      blocked_by_count: blockedByCount,
+      acceptance_criteria: (row.acceptance_criteria as string) || '',
+      design: (row.design as string) || '',
+      notes: (row.notes as string) || '',
+      due_at: nullable(row.due_at) as string | null,
+      defer_until: nullable(row.defer_until) as string | null,
+      labels,
+      pinned: readBoolFromMetadata(issue, 'pinned'),
+      is_template: readBoolFromMetadata(issue, 'template'),
+      ephemeral: row.ephemeral === true || Number(row.ephemeral) === 1,
+      event_kind: nullable(row.event_kind) as string | null,
+      actor: nullable(row.actor) as string | null,
+      target: nullable(row.target) as string | null,
+      payload: nullable(row.payload) as string | null,
+      sender: nullable(row.sender) as string | null,
+      mol_type: nullable(row.mol_type) as string | null,
+      role_type: nullable(row.role_type) as string | null,
+      rig: nullable(row.rig) as string | null,
+      agent_state: nullable(row.agent_state) as string | null,
+      last_activity: nullable(row.last_activity) as string | null,
+      hook_bead: nullable(row.hook_bead) as string | null,
+      role_bead: nullable(row.role_bead) as string | null,
+      await_type: nullable(row.await_type) as string | null,
+      await_id: nullable(row.await_id) as string | null,
+      timeout_ns: nullable(row.timeout_ns) as number | null,
+      waiters: nullable(row.waiters) as string | null,
+      comments: []
+    };
+  }
+
+  // Mutations always go through bd
+
+  public createIssue(input: IssueCreateInput): Promise<{ id: string }> {
+    return this.writer.createIssue(input);
+  }
+
+  public setIssueStatus(id: string, toStatus: IssueStatus): Promise<void> {
+    return this.writer.setIssueStatus(id, toStatus);
+  }
+
+  public closeIssue(id: string, reason?: string): Promise<void> {
+    return this.writer.closeIssue(id, reason);
+  }
+
+  public updateIssue(id: string, updates: IssueUpdateFields, expectedUpdatedAt?: string): Promise<void> {
+    return this.writer.updateIssue(id, updates, expectedUpdatedAt);
+  }
+
+  public addComment(issueId: string, text: string, author: string): Promise<void> {
+    return this.writer.addComment(issueId, text, author);
+  }
+
+  public addLabel(issueId: string, label: string): Promise<void> {
+    return this.writer.addLabel(issueId, label);
+  }
+
+  public removeLabel(issueId: string, label: string): Promise<void> {
+    return this.writer.removeLabel(issueId, label);
+  }
+
+  public addDependency(issueId: string, dependsOnId: string, type: 'parent-child' | 'blocks' = 'blocks'): Promise<void> {
+    return this.writer.addDependency(issueId, dependsOnId, type);
+  }
+
+  public removeDependency(issueId: string, dependsOnId: string): Promise<void> {
+    return this.writer.removeDependency(issueId, dependsOnId);
+  }
+
+  public deleteIssue(id: string): Promise<void> {
+    return this.writer.deleteIssue(id);
+  }
+
+  public setWorkspaceRoot(newWorkspaceRoot: string): void {
+    // Validates the path; throws before we touch our own state
+    this.writer.setWorkspaceRoot(newWorkspaceRoot);
+    this.workspaceRoot = newWorkspaceRoot;
+    this.closeRunner();
+    this.fallbackReason = null;
+  }
+
+  private closeRunner(): void {
+    const probe = this.runnerProbe;
+    this.runnerProbe = null;
+    this.liveFilter = `i.status != 'tombstone'`;
+    void probe?.then(runner => runner?.close());
+  }
+
+  public dispose(): void {
+    this.closeRunner();
+    this.writer.dispose();
+    this.output.appendLine('[DirectQueryAdapter] Disposed');
+  }
+}
@@ -1,5 +1,23 @@
 import * as vscode from "vscode";
-import { DaemonBeadsAdapter } from "./daemonBeadsAdapter";
+import { BeadsAdapter, IssueConflictError } from "./beadsAdapter";
+import { CircuitOpenError, DaemonBeadsAdapter } from "./daemonBeadsAdapter";
+import { DirectQueryBeadsAdapter } from "./directQueryAdapter";
+import { BoardSnapshot, BoardDelta } from "./boardDelta";
+import { SavedViewStore } from "./savedViews";
+import { admitToColumn, loadWipConfig, wipLimitError } from "./wipLimits";
+import { loadBoardColumns } from "./boardConfig";
+import { applyBulkAction } from "./bulkUpdate";
+import { HistoryOp, MutationHistory, MutationTransaction, laneMutationOp } from "./mutationHistory";
+import { LaneMutation, laneKeyForCard, laneMutations } from "./swimlanes";
+import { IssueEvent } from "./issueEvents";
+import { ActivityEntry } from "./activityFeed";
+import { AgentSummary } from "./agentMonitor";
+import { DEFAULT_WISP_COLLAPSE_DAYS } from "./wisps";
+import { MAX_PINNED, orderPinned } from "./pinnedIssues";
+import { CycleCheckIncompleteError, findNewCycle } from "./dependencyGuard";
+import { GRAPH_EXPORT_FORMATS } from "./graphExport";
+import { TemplateSummary, instantiateTemplate, listTemplates, loadTemplateTree, templatePlaceholders } from "./templates";
+import { ColumnDefinition, DEFAULT_COLUMNS, columnForCard, planColumnMove } from "./boardColumns";
 import { getWebviewHtml } from "./webview";
 import { sanitizeErrorWithContext as sanitizeError } from "./sanitizeError";
 import { validateMarkdownFields, validateCommentContent } from "./markdownValidator";
@@ -9,16 +27,31 @@ import {
   MinimalCard,
   FullCard,
   BoardColumnKey,
-  IssueStatus,
   IssueUpdateSchema,
   IssueCreateSchema,
   CommentAddSchema,
   LabelSchema,
   DependencySchema,
-  SetStatusSchema,
+  DependencyRemovalSchema,
+  IssueMoveSchema,
+  IssueLaneMoveSchema,
+  IssueBulkUpdateSchema,
+  BulkItemResult,
+  TemplateInstantiateSchema,
+  PinOrderSchema,
   BoardLoadColumnSchema,
   BoardLoadMoreSchema,
+  configuredColumnKeySchema,
   TableLoadPageSchema,
+  TableFilters,
+  SavedView,
+  SavedViewEntry,
+  SavedViewScope,
+  SavedViewSchema,
+  SavedViewStateSchema,
+  SavedViewRefSchema,
+  GraphExportSchema,
+  WipConfig,
   ColumnDataMap,
   ColumnData,
   IssueIdSchema
@@ -28,30 +61,77 @@ type WebMsg =
   | { type: "board.load"; requestId: string }
   | { type: "board.refresh"; requestId: string }
   | { type: "board.loadMinimal"; requestId: string }
+  | { type: "board.resync"; requestId: string }
   | { type: "board.loadColumn"; requestId: string; payload: { column: BoardColumnKey; offset: number; limit: number } }
   | { type: "board.loadMore"; requestId: string; payload: { column: BoardColumnKey } }
-  | { type: "table.loadPage"; requestId: string; payload: { filters: { search?: string; priority?: string; type?: string; status?: string; assignee?: string; labels?: string[] }; sorting: Array<{ id: string; dir: 'asc' | 'desc' }>; offset: number; limit: number } }
+  | { type: "table.loadPage"; requestId: string; payload: { filters: TableFilters; sorting: Array<{ id: string; dir: 'asc' | 'desc' }>; offset: number; limit: number } }
   | { type: "repo.select"; requestId: string }
+  | { type: "views.list"; requestId: string }
+  | { type: "views.save"; requestId: string; payload: { view: Omit<SavedView, 'name'> } }
+  | { type: "views.delete"; requestId: string; payload: { name: string; scope: SavedViewScope } }
+  | { type: "pins.reorder"; requestId: string; payload: { ids: string[] } }
+  | { type: "graph.export"; requestId: string; payload: { format: 'svg' | 'png' | 'mermaid' | 'dot'; content: string } }
   | { type: "issue.create"; requestId: string; payload: { title: string; description?: string } }
   | { type: "issue.move"; requestId: string; payload: { id: string; toColumn: BoardColumnKey } }
+  | { type: "issue.moveToLane"; requestId: string; payload: { id: string; groupBy: string; labelPrefix?: string; toLane: string; toColumn?: BoardColumnKey } }
   | { type: "issue.getFull"; requestId: string; payload: { id: string } }
+  | { type: "issue.getHistory"; requestId: string; payload: { id: string } }
+  | { type: "activity.load"; requestId: string }
+  | { type: "activity.unwatch"; requestId: string }
+  | { type: "agents.load"; requestId: string }
+  | { type: "templates.list"; requestId: string }
+  | { type: "templates.inspect"; requestId: string; payload: { id: string } }
+  | { type: "templates.instantiate"; requestId: string; payload: { id: string; values: Record<string, string> } }
   | { type: "issue.addToChat"; requestId: string; payload: { text: string } }
   | { type: "issue.copyToClipboard"; requestId: string; payload: { text: string } }
-  | { type: "issue.update"; requestId: string; payload: { id: string; updates: unknown } }
+  | { type: "issue.update"; requestId: string; payload: { id: string; updates: unknown; expectedUpdatedAt?: string } }
   | { type: "issue.addComment"; requestId: string; payload: { id: string; text: string; author?: string } }
   | { type: "issue.addLabel"; requestId: string; payload: { id: string; label: string } }
   | { type: "issue.removeLabel"; requestId: string; payload: { id: string; label: string } }
-  | { type: "issue.addDependency"; requestId: string; payload: { id: string; otherId: string; type: 'parent-child' | 'blocks' } }
-  | { type: "issue.removeDependency"; requestId: string; payload: { id: string; otherId: string } };
+  | { type: "issue.addDependency"; requestId: string; payload: { id: string; otherId: string; type: 'parent-child' | 'blocks'; force?: boolean } }
+  | { type: "issue.removeDependency"; requestId: string; payload: { id: string; otherId: string } }
+  | { type: "issue.removeDependencies"; requestId: string; payload: { links: Array<{ id: string; otherId: string }> } }
+  | { type: "issue.bulkUpdate"; requestId: string; payload: { ids: string[]; action: unknown } }
+  | { type: "history.undo"; requestId: string }
+  | { type: "history.redo"; requestId: string };
 
 type ExtMsg =
   | { type: "board.data"; requestId: string; payload: BoardData }
-  | { type: "board.minimal"; requestId: string; payload: { cards: MinimalCard[] } }
+  | { type: "board.minimal"; requestId: string; payload: { cards: MinimalCard[]; version: number; actor: string | null } }
+  | { type: "board.delta"; requestId: string; payload: BoardDelta }
+  // wispCollapseDays: closed wisps older than this are folded into a summary row (see src/wisps.ts)
+  | { type: "board.config"; requestId: string; payload: { columns: ColumnDefinition[]; wip: WipConfig; wispCollapseDays: number } }
   | { type: "board.columnData"; requestId: string; payload: { column: BoardColumnKey; cards: BoardCard[]; offset: number; totalCount: number; hasMore: boolean } }
   | { type: "table.pageData"; requestId: string; payload: { cards: BoardCard[]; offset: number; totalCount: number; hasMore: boolean } }
   | { type: "issue.full"; requestId: string; payload: { card: FullCard } }
+  | { type: "issue.history"; requestId: string; payload: { id: string; events: IssueEvent[] } }
+  | { type: "activity.data"; requestId: string; payload: { entries: ActivityEntry[] } }
+  // Entries recorded since the last activity.data/activity.append, sent after file watcher refreshes
+  | { type: "activity.append"; requestId: string; payload: { entries: ActivityEntry[] } }
+  | { type: "agents.data"; requestId: string; payload: { agents: AgentSummary[] } }
+  | { type: "templates.data"; requestId: string; payload: { templates: TemplateSummary[] } }
+  | { type: "templates.detail"; requestId: string; payload: { id: string; issueCount: number; placeholders: string[] } }
+  | { type: "views.data"; requestId: string; payload: { views: SavedViewEntry[] } }
+  // Pinned issues in strip order, sent with every board
+  | { type: "pins.data"; requestId: string; payload: { cards: BoardCard[] } }
+  | { type: "views.apply"; requestId: string; payload: { view: SavedView } }
+  | { type: "history.recorded"; requestId: string; payload: { label: string } }
+  | { type: "issue.conflict"; requestId: string; payload: { card: FullCard } }
   | { type: "mutation.ok"; requestId: string; payload?: unknown }
-  | { type: "mutation.error"; requestId: string; error: string };
+  // code "circuit_open": bd was not run because the circuit breaker is open
+  | { type: "mutation.error"; requestId: string; error: string; code?: "circuit_open" };
+
+// workspaceState key: Pinned strip order (issue ids) by repository root
+const PIN_ORDER_KEY = "beadsKanban.pinOrder";
+
+// Payload checks for the steps of a swimlane move (see laneMutations)
+const LANE_MUTATION_SCHEMAS: Record<LaneMutation['type'], typeof IssueUpdateSchema | typeof LabelSchema | typeof DependencySchema> = {
+  'issue.update': IssueUpdateSchema,
+  'issue.addLabel': LabelSchema,
+  'issue.removeLabel': LabelSchema,
+  'issue.addDependency': DependencySchema,
+  'issue.removeDependency': DependencySchema
+};
 
 // Size limits for text operations
 const MAX_CHAT_TEXT = 50_000; // 50KB reasonable for chat
@@ -133,20 +213,59 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(output);
 
-  let adapter: DaemonBeadsAdapter | null = null;
+  let adapter: BeadsAdapter | null = null;
   let adapterWorkspaceRoot: string | null = null;
+  let adapterDataSource: string | null = null;
+
+  // Undo/redo of board mutations, shared by all boards and kept across refreshes
+  const history = new MutationHistory();
+
+  // Open boards using each adapter. A board keeps the adapter it was opened with, so an
+  // adapter replaced by a settings change is only disposed once its last board closes.
+  const adapterBoards = new Map<BeadsAdapter, number>();
+
+  const holdAdapter = (held: BeadsAdapter) => {
+    adapterBoards.set(held, (adapterBoards.get(held) ?? 0) + 1);
+  };
+
+  const releaseAdapter = (held: BeadsAdapter) => {
+    const boards = (adapterBoards.get(held) ?? 1) - 1;
+    if (boards > 0) {
+      adapterBoards.set(held, boards);
+      return;
+    }
+    adapterBoards.delete(held);
+    if (held !== adapter) {
+      held.dispose();
+    }
+  };
 
-  const ensureAdapter = (): DaemonBeadsAdapter | null => {
+  const ensureAdapter = (): BeadsAdapter | null => {
     const ws = vscode.workspace.workspaceFolders?.[0];
     if (!ws) {
       return null;
     }
 
-    if (!adapter || adapterWorkspaceRoot !== ws.uri.fsPath) {
-      adapter?.dispose();
-      output.appendLine('[Extension] Using DaemonBeadsAdapter');
-      adapter = new DaemonBeadsAdapter(ws.uri.fsPath, output);
+    const dataSource = vscode.workspace.getConfiguration('beadsKanban').get<string>('dataSource', 'bd');
+    if (!adapter || adapterWorkspaceRoot !== ws.uri.fsPath || adapterDataSource !== dataSource) {
+      // Boards still open on the old adapter keep using it (see releaseAdapter)
+      if (adapter && !adapterBoards.has(adapter)) {
+        adapter.dispose();
+      }
+      if (adapterWorkspaceRoot !== ws.uri.fsPath) {
+        history.clear(); // Undo entries refer to the previous repository's issues
+      }
+      // Writes always go through bd; the direct adapter only takes over listing and counting
+      const daemonAdapter = new DaemonBeadsAdapter(ws.uri.fsPath, output);
+      if (dataSource === 'direct') {
+        output.appendLine('[Extension] Using DirectQueryBeadsAdapter (falls back to bd CLI if the database is unreadable)');
+        adapter = new DirectQueryBeadsAdapter(ws.uri.fsPath, output, daemonAdapter);
+      } else {
+        output.appendLine('[Extension] Using DaemonBeadsAdapter');
+        adapter = daemonAdapter;
+      }
       adapterWorkspaceRoot = ws.uri.fsPath;
+      adapterDataSource = dataSource;
     }
 
     return adapter;
@@ -154,6 +273,15 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push({ dispose: () => adapter?.dispose() });
 
+  // Repository the board shows: the workspace folder, or the one picked with repo.select.
+  // Shared views, columns, WIP limits and pin order are all read from it.
+  const repoRoot = (): string | null => adapter?.getConnectedDbPath() ?? adapterWorkspaceRoot;
+
+  const savedViews = new SavedViewStore(context.workspaceState, repoRoot, output);
+
+  // Open boards, most recently focused last; the Apply Saved View command targets the last one
+  const openBoards: Array<{ applyView: (view: SavedView) => void }> = [];
+
   if (vscode.workspace.workspaceFolders?.[0]) {
     ensureAdapter();
   }
@@ -184,6 +312,8 @@ export function activate(context: vscode.ExtensionContext) {
       }
     );
     output.appendLine('[Extension] Webview panel created');
+    holdAdapter(adapter);
+    panel.onDidDispose(() => releaseAdapter(adapter));
 
     const readOnly = vscode.workspace.getConfiguration().get<boolean>("beadsKanban.readOnly", false);
 
@@ -197,11 +327,19 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Track loaded ranges per column for incremental loading
     const loadedRanges = new Map<BoardColumnKey, Array<{ offset: number; limit: number }>>();
-    // Initialize with empty arrays for each column
-    loadedRanges.set('ready', []);
-    loadedRanges.set('in_progress', []);
-    loadedRanges.set('blocked', []);
-    loadedRanges.set('closed', []);
+
+    // Columns from settings or .beads/kanban.json, re-read with every board
+    let boardColumns: ColumnDefinition[] = DEFAULT_COLUMNS;
+
+    // Last board sent to the webview; mutations and file watcher refreshes are posted as deltas against it
+    const boardSnapshot = new BoardSnapshot();
+
+    // Timestamp of the newest activity entry sent; null while the Activity view is closed
+    let activityWatermark: string | null = null;
+
+    // A view applied from the command palette before the webview script is up waits for its first message
+    let webviewReady = false;
+    let pendingView: SavedView | null = null;
 
     const post = (msg: ExtMsg) => {
       // Atomic check for disposal and cancellation to prevent TOCTOU race condition
@@ -223,7 +361,61 @@ export function activate(context: vscode.ExtensionContext) {
       }
     };
 
-    const sendBoard = async (requestId: string) => {
+    // Stream activity recorded since the last entries sent to an open Activity view
+    const pushActivity = async (requestId: string) => {
+      if (activityWatermark === null) {
+        return;
+      }
+      try {
+        const entries = await adapter.getActivity(activityWatermark || undefined);
+        if (entries.length === 0 || activityWatermark === null || cancellationToken.cancelled) {
+          return;
+        }
+        activityWatermark = entries[0].created_at;
+        post({ type: "activity.append", requestId, payload: { entries } });
+      } catch (e) {
+        output.appendLine(`[Extension] Error loading activity: ${sanitizeError(e)}`);
+      }
+    };
+
+    const postBoardConfig = async (requestId: string) => {
+      const columns = await loadBoardColumns(repoRoot(), output);
+      if (JSON.stringify(columns) !== JSON.stringify(boardColumns)) {
+        loadedRanges.clear(); // Column keys or predicates changed; old pages no longer apply
+      }
+      boardColumns = columns;
+      adapter.setColumns(columns);
+      const wip = await loadWipConfig(repoRoot(), output);
+      const wispCollapseDays = Math.max(0, vscode.workspace.getConfiguration('beadsKanban').get<number>('ephemeralCollapseDays', DEFAULT_WISP_COLLAPSE_DAYS));
+      post({ type: "board.config", requestId, payload: { columns, wip, wispCollapseDays } });
+    };
+
+    // Ids in the Pinned strip as last sent; deltas that touch none of them keep the strip as is
+    let pinnedIds = new Set<string>();
+
+    // Pinned issues are read on their own, so the strip ignores filters and the board's load limit.
+    // The query lists every issue on the bd adapter, so it runs on full loads and pin changes only.
+    const postPinned = async (requestId: string) => {
+      try {
+        const { cards } = await adapter.getTableData({ query: 'is:pinned' }, [], 0, MAX_PINNED);
+        pinnedIds = new Set(cards.map(card => card.id));
+        const order = context.workspaceState.get<Record<string, string[]>>(PIN_ORDER_KEY, {})[repoRoot() ?? ''] ?? [];
+        post({ type: "pins.data", requestId, payload: { cards: orderPinned(cards, order) } });
+      } catch (e) {
+        output.appendLine(`[Extension] Error loading pinned issues: ${sanitizeError(e)}`);
+      }
+    };
+
+    // A delta changes the strip if a pinned card changed or left, or a card was pinned or unpinned
+    const pinsAffected = (delta: BoardDelta) =>
+      delta.removed.some(id => pinnedIds.has(id)) ||
+      [...delta.added, ...delta.changed].some(card => pinnedIds.has(card.id) || Boolean(card.pinned));
+
+    /**
+     * @param options.incremental Post a delta against the last board when there is one
+     * @param options.pins Re-read the Pinned strip even for a delta (pin changes of cards outside the board)
+     */
+    const sendBoard = async (requestId: string, options: { incremental?: boolean; pins?: boolean } = {}) => {
       if (isDisposed) {
         output.appendLine(`[Extension] Skipping sendBoard - webview is disposed`);
         return;
@@ -231,27 +423,55 @@ export function activate(context: vscode.ExtensionContext) {
       output.appendLine(`[Extension] sendBoard called with requestId: ${requestId}`);
       initialLoadSent = true; // Mark that we've sent board data
       try {
+        // Columns and WIP limits may come from .beads/kanban.json, so re-read them with every board
+        await postBoardConfig(requestId);
+        const delta = options.incremental && !options.pins;
+        if (!delta || !boardSnapshot.isInitialized()) {
+          await postPinned(requestId);
+        }
+
         // Read configuration settings
         const config = vscode.workspace.getConfiguration('beadsKanban');
         const initialLoadLimit = config.get<number>('initialLoadLimit', 100);
 
         // Phase 1-3: Prefer fast minimal loading if available
-        const supportsFastLoading = typeof (adapter as DaemonBeadsAdapter).getBoardMinimal === 'function';
+        const supportsFastLoading = typeof adapter.getBoardMinimal === 'function';
 
         if (supportsFastLoading) {
           output.appendLine(`[Extension] Using fast loading path (getBoardMinimal) with limit: ${initialLoadLimit}`);
-          const cards = await (adapter as DaemonBeadsAdapter).getBoardMinimal(initialLoadLimit);
+          const cards = await adapter.getBoardMinimal(initialLoadLimit);
           output.appendLine(`[Extension] Loaded ${cards.length} minimal cards for refresh`);
 
           // Check cancellation before posting
-          if (!cancellationToken.cancelled) {
-            post({ type: "board.minimal", requestId, payload: { cards } });
-          } else {
+          if (cancellationToken.cancelled) {
             output.appendLine(`[Extension] Skipped posting board.minimal - operation cancelled`);
+            return;
+          }
+
+          if (options.incremental && boardSnapshot.isInitialized()) {
+            const changes = boardSnapshot.diff(cards);
+            if (changes) {
+              output.appendLine(`[Extension] Posting board.delta v${changes.version}: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed`);
+              if (delta && pinsAffected(changes)) {
+                await postPinned(requestId);
+              }
+              post({ type: "board.delta", requestId, payload: changes });
+            } else {
+              // Still posted: the webview settles the request's optimistic changes on its board update
+              output.appendLine(`[Extension] Board unchanged since v${boardSnapshot.getVersion()}, posting empty board.delta`);
+              post({ type: "board.delta", requestId, payload: boardSnapshot.unchanged() });
+            }
+          } else {
+            const version = boardSnapshot.reset(cards);
+            const actor = await adapter.getActor().catch(() => null);
+            post({ type: "board.minimal", requestId, payload: { cards, version, actor } });
           }
           return;
         }
 
+        // Deltas are only computed against board.minimal payloads
+        boardSnapshot.clear();
+
         // Fallback: Use incremental loading
         const preloadClosedColumn = config.get<boolean>('preloadClosedColumn', false);
 
@@ -264,24 +484,15 @@ export function activate(context: vscode.ExtensionContext) {
           // Use incremental loading approach
           output.appendLine(`[Extension] Using incremental loading for initial board data`);
 
-          const columnsToPreload: BoardColumnKey[] = ['ready', 'in_progress', 'blocked'];
-          if (preloadClosedColumn) {
-            columnsToPreload.push('closed');
-          }
-
-          // Load initial data for each column using proper types
-          // Initialize all columns to satisfy ColumnDataMap type
-          const columnDataMap = {} as ColumnDataMap;
+          // Columns that only hold closed issues are loaded on demand unless preloadClosedColumn is set
+          const isClosedColumn = (column: ColumnDefinition) =>
+            column.match.status?.length === 1 && column.match.status[0] === 'closed';
+          const columnsToPreload = boardColumns
+            .filter(column => preloadClosedColumn || !isClosedColumn(column))
+            .map(column => column.key);
+          const deferredColumns = boardColumns.filter(column => !columnsToPreload.includes(column.key));
 
-          // Initialize 'open' column with empty data (not displayed in UI)
-          const openTotalCount = await adapter.getColumnCount('open');
-          columnDataMap['open'] = {
-            cards: [],
-            offset: 0,
-            limit: 0,
-            totalCount: openTotalCount,
-            hasMore: openTotalCount > 0
-          };
+          const columnDataMap: ColumnDataMap = {};
 
           for (const column of columnsToPreload) {
             try {
@@ -318,9 +529,9 @@ export function activate(context: vscode.ExtensionContext) {
             }
           }
 
-          // Initialize closed column with empty data if not preloaded
-          if (!preloadClosedColumn) {
-            const totalCount = await adapter.getColumnCount('closed');
+          // Initialize closed columns with empty data if not preloaded
+          for (const { key } of deferredColumns) {
+            const totalCount = await adapter.getColumnCount(key);
             const closedColumnData: ColumnData = {
               cards: [],
               offset: 0,
@@ -328,8 +539,8 @@ export function activate(context: vscode.ExtensionContext) {
               totalCount,
               hasMore: totalCount > 0
             };
-            columnDataMap['closed'] = closedColumnData;
-            output.appendLine(`[Extension] Closed column not preloaded (${totalCount} total cards available)`);
+            columnDataMap[key] = closedColumnData;
+            output.appendLine(`[Extension] Column ${key} not preloaded (${totalCount} total cards available)`);
           }
 
           // Use getBoardMetadata() instead of getBoard() to avoid loading all issues
@@ -341,7 +552,7 @@ export function activate(context: vscode.ExtensionContext) {
           // Note: data.cards is now empty array from getBoardMetadata, actual cards are in columnData
           // Also validate cards in columnData
           for (const column of Object.keys(columnDataMap)) {
-            const columnCards = columnDataMap[column as BoardColumnKey]?.cards;
+            const columnCards = columnDataMap[column]?.cards;
             if (columnCards && columnCards.length > 0) {
               await validateBoardCards(columnCards, output);
             }
@@ -390,7 +601,9 @@ export function activate(context: vscode.ExtensionContext) {
       
       try {
         // Validate the request
-        const validation = BoardLoadColumnSchema.safeParse({ column, offset, limit });
+        const validation = BoardLoadColumnSchema
+          .extend({ column: configuredColumnKeySchema(boardColumns.map(c => c.key)) })
+          .safeParse({ column, offset, limit });
         if (!validation.success) {
           post({ type: "mutation.error", requestId, error: `Invalid loadColumn request: ${validation.error.message}` });
           return;
@@ -436,7 +649,9 @@ export function activate(context: vscode.ExtensionContext) {
 
       try {
         // Validate the request
-        const validation = BoardLoadMoreSchema.safeParse({ column });
+        const validation = BoardLoadMoreSchema
+          .extend({ column: configuredColumnKeySchema(boardColumns.map(c => c.key)) })
+          .safeParse({ column });
         if (!validation.success) {
           // Check cancellation before posting error
           if (!cancellationToken.cancelled) {
@@ -467,7 +682,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     const handleTableLoadPage = async (
       requestId: string,
-      filters: { search?: string; priority?: string; type?: string; status?: string; assignee?: string; labels?: string[] },
+      filters: TableFilters,
       sorting: Array<{ id: string; dir: 'asc' | 'desc' }>,
       offset: number,
       limit: number
@@ -511,16 +726,157 @@ export function activate(context: vscode.ExtensionContext) {
       }
     };
 
+    const boardHandle = {
+      applyView: (view: SavedView) => {
+        panel.reveal();
+        if (webviewReady) {
+          post({ type: "views.apply", requestId: `view-${Date.now()}`, payload: { view } });
+        } else {
+          pendingView = view;
+        }
+      }
+    };
+    openBoards.push(boardHandle);
+    panel.onDidChangeViewState(e => {
+      if (e.webviewPanel.active) {
+        openBoards.splice(openBoards.indexOf(boardHandle), 1);
+        openBoards.push(boardHandle);
+      }
+    });
+    panel.onDidDispose(() => {
+      const index = openBoards.indexOf(boardHandle);
+      if (index !== -1) {
+        openBoards.splice(index, 1);
+      }
+    });
+
+    // Show new WIP limits without waiting for the next board load; new columns need a full reload
+    const configListener = vscode.workspace.onDidChangeConfiguration(async e => {
+      if (e.affectsConfiguration('beadsKanban.columns')) {
+        await sendBoard(`config-${Date.now()}`);
+      } else if (e.affectsConfiguration('beadsKanban.wipLimits') || e.affectsConfiguration('beadsKanban.wipLimitStrict')) {
+        await postBoardConfig(`wip-${Date.now()}`);
+      }
+    });
+    panel.onDidDispose(() => configListener.dispose());
+
+    // Record a finished transaction and offer Undo in the webview
+    const commitHistory = (requestId: string, tx: MutationTransaction) => {
+      if (history.commit(tx)) {
+        post({ type: "history.recorded", requestId, payload: { label: tx.label } });
+      }
+    };
+
+    // Run ops as one undoable action; ops applied before a failure are still recorded
+    const runRecorded = async (requestId: string, label: string, ops: HistoryOp[]) => {
+      const tx = history.begin(label);
+      try {
+        await tx.run(adapter, ops);
+      } finally {
+        commitHistory(requestId, tx);
+      }
+    };
+
+    /**
+     * Ops that move a card into a column, or the error when a strict WIP limit
+     * refuses it. `card` is only needed when label or assignee columns exist.
+     */
+    const columnMoveOps = async (id: string, card: FullCard | null, toColumn: BoardColumnKey): Promise<HistoryOp[] | string> => {
+      // Strict WIP limits are enforced here so every client (drag, swimlane, bulk) is covered
+      const wip = await loadWipConfig(repoRoot(), output);
+      if (wip.strict && wip.limits[toColumn] !== undefined) {
+        const count = await adapter.getColumnCount(toColumn);
+        const title = boardColumns.find(c => c.key === toColumn)?.title ?? toColumn;
+        const wipError = wipLimitError(wip, toColumn, title, count);
+        if (wipError) {
+          return wipError;
+        }
+      }
+      const plan = planColumnMove(boardColumns, card, toColumn);
+      const ops: HistoryOp[] = [];
+      if (plan.status) {
+        ops.push({ kind: 'setStatus', id, status: plan.status });
+      }
+      ops.push(...plan.removeLabels.map((label): HistoryOp => ({ kind: 'removeLabel', id, label })));
+      ops.push(...plan.addLabels.map((label): HistoryOp => ({ kind: 'addLabel', id, label })));
+      if (plan.assignee !== undefined) {
+        ops.push({ kind: 'update', id, updates: { assignee: plan.assignee } });
+      }
+      return ops;
+    };
+
+    /**
+     * Check a new link for a dependency cycle and, if it would close one (or the
+     * walk was too large to rule one out), ask the user. Posts the error and
+     * returns false when the user declines.
+     */
+    const confirmLink = async (requestId: string, id: string, otherId: string, type: 'blocks' | 'parent-child'): Promise<boolean> => {
+      let cycle: string[] | null = null;
+      let unchecked: string | null = null;
+      try {
+        cycle = await findNewCycle(adapter, id, otherId, type);
+      } catch (e) {
+        if (!(e instanceof CycleCheckIncompleteError)) {
+          throw e;
+        }
+        unchecked = e.message;
+      }
+      // A check that could not see every issue is not a pass either: the user decides
+      if (!cycle && !unchecked) {
+        return true;
+      }
+      const chain = cycle?.join(' → ');
+      const choice = await vscode.window.showWarningMessage(
+        chain
+          ? `Linking ${id} to ${otherId} would create a dependency cycle: ${chain}.`
+          : `Linking ${id} to ${otherId} may create a dependency cycle: ${unchecked}.`,
+        { modal: true },
+        "Add Anyway"
+      );
+      if (choice === "Add Anyway") {
+        return true;
+      }
+      output.appendLine(`[Extension] Refused dependency ${id} -> ${otherId}: ${chain ? `cycle ${chain}` : unchecked}`);
+      post({
+        type: "mutation.error",
+        requestId,
+        error: chain
+          ? `Not linked: it would create a dependency cycle (${chain})`
+          : `Not linked: it could not be checked for dependency cycles (${unchecked})`
+      });
+      return false;
+    };
+
+    const postSavedViews = async (requestId: string) => {
+      const views = await savedViews.list();
+      post({ type: "views.data", requestId, payload: { views } });
+    };
+
     // Set up message handler BEFORE setting HTML to avoid race condition
     panel.webview.onDidReceiveMessage(async (msg: WebMsg) => {
       output.appendLine(`[Extension] Received message: ${msg?.type} (requestId: ${msg?.requestId})`);
       if (!msg?.type || !msg.requestId) {return;}
 
+      if (!webviewReady) {
+        webviewReady = true;
+        if (pendingView) {
+          post({ type: "views.apply", requestId: `view-${Date.now()}`, payload: { view: pendingView } });
+          pendingView = null;
+        }
+      }
+
       if (msg.type === "board.load" || msg.type === "board.refresh") {
         sendBoard(msg.requestId);
         return;
       }
 
+      // Webview missed a delta (version gap) and needs the full board again
+      if (msg.type === "board.resync") {
+        output.appendLine(`[Extension] Webview requested full resync (last version sent: ${boardSnapshot.getVersion()})`);
+        sendBoard(msg.requestId);
+        return;
+      }
+
       if (msg.type === "board.loadColumn") {
         const { column, offset, limit } = msg.payload;
         await handleLoadColumn(msg.requestId, column, offset, limit);
@@ -536,7 +892,7 @@ export function activate(context: vscode.ExtensionContext) {
       if (msg.type === "board.loadMinimal") {
         try {
           // Check if adapter supports fast loading
-          if (typeof (adapter as DaemonBeadsAdapter).getBoardMinimal !== 'function') {
+          if (typeof adapter.getBoardMinimal !== 'function') {
             post({ type: "mutation.error", requestId: msg.requestId, error: "Adapter does not support fast minimal loading. Please enable daemon mode or update your adapter." });
             return;
           }
@@ -546,12 +902,14 @@ export function activate(context: vscode.ExtensionContext) {
           const initialLoadLimit = config.get<number>('initialLoadLimit', 100);
 
           output.appendLine(`[Extension] Loading minimal board data with limit: ${initialLoadLimit}`);
-          const cards = await (adapter as DaemonBeadsAdapter).getBoardMinimal(initialLoadLimit);
+          const cards = await adapter.getBoardMinimal(initialLoadLimit);
           output.appendLine(`[Extension] Loaded ${cards.length} minimal cards`);
           
           // Check cancellation before posting
           if (!cancellationToken.cancelled) {
-            post({ type: "board.minimal", requestId: msg.requestId, payload: { cards } });
+            const version = boardSnapshot.reset(cards);
+            const actor = await adapter.getActor().catch(() => null);
+            post({ type: "board.minimal", requestId: msg.requestId, payload: { cards, version, actor } });
           } else {
             output.appendLine(`[Extension] Skipped posting board.minimal - operation cancelled`);
           }
@@ -564,6 +922,81 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      if (msg.type === "issue.getHistory") {
+        const validation = IssueIdSchema.safeParse(msg.payload?.id);
+        if (!validation.success) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: "Invalid issue ID format" });
+          return;
+        }
+        try {
+          const events = await adapter.getIssueHistory(validation.data);
+          post({ type: "issue.history", requestId: msg.requestId, payload: { id: validation.data, events } });
+        } catch (e) {
+          output.appendLine(`[Extension] Error loading issue history: ${sanitizeError(e)}`);
+          post({ type: "mutation.error", requestId: msg.requestId, error: sanitizeError(e) });
+        }
+        return;
+      }
+
+      if (msg.type === "activity.load") {
+        try {
+          const entries = await adapter.getActivity();
+          activityWatermark = entries[0]?.created_at ?? '';
+          post({ type: "activity.data", requestId: msg.requestId, payload: { entries } });
+        } catch (e) {
+          output.appendLine(`[Extension] Error loading activity: ${sanitizeError(e)}`);
+          post({ type: "mutation.error", requestId: msg.requestId, error: sanitizeError(e) });
+        }
+        return;
+      }
+
+      if (msg.type === "activity.unwatch") {
+        activityWatermark = null;
+        return;
+      }
+
+      if (msg.type === "agents.load") {
+        try {
+          const agents = await adapter.getAgents();
+          post({ type: "agents.data", requestId: msg.requestId, payload: { agents } });
+        } catch (e) {
+          output.appendLine(`[Extension] Error loading agents: ${sanitizeError(e)}`);
+          post({ type: "mutation.error", requestId: msg.requestId, error: sanitizeError(e) });
+        }
+        return;
+      }
+
+      if (msg.type === "templates.list") {
+        try {
+          const templates = await listTemplates(adapter);
+          post({ type: "templates.data", requestId: msg.requestId, payload: { templates } });
+        } catch (e) {
+          output.appendLine(`[Extension] Error loading templates: ${sanitizeError(e)}`);
+          post({ type: "mutation.error", requestId: msg.requestId, error: sanitizeError(e) });
+        }
+        return;
+      }
+
+      if (msg.type === "templates.inspect") {
+        const validation = IssueIdSchema.safeParse(msg.payload?.id);
+        if (!validation.success) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: "Invalid issue ID format" });
+          return;
+        }
+        try {
+          const tree = await loadTemplateTree(adapter, validation.data);
+          post({
+            type: "templates.detail",
+            requestId: msg.requestId,
+            payload: { id: validation.data, issueCount: tree.issues.length, placeholders: templatePlaceholders(tree) }
+          });
+        } catch (e) {
+          output.appendLine(`[Extension] Error reading template: ${sanitizeError(e)}`);
+          post({ type: "mutation.error", requestId: msg.requestId, error: sanitizeError(e) });
+        }
+        return;
+      }
+
       if (msg.type === "issue.getFull") {
         try {
           const issueId = msg.payload.id;
@@ -576,13 +1009,13 @@ export function activate(context: vscode.ExtensionContext) {
           }
           
           // Check if adapter supports fast loading
-          if (typeof (adapter as DaemonBeadsAdapter).getIssueFull !== 'function') {
+          if (typeof adapter.getIssueFull !== 'function') {
             post({ type: "mutation.error", requestId: msg.requestId, error: "Adapter does not support full issue loading. Please enable daemon mode or update your adapter." });
             return;
           }
           
           output.appendLine(`[Extension] Loading full details for issue ${issueId}`);
-          const card = await (adapter as DaemonBeadsAdapter).getIssueFull(issueId);
+          const card = await adapter.getIssueFull(issueId);
           output.appendLine(`[Extension] Loaded full card for ${issueId}`);
           
           // Validate markdown content (defense-in-depth)
@@ -623,6 +1056,140 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      // The pin order is workspace state, not issue data, so it can be changed in read-only mode too
+      if (msg.type === "pins.reorder") {
+        const validation = PinOrderSchema.safeParse(msg.payload);
+        if (!validation.success) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid pin order: ${validation.error.message}` });
+          return;
+        }
+        const orders = context.workspaceState.get<Record<string, string[]>>(PIN_ORDER_KEY, {});
+        await context.workspaceState.update(PIN_ORDER_KEY, { ...orders, [repoRoot() ?? '']: validation.data.ids });
+        post({ type: "mutation.ok", requestId: msg.requestId });
+        return;
+      }
+
+      // Saved views only touch workspace state and .beads/views.json, so they work in read-only mode too
+      if (msg.type === "views.list") {
+        try {
+          await postSavedViews(msg.requestId);
+        } catch (e) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: sanitizeError(e) });
+        }
+        return;
+      }
+
+      if (msg.type === "views.save") {
+        const validation = SavedViewStateSchema.safeParse(msg.payload?.view);
+        if (!validation.success) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid view: ${validation.error.message}` });
+          return;
+        }
+        try {
+          const name = await vscode.window.showInputBox({
+            title: "Save Current View",
+            prompt: "Name for the saved view",
+            placeHolder: "e.g. My open bugs",
+            validateInput: value => SavedViewSchema.shape.name.safeParse(value).success ? null : "Name must be 1-80 characters"
+          });
+          if (!name) {
+            post({ type: "mutation.ok", requestId: msg.requestId });
+            return;
+          }
+          const scopePick = await vscode.window.showQuickPick(
+            [
+              { label: "This workspace", description: "Stored in VS Code workspace state", scope: "workspace" as const },
+              { label: "Shared", description: "Stored in .beads/views.json so it can be committed", scope: "shared" as const }
+            ],
+            { title: `Save "${name.trim()}"`, placeHolder: "Where should the view be stored?" }
+          );
+          if (!scopePick) {
+            post({ type: "mutation.ok", requestId: msg.requestId });
+            return;
+          }
+
+          const view: SavedView = { ...validation.data, name: name.trim() };
+          if (await savedViews.find(view.name, scopePick.scope)) {
+            const overwrite = await vscode.window.showWarningMessage(
+              `A view named "${view.name}" already exists. Replace it?`,
+              { modal: true },
+              "Replace"
+            );
+            if (overwrite !== "Replace") {
+              post({ type: "mutation.ok", requestId: msg.requestId });
+              return;
+            }
+          }
+
+          await savedViews.save(view, scopePick.scope);
+          output.appendLine(`[Extension] Saved view "${view.name}" (${scopePick.scope})`);
+          post({ type: "mutation.ok", requestId: msg.requestId });
+          await postSavedViews(msg.requestId);
+        } catch (e) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Failed to save view: ${sanitizeError(e)}` });
+        }
+        return;
+      }
+
+      if (msg.type === "views.delete") {
+        const validation = SavedViewRefSchema.safeParse(msg.payload);
+        if (!validation.success) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid view: ${validation.error.message}` });
+          return;
+        }
+        try {
+          const { name, scope } = validation.data;
+          const confirm = await vscode.window.showWarningMessage(
+            scope === "shared"
+              ? `Delete the shared view "${name}"? It is removed from .beads/views.json for everyone.`
+              : `Delete the view "${name}"?`,
+            { modal: true },
+            "Delete"
+          );
+          if (confirm === "Delete") {
+            await savedViews.delete(name, scope);
+            output.appendLine(`[Extension] Deleted view "${name}" (${scope})`);
+          }
+          post({ type: "mutation.ok", requestId: msg.requestId });
+          await postSavedViews(msg.requestId);
+        } catch (e) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Failed to delete view: ${sanitizeError(e)}` });
+        }
+        return;
+      }
+
+      // Exporting the graph only writes the file the user picks, so it works in read-only mode too
+      if (msg.type === "graph.export") {
+        const validation = GraphExportSchema.safeParse(msg.payload);
+        if (!validation.success) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid graph export: ${validation.error.message}` });
+          return;
+        }
+        try {
+          const { format, content } = validation.data;
+          const { label, extension } = GRAPH_EXPORT_FORMATS[format];
+          const folder = repoRoot() ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+          const target = await vscode.window.showSaveDialog({
+            title: "Export Dependency Graph",
+            saveLabel: "Export",
+            defaultUri: folder ? vscode.Uri.joinPath(vscode.Uri.file(folder), `dependency-graph.${extension}`) : undefined,
+            filters: { [label]: [extension] }
+          });
+          if (!target) {
+            post({ type: "mutation.ok", requestId: msg.requestId });
+            return;
+          }
+          const bytes = format === "png" ? Buffer.from(content, "base64") : Buffer.from(content, "utf8");
+          await vscode.workspace.fs.writeFile(target, bytes);
+          output.appendLine(`[Extension] Exported graph as ${format} to ${target.fsPath}`);
+          post({ type: "mutation.ok", requestId: msg.requestId });
+          vscode.window.showInformationMessage(`Dependency graph exported to ${target.fsPath}`);
+        } catch (e) {
+          post({ type: "mutation.error", requestId: msg.requestId, error: `Failed to export graph: ${sanitizeError(e)}` });
+        }
+        return;
+      }
+
       if (msg.type === "repo.select") {
         // Open folder picker to select a different beads repository
         const selectedFolder = await vscode.window.showOpenDialog({
@@ -652,14 +1219,20 @@ export function activate(context: vscode.ExtensionContext) {
 
             // Update the adapter to use the new repository path
             adapter.setWorkspaceRoot(folderPath);
+            history.clear();
 
             // Show info message
             vscode.window.showInformationMessage(`Switched to repository: ${folderPath}`);
 
             // Auto-reload the board data with the new repository
             try {
+              // Columns, WIP limits and pin order come from the new repository too
+              await postBoardConfig(msg.requestId);
+              await postPinned(msg.requestId);
+              await postSavedViews(msg.requestId);
               const data = await adapter.getBoard();
               data.readOnly = readOnly; // Propagate read-only mode to webview UI
+              boardSnapshot.clear(); // Old repository's cards must not be diffed against
               post({ type: "board.data", requestId: msg.requestId, payload: data });
             } catch (err) {
               output.appendLine(`[Extension] Error loading board after repo switch: ${err}`);
@@ -701,24 +1274,115 @@ export function activate(context: vscode.ExtensionContext) {
           
           const created = await adapter.createIssue(validation.data);
           post({ type: "mutation.ok", requestId: msg.requestId, payload: { id: created.id } });
-          // push refreshed board
-          await sendBoard(msg.requestId);
+          // push the changed cards
+          await sendBoard(msg.requestId, { incremental: true });
           return;
         }
 
         if (msg.type === "issue.move") {
-          const toStatus: IssueStatus = mapColumnToStatus(msg.payload.toColumn);
-          const validation = SetStatusSchema.safeParse({
-            id: msg.payload.id,
-            status: toStatus
-          });
+          const validation = IssueMoveSchema
+            .extend({ toColumn: configuredColumnKeySchema(boardColumns.map(c => c.key)) })
+            .safeParse(msg.payload);
           if (!validation.success) {
             post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid move data: ${validation.error.message}` });
             return;
           }
-          await adapter.setIssueStatus(validation.data.id, validation.data.status);
+          const { id, toColumn } = validation.data;
+          // Moves out of a label or assignee column undo what that column required, so they need the current card
+          const needsCard = boardColumns.some(c => c.match.labels || c.match.assignee);
+          const card = needsCard ? await adapter.getIssueFull(id) : null;
+          if (card && columnForCard(card, boardColumns) === toColumn) {
+            post({ type: "mutation.ok", requestId: msg.requestId });
+            // Nothing changed, but the board update settles the webview's optimistic drop
+            await sendBoard(msg.requestId, { incremental: true });
+            return;
+          }
+          const ops = await columnMoveOps(id, card, toColumn);
+          if (typeof ops === 'string') {
+            post({ type: "mutation.error", requestId: msg.requestId, error: ops });
+            return;
+          }
+          const title = boardColumns.find(c => c.key === toColumn)?.title ?? toColumn;
+          await runRecorded(msg.requestId, `Move ${id} to ${title}`, ops);
+          post({ type: "mutation.ok", requestId: msg.requestId });
+          await sendBoard(msg.requestId, { incremental: true });
+          return;
+        }
+
+        if (msg.type === "issue.moveToLane") {
+          const validation = IssueLaneMoveSchema
+            .extend({ toColumn: configuredColumnKeySchema(boardColumns.map(c => c.key)).optional() })
+            .safeParse(msg.payload);
+          if (!validation.success) {
+            post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid lane move data: ${validation.error.message}` });
+            return;
+          }
+          const { id, groupBy, labelPrefix, toLane, toColumn } = validation.data;
+          const card = await adapter.getIssueFull(id);
+          const laneConfig = { groupBy, labelPrefix };
+          let mutations: LaneMutation[];
+          try {
+            // The lane the card leaves comes from bd, not from a webview that may be out of date
+            const fromLane = laneKeyForCard({ ...card, parent_id: card.parent?.id ?? null }, laneConfig);
+            mutations = laneMutations(card, laneConfig, fromLane, toLane);
+          } catch (e) {
+            post({ type: "mutation.error", requestId: msg.requestId, error: e instanceof Error ? e.message : String(e) });
+            return;
+          }
+          // Each step is checked like the message it is named after
+          for (const mutation of mutations) {
+            const check = LANE_MUTATION_SCHEMAS[mutation.type].safeParse(mutation.payload);
+            if (!check.success) {
+              post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid lane move data: ${check.error.message}` });
+              return;
+            }
+          }
+          // A new parent goes through the same cycle check as issue.addDependency
+          for (const mutation of mutations) {
+            if (mutation.type === 'issue.addDependency' && !(await confirmLink(msg.requestId, id, mutation.payload.otherId, mutation.payload.type))) {
+              return;
+            }
+          }
+          const ops = mutations.map(laneMutationOp);
+
+          if (toColumn) {
+            // The column move is planned for the card as it will be once it is in the new lane
+            const moved = { ...card, labels: [...(card.labels ?? [])] };
+            for (const op of ops) {
+              if (op.kind === 'update') {
+                Object.assign(moved, op.updates);
+              } else if (op.kind === 'addLabel') {
+                moved.labels.push(op.label);
+              } else if (op.kind === 'removeLabel') {
+                moved.labels = moved.labels.filter(label => label !== op.label);
+              }
+            }
+            if (columnForCard(moved, boardColumns) !== toColumn) {
+              const columnOps = await columnMoveOps(id, moved, toColumn);
+              if (typeof columnOps === 'string') {
+                post({ type: "mutation.error", requestId: msg.requestId, error: columnOps });
+                return;
+              }
+              ops.push(...columnOps);
+            }
+          }
+
+          // All or nothing: a step that fails reverts the ones before it, so the card never ends up half moved
+          const tx = history.begin(`Move ${id} to ${toLane ? `lane ${toLane}` : 'no lane'}`);
+          try {
+            await tx.run(adapter, ops);
+          } catch (e) {
+            try {
+              await tx.rollback(adapter);
+            } catch (rollbackError) {
+              output.appendLine(`[Extension] Failed to revert lane move of ${id}: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`);
+            }
+            commitHistory(msg.requestId, tx);
+            throw e;
+          }
+          commitHistory(msg.requestId, tx);
           post({ type: "mutation.ok", requestId: msg.requestId });
-          await sendBoard(msg.requestId);
+          await sendBoard(msg.requestId, { incremental: true });
           return;
         }
 
@@ -765,9 +1429,19 @@ export function activate(context: vscode.ExtensionContext) {
             return;
           }
           
-          await adapter.updateIssue(validation.data.id, validation.data.updates);
+          const { id, updates, expectedUpdatedAt } = validation.data;
+          try {
+            await runRecorded(msg.requestId, `Edit ${id}`, [{ kind: 'update', id, updates, expectedUpdatedAt }]);
+          } catch (e) {
+            if (e instanceof IssueConflictError) {
+              // The webview offers a three-way merge against the current issue
+              post({ type: "issue.conflict", requestId: msg.requestId, payload: { card: e.current } });
+              return;
+            }
+            throw e;
+          }
           post({ type: "mutation.ok", requestId: msg.requestId });
-          await sendBoard(msg.requestId);
+          await sendBoard(msg.requestId, { incremental: true, pins: updates.pinned !== undefined });
           return;
         }
 
@@ -796,7 +1470,7 @@ export function activate(context: vscode.ExtensionContext) {
             
             await adapter.addComment(validation.data.id, validation.data.text, validation.data.author);
             post({ type: "mutation.ok", requestId: msg.requestId });
-            await sendBoard(msg.requestId);
+            await sendBoard(msg.requestId, { incremental: true });
             return;
         }
 
@@ -809,9 +1483,11 @@ export function activate(context: vscode.ExtensionContext) {
               post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid label data: ${validation.error.message}` });
               return;
             }
-            await adapter.addLabel(validation.data.id, validation.data.label);
+            await runRecorded(msg.requestId, `Add label ${validation.data.label} to ${validation.data.id}`, [
+              { kind: 'addLabel', id: validation.data.id, label: validation.data.label }
+            ]);
             post({ type: "mutation.ok", requestId: msg.requestId });
-            await sendBoard(msg.requestId);
+            await sendBoard(msg.requestId, { incremental: true });
             return;
         }
 
@@ -824,9 +1500,11 @@ export function activate(context: vscode.ExtensionContext) {
               post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid label data: ${validation.error.message}` });
               return;
             }
-            await adapter.removeLabel(validation.data.id, validation.data.label);
+            await runRecorded(msg.requestId, `Remove label ${validation.data.label} from ${validation.data.id}`, [
+              { kind: 'removeLabel', id: validation.data.id, label: validation.data.label }
+            ]);
             post({ type: "mutation.ok", requestId: msg.requestId });
-            await sendBoard(msg.requestId);
+            await sendBoard(msg.requestId, { incremental: true });
             return;
         }
 
@@ -834,15 +1512,22 @@ export function activate(context: vscode.ExtensionContext) {
             const validation = DependencySchema.safeParse({
               id: msg.payload.id,
               otherId: msg.payload.otherId,
-              type: msg.payload.type
+              type: msg.payload.type,
+              force: msg.payload.force
             });
             if (!validation.success) {
               post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid dependency data: ${validation.error.message}` });
               return;
             }
-            await adapter.addDependency(validation.data.id, validation.data.otherId, validation.data.type);
+            // A link that would close a cycle needs the user's say-so (or force from the caller)
+            if (!validation.data.force && !(await confirmLink(msg.requestId, validation.data.id, validation.data.otherId, validation.data.type ?? 'blocks'))) {
+              return;
+            }
+            await runRecorded(msg.requestId, `Link ${validation.data.id} to ${validation.data.otherId}`, [
+              { kind: 'addDependency', id: validation.data.id, otherId: validation.data.otherId, type: validation.data.type ?? 'blocks' }
+            ]);
             post({ type: "mutation.ok", requestId: msg.requestId });
-            await sendBoard(msg.requestId);
+            await sendBoard(msg.requestId, { incremental: true });
             return;
         }
 
@@ -855,10 +1540,102 @@ export function activate(context: vscode.ExtensionContext) {
               post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid dependency data: ${validation.error.message}` });
               return;
             }
-            await adapter.removeDependency(validation.data.id, validation.data.otherId);
+            await runRecorded(msg.requestId, `Unlink ${validation.data.id} from ${validation.data.otherId}`, [
+              { kind: 'removeDependency', id: validation.data.id, otherId: validation.data.otherId }
+            ]);
+            post({ type: "mutation.ok", requestId: msg.requestId });
+            await sendBoard(msg.requestId, { incremental: true });
+            return;
+        }
+
+        if (msg.type === "issue.removeDependencies") {
+            const validation = DependencyRemovalSchema.safeParse(msg.payload);
+            if (!validation.success) {
+              post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid dependency data: ${validation.error.message}` });
+              return;
+            }
+            const { links } = validation.data;
+            await runRecorded(msg.requestId, `Remove ${links.length} dependency link${links.length === 1 ? '' : 's'}`,
+              links.map(({ id, otherId }): HistoryOp => ({ kind: 'removeDependency', id, otherId })));
             post({ type: "mutation.ok", requestId: msg.requestId });
-            await sendBoard(msg.requestId);
+            await sendBoard(msg.requestId, { incremental: true });
+            return;
+        }
+
+        if (msg.type === "issue.bulkUpdate") {
+          const validation = IssueBulkUpdateSchema.safeParse(msg.payload);
+          if (!validation.success) {
+            post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid bulk update: ${validation.error.message}` });
+            return;
+          }
+          const { ids, action } = validation.data;
+          // Strict WIP limits: a status change admits issues into each full column
+          // until it is at its limit and rejects the rest, each reported like any other failure
+          const rejected: BulkItemResult[] = [];
+          if (action.kind === 'setStatus') {
+            const wip = await loadWipConfig(repoRoot(), output);
+            const entering = new Map<string, string[]>();
+            for (const id of wip.strict && Object.keys(wip.limits).length > 0 ? ids : []) {
+              const card = await adapter.getIssueFull(id).catch(() => null);
+              const toColumn = card ? columnForCard({ ...card, status: action.status }, boardColumns) : null;
+              // Issues already in the column are counted there and do not take a slot
+              if (card && toColumn && wip.limits[toColumn] !== undefined && toColumn !== columnForCard(card, boardColumns)) {
+                entering.set(toColumn, [...(entering.get(toColumn) ?? []), id]);
+              }
+            }
+            for (const [column, columnIds] of entering) {
+              const title = boardColumns.find(c => c.key === column)?.title ?? column;
+              rejected.push(...admitToColumn(wip, column, title, await adapter.getColumnCount(column), columnIds).rejected);
+            }
+          }
+          const admitted = ids.filter(id => !rejected.some(r => r.id === id));
+          // Partial failures are reported per issue in the payload, not as a mutation.error
+          const tx = history.begin(`Bulk ${action.kind} (${ids.length} issues)`);
+          const results = [...await applyBulkAction(adapter, admitted, action, tx), ...rejected];
+          commitHistory(msg.requestId, tx);
+          const failed = results.filter(r => !r.ok);
+          output.appendLine(`[Extension] Bulk ${action.kind}: ${results.length - failed.length}/${results.length} updated`);
+          for (const result of failed) {
+            output.appendLine(`[Extension] Bulk ${action.kind} failed for ${result.id}: ${result.error}`);
+          }
+          post({ type: "mutation.ok", requestId: msg.requestId, payload: { results } });
+          await sendBoard(msg.requestId, { incremental: true });
+          return;
+        }
+
+        if (msg.type === "templates.instantiate") {
+          const validation = TemplateInstantiateSchema.safeParse(msg.payload);
+          if (!validation.success) {
+            post({ type: "mutation.error", requestId: msg.requestId, error: `Invalid template data: ${validation.error.message}` });
+            return;
+          }
+          // Placeholder values end up in descriptions, notes, etc. (defense-in-depth)
+          const values = validation.data.values;
+          if (!Object.values(values).every(value => validateMarkdownFields({ description: value }, output))) {
+            output.appendLine(`[Extension] BLOCKED: Suspicious content detected in template values`);
+            post({ type: "mutation.error", requestId: msg.requestId, error: "Content contains unsafe patterns (javascript:, <script>, or data:text/html)" });
+            return;
+          }
+          const tree = await loadTemplateTree(adapter, validation.data.id);
+          const result = await instantiateTemplate(adapter, tree, values);
+          output.appendLine(`[Extension] Created ${result.created.length} issues from template ${validation.data.id}`);
+          post({ type: "mutation.ok", requestId: msg.requestId, payload: result });
+          await sendBoard(msg.requestId, { incremental: true });
+          return;
+        }
+
+        if (msg.type === "history.undo" || msg.type === "history.redo") {
+          const undo = msg.type === "history.undo";
+          const label = undo ? await history.undo(adapter) : await history.redo(adapter);
+          if (label === null) {
+            post({ type: "mutation.error", requestId: msg.requestId, error: undo ? "Nothing to undo" : "Nothing to redo" });
             return;
+          }
+          output.appendLine(`[Extension] ${undo ? 'Undid' : 'Redid'}: ${label}`);
+          post({ type: "mutation.ok", requestId: msg.requestId, payload: { label } });
+          // An undone pin may belong to a card outside the loaded board
+          await sendBoard(msg.requestId, { incremental: true, pins: true });
+          return;
         }
 
         post({ type: "mutation.error", requestId: (msg as { requestId: string; type: string }).requestId, error: `Unknown message type: ${(msg as { type: string }).type}` });
@@ -866,7 +1643,8 @@ export function activate(context: vscode.ExtensionContext) {
         post({
           type: "mutation.error",
           requestId: msg.requestId,
-          error: sanitizeError(e)
+          error: sanitizeError(e),
+          code: e instanceof CircuitOpenError ? "circuit_open" : undefined
         });
       }
     });
@@ -935,8 +1713,10 @@ export function activate(context: vscode.ExtensionContext) {
               return;
             }
 
+            // External bd edits arrive as deltas against the last board sent
             const requestId = `fs-${Date.now()}`;
-            sendBoard(requestId);
+            sendBoard(requestId, { incremental: true });
+            pushActivity(requestId);
           } catch (error) {
             const errorMsg = `Failed to reload database: ${sanitizeError(error)}`;
 
@@ -979,6 +1759,7 @@ export function activate(context: vscode.ExtensionContext) {
 
         // Clear loaded ranges tracking
         loadedRanges.clear();
+        boardSnapshot.clear();
 
         if (refreshTimeout) {
           clearTimeout(refreshTimeout);
@@ -1006,27 +1787,49 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
-  context.subscriptions.push(openCmd);
+  const applyViewCmd = vscode.commands.registerCommand("beadsKanban.applySavedView", async () => {
+    if (!ensureAdapter()) {
+      vscode.window.showErrorMessage('Beads Kanban requires an open workspace folder.');
+      return;
+    }
+
+    try {
+      const views = await savedViews.list();
+      if (views.length === 0) {
+        vscode.window.showInformationMessage('No saved views yet. Use the Views menu on the Beads board to save one.');
+        return;
+      }
+
+      const pick = await vscode.window.showQuickPick(
+        views.map(view => ({
+          label: view.name,
+          description: view.scope === 'shared' ? 'Shared' : 'Workspace',
+          detail: `${view.viewMode} view`,
+          view
+        })),
+        { title: 'Apply Saved View', placeHolder: 'Select a saved view', matchOnDescription: true }
+      );
+      if (!pick) {
+        return;
+      }
+
+      if (openBoards.length === 0) {
+        await vscode.commands.executeCommand('beadsKanban.openBoard');
+      }
+      const board = openBoards[openBoards.length - 1];
+      if (!board) {
+        return; // Opening the board failed and already reported why
+      }
+      board.applyView(pick.view);
+    } catch (error) {
+      output.appendLine(`[Extension] Error applying saved view: ${sanitizeError(error)}`);
+      vscode.window.showErrorMessage(`Failed to apply saved view: ${sanitizeError(error)}`);
+    }
+  });
+
+  context.subscriptions.push(openCmd, applyViewCmd);
 }
 
 export function deactivate() {
   // nothing
 }
-
-function mapColumnToStatus(col: BoardColumnKey): IssueStatus {
-  // Map column keys to issue statuses
-  // Ready is derived from `ready_issues` view; status is still "open"
-  const mapping: Record<BoardColumnKey, IssueStatus> = {
-    ready: "open",
-    open: "open",
-    in_progress: "in_progress",
-    blocked: "blocked",
-    closed: "closed"
-  };
-
-  const status = mapping[col];
-  if (!status) {
-    throw new Error(`Invalid column: ${col}`);
-  }
-  return status;
-}
@@ -0,0 +1,65 @@
+/**
+ * Gates: issues that wait on something external (`await_type`/`await_id`),
+ * such as a CI run, a pull request, a timer or another bead. `waiters` are the
+ * issues held up by the gate; `timeout_ns`, counted from the gate's creation,
+ * is when it is overdue.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export interface GateCard {
+  status?: string;
+  created_at?: string;
+  await_type?: string | null;
+  await_id?: string | null;
+  timeout_ns?: number | null;
+}
+
+/** An issue is a gate when it names what it awaits */
+export function isGate(card: GateCard): boolean {
+  return typeof card.await_type === 'string' && card.await_type !== '';
+}
+
+export function isOpenGate(card: GateCard): boolean {
+  return isGate(card) && card.status !== 'closed';
+}
+
+/** When the gate times out (ms since epoch), or null without a timeout */
+export function gateDeadline(card: GateCard): number | null {
+  if (!isGate(card) || !card.timeout_ns || card.timeout_ns <= 0 || !card.created_at) {
+    return null;
+  }
+  const created = Date.parse(card.created_at);
+  return Number.isNaN(created) ? null : created + card.timeout_ns / 1e6;
+}
+
+/** An open gate past its timeout */
+export function isOverdueGate(card: GateCard, now: number = Date.now()): boolean {
+  const deadline = gateDeadline(card);
+  return isOpenGate(card) && deadline !== null && deadline <= now;
+}
+
+/** What the gate waits on, e.g. `gh:pr 123` or `timer` */
+export function gateLabel(card: GateCard): string {
+  return card.await_id ? `${card.await_type} ${card.await_id}` : String(card.await_type ?? '');
+}
+
+/** bd stores waiters as a JSON array; older data may be a comma-separated list */
+export function parseWaiters(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((id): id is string => typeof id === 'string' && id !== '');
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.filter((id): id is string => typeof id === 'string' && id !== '');
+    }
+  } catch {
+    // not JSON
+  }
+  return value.split(',').map(id => id.trim()).filter(id => id !== '');
+}
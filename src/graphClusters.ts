@@ -0,0 +1,129 @@
+/**
+ * Epic clusters in the dependency graph: an epic with its parent-child
+ * descendants. A collapsed cluster is drawn as the epic alone, showing how many
+ * of its descendants are closed, and edges to hidden members are rolled up
+ * onto the epic.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export interface ClusterNode {
+  id: string;
+  card: { status?: string; issue_type?: string };
+}
+
+export interface ClusterEdge {
+  from: string;
+  to: string;
+  type: string;
+}
+
+export interface ClusterProgress {
+  closed: number;
+  total: number;
+}
+
+/** An edge of the collapsed graph; `count` is how many original edges it stands for */
+export type RolledUpEdge<E extends ClusterEdge> = E & { count: number; rolledUp: boolean };
+
+/** Descendants of every epic that has any, following parent-child edges */
+export function epicClusters(nodes: ClusterNode[], edges: ClusterEdge[]): Map<string, string[]> {
+  const children = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.type === 'parent-child') {
+      if (!children.has(edge.from)) {
+        children.set(edge.from, []);
+      }
+      (children.get(edge.from) as string[]).push(edge.to);
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const node of nodes) {
+    if (node.card.issue_type !== 'epic' || !children.has(node.id)) {
+      continue;
+    }
+    const seen = new Set<string>([node.id]);
+    const members: string[] = [];
+    const queue = [node.id];
+    while (queue.length > 0) {
+      for (const child of children.get(queue.shift() as string) ?? []) {
+        if (!seen.has(child)) {
+          seen.add(child);
+          members.push(child);
+          queue.push(child);
+        }
+      }
+    }
+    clusters.set(node.id, members);
+  }
+  return clusters;
+}
+
+/** Closed and total descendants of a cluster */
+export function clusterProgress(nodes: ClusterNode[], members: string[]): ClusterProgress {
+  const inCluster = new Set(members);
+  const closed = nodes.filter(node => inCluster.has(node.id) && node.card.status === 'closed').length;
+  return { closed, total: members.length };
+}
+
+/**
+ * The graph with collapsed clusters folded into their epics. A node inside
+ * nested collapsed clusters folds into the outermost one. Edge ends are moved
+ * to the node standing for them; edges within a cluster disappear and parallel
+ * edges of the same type merge.
+ * @returns The visible nodes and edges, and for each hidden node the epic it folds into
+ */
+export function collapseClusters<N extends ClusterNode, E extends ClusterEdge>(
+  graph: { nodes: N[]; edges: E[] },
+  clusters: Map<string, string[]>,
+  collapsed: Iterable<string>
+): { nodes: N[]; edges: RolledUpEdge<E>[]; representative: Map<string, string> } {
+  // Outer clusters contain their inner ones, so they are larger: assign them first
+  const folding = [...collapsed]
+    .filter(id => clusters.has(id))
+    .sort((a, b) => (clusters.get(b) as string[]).length - (clusters.get(a) as string[]).length);
+  const representative = new Map<string, string>();
+  for (const epic of folding) {
+    if (representative.has(epic)) {
+      continue;
+    }
+    for (const member of clusters.get(epic) as string[]) {
+      if (!representative.has(member) && member !== epic) {
+        representative.set(member, epic);
+      }
+    }
+  }
+  // An epic folded into an outer cluster passes its own members on to it
+  for (const [member, epic] of representative) {
+    let top = epic;
+    while (representative.has(top)) {
+      top = representative.get(top) as string;
+    }
+    representative.set(member, top);
+  }
+
+  const edges = new Map<string, RolledUpEdge<E>>();
+  for (const edge of graph.edges) {
+    const from = representative.get(edge.from) ?? edge.from;
+    const to = representative.get(edge.to) ?? edge.to;
+    if (from === to) {
+      continue;
+    }
+    const key = `${from}->${to}:${edge.type}`;
+    const existing = edges.get(key);
+    if (existing) {
+      existing.count++;
+      existing.rolledUp = true;
+    } else {
+      edges.set(key, { ...edge, from, to, count: 1, rolledUp: from !== edge.from || to !== edge.to });
+    }
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => !representative.has(node.id)),
+    edges: [...edges.values()],
+    representative
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Text exports of the dependency graph as drawn: a Mermaid flowchart and a
+ * Graphviz DOT digraph. SVG and PNG are produced from the rendered graph in
+ * graph-view.js; the extension host writes every format through a save dialog.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export type GraphExportFormat = 'svg' | 'png' | 'mermaid' | 'dot';
+
+/** Save dialog filter and default file extension for each format */
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string }> = {
+  svg: { label: 'SVG image', extension: 'svg' },
+  png: { label: 'PNG image', extension: 'png' },
+  mermaid: { label: 'Mermaid diagram', extension: 'mmd' },
+  dot: { label: 'Graphviz DOT', extension: 'dot' }
+};
+
+export interface ExportNode {
+  id: string;
+  card: { title?: string; status?: string };
+}
+
+export interface ExportEdge {
+  from: string;
+  to: string;
+  type: string;
+  /** Edges rolled up into this one by a folded epic */
+  count?: number;
+}
+
+export interface ExportOptions {
+  /** Left to right instead of top to bottom */
+  direction?: 'TB' | 'LR';
+}
+
+// Fill colours by status, matching the graph's status colours on a light background
+const STATUS_COLORS: Record<string, string> = {
+  open: '#fff4c2',
+  in_progress: '#d4f4dd',
+  blocked: '#ffd6d6',
+  closed: '#e5e5e5'
+};
+
+const EDGE_COLORS: Record<string, string> = {
+  'parent-child': '#388a34',
+  blocks: '#c72e0f',
+  waits: '#652d90'
+};
+
+/**
+ * Edges to export, one per relation: the graph draws a blocking link from both
+ * its ends ('blocks' and 'blocked-by'), which is the same dependency.
+ */
+function exportEdges(edges: ExportEdge[]): Array<ExportEdge & { count: number }> {
+  const merged = new Map<string, ExportEdge & { count: number }>();
+  for (const edge of edges) {
+    const type = edge.type === 'blocked-by' ? 'blocks' : edge.type;
+    const key = `${edge.from}\u0000${edge.to}\u0000${type}`;
+    const count = edge.count ?? 1;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.count = Math.max(existing.count, count);
+    } else {
+      merged.set(key, { from: edge.from, to: edge.to, type, count });
+    }
+  }
+  return [...merged.values()];
+}
+
+function edgeLabel(edge: { type: string; count: number }): string {
+  const name = edge.type === 'parent-child' ? 'parent of' : edge.type;
+  return edge.count > 1 ? `${name} ×${edge.count}` : name;
+}
+
+/** Mermaid ids: letters, digits and underscores, unique within the diagram */
+function mermaidIds(nodes: ExportNode[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    const base = node.id.replace(/[^A-Za-z0-9_]/g, '_');
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}_${n}`;
+    }
+    used.add(id);
+    ids.set(node.id, id);
+  }
+  return ids;
+}
+
+// Mermaid labels are quoted; quotes and markup become entity codes
+function mermaidText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
+
+/** A Mermaid `graph TD` (or `LR`) flowchart, with nodes coloured by status */
+export function toMermaid(graph: { nodes: ExportNode[]; edges: ExportEdge[] }, options: ExportOptions = {}): string {
+  const ids = mermaidIds(graph.nodes);
+  const lines = [`graph ${options.direction === 'LR' ? 'LR' : 'TD'}`];
+
+  for (const node of graph.nodes) {
+    const label = node.card.title ? `${node.id}: ${node.card.title}` : node.id;
+    lines.push(`  ${ids.get(node.id)}["${mermaidText(label)}"]`);
+  }
+  for (const edge of exportEdges(graph.edges)) {
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    if (from && to) {
+      const arrow = edge.type === 'waits' ? '-.->' : edge.type === 'blocks' ? '==>' : '-->';
+      lines.push(`  ${from} ${arrow}|${mermaidText(edgeLabel(edge))}| ${to}`);
+    }
+  }
+
+  for (const [status, color] of Object.entries(STATUS_COLORS)) {
+    const members = graph.nodes.filter(node => node.card.status === status).map(node => ids.get(node.id));
+    if (members.length > 0) {
+      lines.push(`  classDef ${status} fill:${color},stroke:#555,color:#000`);
+      lines.push(`  class ${members.join(',')} ${status}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+/** A Graphviz digraph, with nodes filled by status and edges coloured by type */
+export function toDot(graph: { nodes: ExportNode[]; edges: ExportEdge[] }, options: ExportOptions = {}): string {
+  const ids = new Set(graph.nodes.map(node => node.id));
+  const lines = [
+    'digraph beads {',
+    `  rankdir=${options.direction === 'LR' ? 'LR' : 'TB'};`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fillcolor="#ffffff"];',
+    '  edge [fontname="Helvetica", fontsize=10];'
+  ];
+
+  for (const node of graph.nodes) {
+    const label = node.card.title ? `${node.id}\n${node.card.title}` : node.id;
+    const fill = STATUS_COLORS[node.card.status ?? ''];
+    lines.push(`  ${dotString(node.id)} [label=${dotString(label)}${fill ? `, fillcolor="${fill}"` : ''}];`);
+  }
+  for (const edge of exportEdges(graph.edges)) {
+    if (ids.has(edge.from) && ids.has(edge.to)) {
+      const color = EDGE_COLORS[edge.type] ?? '#555555';
+      const style = edge.type === 'waits' ? ', style=dashed' : '';
+      lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(edgeLabel(edge))}, color="${color}"${style}];`);
+    }
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
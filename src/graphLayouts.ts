@@ -0,0 +1,425 @@
+/**
+ * Layout engines for the dependency graph besides the BFS layering of
+ * `computeHierarchicalLayout` (src/webview/graph-layout.js): a layered
+ * (Sugiyama) layout with crossing minimization, a force-directed layout and a
+ * radial layout around a centre node. Each returns top-left node positions.
+ *
+ * Bundled into the graph layout worker (see scripts/build-webview.js), so this
+ * module must not import Node, VS Code or DOM APIs.
+ */
+
+export type LayoutEngine = 'hierarchical' | 'sugiyama' | 'force' | 'radial';
+
+export interface LayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface EngineOptions {
+  direction?: 'TB' | 'LR';
+  nodeWidth?: number;
+  nodeHeight?: number;
+  horizontalSpacing?: number;
+  verticalSpacing?: number;
+  /** Radial only: the node in the middle; defaults to the best-connected node */
+  centerNodeId?: string | null;
+  /** Force-directed only: simulation steps; defaults by graph size */
+  iterations?: number;
+}
+
+export interface NodePosition {
+  id: string;
+  x: number;
+  y: number;
+  /** Layer (layered layouts) or ring (radial); 0 for force-directed */
+  layer: number;
+}
+
+export interface EngineResult {
+  positions: NodePosition[];
+  metadata: {
+    layerCount: number;
+    disconnectedCount: number;
+    /** Sugiyama only: edge crossings left after minimization */
+    crossings?: number;
+    /** Radial only */
+    centerNodeId?: string;
+  };
+}
+
+/** Barycenter sweeps (one down, one up each) tried before keeping the best order */
+const SUGIYAMA_SWEEPS = 12;
+
+function defaults(options: EngineOptions) {
+  return {
+    direction: options.direction ?? 'TB',
+    nodeWidth: options.nodeWidth ?? 200,
+    nodeHeight: options.nodeHeight ?? 80,
+    horizontalSpacing: options.horizontalSpacing ?? 250,
+    verticalSpacing: options.verticalSpacing ?? 120
+  };
+}
+
+/** Edges between known, distinct nodes, each pair once */
+function simpleEdges(ids: Set<string>, edges: LayoutEdge[]): LayoutEdge[] {
+  const seen = new Set<string>();
+  const result: LayoutEdge[] = [];
+  for (const { from, to } of edges) {
+    const key = `${from}\u0000${to}`;
+    if (from !== to && ids.has(from) && ids.has(to) && !seen.has(key)) {
+      seen.add(key);
+      result.push({ from, to });
+    }
+  }
+  return result;
+}
+
+function neighbourMap(ids: string[], edges: LayoutEdge[], undirected: boolean): Map<string, string[]> {
+  const map = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const { from, to } of edges) {
+    (map.get(from) as string[]).push(to);
+    if (undirected) {
+      (map.get(to) as string[]).push(from);
+    }
+  }
+  return map;
+}
+
+/** Isolated nodes in a roughly square grid below the rest, as computeHierarchicalLayout does */
+function gridBelow(ids: string[], firstLayer: number, options: ReturnType<typeof defaults>): NodePosition[] {
+  const cols = Math.ceil(Math.sqrt(ids.length));
+  const startX = -(cols * options.horizontalSpacing) / 2 + options.horizontalSpacing / 2;
+  const baseY = firstLayer > 0 ? (firstLayer + 1) * options.verticalSpacing : 0;
+  return ids.map((id, i) => ({
+    id,
+    x: startX + (i % cols) * options.horizontalSpacing,
+    y: baseY + Math.floor(i / cols) * options.verticalSpacing,
+    layer: firstLayer + Math.floor(i / cols)
+  }));
+}
+
+/** Reverse the edges that close a cycle (found by DFS) so the graph can be layered */
+function acyclic(ids: string[], edges: LayoutEdge[]): LayoutEdge[] {
+  const out = neighbourMap(ids, edges, false);
+  const state = new Map<string, 'open' | 'done'>();
+  const reversed = new Set<string>();
+  const visit = (id: string) => {
+    state.set(id, 'open');
+    for (const next of out.get(id) ?? []) {
+      if (state.get(next) === 'open') {
+        reversed.add(`${id}\u0000${next}`);
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    state.set(id, 'done');
+  };
+  for (const id of ids) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+  return edges.map(edge => reversed.has(`${edge.from}\u0000${edge.to}`) ? { from: edge.to, to: edge.from } : edge);
+}
+
+/** Crossings between the edges of two adjacent layers, given each node's index in its layer */
+function crossingsBetween(edges: [number, number][]): number {
+  let crossings = 0;
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      if ((edges[i][0] - edges[j][0]) * (edges[i][1] - edges[j][1]) < 0) {
+        crossings++;
+      }
+    }
+  }
+  return crossings;
+}
+
+/** Edge crossings in a layering where every edge joins adjacent layers */
+export function countCrossings(layers: string[][], edges: LayoutEdge[]): number {
+  const position = new Map<string, number>();
+  const layerOf = new Map<string, number>();
+  layers.forEach((layer, index) => layer.forEach((id, at) => {
+    position.set(id, at);
+    layerOf.set(id, index);
+  }));
+  const between: [number, number][][] = layers.map(() => []);
+  for (const edge of edges) {
+    const index = layerOf.get(edge.from);
+    if (index !== undefined && layerOf.get(edge.to) === index + 1) {
+      between[index].push([position.get(edge.from) as number, position.get(edge.to) as number]);
+    }
+  }
+  return between.reduce((sum, pairs) => sum + crossingsBetween(pairs), 0);
+}
+
+/**
+ * Layered layout: longest-path layering, long edges split by virtual nodes,
+ * then barycenter sweeps to reduce crossings. Virtual nodes keep their slots,
+ * which leaves room for the long edges.
+ */
+export function sugiyamaLayout(nodeIds: string[], edges: LayoutEdge[], options: EngineOptions = {}): EngineResult {
+  const opts = defaults(options);
+  const ids = new Set(nodeIds);
+  const dag = simpleEdges(ids, acyclic(nodeIds, simpleEdges(ids, edges)));
+  const linked = new Set(dag.flatMap(edge => [edge.from, edge.to]));
+  const connected = nodeIds.filter(id => linked.has(id));
+  const isolated = nodeIds.filter(id => !linked.has(id));
+
+  // Longest-path layering in topological order
+  const incoming = new Map<string, number>(connected.map(id => [id, 0]));
+  for (const edge of dag) {
+    incoming.set(edge.to, (incoming.get(edge.to) as number) + 1);
+  }
+  const out = neighbourMap(connected, dag, false);
+  const layerOf = new Map<string, number>();
+  const queue = connected.filter(id => incoming.get(id) === 0);
+  queue.forEach(id => layerOf.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const next of out.get(id) ?? []) {
+      layerOf.set(next, Math.max(layerOf.get(next) ?? 0, (layerOf.get(id) as number) + 1));
+      incoming.set(next, (incoming.get(next) as number) - 1);
+      if (incoming.get(next) === 0) {
+        queue.push(next);
+      }
+    }
+  }
+
+  // Split edges spanning several layers with virtual nodes
+  const layers: string[][] = [];
+  const place = (id: string, layer: number) => {
+    while (layers.length <= layer) {
+      layers.push([]);
+    }
+    layers[layer].push(id);
+  };
+  connected.forEach(id => place(id, layerOf.get(id) as number));
+  const virtual = new Set<string>();
+  const segments: LayoutEdge[] = [];
+  for (const edge of dag) {
+    let previous = edge.from;
+    for (let layer = (layerOf.get(edge.from) as number) + 1; layer < (layerOf.get(edge.to) as number); layer++) {
+      const dummy = `\u0000${edge.from}\u0000${edge.to}\u0000${layer}`;
+      virtual.add(dummy);
+      place(dummy, layer);
+      segments.push({ from: previous, to: dummy });
+      previous = dummy;
+    }
+    segments.push({ from: previous, to: edge.to });
+  }
+
+  // Barycenter sweeps, keeping the order with the fewest crossings
+  const up = neighbourMap(layers.flat(), segments.map(({ from, to }) => ({ from: to, to: from })), false);
+  const down = neighbourMap(layers.flat(), segments, false);
+  const reorder = (layer: string[], neighbours: Map<string, string[]>, fixed: string[]) => {
+    const index = new Map(fixed.map((id, at) => [id, at]));
+    const weight = new Map(layer.map((id, at) => {
+      const adjacent = (neighbours.get(id) ?? []).filter(other => index.has(other));
+      return [id, adjacent.length > 0
+        ? adjacent.reduce((sum, other) => sum + (index.get(other) as number), 0) / adjacent.length
+        : at];
+    }));
+    layer.sort((a, b) => (weight.get(a) as number) - (weight.get(b) as number));
+  };
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(best, segments);
+  for (let sweep = 0; sweep < SUGIYAMA_SWEEPS && bestCrossings > 0; sweep++) {
+    for (let i = 1; i < layers.length; i++) {
+      reorder(layers[i], up, layers[i - 1]);
+    }
+    for (let i = layers.length - 2; i >= 0; i--) {
+      reorder(layers[i], down, layers[i + 1]);
+    }
+    const crossings = countCrossings(layers, segments);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  const positions: NodePosition[] = [];
+  best.forEach((layer, index) => {
+    const spacing = opts.direction === 'TB' ? opts.horizontalSpacing : opts.verticalSpacing;
+    const start = -(layer.length * spacing) / 2 + spacing / 2;
+    layer.forEach((id, at) => {
+      if (virtual.has(id)) {
+        return;
+      }
+      positions.push(opts.direction === 'TB'
+        ? { id, x: start + at * spacing, y: index * opts.verticalSpacing, layer: index }
+        : { id, x: index * opts.horizontalSpacing, y: start + at * spacing, layer: index });
+    });
+  });
+  positions.push(...gridBelow(isolated, best.length, opts));
+
+  return {
+    positions,
+    metadata: { layerCount: best.length, disconnectedCount: isolated.length, crossings: bestCrossings }
+  };
+}
+
+/**
+ * Force-directed layout (Fruchterman-Reingold): nodes repel each other, edges
+ * pull their ends together, and a weak pull to the middle keeps separate
+ * components in view. Starts from a spiral, so the result is deterministic.
+ */
+export function forceLayout(nodeIds: string[], edges: LayoutEdge[], options: EngineOptions = {}): EngineResult {
+  const opts = defaults(options);
+  const count = nodeIds.length;
+  const links = simpleEdges(new Set(nodeIds), edges);
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const k = opts.horizontalSpacing;
+  const iterations = options.iterations ?? (count > 500 ? 80 : count > 200 ? 150 : 300);
+
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const radius = k * Math.sqrt(i);
+    xs[i] = radius * Math.cos(i * 2.39996);
+    ys[i] = radius * Math.sin(i * 2.39996);
+  }
+
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  const startTemperature = k * Math.max(1, Math.sqrt(count) / 2);
+  for (let step = 0; step < iterations; step++) {
+    dx.fill(0);
+    dy.fill(0);
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let ddx = xs[i] - xs[j];
+        let ddy = ys[i] - ys[j];
+        let distance = Math.hypot(ddx, ddy);
+        if (distance < 0.01) {
+          // Coincident nodes: push apart along a direction fixed by their indices
+          ddx = Math.cos(i + j);
+          ddy = Math.sin(i + j);
+          distance = 0.01;
+        }
+        const force = (k * k) / distance;
+        dx[i] += (ddx / distance) * force;
+        dy[i] += (ddy / distance) * force;
+        dx[j] -= (ddx / distance) * force;
+        dy[j] -= (ddy / distance) * force;
+      }
+    }
+    for (const link of links) {
+      const i = index.get(link.from) as number;
+      const j = index.get(link.to) as number;
+      const ddx = xs[i] - xs[j];
+      const ddy = ys[i] - ys[j];
+      const distance = Math.max(Math.hypot(ddx, ddy), 0.01);
+      const force = (distance * distance) / k;
+      dx[i] -= (ddx / distance) * force;
+      dy[i] -= (ddy / distance) * force;
+      dx[j] += (ddx / distance) * force;
+      dy[j] += (ddy / distance) * force;
+    }
+    const temperature = startTemperature * (1 - step / iterations);
+    for (let i = 0; i < count; i++) {
+      dx[i] -= xs[i] * 0.05;
+      dy[i] -= ys[i] * 0.05;
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        const move = Math.min(length, temperature);
+        xs[i] += (dx[i] / length) * move;
+        ys[i] += (dy[i] / length) * move;
+      }
+    }
+  }
+
+  const linked = new Set(links.flatMap(link => [link.from, link.to]));
+  return {
+    positions: nodeIds.map((id, i) => ({
+      id,
+      x: xs[i] - opts.nodeWidth / 2,
+      y: ys[i] - opts.nodeHeight / 2,
+      layer: 0
+    })),
+    metadata: { layerCount: 0, disconnectedCount: nodeIds.filter(id => !linked.has(id)).length }
+  };
+}
+
+/**
+ * Radial layout: the centre node in the middle and every other node on the
+ * ring of its (undirected) distance from it. Each node gets a wedge of its
+ * parent's, sized by how many nodes it leads to, so branches stay together.
+ * Nodes not connected to the centre share an outer ring.
+ */
+export function radialLayout(nodeIds: string[], edges: LayoutEdge[], options: EngineOptions = {}): EngineResult {
+  const opts = defaults(options);
+  if (nodeIds.length === 0) {
+    return { positions: [], metadata: { layerCount: 0, disconnectedCount: 0 } };
+  }
+  const neighbours = neighbourMap(nodeIds, simpleEdges(new Set(nodeIds), edges), true);
+  const center = options.centerNodeId && neighbours.has(options.centerNodeId)
+    ? options.centerNodeId
+    : nodeIds.reduce((best, id) =>
+      (neighbours.get(id) as string[]).length > (neighbours.get(best) as string[]).length ? id : best);
+
+  // BFS tree from the centre
+  const ring = new Map<string, number>([[center, 0]]);
+  const children = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  const order = [center];
+  for (let at = 0; at < order.length; at++) {
+    for (const next of neighbours.get(order[at]) as string[]) {
+      if (!ring.has(next)) {
+        ring.set(next, (ring.get(order[at]) as number) + 1);
+        (children.get(order[at]) as string[]).push(next);
+        order.push(next);
+      }
+    }
+  }
+  const unreached = nodeIds.filter(id => !ring.has(id));
+
+  // Subtree sizes, leaves first
+  const size = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    size.set(id, 1 + (children.get(id) as string[]).reduce((sum, child) => sum + (size.get(child) as number), 0));
+  }
+  const angle = new Map<string, number>([[center, 0]]);
+  const wedge = (id: string, start: number, span: number) => {
+    const kids = children.get(id) as string[];
+    const total = kids.reduce((sum, child) => sum + (size.get(child) as number), 0);
+    let at = start;
+    for (const child of kids) {
+      const share = span * (size.get(child) as number) / total;
+      angle.set(child, at + share / 2);
+      wedge(child, at, share);
+      at += share;
+    }
+  };
+  wedge(center, 0, 2 * Math.PI);
+
+  // Ring radii: at least one spacing apart, and wide enough for the ring's nodes
+  const ringCount = Math.max(...ring.values()) + (unreached.length > 0 ? 2 : 1);
+  const perRing = new Array<number>(ringCount).fill(0);
+  ring.forEach(index => perRing[index]++);
+  if (unreached.length > 0) {
+    perRing[ringCount - 1] = unreached.length;
+  }
+  const step = Math.max(opts.horizontalSpacing, opts.verticalSpacing);
+  const radius = [0];
+  for (let index = 1; index < ringCount; index++) {
+    radius.push(Math.max(radius[index - 1] + step, (perRing[index] * opts.horizontalSpacing) / (2 * Math.PI)));
+  }
+  unreached.forEach((id, i) => {
+    ring.set(id, ringCount - 1);
+    angle.set(id, (2 * Math.PI * i) / unreached.length);
+  });
+
+  return {
+    positions: nodeIds.map(id => {
+      const index = ring.get(id) as number;
+      const theta = angle.get(id) as number;
+      return {
+        id,
+        x: radius[index] * Math.cos(theta) - opts.nodeWidth / 2,
+        y: radius[index] * Math.sin(theta) - opts.nodeHeight / 2,
+        layer: index
+      };
+    }),
+    metadata: { layerCount: ringCount, disconnectedCount: unreached.length, centerNodeId: center }
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Issue history from the beads event log (the `events` table bd writes on
+ * every change). Each row becomes an IssueEvent with a field-level diff.
+ *
+ * Bundled into the webview (see scripts/build-webview.js) through
+ * activityFeed.ts, so this module must not import Node or VS Code APIs.
+ */
+
+/** Event types bd records; other values are passed through as-is */
+export const ISSUE_EVENT_KINDS = [
+  'created',
+  'updated',
+  'status_changed',
+  'commented',
+  'closed',
+  'reopened',
+  'dependency_added',
+  'dependency_removed',
+  'label_added',
+  'label_removed',
+  'compacted'
+] as const;
+
+export interface FieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface IssueEvent {
+  id: string;
+  kind: string;
+  actor: string;
+  created_at: string;
+  changes: FieldDiff[];
+  /** Free text bd stores with the event (label name, dependency, close reason) */
+  comment: string | null;
+  /**
+   * Reconstructed from the issue itself because the event log could not be
+   * read: no field changes, and often no actor
+   */
+  rebuilt?: boolean;
+}
+
+/** Newest first; at most this many events are returned per issue */
+export const MAX_ISSUE_EVENTS = 500;
+
+export const ISSUE_EVENTS_SQL =
+  `SELECT id, event_type, actor, old_value, new_value, comment, created_at
+   FROM events WHERE issue_id = ? ORDER BY created_at DESC, id DESC LIMIT ?`;
+
+// Bookkeeping fields bd rewrites on every update; not interesting in a diff
+const IGNORED_FIELDS = new Set(['id', 'updated_at', 'content_hash']);
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string' || value === '') {
+    return value ?? null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field changes between an event's old and new values. For updates bd stores
+ * the whole issue as the old value and only the changed fields as the new one,
+ * so fields are taken from the new value. Plain values (e.g. a status) become a
+ * single diff named after the event.
+ */
+export function diffEventValues(kind: string, oldValue: unknown, newValue: unknown): FieldDiff[] {
+  const before = parseJson(oldValue);
+  const after = parseJson(newValue);
+
+  if (isRecord(after)) {
+    const previous = isRecord(before) ? before : {};
+    return Object.keys(after)
+      .filter(field => !IGNORED_FIELDS.has(field) && !sameValue(previous[field], after[field]))
+      .map(field => ({ field, before: previous[field] ?? null, after: after[field] }));
+  }
+  if ((before === null || before === undefined) && (after === null || after === undefined)) {
+    return [];
+  }
+  if (sameValue(before, after)) {
+    return [];
+  }
+  const field = kind === 'status_changed' || kind === 'closed' || kind === 'reopened' ? 'status' : 'value';
+  return [{ field, before: isRecord(before) ? before[field] ?? null : before ?? null, after: after ?? null }];
+}
+
+/** Map rows of ISSUE_EVENTS_SQL to events */
+export function rowsToIssueEvents(rows: Record<string, unknown>[]): IssueEvent[] {
+  return rows.map(row => {
+    const kind = String(row.event_type ?? 'updated');
+    const comment = typeof row.comment === 'string' && row.comment !== '' ? row.comment : null;
+    return {
+      id: String(row.id),
+      kind,
+      actor: typeof row.actor === 'string' && row.actor !== '' ? row.actor : 'unknown',
+      created_at: String(row.created_at ?? ''),
+      changes: diffEventValues(kind, row.old_value, row.new_value),
+      comment
+    };
+  });
+}
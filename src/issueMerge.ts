@@ -0,0 +1,82 @@
+/**
+ * Three-way merge of the edit form against an issue that changed while it was open.
+ *
+ * `base` is the issue as the dialog loaded it, `mine` the form values and
+ * `theirs` the issue as it is now. A field changed only on one side takes that
+ * side's value; a field changed differently on both sides is a conflict the
+ * user resolves.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+/** Fields the edit form saves with issue.update */
+export const MERGE_FIELDS = [
+  'title',
+  'status',
+  'issue_type',
+  'priority',
+  'assignee',
+  'estimated_minutes',
+  'external_ref',
+  'due_at',
+  'defer_until',
+  'description',
+  'acceptance_criteria',
+  'design',
+  'notes'
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export type MergeValues = Partial<Record<MergeField, unknown>>;
+
+export interface FieldChange {
+  field: MergeField;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  /** Both sides changed the field to different values */
+  conflict: boolean;
+}
+
+export interface IssueMerge {
+  /** Fields changed elsewhere to a value the form does not already have */
+  changes: FieldChange[];
+  /** Form values with the other side's changes applied; conflicts keep the form value */
+  merged: MergeValues;
+}
+
+const DATE_FIELDS: MergeField[] = ['due_at', 'defer_until'];
+
+/** Empty strings, null and missing values are the same; dates compare by instant */
+function normalize(field: MergeField, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (DATE_FIELDS.includes(field) && typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? value : time;
+  }
+  return value;
+}
+
+export function sameFieldValue(field: MergeField, a: unknown, b: unknown): boolean {
+  return normalize(field, a) === normalize(field, b);
+}
+
+export function mergeIssueFields(base: MergeValues, mine: MergeValues, theirs: MergeValues): IssueMerge {
+  const changes: FieldChange[] = [];
+  const merged: MergeValues = { ...mine };
+  for (const field of MERGE_FIELDS) {
+    if (sameFieldValue(field, base[field], theirs[field]) || sameFieldValue(field, mine[field], theirs[field])) {
+      continue;
+    }
+    const conflict = !sameFieldValue(field, base[field], mine[field]);
+    changes.push({ field, base: base[field], mine: mine[field], theirs: theirs[field], conflict });
+    if (!conflict) {
+      merged[field] = theirs[field];
+    }
+  }
+  return { changes, merged };
+}
@@ -0,0 +1,237 @@
+import { BeadsAdapter } from './beadsAdapter';
+import { LaneMutation } from './swimlanes';
+import { FullCard, IssueStatus, IssueUpdateFields } from './types';
+
+/** A single adapter write, stored so it can be replayed (redo) or inverted (undo) */
+export type HistoryOp =
+  | { kind: 'setStatus'; id: string; status: IssueStatus }
+  | { kind: 'close'; id: string; reason?: string }
+  | { kind: 'update'; id: string; updates: IssueUpdateFields; expectedUpdatedAt?: string }
+  | { kind: 'addLabel' | 'removeLabel'; id: string; label: string }
+  | { kind: 'addDependency'; id: string; otherId: string; type: 'parent-child' | 'blocks' }
+  | { kind: 'removeDependency'; id: string; otherId: string };
+
+interface HistoryEntry {
+  label: string;
+  /** Ops as they were applied */
+  redo: HistoryOp[];
+  /** Inverse ops, in the order they must run */
+  undo: HistoryOp[];
+}
+
+const MAX_HISTORY = 50;
+
+export async function applyOp(adapter: BeadsAdapter, op: HistoryOp): Promise<void> {
+  switch (op.kind) {
+    case 'setStatus':
+      return adapter.setIssueStatus(op.id, op.status);
+    case 'close':
+      return adapter.closeIssue(op.id, op.reason);
+    case 'update':
+      return adapter.updateIssue(op.id, op.updates, op.expectedUpdatedAt);
+    case 'addLabel':
+      return adapter.addLabel(op.id, op.label);
+    case 'removeLabel':
+      return adapter.removeLabel(op.id, op.label);
+    case 'addDependency':
+      return adapter.addDependency(op.id, op.otherId, op.type);
+    case 'removeDependency':
+      return adapter.removeDependency(op.id, op.otherId);
+  }
+}
+
+/** The op for one step of a swimlane move (see laneMutations) */
+export function laneMutationOp(mutation: LaneMutation): HistoryOp {
+  switch (mutation.type) {
+    case 'issue.update':
+      return { kind: 'update', id: mutation.payload.id, updates: mutation.payload.updates };
+    case 'issue.addLabel':
+      return { kind: 'addLabel', id: mutation.payload.id, label: mutation.payload.label };
+    case 'issue.removeLabel':
+      return { kind: 'removeLabel', id: mutation.payload.id, label: mutation.payload.label };
+    case 'issue.addDependency':
+      return { kind: 'addDependency', id: mutation.payload.id, otherId: mutation.payload.otherId, type: mutation.payload.type };
+    case 'issue.removeDependency':
+      return { kind: 'removeDependency', id: mutation.payload.id, otherId: mutation.payload.otherId };
+  }
+}
+
+function previousValue(before: FullCard, field: keyof IssueUpdateFields): unknown {
+  const value = (before as unknown as Record<string, unknown>)[field];
+  switch (field) {
+    case 'title':
+    case 'description':
+    case 'acceptance_criteria':
+    case 'design':
+    case 'notes':
+      return value ?? '';
+    // Flags bd leaves out when unset; null would not restore them through bd update
+    case 'pinned':
+    case 'ephemeral':
+      return value ?? false;
+    default:
+      return value ?? null;
+  }
+}
+
+/**
+ * The op that reverts `op`, given the issue as it was before `op` ran.
+ * Returns null if `op` changes nothing (e.g. adding a label the issue already has).
+ */
+export function inverseOp(op: HistoryOp, before: FullCard): HistoryOp | null {
+  const labels = before.labels ?? [];
+  switch (op.kind) {
+    case 'setStatus':
+    case 'close':
+      return before.status === (op.kind === 'close' ? 'closed' : op.status)
+        ? null
+        : { kind: 'setStatus', id: op.id, status: before.status as IssueStatus };
+    case 'update': {
+      const updates: Record<string, unknown> = {};
+      for (const field of Object.keys(op.updates) as Array<keyof IssueUpdateFields>) {
+        updates[field] = previousValue(before, field);
+      }
+      return { kind: 'update', id: op.id, updates: updates as IssueUpdateFields };
+    }
+    case 'addLabel':
+      return labels.includes(op.label) ? null : { kind: 'removeLabel', id: op.id, label: op.label };
+    case 'removeLabel':
+      return labels.includes(op.label) ? { kind: 'addLabel', id: op.id, label: op.label } : null;
+    case 'addDependency': {
+      const exists = op.type === 'parent-child'
+        ? before.parent?.id === op.otherId
+        : (before.blocked_by ?? []).some(dep => dep.id === op.otherId);
+      return exists ? null : { kind: 'removeDependency', id: op.id, otherId: op.otherId };
+    }
+    case 'removeDependency': {
+      if (before.parent?.id === op.otherId) {
+        return { kind: 'addDependency', id: op.id, otherId: op.otherId, type: 'parent-child' };
+      }
+      if ((before.blocked_by ?? []).some(dep => dep.id === op.otherId)) {
+        return { kind: 'addDependency', id: op.id, otherId: op.otherId, type: 'blocks' };
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Ops run for one user action. Each op's inverse is computed from the issue as
+ * it was before the transaction touched it, so only what actually changed is undone.
+ */
+export class MutationTransaction {
+  private readonly applied: HistoryOp[] = [];
+  private readonly inverses: HistoryOp[] = [];
+  private readonly before = new Map<string, FullCard>();
+
+  constructor(readonly label: string) {}
+
+  /** Apply ops in order; on failure the ops already applied stay recorded and the error is rethrown */
+  public async run(adapter: BeadsAdapter, ops: HistoryOp[]): Promise<void> {
+    for (const op of ops) {
+      let before = this.before.get(op.id);
+      if (!before) {
+        before = await adapter.getIssueFull(op.id);
+        this.before.set(op.id, before);
+      }
+      await applyOp(adapter, op);
+      // Redo must not repeat the conflict check: the issue has changed since, by this very op
+      this.applied.push(op.kind === 'update' ? { kind: 'update', id: op.id, updates: op.updates } : op);
+      const inverse = inverseOp(op, before);
+      if (inverse) {
+        this.inverses.unshift(inverse);
+      }
+    }
+  }
+
+  /**
+   * Revert the ops applied so far, newest first, so a failed transaction leaves
+   * nothing behind; afterwards there is nothing left to record.
+   * @throws If an inverse op fails; the inverses not yet run stay recorded
+   */
+  public async rollback(adapter: BeadsAdapter): Promise<void> {
+    while (this.inverses.length > 0) {
+      await applyOp(adapter, this.inverses[0]);
+      this.inverses.shift();
+    }
+    this.applied.length = 0;
+  }
+
+  public isEmpty(): boolean {
+    return this.inverses.length === 0;
+  }
+
+  public toEntry(): HistoryEntry {
+    return { label: this.label, redo: [...this.applied], undo: [...this.inverses] };
+  }
+}
+
+/**
+ * Undo/redo stacks of board mutations, kept by the extension host so they
+ * survive board refreshes. Cleared when the repository changes.
+ */
+export class MutationHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  public begin(label: string): MutationTransaction {
+    return new MutationTransaction(label);
+  }
+
+  /** Record a finished transaction; returns false if it changed nothing */
+  public commit(tx: MutationTransaction): boolean {
+    if (tx.isEmpty()) {
+      return false;
+    }
+    this.undoStack.push(tx.toEntry());
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    return true;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Revert the most recent mutation.
+   * @returns Label of the undone mutation, or null if there is nothing to undo
+   * @throws If an inverse op fails; the entry stays on the undo stack
+   */
+  public async undo(adapter: BeadsAdapter): Promise<string | null> {
+    return this.replay(adapter, this.undoStack, this.redoStack, 'undo');
+  }
+
+  /** Re-apply the most recently undone mutation (see undo) */
+  public async redo(adapter: BeadsAdapter): Promise<string | null> {
+    return this.replay(adapter, this.redoStack, this.undoStack, 'redo');
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private async replay(adapter: BeadsAdapter, from: HistoryEntry[], to: HistoryEntry[], direction: 'undo' | 'redo'): Promise<string | null> {
+    const entry = from.pop();
+    if (!entry) {
+      return null;
+    }
+    try {
+      for (const op of entry[direction]) {
+        await applyOp(adapter, op);
+      }
+    } catch (e) {
+      from.push(entry);
+      throw e;
+    }
+    to.push(entry);
+    return entry.label;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Optimistic card changes in the webview.
+ *
+ * A move or edit is shown as soon as it is posted, tagged with the request's
+ * requestId. Cards from the extension are the authoritative state; pending
+ * changes are re-applied on top of them until the request settles:
+ * - `confirm` on mutation.ok; the change stays visible until the board update
+ *   for that request (or a later snapshot of the card) arrives
+ * - `rollback` on mutation.error, which restores the card without the change
+ *
+ * The extension follows every mutation.ok with a board update for the same
+ * requestId (an empty `board.delta` if nothing changed), which settles it.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export interface OptimisticCard {
+  id: string;
+}
+
+interface PendingChange<C> {
+  requestId: string;
+  id: string;
+  patch: Partial<C>;
+  /** Column the card was dropped into; shown even if the patch alone would not place it there */
+  column?: string;
+  /** Set on mutation.ok: the change is applied, only the board update is outstanding */
+  confirmed: boolean;
+}
+
+export class OptimisticUpdates<C extends OptimisticCard> {
+  /** In the order the changes were made */
+  private pending: PendingChange<C>[] = [];
+  /** Last authoritative version of each card with pending changes */
+  private base = new Map<string, C>();
+
+  /** Record a change to `card` and return the card as it should be shown */
+  public apply(requestId: string, card: C, patch: Partial<C>, column?: string): C {
+    if (!this.base.has(card.id)) {
+      this.base.set(card.id, card);
+    }
+    this.pending.push({ requestId, id: card.id, patch, column, confirmed: false });
+    return this.view(card.id);
+  }
+
+  /** True until the request is confirmed or rolled back */
+  public isPending(requestId: string): boolean {
+    return this.pending.some(change => change.requestId === requestId && !change.confirmed);
+  }
+
+  /** Ids of cards changed by a request */
+  public idsFor(requestId: string): string[] {
+    return [...new Set(this.pending.filter(change => change.requestId === requestId).map(change => change.id))];
+  }
+
+  /** The extension applied the request; keep showing it until its board update arrives */
+  public confirm(requestId: string): void {
+    for (const change of this.pending) {
+      if (change.requestId === requestId) {
+        change.confirmed = true;
+      }
+    }
+  }
+
+  /**
+   * Drop the request's changes.
+   * @returns The cards it touched as they should now be shown (authoritative state plus other pending changes)
+   */
+  public rollback(requestId: string): C[] {
+    const ids = this.idsFor(requestId);
+    this.pending = this.pending.filter(change => change.requestId !== requestId);
+    return ids.map(id => this.settle(id));
+  }
+
+  /**
+   * The board update for a request arrived. Its confirmed changes are now part
+   * of the authoritative cards, even for cards the update did not include.
+   * @returns The cards it touched as they should now be shown
+   */
+  public settleRequest(requestId: string): C[] {
+    const ids = this.idsFor(requestId);
+    this.pending = this.pending.filter(change => !(change.requestId === requestId && change.confirmed));
+    return ids.map(id => this.settle(id));
+  }
+
+  /**
+   * Reconcile an authoritative card from the extension: confirmed changes are
+   * dropped (the card already reflects them) and unconfirmed ones re-applied.
+   */
+  public reconcile(card: C): C {
+    if (!this.base.has(card.id)) {
+      return card;
+    }
+    this.base.set(card.id, card);
+    this.pending = this.pending.filter(change => change.id !== card.id || !change.confirmed);
+    return this.settle(card.id);
+  }
+
+  /** Column a pending drop placed the card in, if any */
+  public columnFor(id: string): string | undefined {
+    for (let i = this.pending.length - 1; i >= 0; i--) {
+      const change = this.pending[i];
+      if (change.id === id && change.column !== undefined) {
+        return change.column;
+      }
+    }
+    return undefined;
+  }
+
+  /** The card was removed from the board */
+  public forget(id: string): void {
+    this.pending = this.pending.filter(change => change.id !== id);
+    this.base.delete(id);
+  }
+
+  public clear(): void {
+    this.pending = [];
+    this.base.clear();
+  }
+
+  private view(id: string): C {
+    let card = this.base.get(id) as C;
+    for (const change of this.pending) {
+      if (change.id === id) {
+        card = { ...card, ...change.patch };
+      }
+    }
+    return card;
+  }
+
+  /** Current view of a card; forgets its base once nothing is pending */
+  private settle(id: string): C {
+    const card = this.view(id);
+    if (!this.pending.some(change => change.id === id)) {
+      this.base.delete(id);
+    }
+    return card;
+  }
+}
+
+/** A `board.delta` message as the webview receives it (see boardDelta.ts) */
+export interface BoardDeltaMessage<C> {
+  requestId?: string;
+  payload: {
+    version: number;
+    baseVersion: number;
+    added?: C[];
+    changed?: C[];
+    removed?: string[];
+  };
+}
+
+/**
+ * Apply a `board.delta` to the webview's card cache: removed cards are
+ * dropped, changed ones reconciled with pending changes, and the request the
+ * delta answers is settled.
+ * @param version Version of the last board or delta applied (null: none yet)
+ * @returns The ids removed and updated, or null if the delta does not follow
+ *          `version` (a message was missed and the board must be resynced)
+ */
+export function applyBoardDelta<C extends OptimisticCard>(
+  cache: Map<string, C>,
+  updates: OptimisticUpdates<C>,
+  version: number | null,
+  message: BoardDeltaMessage<C>
+): { removed: string[]; updated: string[] } | null {
+  const delta = message.payload;
+  if (version === null || delta.baseVersion !== version) {
+    return null;
+  }
+
+  const removed = Array.isArray(delta.removed) ? delta.removed : [];
+  for (const id of removed) {
+    cache.delete(id);
+    updates.forget(id);
+  }
+  const updated: string[] = [];
+  for (const card of [...(delta.added ?? []), ...(delta.changed ?? [])]) {
+    if (!card || typeof card !== 'object' || !card.id) {
+      continue;
+    }
+    cache.set(card.id, updates.reconcile(card));
+    updated.push(card.id);
+  }
+  if (message.requestId) {
+    for (const card of updates.settleRequest(message.requestId)) {
+      if (cache.has(card.id)) {
+        cache.set(card.id, card);
+      }
+    }
+  }
+  return { removed, updated };
+}
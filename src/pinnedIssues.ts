@@ -0,0 +1,34 @@
+/**
+ * Order of the Pinned strip above the Kanban columns. Pins themselves live in
+ * the issue (metadata `pinned`); their order is kept per repository in
+ * workspace state, as a list of ids.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+/** The strip shows at most this many pinned issues */
+export const MAX_PINNED = 50;
+
+/**
+ * Cards in the saved order. Cards missing from it (pinned since the order was
+ * saved) follow in their given order; ids in it that are no longer pinned are
+ * ignored.
+ */
+export function orderPinned<T extends { id: string }>(cards: T[], order: string[]): T[] {
+  const rank = new Map(order.map((id, index) => [id, index]));
+  return cards
+    .map((card, index) => ({ card, index, rank: rank.get(card.id) ?? order.length + index }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ card }) => card);
+}
+
+/** Move `id` in front of `beforeId`, or to the end when `beforeId` is null */
+export function movePinned(order: string[], id: string, beforeId: string | null): string[] {
+  if (id === beforeId) {
+    return order;
+  }
+  const rest = order.filter(other => other !== id);
+  const at = beforeId === null ? -1 : rest.indexOf(beforeId);
+  return at === -1 ? [...rest, id] : [...rest.slice(0, at), id, ...rest.slice(at)];
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SavedView, SavedViewEntry, SavedViewScope, SavedViewSchema } from './types';
+import { sanitizeError } from './sanitizeError';
+
+const WORKSPACE_STATE_KEY = 'beadsKanban.savedViews';
+const SHARED_FILE_VERSION = 1;
+
+/** Path of the shareable views file, committed alongside the beads database */
+export function sharedViewsPath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, '.beads', 'views.json');
+}
+
+/**
+ * Named filter presets. Workspace views live in the extension's workspace state;
+ * shared views live in `.beads/views.json` so a team can commit them.
+ * Invalid entries are skipped (and logged) instead of failing the whole list,
+ * since the shared file may be edited by hand.
+ */
+export class SavedViewStore {
+  constructor(
+    private readonly memento: vscode.Memento,
+    private readonly getWorkspaceRoot: () => string | null,
+    private readonly output: vscode.OutputChannel
+  ) {}
+
+  /** All views, shared first, each sorted by name */
+  async list(): Promise<SavedViewEntry[]> {
+    const shared = (await this.readShared()).map(view => ({ ...view, scope: 'shared' as const }));
+    const local = this.readWorkspace().map(view => ({ ...view, scope: 'workspace' as const }));
+    const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name);
+    return [...shared.sort(byName), ...local.sort(byName)];
+  }
+
+  async find(name: string, scope: SavedViewScope): Promise<SavedViewEntry | undefined> {
+    return (await this.list()).find(view => view.name === name && view.scope === scope);
+  }
+
+  /** Insert or replace the view with the same name in the given scope */
+  async save(view: SavedView, scope: SavedViewScope): Promise<void> {
+    const views = scope === 'shared' ? await this.readShared() : this.readWorkspace();
+    const next = views.filter(existing => existing.name !== view.name);
+    next.push(view);
+    await this.write(scope, next);
+  }
+
+  /** @returns false if no view with that name exists in the scope */
+  async delete(name: string, scope: SavedViewScope): Promise<boolean> {
+    const views = scope === 'shared' ? await this.readShared() : this.readWorkspace();
+    const next = views.filter(existing => existing.name !== name);
+    if (next.length === views.length) {
+      return false;
+    }
+    await this.write(scope, next);
+    return true;
+  }
+
+  private readWorkspace(): SavedView[] {
+    return this.validViews(this.memento.get<unknown[]>(WORKSPACE_STATE_KEY, []), 'workspace state');
+  }
+
+  private async readShared(): Promise<SavedView[]> {
+    const root = this.getWorkspaceRoot();
+    if (!root) {
+      return [];
+    }
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(sharedViewsPath(root), 'utf8');
+    } catch {
+      return []; // No shared views file yet
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as { views?: unknown };
+      return this.validViews(parsed?.views, '.beads/views.json');
+    } catch (e) {
+      this.output.appendLine(`[SavedViews] Ignoring unreadable .beads/views.json: ${sanitizeError(e)}`);
+      return [];
+    }
+  }
+
+  private validViews(entries: unknown, source: string): SavedView[] {
+    if (!Array.isArray(entries)) {
+      return [];
+    }
+    const views: SavedView[] = [];
+    for (const entry of entries) {
+      const result = SavedViewSchema.safeParse(entry);
+      if (result.success) {
+        views.push(result.data);
+      } else {
+        this.output.appendLine(`[SavedViews] Skipping invalid view in ${source}: ${result.error.message}`);
+      }
+    }
+    return views;
+  }
+
+  private async write(scope: SavedViewScope, views: SavedView[]): Promise<void> {
+    if (scope === 'workspace') {
+      await this.memento.update(WORKSPACE_STATE_KEY, views);
+      return;
+    }
+
+    const root = this.getWorkspaceRoot();
+    if (!root) {
+      throw new Error('Shared views require an open workspace folder');
+    }
+    const file = sharedViewsPath(root);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ version: SHARED_FILE_VERSION, views }, null, 2) + '\n', 'utf8');
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Swimlane grouping for the Kanban board.
+ *
+ * Lanes split every column horizontally by one card attribute. Dragging a card
+ * into another lane changes that attribute, so each grouping also knows which
+ * mutations move a card between two lanes.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export type SwimlaneGroupBy = 'none' | 'assignee' | 'epic' | 'priority' | 'issue_type' | 'label';
+
+export interface SwimlaneConfig {
+  groupBy: SwimlaneGroupBy;
+  /** Only for `label`: lanes are the labels starting with this prefix, e.g. `area:` */
+  labelPrefix?: string;
+}
+
+/** Card fields used for grouping */
+export interface LaneCard {
+  id: string;
+  title?: string;
+  priority: number;
+  issue_type: string;
+  assignee?: string | null;
+  labels?: string[];
+  parent_id?: string | null;
+}
+
+export interface Swimlane<T extends LaneCard> {
+  /** Value of the grouped attribute; NO_LANE for cards without one */
+  key: string;
+  title: string;
+  cards: T[];
+}
+
+/**
+ * One write of a lane change, shaped like the webview message for the same
+ * write; the extension applies them together (see laneMutationOp)
+ */
+export type LaneMutation =
+  | { type: 'issue.update'; payload: { id: string; updates: { assignee?: string | null; priority?: number; issue_type?: string } } }
+  | { type: 'issue.addLabel' | 'issue.removeLabel'; payload: { id: string; label: string } }
+  | { type: 'issue.addDependency'; payload: { id: string; otherId: string; type: 'parent-child' } }
+  | { type: 'issue.removeDependency'; payload: { id: string; otherId: string } };
+
+/** Lane key for cards without a value (unassigned, no epic, no matching label) */
+export const NO_LANE = '';
+
+const PRIORITIES = [0, 1, 2, 3, 4];
+const ISSUE_TYPES = ['task', 'bug', 'feature', 'epic', 'chore'];
+
+export function laneKeyForCard(card: LaneCard, config: SwimlaneConfig): string {
+  switch (config.groupBy) {
+    case 'assignee':
+      return card.assignee || NO_LANE;
+    case 'epic':
+      return card.parent_id || NO_LANE;
+    case 'priority':
+      return String(card.priority);
+    case 'issue_type':
+      return card.issue_type;
+    case 'label': {
+      const prefix = config.labelPrefix ?? '';
+      const matching = (card.labels ?? []).filter(label => label.startsWith(prefix)).sort();
+      return matching[0] ?? NO_LANE;
+    }
+    default:
+      return NO_LANE;
+  }
+}
+
+function noLaneTitle(config: SwimlaneConfig): string {
+  switch (config.groupBy) {
+    case 'assignee':
+      return 'Unassigned';
+    case 'epic':
+      return 'No epic';
+    case 'label':
+      return config.labelPrefix ? `No ${config.labelPrefix} label` : 'No label';
+    default:
+      return 'Other';
+  }
+}
+
+/**
+ * Group cards into lanes, keeping the input order inside each lane.
+ * Lanes a card can be dropped into are included even when empty: every priority
+ * and standard type, every epic on the board, and the "no value" lane.
+ * @param epicTitle Resolves an epic id to its title (falls back to the id)
+ */
+export function groupIntoLanes<T extends LaneCard>(
+  cards: T[],
+  config: SwimlaneConfig,
+  epicTitle: (id: string) => string | undefined = () => undefined
+): Swimlane<T>[] {
+  const byKey = new Map<string, T[]>();
+  for (const card of cards) {
+    const key = laneKeyForCard(card, config);
+    const lane = byKey.get(key);
+    if (lane) {
+      lane.push(card);
+    } else {
+      byKey.set(key, [card]);
+    }
+  }
+
+  const keys = new Set(byKey.keys());
+  if (config.groupBy === 'priority') {
+    PRIORITIES.forEach(p => keys.add(String(p)));
+  } else if (config.groupBy === 'issue_type') {
+    ISSUE_TYPES.forEach(t => keys.add(t));
+  } else {
+    keys.add(NO_LANE);
+    if (config.groupBy === 'epic') {
+      cards.filter(card => card.issue_type === 'epic').forEach(card => keys.add(card.id));
+    }
+  }
+
+  const titleFor = (key: string): string => {
+    if (key === NO_LANE && config.groupBy !== 'priority' && config.groupBy !== 'issue_type') {
+      return noLaneTitle(config);
+    }
+    if (config.groupBy === 'priority') {
+      return `P${key}`;
+    }
+    if (config.groupBy === 'epic') {
+      return epicTitle(key) ?? key;
+    }
+    return key;
+  };
+
+  const lanes = [...keys].map(key => ({ key, title: titleFor(key), cards: byKey.get(key) ?? [] }));
+  return lanes.sort((a, b) => compareLanes(a, b, config));
+}
+
+function compareLanes(a: Swimlane<LaneCard>, b: Swimlane<LaneCard>, config: SwimlaneConfig): number {
+  if (config.groupBy === 'priority') {
+    return Number(a.key) - Number(b.key);
+  }
+  if (config.groupBy === 'issue_type') {
+    const rank = (key: string) => {
+      const index = ISSUE_TYPES.indexOf(key);
+      return index === -1 ? ISSUE_TYPES.length : index;
+    };
+    return rank(a.key) - rank(b.key) || a.key.localeCompare(b.key);
+  }
+  // The "no value" lane goes last
+  if ((a.key === NO_LANE) !== (b.key === NO_LANE)) {
+    return a.key === NO_LANE ? 1 : -1;
+  }
+  return a.title.localeCompare(b.title);
+}
+
+/** Whether a card can be dropped into the lane `key`: a priority or standard type, or a label with the lane prefix */
+function isDropLane(key: string, config: SwimlaneConfig): boolean {
+  switch (config.groupBy) {
+    case 'priority':
+      return /^[0-4]$/.test(key);
+    case 'issue_type':
+      return ISSUE_TYPES.includes(key);
+    case 'label':
+      // bd splits --labels on commas, so a comma would add several labels
+      return key === NO_LANE || (key.startsWith(config.labelPrefix ?? '') && !key.includes(','));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Mutations that move a card from one lane to another, in the order they must run.
+ * @throws If the move is not allowed (an epic cannot become its own parent, or
+ * `toKey` is not a lane of this grouping)
+ */
+export function laneMutations(card: LaneCard, config: SwimlaneConfig, fromKey: string, toKey: string): LaneMutation[] {
+  if (fromKey === toKey) {
+    return [];
+  }
+  if (!isDropLane(toKey, config)) {
+    throw new Error(`Unknown ${config.groupBy} lane: ${toKey}`);
+  }
+  const id = card.id;
+
+  switch (config.groupBy) {
+    case 'assignee':
+      return [{ type: 'issue.update', payload: { id, updates: { assignee: toKey || null } } }];
+    case 'priority':
+      return [{ type: 'issue.update', payload: { id, updates: { priority: Number(toKey) } } }];
+    case 'issue_type':
+      return [{ type: 'issue.update', payload: { id, updates: { issue_type: toKey } } }];
+    case 'epic': {
+      if (toKey === id) {
+        throw new Error('An issue cannot be its own parent');
+      }
+      const mutations: LaneMutation[] = [];
+      if (fromKey) {
+        mutations.push({ type: 'issue.removeDependency', payload: { id, otherId: fromKey } });
+      }
+      if (toKey) {
+        mutations.push({ type: 'issue.addDependency', payload: { id, otherId: toKey, type: 'parent-child' } });
+      }
+      return mutations;
+    }
+    case 'label': {
+      const mutations: LaneMutation[] = [];
+      if (fromKey) {
+        mutations.push({ type: 'issue.removeLabel', payload: { id, label: fromKey } });
+      }
+      if (toKey) {
+        mutations.push({ type: 'issue.addLabel', payload: { id, label: toKey } });
+      }
+      return mutations;
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,183 @@
+import { BeadsAdapter } from './beadsAdapter';
+import { FullCard, IssueCreateInput, IssueCreateSchema } from './types';
+
+/**
+ * Issue templates: beads marked `is_template`, cloned with their subtree
+ * (children, blocking edges between them and labels) into ordinary issues.
+ * Text fields and labels may contain `{{name}}` placeholders, filled in when
+ * the template is instantiated.
+ */
+
+/** A template and every descendant must fit in this many issues */
+export const MAX_TEMPLATE_ISSUES = 200;
+
+/** Templates offered by "New from template" */
+export const MAX_TEMPLATES = 200;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+
+export interface TemplateSummary {
+  id: string;
+  title: string;
+  issue_type: string;
+}
+
+export interface TemplateEdge {
+  id: string;
+  dependsOnId: string;
+  type: 'parent-child' | 'blocks';
+}
+
+export interface TemplateTree {
+  /** Root first; every parent comes before its children */
+  issues: FullCard[];
+  /** Parent-child links and blocking edges within the subtree */
+  edges: TemplateEdge[];
+}
+
+/** Placeholder names in a text, in order of first appearance */
+export function findPlaceholders(text: string | null | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1]))];
+}
+
+/** Replace `{{name}}` with its value; placeholders without a value are left as-is */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
+}
+
+function templateTexts(issue: FullCard): string[] {
+  return [issue.title, issue.description, issue.acceptance_criteria, issue.design, issue.notes, ...(issue.labels ?? [])]
+    .filter((text): text is string => typeof text === 'string');
+}
+
+/** Placeholder names used anywhere in the tree */
+export function templatePlaceholders(tree: TemplateTree): string[] {
+  return [...new Set(tree.issues.flatMap(issue => templateTexts(issue).flatMap(findPlaceholders)))];
+}
+
+export async function listTemplates(adapter: BeadsAdapter): Promise<TemplateSummary[]> {
+  const { cards } = await adapter.getTableData({ query: 'is:template' }, [], 0, MAX_TEMPLATES);
+  return cards
+    .map(card => ({ id: card.id, title: card.title, issue_type: card.issue_type }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Read a template and its descendants breadth-first. Blocking edges are kept
+ * only when both ends are in the subtree; edges to outside issues belong to
+ * the template, not to its clones.
+ * @throws If the root is not marked as a template
+ */
+export async function loadTemplateTree(adapter: BeadsAdapter, rootId: string): Promise<TemplateTree> {
+  const issues: FullCard[] = [];
+  const edges: TemplateEdge[] = [];
+  const seen = new Set<string>([rootId]);
+  const queue = [rootId];
+
+  while (queue.length > 0) {
+    const issue = await adapter.getIssueFull(queue.shift() as string);
+    if (issues.length === 0 && !issue.is_template) {
+      throw new Error(`${rootId} is not a template`);
+    }
+    issues.push(issue);
+    for (const child of issue.children ?? []) {
+      if (seen.has(child.id)) {
+        continue;
+      }
+      if (seen.size >= MAX_TEMPLATE_ISSUES) {
+        throw new Error(`Template ${rootId} has more than ${MAX_TEMPLATE_ISSUES} issues`);
+      }
+      seen.add(child.id);
+      queue.push(child.id);
+      edges.push({ id: child.id, dependsOnId: issue.id, type: 'parent-child' });
+    }
+  }
+
+  for (const issue of issues) {
+    for (const blocker of issue.blocked_by ?? []) {
+      if (seen.has(blocker.id)) {
+        edges.push({ id: issue.id, dependsOnId: blocker.id, type: 'blocks' });
+      }
+    }
+  }
+  return { issues, edges };
+}
+
+/** The create input for a copy of `issue`, checked like an `issue.create` message */
+function cloneInput(issue: FullCard, values: Record<string, string>): IssueCreateInput {
+  const fill = (text: string | null | undefined) => text ? fillPlaceholders(text, values) : undefined;
+  const validation = IssueCreateSchema.safeParse({
+    title: fillPlaceholders(issue.title, values),
+    description: fill(issue.description),
+    acceptance_criteria: fill(issue.acceptance_criteria),
+    design: fill(issue.design),
+    notes: fill(issue.notes),
+    priority: issue.priority,
+    issue_type: issue.issue_type,
+    estimated_minutes: issue.estimated_minutes ?? undefined,
+    labels: (issue.labels ?? []).map(label => fillPlaceholders(label, values)).filter(label => label.trim() !== '')
+  });
+  if (!validation.success) {
+    throw new Error(`Invalid copy of ${issue.id}: ${validation.error.message}`);
+  }
+  return validation.data;
+}
+
+/**
+ * Create a copy of every issue in the tree, then link the copies the way the
+ * template issues are linked. If any step fails, the copies created so far are
+ * deleted (newest first) so no half-built subtree is left behind.
+ * @returns The id of the copied root and of every created issue
+ * @throws When a placeholder has no value or an invalid one, a copy would not
+ *         be a valid issue, or creation fails; the message names any copies
+ *         that could not be deleted
+ */
+export async function instantiateTemplate(
+  adapter: BeadsAdapter,
+  tree: TemplateTree,
+  values: Record<string, string>
+): Promise<{ id: string; created: string[] }> {
+  const missing = templatePlaceholders(tree).filter(name => !Object.prototype.hasOwnProperty.call(values, name));
+  if (missing.length > 0) {
+    throw new Error(`Missing value for ${missing.map(name => `{{${name}}}`).join(', ')}`);
+  }
+  // bd splits --labels on commas, so a comma would turn one label into several
+  const inLabels = new Set(tree.issues.flatMap(issue => (issue.labels ?? []).flatMap(findPlaceholders)));
+  const split = [...inLabels].filter(name => values[name].includes(','));
+  if (split.length > 0) {
+    throw new Error(`${split.map(name => `{{${name}}}`).join(', ')} is used in a label and cannot contain a comma`);
+  }
+  // Every copy is checked before the first one is created
+  const inputs = tree.issues.map(issue => cloneInput(issue, values));
+
+  const copies = new Map<string, string>();
+  try {
+    for (const [index, issue] of tree.issues.entries()) {
+      const { id } = await adapter.createIssue(inputs[index]);
+      copies.set(issue.id, id);
+    }
+    for (const edge of tree.edges) {
+      await adapter.addDependency(copies.get(edge.id) as string, copies.get(edge.dependsOnId) as string, edge.type);
+    }
+  } catch (error) {
+    const leftovers: string[] = [];
+    for (const id of [...copies.values()].reverse()) {
+      try {
+        await adapter.deleteIssue(id);
+      } catch {
+        leftovers.push(id);
+      }
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(leftovers.length > 0
+      ? `${message} (could not roll back ${leftovers.join(', ')})`
+      : message);
+  }
+
+  const created = [...copies.values()];
+  return { id: created[0], created };
+}
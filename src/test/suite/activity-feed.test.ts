@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import {
+    ActivityEntry,
+    activityFromIssues,
+    activitySince,
+    filterActivity,
+    mergeActivity,
+    rowsToActivity
+} from '../../activityFeed';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+
+function entry(overrides: Partial<ActivityEntry> = {}): ActivityEntry {
+    return {
+        id: '1',
+        kind: 'updated',
+        actor: 'alice',
+        created_at: '2026-03-01T10:00:00Z',
+        changes: [],
+        comment: null,
+        issue_id: 'beads-1',
+        issue_title: 'Task',
+        ...overrides
+    };
+}
+
+suite('Activity Feed Tests', () => {
+    test('rowsToActivity keeps the issue of each event', () => {
+        const [first] = rowsToActivity([{
+            id: 3, issue_id: 'beads-2', issue_title: 'Login', event_type: 'status_changed', actor: 'bob',
+            old_value: 'open', new_value: 'closed', comment: null, created_at: '2026-03-01T10:00:00Z'
+        }]);
+        assert.strictEqual(first.issue_id, 'beads-2');
+        assert.strictEqual(first.issue_title, 'Login');
+        assert.deepStrictEqual(first.changes, [{ field: 'status', before: 'open', after: 'closed' }]);
+    });
+
+    test('activityFromIssues rebuilds creation, updates and closing, newest first', () => {
+        const entries = activityFromIssues([
+            { id: 'beads-1', title: 'A', created_at: '2026-03-01T10:00:00Z', created_by: 'alice', updated_at: '2026-03-01T10:00:00Z' },
+            { id: 'beads-2', title: 'B', created_at: '2026-03-02T10:00:00Z', updated_at: '2026-03-04T10:00:00Z', closed_at: '2026-03-04T10:00:00Z', close_reason: 'Done' },
+            { id: 'beads-3', title: 'C', created_at: '2026-03-01T12:00:00Z', updated_at: '2026-03-03T10:00:00Z' }
+        ]);
+        assert.deepStrictEqual(entries.map(e => [e.issue_id, e.kind]), [
+            ['beads-2', 'closed'],
+            ['beads-3', 'updated'],
+            ['beads-2', 'created'],
+            ['beads-3', 'created'],
+            ['beads-1', 'created']
+        ]);
+        assert.ok(entries.every(e => e.rebuilt), 'rebuilt entries are marked as such');
+        assert.strictEqual(entries[0].comment, 'Done');
+    });
+
+    test('activitySince returns only newer entries', () => {
+        const entries = [entry({ id: 'old' }), entry({ id: 'new', created_at: '2026-03-01T10:00:01Z' })];
+        assert.deepStrictEqual(activitySince(entries, '2026-03-01T10:00:00Z').map(e => e.id), ['new']);
+        assert.deepStrictEqual(activitySince(entries).map(e => e.id), ['new', 'old']);
+    });
+
+    test('mergeActivity prepends streamed entries without duplicates', () => {
+        const feed = [entry({ id: 'a' })];
+        const merged = mergeActivity(feed, [entry({ id: 'b', created_at: '2026-03-02T10:00:00Z' }), entry({ id: 'a' })]);
+        assert.deepStrictEqual(merged.map(e => e.id), ['b', 'a']);
+    });
+
+    test('filterActivity filters by actor and time window', () => {
+        const now = Date.parse('2026-03-10T10:00:00Z');
+        const entries = [
+            entry({ id: 'recent', created_at: '2026-03-10T09:00:00Z' }),
+            entry({ id: 'bob', actor: 'bob', created_at: '2026-03-10T09:30:00Z' }),
+            entry({ id: 'old', created_at: '2026-03-01T10:00:00Z' })
+        ];
+        assert.deepStrictEqual(filterActivity(entries, { actor: 'alice', window: '24h' }, now).map(e => e.id), ['recent']);
+        assert.deepStrictEqual(filterActivity(entries, { window: 'all' }, now).map(e => e.id), ['recent', 'bob', 'old']);
+    });
+
+    test('Refreshes list only issues updated after the newest entry sent', async () => {
+        const output = vscode.window.createOutputChannel('Test Activity Feed');
+        const adapter = new DaemonBeadsAdapter('/tmp/beads-activity', output);
+        const execStub = sinon.stub(adapter as any, 'execBd').resolves([
+            { id: 'beads-1', title: 'A', created_at: '2026-03-01T10:00:00Z', updated_at: '2026-03-02T10:00:00Z' }
+        ]);
+        try {
+            const entries = await adapter.getActivity('2026-03-01T10:00:00Z');
+            assert.ok((execStub.firstCall.args[0] as string[]).includes('--updated-after=2026-03-01T10:00:00.000Z'));
+            assert.deepStrictEqual(entries.map(e => e.kind), ['updated']);
+
+            await adapter.getActivity();
+            assert.ok(!(execStub.secondCall.args[0] as string[]).some(arg => arg.startsWith('--updated-after')));
+        } finally {
+            adapter.dispose();
+            output.dispose();
+            sinon.restore();
+        }
+    });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { AgentSummary, agentHealth, formatIdle, isAgentIssue, sortAgents, toAgentSummary } from '../../agentMonitor';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+function agent(overrides: Partial<AgentSummary> = {}): AgentSummary {
+    return {
+        id: 'gt-agent-1',
+        title: 'Polecat',
+        status: 'open',
+        agent_state: 'working',
+        rig: 'gastown',
+        role_type: 'polecat',
+        hook_bead: null,
+        hook_title: null,
+        last_activity: '2026-03-01T11:55:00Z',
+        timeout_ns: 10 * 60 * 1e9,
+        ...overrides
+    };
+}
+
+suite('Agent Monitor Tests', () => {
+    test('Agent beads are typed agent or carry an agent_state', () => {
+        assert.ok(isAgentIssue({ issue_type: 'agent' }));
+        assert.ok(isAgentIssue({ issue_type: 'task', agent_state: 'idle' }));
+        assert.ok(!isAgentIssue({ issue_type: 'task', agent_state: '' }));
+    });
+
+    test('toAgentSummary resolves the hooked issue title', () => {
+        const summary = toAgentSummary(
+            { id: 'gt-agent-1', title: 'Polecat', issue_type: 'agent', agent_state: 'working', hook_bead: 'gt-42', timeout_ns: 0 },
+            new Map([['gt-42', 'Fix login']])
+        );
+        assert.strictEqual(summary.hook_title, 'Fix login');
+        assert.strictEqual(summary.timeout_ns, null);
+    });
+
+    test('A working agent is stalled once idle past its timeout', () => {
+        assert.deepStrictEqual(agentHealth(agent(), NOW), { idleMs: 5 * 60 * 1000, stalled: false });
+        assert.ok(agentHealth(agent({ last_activity: '2026-03-01T11:40:00Z' }), NOW).stalled);
+    });
+
+    test('Idle agents are not stalled; stuck agents always are', () => {
+        assert.ok(!agentHealth(agent({ agent_state: 'idle', last_activity: '2026-02-01T00:00:00Z' }), NOW).stalled);
+        assert.ok(agentHealth(agent({ agent_state: 'stuck' }), NOW).stalled);
+        assert.strictEqual(agentHealth(agent({ last_activity: null }), NOW).idleMs, null);
+    });
+
+    test('Stalled agents sort first', () => {
+        const sorted = sortAgents([
+            agent({ id: 'a' }),
+            agent({ id: 'b', agent_state: 'stuck' })
+        ], NOW);
+        assert.deepStrictEqual(sorted.map(a => a.id), ['b', 'a']);
+    });
+
+    test('formatIdle', () => {
+        assert.strictEqual(formatIdle(45_000), '45s');
+        assert.strictEqual(formatIdle(3 * 3600_000 + 5 * 60_000), '3h 5m');
+        assert.strictEqual(formatIdle(2 * 86400_000), '2d');
+    });
+});
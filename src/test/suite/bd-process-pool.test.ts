@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { BdProcessPool } from '../../bdProcessPool';
+
+// The pool only cares that the command is an executable taking argv, so node itself
+// stands in for bd: `node -e <script>` behaves like a bd command with fixed output.
+function nodeScript(script: string): string[] {
+    return ['-e', script];
+}
+
+suite('bd Process Pool Tests', () => {
+    let pool: BdProcessPool;
+
+    function createPool(maxConcurrent: number): BdProcessPool {
+        return new BdProcessPool({
+            command: () => process.execPath,
+            cwd: () => os.tmpdir(),
+            log: () => undefined,
+            maxConcurrent
+        });
+    }
+
+    teardown(() => {
+        if (pool) {
+            pool.dispose();
+        }
+    });
+
+    test('Returns exit code and output of the command', async function() {
+        this.timeout(10000);
+        pool = createPool(1);
+
+        const result = await pool.exec(nodeScript('console.log(JSON.stringify({ok:true}))'));
+        assert.strictEqual(result.code, 0);
+        assert.deepStrictEqual(JSON.parse(result.stdout), { ok: true });
+    });
+
+    test('Non-zero exit resolves instead of rejecting', async function() {
+        this.timeout(10000);
+        pool = createPool(1);
+
+        const result = await pool.exec(nodeScript('process.stderr.write("boom"); process.exit(3)'));
+        assert.strictEqual(result.code, 3);
+        assert.strictEqual(result.stderr, 'boom');
+    });
+
+    test('Never runs more processes than maxConcurrent', async function() {
+        this.timeout(20000);
+        pool = createPool(2);
+
+        const requests = [1, 2, 3, 4].map(() => pool.exec(nodeScript('setTimeout(() => {}, 300)')));
+        // Dispatch is synchronous, so the first two are running and the rest queue
+        const stats = pool.getStats();
+        assert.strictEqual(stats.running, 2);
+        assert.strictEqual(stats.queued, 2);
+
+        await Promise.all(requests);
+        assert.strictEqual(pool.getStats().completed, 4);
+        assert.strictEqual(pool.getStats().queued, 0);
+    });
+
+    test('Queued request times out while waiting for a free slot', async function() {
+        this.timeout(10000);
+        pool = createPool(1);
+
+        const slow = pool.exec(nodeScript('setTimeout(() => {}, 1500)'));
+        await assert.rejects(
+            pool.exec(nodeScript('console.log(1)'), 200),
+            /waiting for a free bd process slot/
+        );
+        await slow;
+    });
+
+    test('Running request is killed after its timeout', async function() {
+        this.timeout(10000);
+        pool = createPool(1);
+
+        await assert.rejects(
+            pool.exec(nodeScript('setTimeout(() => {}, 5000)'), 200),
+            /timed out after 200ms/
+        );
+    });
+
+    test('Disposed pool rejects queued and new requests', async function() {
+        this.timeout(10000);
+        pool = createPool(1);
+
+        const running = pool.exec(nodeScript('setTimeout(() => {}, 5000)'), 10000).catch(() => undefined);
+        const queued = pool.exec(nodeScript('console.log(1)'));
+        pool.dispose();
+
+        await assert.rejects(queued, /disposed/);
+        await assert.rejects(pool.exec(['--version']), /disposed/);
+        await running;
+    });
+});
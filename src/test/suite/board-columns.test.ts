@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ColumnCard, ColumnDefinition, DEFAULT_COLUMNS, columnForCard, planColumnMove } from '../../boardColumns';
+import { boardConfigPath, loadBoardColumns } from '../../boardConfig';
+
+function card(overrides: Partial<ColumnCard> = {}): ColumnCard {
+    return { status: 'open', is_ready: true, labels: [], assignee: null, agent_state: null, ...overrides };
+}
+
+const REVIEW_COLUMNS: ColumnDefinition[] = [
+    { key: 'ready', title: 'Ready', match: { status: ['open'], ready: true } },
+    { key: 'in_progress', title: 'In Progress', match: { status: ['in_progress'] } },
+    { key: 'review', title: 'Review', match: { status: ['in_progress'], labels: ['review'] } },
+    { key: 'stuck', title: 'Agent Stuck', match: { agentState: ['stuck'] } },
+    { key: 'blocked', title: 'Blocked', match: { status: ['blocked'] }, fallback: true },
+    { key: 'closed', title: 'Closed', match: { status: ['closed'] } }
+];
+
+suite('Board Column Tests', () => {
+    suite('columnForCard', () => {
+        test('Default columns keep the original mapping', () => {
+            assert.strictEqual(columnForCard(card(), DEFAULT_COLUMNS), 'ready');
+            assert.strictEqual(columnForCard(card({ is_ready: false }), DEFAULT_COLUMNS), 'blocked');
+            assert.strictEqual(columnForCard(card({ status: 'in_progress', is_ready: false }), DEFAULT_COLUMNS), 'in_progress');
+            assert.strictEqual(columnForCard(card({ status: 'closed', is_ready: false }), DEFAULT_COLUMNS), 'closed');
+        });
+
+        test('The most specific matching column wins', () => {
+            assert.strictEqual(columnForCard(card({ status: 'in_progress', labels: ['review', 'ui'] }), REVIEW_COLUMNS), 'review');
+            assert.strictEqual(columnForCard(card({ status: 'in_progress', labels: ['ui'] }), REVIEW_COLUMNS), 'in_progress');
+        });
+
+        test('Agent state and assignee predicates', () => {
+            assert.strictEqual(columnForCard(card({ status: 'in_progress', agent_state: 'stuck' }), REVIEW_COLUMNS), 'in_progress');
+            assert.strictEqual(columnForCard(card({ status: 'hooked', agent_state: 'stuck' }), REVIEW_COLUMNS), 'stuck');
+
+            const columns: ColumnDefinition[] = [
+                { key: 'triage', title: 'Triage', match: { status: ['open'], assignee: [''] } },
+                { key: 'open', title: 'Open', match: { status: ['open'] } }
+            ];
+            assert.strictEqual(columnForCard(card(), columns), 'triage');
+            assert.strictEqual(columnForCard(card({ assignee: 'alice' }), columns), 'open');
+        });
+
+        test('Unmatched cards go to the fallback column, or nowhere', () => {
+            assert.strictEqual(columnForCard(card({ status: 'hooked' }), REVIEW_COLUMNS), 'blocked');
+            assert.strictEqual(columnForCard(card({ status: 'hooked' }), [REVIEW_COLUMNS[0]]), null);
+        });
+    });
+
+    suite('planColumnMove', () => {
+        test('Dropping into Review sets the status and adds the label', () => {
+            assert.deepStrictEqual(planColumnMove(REVIEW_COLUMNS, card(), 'review'), {
+                status: 'in_progress',
+                addLabels: ['review'],
+                removeLabels: []
+            });
+        });
+
+        test('Leaving Review removes the label the column required', () => {
+            const inReview = card({ status: 'in_progress', labels: ['review', 'ui'] });
+            assert.deepStrictEqual(planColumnMove(REVIEW_COLUMNS, inReview, 'in_progress'), {
+                addLabels: [],
+                removeLabels: ['review']
+            });
+        });
+
+        test('Without a card the drop action is returned as is', () => {
+            assert.deepStrictEqual(planColumnMove(DEFAULT_COLUMNS, null, 'ready'), { status: 'open', addLabels: [], removeLabels: [] });
+            const columns: ColumnDefinition[] = [
+                { key: 'mine', title: 'Mine', match: { assignee: ['alice'] }, onDrop: { status: 'in_progress', assignee: 'alice' } }
+            ];
+            assert.deepStrictEqual(planColumnMove(columns, null, 'mine'), {
+                status: 'in_progress',
+                addLabels: [],
+                removeLabels: [],
+                assignee: 'alice'
+            });
+            assert.throws(() => planColumnMove(columns, null, 'nope'), /Unknown column/);
+        });
+    });
+
+    suite('loadBoardColumns', () => {
+        let output: vscode.OutputChannel;
+        let workspaceRoot: string;
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test Board Columns');
+            workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-columns-'));
+            fs.mkdirSync(path.join(workspaceRoot, '.beads'));
+        });
+
+        teardown(() => {
+            output.dispose();
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        });
+
+        test('Reads columns from .beads/kanban.json', async () => {
+            fs.writeFileSync(boardConfigPath(workspaceRoot), JSON.stringify({ columns: REVIEW_COLUMNS }));
+            assert.deepStrictEqual(await loadBoardColumns(workspaceRoot, output), REVIEW_COLUMNS);
+        });
+
+        test('Missing or invalid columns fall back to the defaults', async () => {
+            assert.deepStrictEqual(await loadBoardColumns(workspaceRoot, output), DEFAULT_COLUMNS);
+
+            const duplicate = [REVIEW_COLUMNS[0], { ...REVIEW_COLUMNS[1], key: 'ready' }];
+            fs.writeFileSync(boardConfigPath(workspaceRoot), JSON.stringify({ columns: duplicate }));
+            assert.deepStrictEqual(await loadBoardColumns(workspaceRoot, output), DEFAULT_COLUMNS);
+
+            fs.writeFileSync(boardConfigPath(workspaceRoot), JSON.stringify({ columns: [{ key: 'Bad Key', title: 'x', match: {} }] }));
+            assert.deepStrictEqual(await loadBoardColumns(workspaceRoot, output), DEFAULT_COLUMNS);
+        });
+    });
+});
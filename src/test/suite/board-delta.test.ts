@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { BoardSnapshot } from '../../boardDelta';
+import { OptimisticUpdates, applyBoardDelta } from '../../optimisticUpdates';
+import { EnrichedCard } from '../../types';
+
+function card(id: string, overrides: Partial<EnrichedCard> = {}): EnrichedCard {
+    return {
+        id,
+        title: `Issue ${id}`,
+        description: '',
+        status: 'open',
+        priority: 2,
+        issue_type: 'task',
+        created_at: '2026-01-01T00:00:00Z',
+        created_by: 'tester',
+        updated_at: '2026-01-01T00:00:00Z',
+        dependency_count: 0,
+        dependent_count: 0,
+        labels: [],
+        ...overrides
+    };
+}
+
+suite('Board Delta Tests', () => {
+    test('Delta cannot be computed before a full board', () => {
+        const snapshot = new BoardSnapshot();
+        assert.strictEqual(snapshot.isInitialized(), false);
+        assert.throws(() => snapshot.diff([card('bd-1')]), /full board/);
+    });
+
+    test('Reports added, changed and removed cards', () => {
+        const snapshot = new BoardSnapshot();
+        const base = snapshot.reset([card('bd-1'), card('bd-2'), card('bd-3')]);
+
+        const delta = snapshot.diff([
+            card('bd-1'),
+            card('bd-2', { status: 'closed' }),
+            card('bd-4')
+        ]);
+
+        assert.ok(delta);
+        assert.strictEqual(delta.baseVersion, base);
+        assert.strictEqual(delta.version, base + 1);
+        assert.deepStrictEqual(delta.added.map(c => c.id), ['bd-4']);
+        assert.deepStrictEqual(delta.changed.map(c => c.id), ['bd-2']);
+        assert.deepStrictEqual(delta.removed, ['bd-3']);
+    });
+
+    test('Label changes count as a change', () => {
+        const snapshot = new BoardSnapshot();
+        snapshot.reset([card('bd-1')]);
+
+        const delta = snapshot.diff([card('bd-1', { labels: ['ui'] })]);
+        assert.ok(delta);
+        assert.deepStrictEqual(delta.changed.map(c => c.id), ['bd-1']);
+    });
+
+    test('Unchanged board yields no delta and keeps the version', () => {
+        const snapshot = new BoardSnapshot();
+        const base = snapshot.reset([card('bd-1')]);
+
+        assert.strictEqual(snapshot.diff([card('bd-1')]), null);
+        assert.strictEqual(snapshot.getVersion(), base);
+    });
+
+    test('Consecutive deltas chain their versions', () => {
+        const snapshot = new BoardSnapshot();
+        snapshot.reset([card('bd-1')]);
+
+        const first = snapshot.diff([card('bd-1', { priority: 0 })]);
+        const second = snapshot.diff([card('bd-1', { priority: 1 })]);
+        assert.ok(first && second);
+        assert.strictEqual(second.baseVersion, first.version);
+    });
+
+    test('Versions keep increasing across resets and clears', () => {
+        const snapshot = new BoardSnapshot();
+        const first = snapshot.reset([card('bd-1')]);
+        snapshot.clear();
+        assert.strictEqual(snapshot.isInitialized(), false);
+
+        const second = snapshot.reset([card('bd-1')]);
+        assert.ok(second > first);
+    });
+
+    suite('Webview handling', () => {
+        test('A mutation that changes nothing is settled by the empty board.delta', () => {
+            // Dropping a card into the column it is already in: the reload finds no change
+            const snapshot = new BoardSnapshot();
+            const version = snapshot.reset([card('bd-1')]);
+            const cache = new Map([['bd-1', card('bd-1')]]);
+            const updates = new OptimisticUpdates<EnrichedCard>();
+            cache.set('bd-1', updates.apply('req-1', card('bd-1'), { status: 'in_progress' }, 'in_progress'));
+            updates.confirm('req-1');
+
+            assert.strictEqual(snapshot.diff([card('bd-1')]), null);
+            const applied = applyBoardDelta(cache, updates, version, { requestId: 'req-1', payload: snapshot.unchanged() });
+
+            assert.deepStrictEqual(applied, { removed: [], updated: [] });
+            assert.strictEqual(updates.columnFor('bd-1'), undefined);
+            assert.strictEqual(cache.get('bd-1')?.status, 'open');
+
+            // A later change made elsewhere shows up instead of the dropped column
+            const external = snapshot.diff([card('bd-1', { status: 'blocked' })]);
+            assert.ok(external);
+            applyBoardDelta(cache, updates, version, { payload: external });
+            assert.strictEqual(cache.get('bd-1')?.status, 'blocked');
+        });
+
+        test('A delta that does not follow the applied version is refused', () => {
+            const updates = new OptimisticUpdates<EnrichedCard>();
+            const delta = { version: 3, baseVersion: 2, changed: [card('bd-1')] };
+            assert.strictEqual(applyBoardDelta(new Map(), updates, 1, { payload: delta }), null);
+            assert.strictEqual(applyBoardDelta(new Map(), updates, null, { payload: delta }), null);
+        });
+    });
+});
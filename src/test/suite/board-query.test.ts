@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { parseBoardQuery, matchesBoardQuery, QueryableCard } from '../../boardQuery';
+
+const NOW = Date.parse('2026-06-15T12:00:00Z');
+
+function card(overrides: Partial<QueryableCard> = {}): QueryableCard {
+    return {
+        id: 'beads-abc',
+        title: 'Fix login redirect',
+        description: 'Users land on a blank page',
+        status: 'open',
+        priority: 2,
+        issue_type: 'bug',
+        assignee: 'alice',
+        labels: ['backend', 'auth'],
+        created_at: '2026-06-01T09:00:00Z',
+        updated_at: '2026-06-14T09:00:00Z',
+        closed_at: null,
+        due_at: null,
+        blocked_by_count: 0,
+        ...overrides
+    };
+}
+
+function matches(query: string, c: QueryableCard, me = 'alice'): boolean {
+    const parsed = parseBoardQuery(query);
+    assert.deepStrictEqual(parsed.errors, [], `Unexpected errors for "${query}"`);
+    return matchesBoardQuery(parsed.query, c, { me, now: NOW });
+}
+
+suite('Board Query Tests', () => {
+    suite('Parsing', () => {
+        test('Empty query has no terms and matches everything', () => {
+            const parsed = parseBoardQuery('   ');
+            assert.strictEqual(parsed.query.terms.length, 0);
+            assert.strictEqual(matchesBoardQuery(parsed.query, card()), true);
+        });
+
+        test('Parses the documented example', () => {
+            const parsed = parseBoardQuery('assignee:me label:backend priority<=1 updated>-7d is:blocked has:due -type:chore');
+            assert.deepStrictEqual(parsed.errors, []);
+            assert.deepStrictEqual(parsed.query.terms.map(t => t.kind), ['list', 'list', 'priority', 'date', 'is', 'has', 'list']);
+            assert.strictEqual(parsed.query.terms[6].negated, true);
+        });
+
+        test('Reports unknown fields with their position', () => {
+            const parsed = parseBoardQuery('login colour:red');
+            assert.strictEqual(parsed.errors.length, 1);
+            assert.match(parsed.errors[0].message, /Unknown field "colour"/);
+            assert.strictEqual(parsed.errors[0].start, 6);
+            assert.strictEqual(parsed.errors[0].end, 16);
+            // The valid term is kept
+            assert.strictEqual(parsed.query.terms.length, 1);
+        });
+
+        test('Reports invalid values', () => {
+            assert.match(parseBoardQuery('priority<=high').errors[0].message, /Priority must be 0-4/);
+            assert.match(parseBoardQuery('updated>last-week').errors[0].message, /Invalid date/);
+            assert.match(parseBoardQuery('is:sleeping').errors[0].message, /Unknown "is:sleeping"/);
+            assert.match(parseBoardQuery('label<x').errors[0].message, /only supports ":"/);
+            assert.match(parseBoardQuery('label:').errors[0].message, /Missing value/);
+            assert.match(parseBoardQuery('"unterminated').errors[0].message, /Unterminated quote/);
+        });
+
+        test('Quoted text is never a field', () => {
+            const parsed = parseBoardQuery('"is:blocked"');
+            assert.deepStrictEqual(parsed.errors, []);
+            assert.deepStrictEqual(parsed.query.terms, [{ kind: 'text', negated: false, value: 'is:blocked' }]);
+        });
+    });
+
+    suite('Matching', () => {
+        test('Free text matches id, title, description and labels', () => {
+            assert.ok(matches('login', card()));
+            assert.ok(matches('ABC', card()));
+            assert.ok(matches('blank', card()));
+            assert.ok(matches('auth', card()));
+            assert.ok(matches('"login redirect"', card()));
+            assert.ok(!matches('logout', card()));
+        });
+
+        test('assignee:me uses the context user', () => {
+            assert.ok(matches('assignee:me', card()));
+            assert.ok(!matches('assignee:me', card(), 'bob'));
+            assert.ok(!matches('assignee:me', card({ assignee: null })));
+            assert.ok(matches('assignee:bob,alice', card()));
+        });
+
+        test('Labels, type and status are case-insensitive exact matches', () => {
+            assert.ok(matches('label:Backend', card()));
+            assert.ok(!matches('label:back', card()));
+            assert.ok(matches('type:bug status:open', card()));
+            assert.ok(matches('-type:chore', card()));
+            assert.ok(!matches('-label:auth', card()));
+        });
+
+        test('Priority comparisons', () => {
+            assert.ok(matches('priority<=2', card()));
+            assert.ok(!matches('priority<=1', card()));
+            assert.ok(matches('priority:p2', card()));
+            assert.ok(matches('priority>0', card()));
+        });
+
+        test('Relative and absolute dates', () => {
+            assert.ok(matches('updated>-7d', card()));
+            assert.ok(!matches('updated>-12h', card()));
+            assert.ok(matches('created<-1w', card()));
+            assert.ok(matches('created:2026-06-01', card()));
+            assert.ok(matches('created>=2026-06-01 created<=2026-06-01', card()));
+            assert.ok(!matches('created>2026-06-01', card()));
+            // Missing dates never satisfy a comparison
+            assert.ok(!matches('closed>-30d', card()));
+            assert.ok(matches('due<+7d', card({ due_at: '2026-06-20T00:00:00Z' })));
+        });
+
+        test('is: and has: states', () => {
+            assert.ok(matches('is:ready', card()));
+            assert.ok(!matches('is:blocked', card()));
+            assert.ok(matches('is:blocked', card({ blocked_by_count: 1 })));
+            assert.ok(matches('is:blocked', card({ status: 'blocked' })));
+            assert.ok(matches('is:unassigned', card({ assignee: '' })));
+            assert.ok(!matches('has:due', card()));
+            assert.ok(matches('has:due has:label has:assignee', card({ due_at: '2026-07-01' })));
+            assert.ok(matches('-has:estimate', card()));
+        });
+
+        test('is:gate and is:overdue match open gates', () => {
+            // Created 2026-06-01, one day timeout: overdue at NOW
+            const gate = card({ await_type: 'gh:pr', timeout_ns: 24 * 60 * 60 * 1e9 });
+            assert.ok(matches('is:gate is:overdue', gate));
+            assert.ok(!matches('is:overdue', card({ await_type: 'gh:pr', timeout_ns: 30 * 24 * 60 * 60 * 1e9 })));
+            assert.ok(!matches('is:gate', card()));
+            assert.ok(!matches('is:gate', { ...gate, status: 'closed' }));
+        });
+    });
+});
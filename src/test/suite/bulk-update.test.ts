@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { applyBulkAction } from '../../bulkUpdate';
+import { FullCard, IssueBulkUpdateSchema } from '../../types';
+
+suite('Bulk Update Tests', () => {
+    let output: vscode.OutputChannel;
+    let adapter: DaemonBeadsAdapter;
+
+    setup(() => {
+        output = vscode.window.createOutputChannel('Test Bulk Update');
+        adapter = new DaemonBeadsAdapter('/tmp/beads-bulk', output);
+    });
+
+    teardown(() => {
+        adapter.dispose();
+        output.dispose();
+        sinon.restore();
+    });
+
+    test('Failures are reported per issue without aborting the batch', async () => {
+        const statusStub = sinon.stub(adapter, 'setIssueStatus');
+        statusStub.withArgs('beads-2').rejects(new Error('Failed to update status: no issue found'));
+        statusStub.resolves();
+
+        const results = await applyBulkAction(adapter, ['beads-1', 'beads-2', 'beads-3'], { kind: 'setStatus', status: 'blocked' });
+
+        assert.strictEqual(statusStub.callCount, 3);
+        assert.deepStrictEqual(results.map(r => [r.id, r.ok]), [['beads-1', true], ['beads-2', false], ['beads-3', true]]);
+        assert.match(results[1].error ?? '', /no issue found/);
+    });
+
+    test('Close passes the reason to bd close', async () => {
+        const closeStub = sinon.stub(adapter, 'closeIssue').resolves();
+
+        await applyBulkAction(adapter, ['beads-1'], { kind: 'close', reason: 'Duplicate' });
+
+        assert.ok(closeStub.calledOnceWith('beads-1', 'Duplicate'));
+    });
+
+    test('Promote makes wisps durable with bd update --persistent', async () => {
+        const execStub = sinon.stub(adapter as any, 'execBd').resolves(null);
+
+        const results = await applyBulkAction(adapter, ['beads-1'], { kind: 'promote' });
+
+        assert.deepStrictEqual(results, [{ id: 'beads-1', ok: true }]);
+        assert.ok(execStub.calledOnce);
+        assert.ok(execStub.firstCall.args[0].includes('--persistent'));
+    });
+
+    test('Set parent replaces the current parent', async () => {
+        const full = (id: string, parentId?: string) =>
+            ({ id, parent: parentId ? { id: parentId, title: '' } : undefined }) as unknown as FullCard;
+        sinon.stub(adapter, 'getIssueFull').callsFake(async (id: string) => full(id, id === 'beads-1' ? 'beads-old' : id === 'beads-2' ? 'beads-epic' : undefined));
+        const removeStub = sinon.stub(adapter, 'removeDependency').resolves();
+        const addStub = sinon.stub(adapter, 'addDependency').resolves();
+
+        const results = await applyBulkAction(adapter, ['beads-1', 'beads-2', 'beads-epic'], { kind: 'setParent', parentId: 'beads-epic' });
+
+        assert.ok(removeStub.calledOnceWith('beads-1', 'beads-old'));
+        assert.ok(addStub.calledOnceWith('beads-1', 'beads-epic', 'parent-child'));
+        assert.deepStrictEqual(results.map(r => r.ok), [true, true, false]);
+        assert.match(results[2].error ?? '', /own parent/);
+    });
+
+    test('Schema rejects duplicate ids and unknown actions', () => {
+        assert.ok(IssueBulkUpdateSchema.safeParse({ ids: ['beads-1'], action: { kind: 'setPriority', priority: 1 } }).success);
+        assert.ok(!IssueBulkUpdateSchema.safeParse({ ids: ['beads-1', 'beads-1'], action: { kind: 'setPriority', priority: 1 } }).success);
+        assert.ok(!IssueBulkUpdateSchema.safeParse({ ids: ['beads-1'], action: { kind: 'delete' } }).success);
+        assert.ok(!IssueBulkUpdateSchema.safeParse({ ids: [], action: { kind: 'close' } }).success);
+    });
+});
@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { CircuitOpenError, DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
 import * as sinon from 'sinon';
 
 // Helper to access private members for testing
@@ -252,6 +252,15 @@ suite('Circuit Breaker Tests', () => {
             assert.strictEqual(isOpen, true, 'OPEN state should block requests');
         });
 
+        test('Writes fail fast with CircuitOpenError while OPEN', async function() {
+            setPrivate(adapter, 'circuitBreakerState', 'OPEN');
+            setPrivate(adapter, 'circuitOpenedAt', Date.now());
+
+            await assert.rejects(adapter.setIssueStatus('beads-1', 'closed'), CircuitOpenError);
+            await assert.rejects(adapter.addLabel('beads-1', 'ui'), CircuitOpenError);
+            assert.strictEqual(execStub.callCount, 0, 'Should not run bd while OPEN');
+        });
+
         test('Error in HALF_OPEN state reopens circuit', function() {
             setPrivate(adapter, 'circuitBreakerState', 'HALF_OPEN');
             setPrivate(adapter, 'consecutiveFailures', 5);
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { findCriticalPath, formatEffort, PathCard } from '../../criticalPath';
+
+function card(id: string, fields: Partial<PathCard> = {}): PathCard {
+    return { id, status: 'open', issue_type: 'task', estimated_minutes: null, ...fields };
+}
+
+const blocks = (...ids: string[]) => ids.map(id => ({ id }));
+
+suite('Critical Path Tests', () => {
+    test('The heaviest chain wins over the one with more issues', () => {
+        // a(30) -> b(30) -> d(10)  and  c(240) -> d
+        const cards = [
+            card('a', { estimated_minutes: 30, blocks: blocks('b') }),
+            card('b', { estimated_minutes: 30, blocks: blocks('d') }),
+            card('c', { estimated_minutes: 240 }),
+            card('d', { estimated_minutes: 10, blocked_by: blocks('c') })
+        ];
+
+        const path = findCriticalPath(cards, ['d']);
+
+        assert.deepStrictEqual(path?.ids, ['c', 'd']);
+        assert.strictEqual(path?.totalMinutes, 250);
+        assert.deepStrictEqual(path?.unestimated, []);
+    });
+
+    test('Without estimates the longest chain is traced; closed issues break it', () => {
+        const cards = [
+            card('a', { status: 'closed', blocks: blocks('b') }),
+            card('b', { blocks: blocks('c') }),
+            card('c', { blocks: blocks('d') }),
+            card('d'),
+            card('x', { blocks: blocks('d') })
+        ];
+
+        const path = findCriticalPath(cards);
+
+        assert.deepStrictEqual(path?.ids, ['b', 'c', 'd']);
+        assert.strictEqual(path?.totalMinutes, 0);
+        assert.deepStrictEqual(path?.unestimated, ['b', 'c', 'd']);
+    });
+
+    test('An epic target includes its descendants', () => {
+        const cards = [
+            card('epic', { issue_type: 'epic', children: blocks('t1') }),
+            card('t1', { estimated_minutes: 60 }),
+            card('t2', { estimated_minutes: 90, parent: { id: 't1' }, blocked_by: blocks('ext') }),
+            card('ext', { estimated_minutes: 15 }),
+            card('other', { estimated_minutes: 600 })
+        ];
+
+        const path = findCriticalPath(cards, ['epic']);
+
+        assert.deepStrictEqual(path?.ids, ['ext', 't2']);
+        assert.strictEqual(path?.totalMinutes, 105);
+        assert.strictEqual(findCriticalPath([card('done', { status: 'closed' })], ['done']), null);
+    });
+
+    test('Edges closing a cycle are ignored', () => {
+        const cards = [
+            card('a', { blocks: blocks('b') }),
+            card('b', { blocks: blocks('c') }),
+            card('c', { blocks: blocks('a') })
+        ];
+
+        assert.deepStrictEqual(findCriticalPath(cards, ['c'])?.ids, ['a', 'b', 'c']);
+    });
+
+    test('Bottlenecks are path issues holding up work off the path', () => {
+        // a -> b -> c is the path; b also holds up y -> z and a holds up w
+        const cards = [
+            card('a', { blocks: blocks('b', 'w') }),
+            card('b', { blocks: blocks('c', 'y') }),
+            card('c'),
+            card('w'),
+            card('y', { blocks: blocks('z') }),
+            card('z')
+        ];
+
+        const path = findCriticalPath(cards, ['c']);
+
+        assert.deepStrictEqual(path?.ids, ['a', 'b', 'c']);
+        assert.deepStrictEqual(path?.bottlenecks, [{ id: 'a', blocking: 3 }, { id: 'b', blocking: 2 }]);
+    });
+
+    test('Effort is formatted like estimate badges', () => {
+        assert.strictEqual(formatEffort(0), '0m');
+        assert.strictEqual(formatEffort(45), '45m');
+        assert.strictEqual(formatEffort(120), '2h');
+        assert.strictEqual(formatEffort(150), '2h30m');
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { BlockingEdge, blockingEdges, findDependencyCycles } from '../../dependencyCycles';
+import { CycleCheckIncompleteError, MAX_CYCLE_CHECK_ISSUES, findNewCycle } from '../../dependencyGuard';
+import { FullCard } from '../../types';
+
+const link = (from: string, to: string): BlockingEdge => ({ from, to });
+
+suite('Dependency Cycle Tests', () => {
+    test('Links come from both sides of the relation, once each', () => {
+        const edges = blockingEdges([
+            { id: 'a', blocks: [{ id: 'b' }] },
+            { id: 'b', blocked_by: [{ id: 'a' }, { id: 'outside' }] }
+        ]);
+        assert.deepStrictEqual(edges, [link('a', 'b')]);
+    });
+
+    test('Each cycle group gets the fewest links to remove', () => {
+        // Two cycles sharing b -> c: removing it alone breaks both; d -> e is not in a cycle
+        const edges = [link('a', 'b'), link('b', 'c'), link('c', 'a'), link('c', 'x'), link('x', 'b'), link('d', 'e')];
+
+        const cycles = findDependencyCycles(edges);
+
+        assert.strictEqual(cycles.length, 1);
+        assert.deepStrictEqual([...cycles[0].ids].sort(), ['a', 'b', 'c', 'x']);
+        assert.strictEqual(cycles[0].edges.length, 5);
+        assert.deepStrictEqual(cycles[0].removal, [link('b', 'c')]);
+        assert.ok(cycles[0].minimal);
+        assert.deepStrictEqual(cycles[0].path, ['a', 'b', 'c', 'a']);
+    });
+
+    test('Large groups fall back to a greedy removal that still breaks every cycle', () => {
+        // A ring of 20 plus chords: too many links for the exact search
+        const ids = Array.from({ length: 20 }, (_, i) => `n${i}`);
+        const edges = ids.map((id, i) => link(id, ids[(i + 1) % ids.length]));
+        edges.push(link('n5', 'n1'), link('n15', 'n10'));
+
+        const [cycle] = findDependencyCycles(edges);
+        const removed = new Set(cycle.removal.map(edge => `${edge.from}->${edge.to}`));
+
+        assert.strictEqual(cycle.minimal, false);
+        assert.deepStrictEqual(findDependencyCycles(edges.filter(edge => !removed.has(`${edge.from}->${edge.to}`))), []);
+    });
+
+    suite('New links', () => {
+        let output: vscode.OutputChannel;
+        let adapter: DaemonBeadsAdapter;
+
+        // a blocks b, b blocks c; c's parent is p, whose parent is a
+        const issues: Record<string, Partial<FullCard>> = {
+            a: {},
+            b: { blocked_by: [{ id: 'a', title: '' }] },
+            c: { blocked_by: [{ id: 'b', title: '' }], parent: { id: 'p', title: '' } },
+            p: { parent: { id: 'a', title: '' } }
+        };
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test Dependency Cycles');
+            adapter = new DaemonBeadsAdapter('/tmp/beads-cycles', output);
+            sinon.stub(adapter, 'getIssueFull').callsFake(async id => ({ id, ...issues[id] }) as FullCard);
+        });
+
+        teardown(() => {
+            adapter.dispose();
+            output.dispose();
+            sinon.restore();
+        });
+
+        test('A link closing a blocking cycle is reported with its chain', async () => {
+            // "a depends on c" means c blocks a, while a already blocks c through b
+            assert.deepStrictEqual(await findNewCycle(adapter, 'a', 'c', 'blocks'), ['a', 'b', 'c', 'a']);
+            assert.strictEqual(await findNewCycle(adapter, 'c', 'a', 'blocks'), null);
+            assert.deepStrictEqual(await findNewCycle(adapter, 'a', 'a', 'blocks'), ['a', 'a']);
+        });
+
+        test('Parent-child links are checked through parents only', async () => {
+            assert.deepStrictEqual(await findNewCycle(adapter, 'a', 'c', 'parent-child'), ['a', 'p', 'c', 'a']);
+            assert.strictEqual(await findNewCycle(adapter, 'b', 'c', 'parent-child'), null);
+        });
+
+        test('A walk too large to finish is reported, not passed', async () => {
+            // A blocking chain longer than the walk may read, ending nowhere near the new link
+            (adapter.getIssueFull as sinon.SinonStub).callsFake(async (id: string) => {
+                const n = Number(id.replace('n', ''));
+                return { id, blocked_by: [{ id: `n${n + 1}`, title: '' }] } as FullCard;
+            });
+            await assert.rejects(findNewCycle(adapter, 'a', 'n0', 'blocks'), CycleCheckIncompleteError);
+            assert.strictEqual((adapter.getIssueFull as sinon.SinonStub).callCount, MAX_CYCLE_CHECK_ISSUES);
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { DirectQueryBeadsAdapter, inlineSqlParams } from '../../directQueryAdapter';
+
+suite('Direct Query Adapter Tests', () => {
+    suite('inlineSqlParams', () => {
+        test('Inlines numbers, strings and NULL', () => {
+            assert.strictEqual(
+                inlineSqlParams('SELECT * FROM issues WHERE priority = ? AND title = ? AND assignee IS ?', [1, 'Fix', null]),
+                "SELECT * FROM issues WHERE priority = 1 AND title = 'Fix' AND assignee IS NULL"
+            );
+        });
+
+        test('Escapes quotes and backslashes', () => {
+            assert.strictEqual(
+                inlineSqlParams('WHERE title = ?', ["it's \\'; DROP TABLE issues; --"]),
+                "WHERE title = 'it''s \\\\''; DROP TABLE issues; --'"
+            );
+        });
+
+        test('Strips null bytes', () => {
+            assert.strictEqual(inlineSqlParams('WHERE id = ?', ['bd-1\0x']), "WHERE id = 'bd-1x'");
+        });
+
+        test('Rejects non-finite numbers', () => {
+            assert.throws(() => inlineSqlParams('LIMIT ?', [Infinity]), /finite number/);
+            assert.throws(() => inlineSqlParams('LIMIT ?', [NaN]), /finite number/);
+        });
+
+        test('Rejects parameter count mismatches', () => {
+            assert.throws(() => inlineSqlParams('WHERE a = ? AND b = ?', [1]), /Not enough/);
+            assert.throws(() => inlineSqlParams('WHERE a = ?', [1, 2]), /Too many/);
+        });
+    });
+
+    suite('Fallback to bd', () => {
+        let output: vscode.OutputChannel;
+        let workspaceRoot: string;
+        let writer: DaemonBeadsAdapter;
+        let adapter: DirectQueryBeadsAdapter;
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test Direct Query Adapter');
+            // Workspace without a .beads database
+            workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-direct-'));
+            writer = new DaemonBeadsAdapter(workspaceRoot, output);
+            adapter = new DirectQueryBeadsAdapter(workspaceRoot, output, writer);
+        });
+
+        teardown(() => {
+            adapter.dispose();
+            output.dispose();
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+            sinon.restore();
+        });
+
+        test('Reads are served by bd when no database is found', async () => {
+            const countStub = sinon.stub(writer, 'getColumnCount').resolves(7);
+            const dataStub = sinon.stub(writer, 'getColumnData').resolves([]);
+
+            assert.strictEqual(await adapter.getColumnCount('ready'), 7);
+            await adapter.getColumnData('ready', 0, 10);
+
+            assert.ok(countStub.calledOnceWith('ready'));
+            assert.ok(dataStub.calledOnceWith('ready', 0, 10));
+            assert.ok(adapter.getFallbackReason()?.includes('no database found'));
+        });
+
+        test('Mutations always go through bd', async () => {
+            const statusStub = sinon.stub(writer, 'setIssueStatus').resolves();
+            const labelStub = sinon.stub(writer, 'addLabel').resolves();
+
+            await adapter.setIssueStatus('beads-abc', 'closed');
+            await adapter.addLabel('beads-abc', 'ui');
+
+            assert.ok(statusStub.calledOnceWith('beads-abc', 'closed'));
+            assert.ok(labelStub.calledOnceWith('beads-abc', 'ui'));
+        });
+
+        test('Unknown columns are rejected before querying', async () => {
+            await assert.rejects(adapter.getColumnCount('nope'), /Unknown column/);
+        });
+    });
+});
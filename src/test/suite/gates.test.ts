@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { gateDeadline, gateLabel, isOpenGate, isOverdueGate, parseWaiters } from '../../gates';
+
+const HOUR_NS = 60 * 60 * 1e9;
+
+suite('Gate Tests', () => {
+    const gate = { status: 'open', created_at: '2026-03-01T10:00:00Z', await_type: 'gh:run', await_id: '812', timeout_ns: 2 * HOUR_NS };
+
+    test('The deadline is the creation time plus timeout_ns', () => {
+        assert.strictEqual(gateDeadline(gate), Date.parse('2026-03-01T12:00:00Z'));
+        assert.strictEqual(gateDeadline({ ...gate, timeout_ns: null }), null);
+        assert.strictEqual(gateDeadline({ ...gate, await_type: null }), null);
+    });
+
+    test('Only open gates past their deadline are overdue', () => {
+        const later = Date.parse('2026-03-01T13:00:00Z');
+        assert.ok(isOverdueGate(gate, later));
+        assert.ok(!isOverdueGate(gate, Date.parse('2026-03-01T11:00:00Z')));
+        assert.ok(!isOverdueGate({ ...gate, status: 'closed' }, later));
+        assert.ok(!isOpenGate({ ...gate, status: 'closed' }));
+    });
+
+    test('gateLabel names what the gate waits on', () => {
+        assert.strictEqual(gateLabel(gate), 'gh:run 812');
+        assert.strictEqual(gateLabel({ await_type: 'human' }), 'human');
+    });
+
+    test('parseWaiters accepts JSON arrays and comma-separated lists', () => {
+        assert.deepStrictEqual(parseWaiters('["beads-1","beads-2"]'), ['beads-1', 'beads-2']);
+        assert.deepStrictEqual(parseWaiters('beads-1, beads-2'), ['beads-1', 'beads-2']);
+        assert.deepStrictEqual(parseWaiters(null), []);
+        assert.deepStrictEqual(parseWaiters(''), []);
+    });
+});
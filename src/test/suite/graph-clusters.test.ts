@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { ClusterEdge, ClusterNode, clusterProgress, collapseClusters, epicClusters } from '../../graphClusters';
+
+function node(id: string, issue_type = 'task', status = 'open'): ClusterNode {
+    return { id, card: { issue_type, status } };
+}
+
+const edge = (from: string, to: string, type = 'parent-child'): ClusterEdge => ({ from, to, type });
+
+suite('Graph Cluster Tests', () => {
+    // epic E holds t1 and sub-epic S (holding s1, s2); x sits outside
+    const nodes = [node('E', 'epic'), node('t1', 'task', 'closed'), node('S', 'epic'), node('s1'), node('s2', 'task', 'closed'), node('x')];
+    const edges = [
+        edge('E', 't1'), edge('E', 'S'), edge('S', 's1'), edge('S', 's2'),
+        edge('s1', 'x', 'blocks'), edge('s2', 'x', 'blocks'), edge('x', 't1', 'blocks'), edge('t1', 's1', 'blocks')
+    ];
+
+    test('Epics cluster their descendants with progress', () => {
+        const clusters = epicClusters(nodes, edges);
+
+        assert.deepStrictEqual([...clusters.entries()], [['E', ['t1', 'S', 's1', 's2']], ['S', ['s1', 's2']]]);
+        assert.deepStrictEqual(clusterProgress(nodes, clusters.get('E') as string[]), { closed: 2, total: 4 });
+    });
+
+    test('Folding rolls edges up to the outermost folded epic', () => {
+        const clusters = epicClusters(nodes, edges);
+        const graph = collapseClusters({ nodes, edges }, clusters, ['E', 'S']);
+
+        assert.deepStrictEqual(graph.nodes.map(n => n.id), ['E', 'x']);
+        assert.deepStrictEqual(graph.edges, [
+            { from: 'E', to: 'x', type: 'blocks', count: 2, rolledUp: true },
+            { from: 'x', to: 'E', type: 'blocks', count: 1, rolledUp: true }
+        ]);
+        assert.strictEqual(graph.representative.get('s1'), 'E');
+    });
+
+    test('An expanded epic shows its members while a folded sub-epic stays folded', () => {
+        const clusters = epicClusters(nodes, edges);
+        const graph = collapseClusters({ nodes, edges }, clusters, ['S']);
+
+        assert.deepStrictEqual(graph.nodes.map(n => n.id), ['E', 't1', 'S', 'x']);
+        assert.deepStrictEqual(graph.edges.filter(e => e.type === 'blocks'), [
+            { from: 'S', to: 'x', type: 'blocks', count: 2, rolledUp: true },
+            { from: 'x', to: 't1', type: 'blocks', count: 1, rolledUp: false },
+            { from: 't1', to: 'S', type: 'blocks', count: 1, rolledUp: true }
+        ]);
+        assert.strictEqual(collapseClusters({ nodes, edges }, clusters, []).edges.length, edges.length);
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { toDot, toMermaid } from '../../graphExport';
+
+const graph = {
+    nodes: [
+        { id: 'bd-1', card: { title: 'Ship "v2"', status: 'in_progress' } },
+        { id: 'bd-2', card: { title: 'Write <docs>', status: 'open' } },
+        { id: 'bd.2', card: { status: 'closed' } }
+    ],
+    edges: [
+        { from: 'bd-1', to: 'bd-2', type: 'blocks' },
+        { from: 'bd-1', to: 'bd-2', type: 'blocked-by' },
+        { from: 'bd-2', to: 'bd.2', type: 'parent-child', count: 3 },
+        { from: 'bd-2', to: 'missing', type: 'waits' }
+    ]
+};
+
+suite('Graph Export Tests', () => {
+    test('Mermaid flowchart with safe ids, escaped labels and status classes', () => {
+        assert.strictEqual(toMermaid(graph), [
+            'graph TD',
+            '  bd_1["bd-1: Ship #quot;v2#quot;"]',
+            '  bd_2["bd-2: Write #lt;docs#gt;"]',
+            '  bd_2_2["bd.2"]',
+            '  bd_1 ==>|blocks| bd_2',
+            '  bd_2 -->|parent of ×3| bd_2_2',
+            '  classDef open fill:#fff4c2,stroke:#555,color:#000',
+            '  class bd_2 open',
+            '  classDef in_progress fill:#d4f4dd,stroke:#555,color:#000',
+            '  class bd_1 in_progress',
+            '  classDef closed fill:#e5e5e5,stroke:#555,color:#000',
+            '  class bd_2_2 closed',
+            ''
+        ].join('\n'));
+        assert.ok(toMermaid(graph, { direction: 'LR' }).startsWith('graph LR\n'));
+    });
+
+    test('DOT digraph with quoted ids and one edge per dependency', () => {
+        const dot = toDot(graph, { direction: 'LR' });
+
+        assert.ok(dot.startsWith('digraph beads {\n  rankdir=LR;\n'));
+        assert.ok(dot.includes('  "bd-1" [label="bd-1\\nShip \\"v2\\"", fillcolor="#d4f4dd"];\n'));
+        assert.ok(dot.includes('  "bd.2" [label="bd.2", fillcolor="#e5e5e5"];\n'));
+        assert.strictEqual(dot.split('\n').filter(line => line.includes('->')).length, 2);
+        assert.ok(dot.includes('  "bd-1" -> "bd-2" [label="blocks", color="#c72e0f"];\n'));
+        assert.ok(dot.endsWith('}\n'));
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { countCrossings, forceLayout, radialLayout, sugiyamaLayout } from '../../graphLayouts';
+
+const edge = (from: string, to: string) => ({ from, to });
+
+suite('Graph Layout Engine Tests', () => {
+    test('Sugiyama layers by longest path and removes avoidable crossings', () => {
+        // a and b each have two children, listed so that the first order crosses
+        const ids = ['a', 'b', 'a2', 'b1', 'a1', 'b2', 'lone'];
+        const edges = [edge('a', 'a1'), edge('a', 'a2'), edge('b', 'b1'), edge('b', 'b2')];
+        assert.ok(countCrossings([['a', 'b'], ['a2', 'b1', 'a1', 'b2']], edges) > 0);
+
+        const { positions, metadata } = sugiyamaLayout(ids, edges);
+        const at = new Map(positions.map(position => [position.id, position]));
+
+        assert.strictEqual(metadata.crossings, 0);
+        assert.strictEqual(metadata.layerCount, 2);
+        assert.strictEqual(metadata.disconnectedCount, 1);
+        assert.deepStrictEqual(ids.map(id => at.get(id)?.layer), [0, 0, 1, 1, 1, 1, 2]);
+        const order = ['a1', 'a2', 'b1', 'b2'].sort((x, y) => (at.get(x)?.x ?? 0) - (at.get(y)?.x ?? 0));
+        assert.deepStrictEqual(order.map(id => id[0]), ['a', 'a', 'b', 'b']);
+    });
+
+    test('Sugiyama puts long edges through virtual nodes and survives cycles', () => {
+        const { positions, metadata } = sugiyamaLayout(['a', 'b', 'c'], [edge('a', 'b'), edge('b', 'c'), edge('a', 'c'), edge('c', 'a')], { direction: 'LR' });
+
+        assert.deepStrictEqual(positions.map(position => position.id), ['a', 'b', 'c']);
+        assert.deepStrictEqual(positions.map(position => position.layer), [0, 1, 2]);
+        assert.deepStrictEqual(positions.map(position => position.x), [0, 250, 500]);
+        assert.strictEqual(metadata.crossings, 0);
+    });
+
+    test('Force-directed layout is deterministic and pulls linked nodes together', () => {
+        const ids = ['a', 'b', 'c', 'd'];
+        const edges = [edge('a', 'b'), edge('c', 'd')];
+        const first = forceLayout(ids, edges, { iterations: 100 });
+        const second = forceLayout(ids, edges, { iterations: 100 });
+        assert.deepStrictEqual(first, second);
+
+        const at = new Map(first.positions.map(position => [position.id, position]));
+        const distance = (x: string, y: string) => Math.hypot(
+            (at.get(x)?.x ?? 0) - (at.get(y)?.x ?? 0),
+            (at.get(x)?.y ?? 0) - (at.get(y)?.y ?? 0));
+        assert.ok(first.positions.every(position => Number.isFinite(position.x) && Number.isFinite(position.y)));
+        assert.ok(distance('a', 'b') < distance('a', 'c'));
+        assert.ok(distance('c', 'd') < distance('b', 'd'));
+    });
+
+    test('Radial layout rings nodes by distance from the centre', () => {
+        const ids = ['hub', 'a', 'b', 'a1', 'far'];
+        const edges = [edge('hub', 'a'), edge('b', 'hub'), edge('a', 'a1')];
+
+        const { positions, metadata } = radialLayout(ids, edges, { centerNodeId: 'a', nodeWidth: 0, nodeHeight: 0 });
+        const at = new Map(positions.map(position => [position.id, position]));
+        const radius = (id: string) => Math.round(Math.hypot(at.get(id)?.x ?? 0, at.get(id)?.y ?? 0));
+
+        assert.strictEqual(metadata.centerNodeId, 'a');
+        assert.deepStrictEqual(ids.map(id => at.get(id)?.layer), [1, 0, 2, 1, 3]);
+        assert.strictEqual(radius('a'), 0);
+        assert.strictEqual(radius('hub'), radius('a1'));
+        assert.ok(radius('b') > radius('hub') && radius('far') > radius('b'));
+        assert.strictEqual(radialLayout(ids, edges).metadata.centerNodeId, 'hub');
+    });
+});
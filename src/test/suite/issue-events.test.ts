@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { diffEventValues, rowsToIssueEvents } from '../../issueEvents';
+
+suite('Issue Event Tests', () => {
+    suite('diffEventValues', () => {
+        test('Update events diff the changed fields against the old issue', () => {
+            const before = JSON.stringify({ id: 'beads-1', title: 'Old', priority: 2, updated_at: '2026-03-01T10:00:00Z' });
+            const after = JSON.stringify({ title: 'New', priority: 2, updated_at: '2026-03-02T10:00:00Z' });
+
+            assert.deepStrictEqual(diffEventValues('updated', before, after), [{ field: 'title', before: 'Old', after: 'New' }]);
+        });
+
+        test('Plain values become a single diff', () => {
+            assert.deepStrictEqual(diffEventValues('status_changed', 'open', 'in_progress'),
+                [{ field: 'status', before: 'open', after: 'in_progress' }]);
+        });
+
+        test('Events without values have no changes', () => {
+            assert.deepStrictEqual(diffEventValues('commented', null, null), []);
+            assert.deepStrictEqual(diffEventValues('label_added', '', ''), []);
+        });
+    });
+
+    test('rowsToIssueEvents maps event log rows', () => {
+        const events = rowsToIssueEvents([
+            { id: 7, event_type: 'label_added', actor: '', old_value: null, new_value: null, comment: 'frontend', created_at: '2026-03-01T10:00:00Z' }
+        ]);
+        assert.deepStrictEqual(events, [
+            { id: '7', kind: 'label_added', actor: 'unknown', created_at: '2026-03-01T10:00:00Z', changes: [], comment: 'frontend' }
+        ]);
+    });
+
+    suite('DaemonBeadsAdapter.getIssueHistory', () => {
+        let output: vscode.OutputChannel;
+        let adapter: DaemonBeadsAdapter;
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test Issue Events');
+            adapter = new DaemonBeadsAdapter('/tmp/beads-events', output);
+        });
+
+        teardown(() => {
+            adapter.dispose();
+            output.dispose();
+            sinon.restore();
+        });
+
+        test('Rebuilds creation, comments and closing from bd show, newest first', async () => {
+            sinon.stub(adapter as any, 'execBd').resolves([{
+                id: 'beads-1',
+                created_at: '2026-03-01T10:00:00Z',
+                created_by: 'alice',
+                closed_at: '2026-03-03T10:00:00Z',
+                close_reason: 'Done',
+                comments: [{ id: 4, author: 'bob', text: 'On it', created_at: '2026-03-02T10:00:00Z' }]
+            }]);
+
+            const events = await adapter.getIssueHistory('beads-1');
+            assert.deepStrictEqual(events.map(e => [e.kind, e.actor, e.comment]), [
+                ['closed', 'unknown', 'Done'],
+                ['commented', 'bob', 'On it'],
+                ['created', 'alice', null]
+            ]);
+            assert.ok(events.every(e => e.rebuilt && e.changes.length === 0), 'rebuilt events are marked as such');
+        });
+
+        test('Fails for an unknown issue', async () => {
+            sinon.stub(adapter as any, 'execBd').resolves([]);
+            await assert.rejects(adapter.getIssueHistory('beads-404'), /Issue not found/);
+        });
+    });
+});
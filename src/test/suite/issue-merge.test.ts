@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { IssueConflictError } from '../../beadsAdapter';
+import { mergeIssueFields } from '../../issueMerge';
+import { FullCard, IssueUpdateSchema } from '../../types';
+
+suite('Issue Merge Tests', () => {
+    suite('mergeIssueFields', () => {
+        const base = { title: 'Fix login', status: 'open', priority: 2, assignee: null, notes: '' };
+
+        test('Changes on one side are taken without a conflict', () => {
+            const mine = { ...base, title: 'Fix login redirect' };
+            const theirs = { ...base, status: 'in_progress', assignee: 'agent-7' };
+
+            const { changes, merged } = mergeIssueFields(base, mine, theirs);
+            assert.deepStrictEqual(changes.map(c => [c.field, c.conflict]), [['status', false], ['assignee', false]]);
+            assert.deepStrictEqual(merged, { ...base, title: 'Fix login redirect', status: 'in_progress', assignee: 'agent-7' });
+        });
+
+        test('Different changes to the same field conflict and keep the form value', () => {
+            const mine = { ...base, priority: 0 };
+            const theirs = { ...base, priority: 3 };
+
+            const { changes, merged } = mergeIssueFields(base, mine, theirs);
+            assert.deepStrictEqual(changes, [{ field: 'priority', base: 2, mine: 0, theirs: 3, conflict: true }]);
+            assert.strictEqual(merged.priority, 0);
+        });
+
+        test('Identical edits, empty values and equal instants are not changes', () => {
+            const mine = { ...base, title: 'Same', notes: undefined, due_at: '2026-03-01T10:00:00.000Z' };
+            const theirs = { ...base, title: 'Same', notes: null, due_at: '2026-03-01T10:00:00Z' };
+
+            assert.deepStrictEqual(mergeIssueFields({ ...base, due_at: '2026-03-01T10:00:00Z' }, mine, theirs).changes, []);
+        });
+    });
+
+    suite('updateIssue with expectedUpdatedAt', () => {
+        let output: vscode.OutputChannel;
+        let adapter: DaemonBeadsAdapter;
+        let execStub: sinon.SinonStub;
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test Issue Merge');
+            adapter = new DaemonBeadsAdapter('/tmp/beads-merge', output);
+            execStub = sinon.stub(adapter as any, 'execBd').resolves(null);
+            sinon.stub(adapter, 'getIssueFull').resolves({ id: 'beads-1', updated_at: '2026-03-01T10:00:00Z' } as FullCard);
+        });
+
+        teardown(() => {
+            adapter.dispose();
+            output.dispose();
+            sinon.restore();
+        });
+
+        test('Writes when the issue is unchanged', async () => {
+            await adapter.updateIssue('beads-1', { title: 'New' }, '2026-03-01T10:00:00.000Z');
+            assert.ok(execStub.calledOnce);
+        });
+
+        test('Refuses with the current issue when it changed', async () => {
+            await assert.rejects(
+                adapter.updateIssue('beads-1', { title: 'New' }, '2026-03-01T09:00:00Z'),
+                (err: unknown) => err instanceof IssueConflictError && err.current.updated_at === '2026-03-01T10:00:00Z'
+            );
+            assert.ok(execStub.notCalled);
+        });
+
+        test('Schema accepts an expected updated_at', () => {
+            const parsed = IssueUpdateSchema.safeParse({ id: 'beads-1', updates: { title: 'x' }, expectedUpdatedAt: '2026-03-01T10:00:00Z' });
+            assert.ok(parsed.success);
+            assert.strictEqual(parsed.data?.expectedUpdatedAt, '2026-03-01T10:00:00Z');
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { MutationHistory, inverseOp, laneMutationOp } from '../../mutationHistory';
+import { laneMutations } from '../../swimlanes';
+import { applyBulkAction } from '../../bulkUpdate';
+import { FullCard } from '../../types';
+
+function full(overrides: Partial<FullCard> = {}): FullCard {
+    return { id: 'beads-1', title: 'Task', status: 'open', priority: 2, labels: [], assignee: null, ...overrides } as unknown as FullCard;
+}
+
+suite('Mutation History Tests', () => {
+    suite('inverseOp', () => {
+        test('Status changes revert to the previous status', () => {
+            assert.deepStrictEqual(
+                inverseOp({ kind: 'setStatus', id: 'beads-1', status: 'in_progress' }, full()),
+                { kind: 'setStatus', id: 'beads-1', status: 'open' }
+            );
+            assert.deepStrictEqual(
+                inverseOp({ kind: 'close', id: 'beads-1' }, full({ status: 'blocked' })),
+                { kind: 'setStatus', id: 'beads-1', status: 'blocked' }
+            );
+            assert.strictEqual(inverseOp({ kind: 'setStatus', id: 'beads-1', status: 'open' }, full()), null);
+        });
+
+        test('Updates restore only the changed fields', () => {
+            assert.deepStrictEqual(
+                inverseOp({ kind: 'update', id: 'beads-1', updates: { priority: 0, assignee: 'alice', notes: 'x' } }, full()),
+                { kind: 'update', id: 'beads-1', updates: { priority: 2, assignee: null, notes: '' } }
+            );
+            assert.deepStrictEqual(
+                inverseOp({ kind: 'update', id: 'beads-1', updates: { ephemeral: false, pinned: true } }, full()),
+                { kind: 'update', id: 'beads-1', updates: { ephemeral: false, pinned: false } }
+            );
+        });
+
+        test('Label and dependency ops that change nothing are not recorded', () => {
+            const before = full({ labels: ['ui'], parent: { id: 'beads-epic', title: 'Epic' } } as Partial<FullCard>);
+            assert.strictEqual(inverseOp({ kind: 'addLabel', id: 'beads-1', label: 'ui' }, before), null);
+            assert.strictEqual(inverseOp({ kind: 'removeLabel', id: 'beads-1', label: 'backend' }, before), null);
+            assert.deepStrictEqual(
+                inverseOp({ kind: 'removeLabel', id: 'beads-1', label: 'ui' }, before),
+                { kind: 'addLabel', id: 'beads-1', label: 'ui' }
+            );
+            assert.deepStrictEqual(
+                inverseOp({ kind: 'removeDependency', id: 'beads-1', otherId: 'beads-epic' }, before),
+                { kind: 'addDependency', id: 'beads-1', otherId: 'beads-epic', type: 'parent-child' }
+            );
+            assert.strictEqual(inverseOp({ kind: 'addDependency', id: 'beads-1', otherId: 'beads-epic', type: 'parent-child' }, before), null);
+        });
+    });
+
+    suite('MutationHistory', () => {
+        let output: vscode.OutputChannel;
+        let adapter: DaemonBeadsAdapter;
+        let history: MutationHistory;
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test Mutation History');
+            adapter = new DaemonBeadsAdapter('/tmp/beads-history', output);
+            history = new MutationHistory();
+            sinon.stub(adapter, 'getIssueFull').callsFake(async (id: string) => full({ id }));
+        });
+
+        teardown(() => {
+            adapter.dispose();
+            output.dispose();
+            sinon.restore();
+        });
+
+        test('Undo reverts a transaction in reverse order and redo re-applies it', async () => {
+            const statusStub = sinon.stub(adapter, 'setIssueStatus').resolves();
+            const addLabelStub = sinon.stub(adapter, 'addLabel').resolves();
+            const removeLabelStub = sinon.stub(adapter, 'removeLabel').resolves();
+
+            const tx = history.begin('Move beads-1 to Review');
+            await tx.run(adapter, [
+                { kind: 'setStatus', id: 'beads-1', status: 'in_progress' },
+                { kind: 'addLabel', id: 'beads-1', label: 'review' }
+            ]);
+            assert.ok(history.commit(tx));
+
+            assert.strictEqual(await history.undo(adapter), 'Move beads-1 to Review');
+            assert.ok(removeLabelStub.calledOnceWith('beads-1', 'review'));
+            assert.ok(statusStub.lastCall.calledWith('beads-1', 'open'));
+            assert.ok(removeLabelStub.lastCall.calledBefore(statusStub.lastCall));
+            assert.strictEqual(history.canUndo(), false);
+
+            assert.strictEqual(await history.redo(adapter), 'Move beads-1 to Review');
+            assert.ok(statusStub.lastCall.calledWith('beads-1', 'in_progress'));
+            assert.strictEqual(addLabelStub.callCount, 2);
+            assert.strictEqual(await history.redo(adapter), null);
+        });
+
+        test('A failed undo keeps the entry on the undo stack', async () => {
+            const statusStub = sinon.stub(adapter, 'setIssueStatus');
+            statusStub.onFirstCall().resolves();
+            statusStub.onSecondCall().rejects(new Error('bd unavailable'));
+
+            const tx = history.begin('Block beads-1');
+            await tx.run(adapter, [{ kind: 'setStatus', id: 'beads-1', status: 'blocked' }]);
+            history.commit(tx);
+
+            await assert.rejects(history.undo(adapter), /bd unavailable/);
+            assert.strictEqual(history.canUndo(), true);
+            assert.strictEqual(history.canRedo(), false);
+        });
+
+        test('Bulk updates are undone as one entry; no-op transactions are not recorded', async () => {
+            const statusStub = sinon.stub(adapter, 'setIssueStatus').resolves();
+
+            const tx = history.begin('Bulk setStatus (2 issues)');
+            await applyBulkAction(adapter, ['beads-1', 'beads-2'], { kind: 'setStatus', status: 'closed' }, tx);
+            assert.ok(history.commit(tx));
+            await history.undo(adapter);
+            assert.deepStrictEqual(statusStub.getCalls().slice(2).map(c => c.args), [['beads-2', 'open'], ['beads-1', 'open']]);
+
+            const noop = history.begin('Reopen beads-1');
+            await noop.run(adapter, [{ kind: 'setStatus', id: 'beads-1', status: 'open' }]);
+            assert.strictEqual(history.commit(noop), false);
+            assert.strictEqual(history.canRedo(), true);
+        });
+
+        test('Undoing a bulk promote makes the wisps ephemeral again', async () => {
+            (adapter.getIssueFull as sinon.SinonStub).callsFake(async (id: string) =>
+                full({ id, ephemeral: id === 'beads-1' ? true : undefined }));
+            const updateStub = sinon.stub(adapter, 'updateIssue').resolves();
+
+            const tx = history.begin('Bulk promote (2 issues)');
+            await applyBulkAction(adapter, ['beads-1', 'beads-2'], { kind: 'promote' }, tx);
+            assert.ok(history.commit(tx));
+            await history.undo(adapter);
+
+            assert.deepStrictEqual(updateStub.getCalls().slice(2).map(c => c.args.slice(0, 2)), [
+                ['beads-2', { ephemeral: false }],
+                ['beads-1', { ephemeral: true }]
+            ]);
+        });
+
+        test('A lane move that fails part way is rolled back and not recorded', async () => {
+            const removeDepStub = sinon.stub(adapter, 'removeDependency').resolves();
+            const addDepStub = sinon.stub(adapter, 'addDependency');
+            addDepStub.onFirstCall().rejects(new Error('bd unavailable'));
+            addDepStub.resolves();
+            (adapter.getIssueFull as sinon.SinonStub).callsFake(async (id: string) =>
+                full({ id, parent: { id: 'beads-epic-1', title: 'Epic' } }));
+
+            const ops = laneMutations(full(), { groupBy: 'epic' }, 'beads-epic-1', 'beads-epic-2').map(laneMutationOp);
+            const tx = history.begin('Move beads-1 to lane beads-epic-2');
+            await assert.rejects(tx.run(adapter, ops), /bd unavailable/);
+            await tx.rollback(adapter);
+
+            assert.ok(removeDepStub.calledOnceWith('beads-1', 'beads-epic-1'));
+            assert.deepStrictEqual(addDepStub.lastCall.args, ['beads-1', 'beads-epic-1', 'parent-child']);
+            assert.strictEqual(history.commit(tx), false);
+        });
+    });
+});
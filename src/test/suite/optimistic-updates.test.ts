@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { OptimisticUpdates } from '../../optimisticUpdates';
+
+interface Card {
+    id: string;
+    status: string;
+    title: string;
+}
+
+function card(overrides: Partial<Card> = {}): Card {
+    return { id: 'beads-1', status: 'open', title: 'Task', ...overrides };
+}
+
+suite('Optimistic Update Tests', () => {
+    let updates: OptimisticUpdates<Card>;
+
+    setup(() => {
+        updates = new OptimisticUpdates<Card>();
+    });
+
+    test('A change is shown at once and its drop column overrides the card', () => {
+        const shown = updates.apply('req-1', card(), { status: 'in_progress' }, 'in_progress');
+        assert.strictEqual(shown.status, 'in_progress');
+        assert.strictEqual(updates.columnFor('beads-1'), 'in_progress');
+        assert.ok(updates.isPending('req-1'));
+    });
+
+    test('Rollback restores the authoritative card and keeps other pending changes', () => {
+        updates.apply('req-1', card(), { status: 'in_progress' }, 'in_progress');
+        updates.apply('req-2', card({ status: 'in_progress' }), { title: 'Renamed' });
+
+        const [restored] = updates.rollback('req-1');
+        assert.deepStrictEqual(restored, card({ title: 'Renamed' }));
+        assert.strictEqual(updates.columnFor('beads-1'), undefined);
+        assert.ok(!updates.isPending('req-1'));
+        assert.ok(updates.isPending('req-2'));
+    });
+
+    test('Unconfirmed changes survive an unrelated refresh of the card', () => {
+        updates.apply('req-1', card(), { status: 'closed' }, 'closed');
+
+        // e.g. a file watcher refresh that ran before the move reached bd
+        const shown = updates.reconcile(card({ title: 'Edited elsewhere' }));
+        assert.deepStrictEqual(shown, card({ status: 'closed', title: 'Edited elsewhere' }));
+        assert.strictEqual(updates.columnFor('beads-1'), 'closed');
+    });
+
+    test('A confirmed change settles with its board update', () => {
+        updates.apply('req-1', card(), { status: 'closed' }, 'closed');
+        updates.confirm('req-1');
+        assert.ok(!updates.isPending('req-1'));
+        assert.strictEqual(updates.columnFor('beads-1'), 'closed', 'Stays in the drop column until the board update');
+
+        const shown = updates.reconcile(card({ status: 'closed' }));
+        assert.deepStrictEqual(shown, card({ status: 'closed' }));
+        assert.deepStrictEqual(updates.settleRequest('req-1'), []);
+        assert.strictEqual(updates.columnFor('beads-1'), undefined);
+    });
+
+    test('A board update that leaves the card out settles it to the authoritative card', () => {
+        // Dropping an open, blocked card into Ready changes nothing in bd
+        updates.apply('req-1', card(), { status: 'open' }, 'ready');
+        updates.confirm('req-1');
+
+        assert.deepStrictEqual(updates.settleRequest('req-1'), [card()]);
+        assert.strictEqual(updates.columnFor('beads-1'), undefined);
+    });
+});
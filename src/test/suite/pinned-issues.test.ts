@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { movePinned, orderPinned } from '../../pinnedIssues';
+import { PinOrderSchema } from '../../types';
+
+suite('Pinned Issues Tests', () => {
+    test('Cards follow the saved order, newly pinned ones last', () => {
+        const cards = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+        assert.deepStrictEqual(orderPinned(cards, ['c', 'gone', 'a']).map(c => c.id), ['c', 'a', 'b', 'd']);
+    });
+
+    test('Moving puts the card in front of the target, or last', () => {
+        assert.deepStrictEqual(movePinned(['a', 'b', 'c'], 'c', 'a'), ['c', 'a', 'b']);
+        assert.deepStrictEqual(movePinned(['a', 'b', 'c'], 'a', 'c'), ['b', 'a', 'c']);
+        assert.deepStrictEqual(movePinned(['a', 'b', 'c'], 'a', null), ['b', 'c', 'a']);
+        assert.deepStrictEqual(movePinned(['a', 'b'], 'a', 'a'), ['a', 'b']);
+        assert.ok(!PinOrderSchema.safeParse({ ids: ['not an id!'] }).success);
+    });
+
+    test('Pinning is stored as issue metadata', async () => {
+        const output = vscode.window.createOutputChannel('Test Pinned Issues');
+        const adapter = new DaemonBeadsAdapter('/tmp/beads-pins', output);
+        const execStub = sinon.stub(adapter as any, 'execBd').resolves(null);
+        try {
+            await adapter.updateIssue('beads-1', { pinned: false });
+            const args = execStub.firstCall.args[0] as string[];
+            assert.deepStrictEqual(args.slice(args.indexOf('--set-metadata')), ['--set-metadata', 'pinned=false']);
+        } finally {
+            adapter.dispose();
+            output.dispose();
+            sinon.restore();
+        }
+    });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { SavedViewStore, sharedViewsPath } from '../../savedViews';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { SavedView } from '../../types';
+
+class MemoryMemento implements vscode.Memento {
+    private values = new Map<string, unknown>();
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get<T>(key: string, defaultValue?: T): T {
+        return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+function view(name: string, overrides: Partial<SavedView> = {}): SavedView {
+    return {
+        name,
+        viewMode: 'kanban',
+        filters: { search: '', priorities: [], types: [], statuses: [] },
+        sorting: [],
+        collapsedColumns: [],
+        ...overrides
+    };
+}
+
+suite('Saved Views Tests', () => {
+    let output: vscode.OutputChannel;
+    let workspaceRoot: string;
+    let memento: MemoryMemento;
+    let store: SavedViewStore;
+
+    setup(() => {
+        output = vscode.window.createOutputChannel('Test Saved Views');
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-views-'));
+        memento = new MemoryMemento();
+        store = new SavedViewStore(memento, () => workspaceRoot, output);
+    });
+
+    teardown(() => {
+        output.dispose();
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    test('Lists shared views before workspace views, each sorted by name', async () => {
+        await store.save(view('Zeta'), 'workspace');
+        await store.save(view('Alpha'), 'workspace');
+        await store.save(view('Team board', { viewMode: 'table' }), 'shared');
+
+        const views = await store.list();
+        assert.deepStrictEqual(views.map(v => [v.name, v.scope]), [
+            ['Team board', 'shared'],
+            ['Alpha', 'workspace'],
+            ['Zeta', 'workspace']
+        ]);
+    });
+
+    test('Saving an existing name replaces the view', async () => {
+        await store.save(view('Mine', { filters: { search: 'assignee:me', priorities: [], types: [], statuses: [] } }), 'workspace');
+        await store.save(view('Mine', { viewMode: 'graph' }), 'workspace');
+
+        const views = await store.list();
+        assert.strictEqual(views.length, 1);
+        assert.strictEqual(views[0].viewMode, 'graph');
+        assert.strictEqual(views[0].filters.search, '');
+    });
+
+    test('Shared views are written to .beads/views.json', async () => {
+        await store.save(view('Bugs', { filters: { search: '', priorities: [0, 1], types: ['bug'], statuses: [] } }), 'shared');
+
+        const raw = fs.readFileSync(sharedViewsPath(workspaceRoot), 'utf8');
+        assert.ok(raw.endsWith('\n'));
+        const file = JSON.parse(raw);
+        assert.strictEqual(file.version, 1);
+        assert.deepStrictEqual(file.views.map((v: SavedView) => v.name), ['Bugs']);
+        assert.deepStrictEqual(memento.keys(), []);
+    });
+
+    test('Invalid entries in the shared file are skipped', async () => {
+        fs.mkdirSync(path.join(workspaceRoot, '.beads'));
+        fs.writeFileSync(sharedViewsPath(workspaceRoot), JSON.stringify({
+            version: 1,
+            views: [view('Good'), { name: 'Bad', viewMode: 'calendar' }, 'nonsense']
+        }));
+
+        const views = await store.list();
+        assert.deepStrictEqual(views.map(v => v.name), ['Good']);
+    });
+
+    test('Unreadable shared file yields no shared views', async () => {
+        fs.mkdirSync(path.join(workspaceRoot, '.beads'));
+        fs.writeFileSync(sharedViewsPath(workspaceRoot), '{ not json');
+        await store.save(view('Local'), 'workspace');
+
+        const views = await store.list();
+        assert.deepStrictEqual(views.map(v => v.name), ['Local']);
+    });
+
+    test('Delete only removes the view from the given scope', async () => {
+        await store.save(view('Same'), 'workspace');
+        await store.save(view('Same'), 'shared');
+
+        assert.strictEqual(await store.delete('Same', 'shared'), true);
+        assert.strictEqual(await store.delete('Missing', 'workspace'), false);
+
+        const views = await store.list();
+        assert.deepStrictEqual(views.map(v => [v.name, v.scope]), [['Same', 'workspace']]);
+    });
+
+    test('Shared views follow a repository switch', async () => {
+        // The extension reads the repository root from the adapter, which repo.select re-points
+        const adapter = new DaemonBeadsAdapter(workspaceRoot, output);
+        const other = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-views-other-'));
+        try {
+            const repoStore = new SavedViewStore(memento, () => adapter.getConnectedDbPath(), output);
+            await repoStore.save(view('First repo'), 'shared');
+
+            adapter.setWorkspaceRoot(other);
+            assert.deepStrictEqual(await repoStore.list(), []);
+
+            await repoStore.save(view('Second repo'), 'shared');
+            assert.ok(fs.existsSync(sharedViewsPath(other)));
+            const first = JSON.parse(fs.readFileSync(sharedViewsPath(workspaceRoot), 'utf8'));
+            assert.deepStrictEqual(first.views.map((v: SavedView) => v.name), ['First repo']);
+        } finally {
+            adapter.dispose();
+            fs.rmSync(other, { recursive: true, force: true });
+        }
+    });
+});
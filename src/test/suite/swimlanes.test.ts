@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { groupIntoLanes, laneKeyForCard, laneMutations, LaneCard, NO_LANE } from '../../swimlanes';
+
+function card(id: string, overrides: Partial<LaneCard> = {}): LaneCard {
+    return {
+        id,
+        priority: 2,
+        issue_type: 'task',
+        assignee: null,
+        labels: [],
+        parent_id: null,
+        ...overrides
+    };
+}
+
+suite('Swimlane Tests', () => {
+    suite('Grouping', () => {
+        test('Assignee lanes are sorted by name with Unassigned last', () => {
+            const lanes = groupIntoLanes(
+                [card('a', { assignee: 'zoe' }), card('b'), card('c', { assignee: 'alice' }), card('d', { assignee: 'zoe' })],
+                { groupBy: 'assignee' }
+            );
+            assert.deepStrictEqual(lanes.map(l => l.title), ['alice', 'zoe', 'Unassigned']);
+            assert.deepStrictEqual(lanes[1].cards.map(c => c.id), ['a', 'd']);
+        });
+
+        test('Priority and type lanes include every value, even when empty', () => {
+            const byPriority = groupIntoLanes([card('a', { priority: 3 })], { groupBy: 'priority' });
+            assert.deepStrictEqual(byPriority.map(l => l.title), ['P0', 'P1', 'P2', 'P3', 'P4']);
+
+            const byType = groupIntoLanes([card('a', { issue_type: 'gate' })], { groupBy: 'issue_type' });
+            assert.deepStrictEqual(byType.map(l => l.key), ['task', 'bug', 'feature', 'epic', 'chore', 'gate']);
+        });
+
+        test('Epic lanes use epic titles and include epics without children', () => {
+            const titles: Record<string, string> = { 'bd-e1': 'Auth rewrite', 'bd-e2': 'Billing' };
+            const lanes = groupIntoLanes(
+                [card('bd-1', { parent_id: 'bd-e1' }), card('bd-e2', { issue_type: 'epic' }), card('bd-2')],
+                { groupBy: 'epic' },
+                id => titles[id]
+            );
+            assert.deepStrictEqual(lanes.map(l => l.title), ['Auth rewrite', 'Billing', 'No epic']);
+            assert.deepStrictEqual(lanes[2].cards.map(c => c.id), ['bd-e2', 'bd-2']);
+        });
+
+        test('Label prefix lanes use the first matching label', () => {
+            const config = { groupBy: 'label' as const, labelPrefix: 'area:' };
+            assert.strictEqual(laneKeyForCard(card('a', { labels: ['ui', 'area:web', 'area:api'] }), config), 'area:api');
+            assert.strictEqual(laneKeyForCard(card('b', { labels: ['ui'] }), config), NO_LANE);
+
+            const lanes = groupIntoLanes([card('b', { labels: ['ui'] })], config);
+            assert.deepStrictEqual(lanes.map(l => l.title), ['No area: label']);
+        });
+    });
+
+    suite('Lane changes', () => {
+        test('Assignee, priority and type lanes update the field', () => {
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'assignee' }, NO_LANE, 'bob'), [
+                { type: 'issue.update', payload: { id: 'a', updates: { assignee: 'bob' } } }
+            ]);
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'assignee' }, 'bob', NO_LANE), [
+                { type: 'issue.update', payload: { id: 'a', updates: { assignee: null } } }
+            ]);
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'priority' }, '2', '0'), [
+                { type: 'issue.update', payload: { id: 'a', updates: { priority: 0 } } }
+            ]);
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'issue_type' }, 'task', 'bug'), [
+                { type: 'issue.update', payload: { id: 'a', updates: { issue_type: 'bug' } } }
+            ]);
+        });
+
+        test('Epic lanes re-parent the issue', () => {
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'epic' }, 'bd-e1', 'bd-e2'), [
+                { type: 'issue.removeDependency', payload: { id: 'a', otherId: 'bd-e1' } },
+                { type: 'issue.addDependency', payload: { id: 'a', otherId: 'bd-e2', type: 'parent-child' } }
+            ]);
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'epic' }, 'bd-e1', NO_LANE), [
+                { type: 'issue.removeDependency', payload: { id: 'a', otherId: 'bd-e1' } }
+            ]);
+            assert.throws(() => laneMutations(card('bd-e1'), { groupBy: 'epic' }, NO_LANE, 'bd-e1'), /own parent/);
+        });
+
+        test('Label lanes swap the prefixed label', () => {
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'label', labelPrefix: 'area:' }, 'area:web', 'area:api'), [
+                { type: 'issue.removeLabel', payload: { id: 'a', label: 'area:web' } },
+                { type: 'issue.addLabel', payload: { id: 'a', label: 'area:api' } }
+            ]);
+        });
+
+        test('Lanes the grouping cannot hold are refused', () => {
+            assert.throws(() => laneMutations(card('a'), { groupBy: 'priority' }, '2', 'high'), /Unknown priority lane/);
+            assert.throws(() => laneMutations(card('a'), { groupBy: 'issue_type' }, 'task', 'story'), /Unknown issue_type lane/);
+            assert.throws(() => laneMutations(card('a'), { groupBy: 'label', labelPrefix: 'area:' }, NO_LANE, 'ui'), /Unknown label lane/);
+            assert.throws(() => laneMutations(card('a'), { groupBy: 'label', labelPrefix: 'area:' }, NO_LANE, 'area:web,urgent'), /Unknown label lane/);
+        });
+
+        test('Same lane needs no mutation', () => {
+            assert.deepStrictEqual(laneMutations(card('a'), { groupBy: 'assignee' }, 'bob', 'bob'), []);
+        });
+    });
+});
@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+
+function listRow(n: number, overrides: Record<string, unknown> = {}) {
+    return {
+        id: `beads-${n}`,
+        title: `Issue ${n}`,
+        description: '',
+        status: 'open',
+        priority: 2,
+        issue_type: 'task',
+        created_at: '2026-01-01T00:00:00Z',
+        updated_at: `2026-01-01T00:00:${String(n % 60).padStart(2, '0')}Z`,
+        ...overrides
+    };
+}
+
+suite('DaemonBeadsAdapter Table Data Tests', () => {
+    let adapter: DaemonBeadsAdapter;
+    let output: vscode.OutputChannel;
+    let execStub: sinon.SinonStub;
+    let listRows: Array<Record<string, unknown>>;
+
+    setup(() => {
+        output = vscode.window.createOutputChannel('Test Table Data');
+        adapter = new DaemonBeadsAdapter(path.join(__dirname, '../../../'), output);
+        listRows = [];
+
+        // bd list returns the fixture rows; bd show echoes the requested ids in reverse
+        // order to make sure the adapter restores the sorted page order
+        execStub = sinon.stub(adapter as any, 'execBd').callsFake(async (...callArgs: unknown[]) => {
+            const args = callArgs[0] as string[];
+            if (args[0] === 'list') {
+                return listRows;
+            }
+            if (args[0] === 'show') {
+                const ids = args.slice(2);
+                return ids
+                    .map(id => listRows.find(row => row.id === id))
+                    .filter(Boolean)
+                    .reverse();
+            }
+            throw new Error(`Unexpected bd command: ${args.join(' ')}`);
+        });
+    });
+
+    teardown(() => {
+        adapter.dispose();
+        output.dispose();
+        sinon.restore();
+    });
+
+    function listArgs(): string[] {
+        const call = execStub.getCalls().find(c => (c.args[0] as string[])[0] === 'list');
+        assert.ok(call, 'bd list should have been called');
+        return call.args[0] as string[];
+    }
+
+    test('Pushes filters and sort down to bd list flags', async () => {
+        await adapter.getTableData(
+            { priority: '1', type: 'bug', status: 'in_progress', assignee: 'alice', labels: ['ui', 'backend'] },
+            [{ id: 'priority', dir: 'asc' }],
+            0,
+            50
+        );
+
+        const args = listArgs();
+        assert.deepStrictEqual(args.slice(0, 4), ['list', '--json', '--limit', '0']);
+        for (const flag of ['--status=in_progress', '--priority=1', '--type=bug', '--assignee=alice', '--label=ui', '--label=backend', '--sort=priority']) {
+            assert.ok(args.includes(flag), `Expected ${flag} in ${args.join(' ')}`);
+        }
+        assert.ok(!args.includes('--all'));
+        assert.ok(!args.includes('--reverse'));
+    });
+
+    test('Default sort is updated desc over all statuses', async () => {
+        await adapter.getTableData({}, [], 0, 50);
+
+        const args = listArgs();
+        assert.ok(args.includes('--all'));
+        assert.ok(args.includes('--sort=updated'));
+        assert.ok(!args.includes('--reverse'));
+    });
+
+    test('Direction opposite to the bd default adds --reverse', async () => {
+        await adapter.getTableData({}, [{ id: 'created', dir: 'asc' }], 0, 50);
+        assert.ok(listArgs().includes('--reverse'));
+    });
+
+    test('Unassigned filter maps to --no-assignee', async () => {
+        await adapter.getTableData({ assignee: 'unassigned' }, [], 0, 50);
+        assert.ok(listArgs().includes('--no-assignee'));
+    });
+
+    test('Invalid priority matches nothing without calling bd', async () => {
+        const result = await adapter.getTableData({ priority: 'high' }, [], 0, 50);
+        assert.deepStrictEqual(result, { cards: [], totalCount: 0 });
+        assert.ok(execStub.notCalled);
+    });
+
+    test('Total count covers every matching row, not just the page', async () => {
+        listRows = Array.from({ length: 1200 }, (_, i) => listRow(i));
+
+        const result = await adapter.getTableData({}, [], 1150, 100);
+
+        assert.strictEqual(result.totalCount, 1200);
+        assert.deepStrictEqual(result.cards.map(c => c.id), listRows.slice(1150).map(r => r.id));
+        // Only the page is enriched
+        const showCalls = execStub.getCalls().filter(c => (c.args[0] as string[])[0] === 'show');
+        const shownIds = showCalls.flatMap(c => (c.args[0] as string[]).slice(2));
+        assert.strictEqual(shownIds.length, 50);
+    });
+
+    test('Search matches id, title or description of listed rows', async () => {
+        listRows = [
+            listRow(1, { title: 'Fix login' }),
+            listRow(2, { description: 'The LOGIN form is slow' }),
+            listRow(3, { title: 'Unrelated' })
+        ];
+
+        const result = await adapter.getTableData({ search: 'login' }, [], 0, 50);
+
+        assert.strictEqual(result.totalCount, 2);
+        assert.deepStrictEqual(result.cards.map(c => c.id), ['beads-1', 'beads-2']);
+    });
+
+    test('Search box queries are evaluated on the listed rows', async () => {
+        sinon.stub(adapter, 'getActor').resolves('alice');
+        listRows = [
+            listRow(1, { assignee: 'alice', labels: ['backend'], priority: 1 }),
+            listRow(2, { assignee: 'alice', labels: ['backend'], priority: 3 }),
+            listRow(3, { assignee: 'bob', labels: ['backend'], priority: 0 }),
+            listRow(4, { assignee: 'alice', labels: ['ui'], priority: 0, issue_type: 'chore' })
+        ];
+
+        const result = await adapter.getTableData({ query: 'assignee:me label:backend priority<=1 -type:chore' }, [], 0, 50);
+
+        assert.strictEqual(result.totalCount, 1);
+        assert.deepStrictEqual(result.cards.map(c => c.id), ['beads-1']);
+    });
+
+    test('is:blocked and is:ready work on rows bd lists without blocked_by_count', async () => {
+        const blockedBy = (id: string) => [{ issue_id: '', depends_on_id: id, type: 'blocks' }];
+        listRows = [
+            listRow(1),
+            listRow(2, { dependencies: blockedBy('beads-1') }),
+            listRow(3, { dependencies: blockedBy('beads-4') }),
+            listRow(4, { status: 'closed' }),
+            listRow(5, { dependencies: blockedBy('beads-9') }),
+            listRow(6, { status: 'blocked' })
+        ];
+
+        const blocked = await adapter.getTableData({ query: 'is:blocked' }, [{ id: 'id', dir: 'asc' }], 0, 50);
+        assert.deepStrictEqual(blocked.cards.map(c => c.id), ['beads-2', 'beads-6']);
+
+        const ready = await adapter.getTableData({ query: 'is:ready' }, [{ id: 'id', dir: 'asc' }], 0, 50);
+        assert.deepStrictEqual(ready.cards.map(c => c.id), ['beads-1', 'beads-3', 'beads-5']);
+
+        // beads-9 is not among the listed rows: its status is looked up once per query
+        const lookups = execStub.getCalls().filter(c => (c.args[0] as string[]).join(' ') === 'list --json --all --limit 0');
+        assert.strictEqual(lookups.length, 2);
+    });
+
+    test('Invalid search box query is rejected', async () => {
+        await assert.rejects(adapter.getTableData({ query: 'colour:red' }, [], 0, 50), /Invalid query: Unknown field "colour"/);
+        assert.ok(execStub.notCalled);
+    });
+
+    test('Secondary sort keys are applied in memory', async () => {
+        listRows = [
+            listRow(1, { priority: 1, title: 'b' }),
+            listRow(2, { priority: 0, title: 'z' }),
+            listRow(3, { priority: 1, title: 'a' })
+        ];
+
+        const result = await adapter.getTableData(
+            {},
+            [{ id: 'priority', dir: 'asc' }, { id: 'title', dir: 'asc' }],
+            0,
+            50
+        );
+
+        assert.deepStrictEqual(result.cards.map(c => c.id), ['beads-2', 'beads-3', 'beads-1']);
+    });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DaemonBeadsAdapter } from '../../daemonBeadsAdapter';
+import { fillPlaceholders, findPlaceholders, instantiateTemplate, loadTemplateTree } from '../../templates';
+import { FullCard, TemplateInstantiateSchema } from '../../types';
+
+function issue(id: string, fields: Partial<FullCard> = {}): FullCard {
+    return {
+        id, title: id, description: '', status: 'open', priority: 2, issue_type: 'task',
+        acceptance_criteria: '', design: '', notes: '', labels: [], ...fields
+    } as FullCard;
+}
+
+suite('Template Tests', () => {
+    let output: vscode.OutputChannel;
+    let adapter: DaemonBeadsAdapter;
+
+    // Release epic with two tasks; "Publish" is blocked by "Build" and by an issue outside the template
+    const issues: Record<string, FullCard> = {
+        'tpl-1': issue('tpl-1', { title: 'Release {{version}}', issue_type: 'epic', is_template: true, children: [{ id: 'tpl-2', title: '' }, { id: 'tpl-3', title: '' }] }),
+        'tpl-2': issue('tpl-2', { title: 'Build {{ version }}', labels: ['release', 'comp:{{component}}'] }),
+        'tpl-3': issue('tpl-3', { title: 'Publish', notes: 'Announce {{component}} {{version}}', blocked_by: [{ id: 'tpl-2', title: '' }, { id: 'beads-9', title: '' }] })
+    };
+
+    setup(() => {
+        output = vscode.window.createOutputChannel('Test Templates');
+        adapter = new DaemonBeadsAdapter('/tmp/beads-templates', output);
+        sinon.stub(adapter, 'getIssueFull').callsFake(async id => issues[id]);
+    });
+
+    teardown(() => {
+        adapter.dispose();
+        output.dispose();
+        sinon.restore();
+    });
+
+    test('Placeholders are found once each and filled by name', () => {
+        assert.deepStrictEqual(findPlaceholders('{{a}} and {{ b-2 }} and {{a}}, not {{1x}}'), ['a', 'b-2']);
+        assert.strictEqual(fillPlaceholders('{{a}}/{{ b }}/{{c}}', { a: 'x', b: 'y' }), 'x/y/{{c}}');
+    });
+
+    test('The subtree is read with in-template blocking edges only', async () => {
+        const tree = await loadTemplateTree(adapter, 'tpl-1');
+        assert.deepStrictEqual(tree.issues.map(i => i.id), ['tpl-1', 'tpl-2', 'tpl-3']);
+        assert.deepStrictEqual(tree.edges, [
+            { id: 'tpl-2', dependsOnId: 'tpl-1', type: 'parent-child' },
+            { id: 'tpl-3', dependsOnId: 'tpl-1', type: 'parent-child' },
+            { id: 'tpl-3', dependsOnId: 'tpl-2', type: 'blocks' }
+        ]);
+    });
+
+    test('Instantiating creates substituted copies and links them', async () => {
+        let next = 100;
+        const createStub = sinon.stub(adapter, 'createIssue').callsFake(async () => ({ id: `beads-${next++}` }));
+        const depStub = sinon.stub(adapter, 'addDependency').resolves();
+
+        const tree = await loadTemplateTree(adapter, 'tpl-1');
+        const result = await instantiateTemplate(adapter, tree, { version: '2.4', component: 'api' });
+
+        assert.deepStrictEqual(result, { id: 'beads-100', created: ['beads-100', 'beads-101', 'beads-102'] });
+        const inputs = createStub.getCalls().map(call => call.args[0]);
+        assert.deepStrictEqual(inputs.map(input => input.title), ['Release 2.4', 'Build 2.4', 'Publish']);
+        assert.deepStrictEqual(inputs[1].labels, ['release', 'comp:api']);
+        assert.strictEqual(inputs[2].notes, 'Announce api 2.4');
+        assert.ok(inputs.every(input => !input.is_template));
+        assert.deepStrictEqual(depStub.getCalls().map(call => call.args), [
+            ['beads-101', 'beads-100', 'parent-child'],
+            ['beads-102', 'beads-100', 'parent-child'],
+            ['beads-102', 'beads-101', 'blocks']
+        ]);
+    });
+
+    test('A failure deletes the issues created so far, newest first', async () => {
+        let next = 100;
+        sinon.stub(adapter, 'createIssue').callsFake(async () => ({ id: `beads-${next++}` }));
+        const depStub = sinon.stub(adapter, 'addDependency').resolves();
+        depStub.onThirdCall().rejects(new Error('Failed to add dependency: cycle'));
+        const deleteStub = sinon.stub(adapter, 'deleteIssue').resolves();
+        deleteStub.withArgs('beads-100').rejects(new Error('locked'));
+
+        const tree = await loadTemplateTree(adapter, 'tpl-1');
+        await assert.rejects(
+            instantiateTemplate(adapter, tree, { version: '2.4', component: 'api' }),
+            /cycle \(could not roll back beads-100\)/
+        );
+        assert.deepStrictEqual(deleteStub.getCalls().map(call => call.args[0]), ['beads-102', 'beads-101', 'beads-100']);
+    });
+
+    test('Missing values are refused before anything is created', async () => {
+        const createStub = sinon.stub(adapter, 'createIssue');
+        const tree = await loadTemplateTree(adapter, 'tpl-1');
+
+        await assert.rejects(instantiateTemplate(adapter, tree, { version: '2.4' }), /Missing value for \{\{component\}\}/);
+        assert.ok(createStub.notCalled);
+        assert.ok(!TemplateInstantiateSchema.safeParse({ id: 'tpl-1', values: { 'bad name': 'x' } }).success);
+    });
+
+    test('Only template issues can be instantiated', async () => {
+        await assert.rejects(loadTemplateTree(adapter, 'tpl-2'), /tpl-2 is not a template/);
+    });
+
+    test('Invalid copies and label values with commas are refused before anything is created', async () => {
+        const createStub = sinon.stub(adapter, 'createIssue');
+        const tree = await loadTemplateTree(adapter, 'tpl-1');
+
+        await assert.rejects(
+            instantiateTemplate(adapter, tree, { version: '2.4', component: 'api,web' }),
+            /\{\{component\}\} is used in a label and cannot contain a comma/
+        );
+        await assert.rejects(
+            instantiateTemplate(adapter, tree, { version: 'x'.repeat(500), component: 'api' }),
+            /Invalid copy of tpl-1/
+        );
+        assert.ok(createStub.notCalled);
+    });
+});
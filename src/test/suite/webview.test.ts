@@ -62,6 +62,14 @@ suite('Webview Security Tests', () => {
         assert.ok(html.includes("form-action 'none'"), 'CSP should restrict form actions');
     });
 
+    test('CSP: Workers only from blob URLs', () => {
+        const html = getWebviewHtml(mockWebview, mockUri);
+        const cspMatch = html.match(/worker-src ([^;]+)/);
+        assert.ok(cspMatch, 'CSP should have worker-src directive');
+        assert.strictEqual(cspMatch[1].trim(), 'blob:', 'worker-src should allow blob: only');
+        assert.ok(html.includes('layout-worker.js'), 'HTML should point at the layout worker bundle');
+    });
+
     test('Nonce: Generated uniquely per request', () => {
         const html1 = getWebviewHtml(mockWebview, mockUri);
         const html2 = getWebviewHtml(mockWebview, mockUri);
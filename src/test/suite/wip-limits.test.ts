@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { boardConfigPath } from '../../boardConfig';
+import { admitToColumn, loadWipConfig, wipLimitError } from '../../wipLimits';
+
+suite('WIP Limit Tests', () => {
+    suite('wipLimitError', () => {
+        test('Only strict mode rejects moves', () => {
+            assert.strictEqual(wipLimitError({ limits: { in_progress: 3 }, strict: false }, 'in_progress', 'In Progress', 5), null);
+        });
+
+        test('Rejects moves into a full column', () => {
+            const config = { limits: { in_progress: 3 }, strict: true };
+            assert.strictEqual(wipLimitError(config, 'in_progress', 'In Progress', 2), null);
+            assert.match(wipLimitError(config, 'in_progress', 'In Progress', 3) ?? '', /WIP limit reached: In Progress already has 3 of 3/);
+            assert.ok(wipLimitError(config, 'in_progress', 'In Progress', 4));
+        });
+
+        test('Columns without a limit accept any move', () => {
+            assert.strictEqual(wipLimitError({ limits: { in_progress: 1 }, strict: true }, 'blocked', 'Blocked', 100), null);
+        });
+    });
+
+    suite('admitToColumn', () => {
+        test('A bulk move fills the column up to its limit and rejects the rest', () => {
+            const config = { limits: { in_progress: 3 }, strict: true };
+            const { admitted, rejected } = admitToColumn(config, 'in_progress', 'In Progress', 1, ['a', 'b', 'c', 'd']);
+
+            assert.deepStrictEqual(admitted, ['a', 'b']);
+            assert.deepStrictEqual(rejected.map(result => result.id), ['c', 'd']);
+            assert.ok(rejected.every(result => !result.ok && /WIP limit reached/.test(result.error ?? '')));
+        });
+
+        test('Without strict mode every issue is admitted', () => {
+            const { admitted, rejected } = admitToColumn({ limits: { in_progress: 1 }, strict: false }, 'in_progress', 'In Progress', 5, ['a', 'b']);
+            assert.deepStrictEqual(admitted, ['a', 'b']);
+            assert.deepStrictEqual(rejected, []);
+        });
+    });
+
+    suite('loadWipConfig', () => {
+        let output: vscode.OutputChannel;
+        let workspaceRoot: string;
+
+        setup(() => {
+            output = vscode.window.createOutputChannel('Test WIP Limits');
+            workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-wip-'));
+            fs.mkdirSync(path.join(workspaceRoot, '.beads'));
+        });
+
+        teardown(() => {
+            output.dispose();
+            fs.rmSync(workspaceRoot, { recursive: true, force: true });
+        });
+
+        test('Reads limits and strict mode from .beads/kanban.json', async () => {
+            fs.writeFileSync(boardConfigPath(workspaceRoot), JSON.stringify({ wipLimits: { in_progress: 5, blocked: 2 }, wipStrict: true }));
+
+            const config = await loadWipConfig(workspaceRoot, output);
+            assert.deepStrictEqual(config, { limits: { in_progress: 5, blocked: 2 }, strict: true });
+        });
+
+        test('Invalid or missing file means no limits', async () => {
+            assert.deepStrictEqual(await loadWipConfig(workspaceRoot, output), { limits: {}, strict: false });
+
+            fs.writeFileSync(boardConfigPath(workspaceRoot), JSON.stringify({ wipLimits: { in_progress: 0 } }));
+            assert.deepStrictEqual(await loadWipConfig(workspaceRoot, output), { limits: {}, strict: false });
+        });
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { collapseExpiredWisps, isExpiredWisp } from '../../wisps';
+
+suite('Wisp Tests', () => {
+    const now = Date.parse('2026-03-10T12:00:00Z');
+    const wisp = { id: 'w-1', status: 'closed', ephemeral: true, closed_at: '2026-03-01T12:00:00Z' };
+
+    test('Closed wisps expire once the window has passed', () => {
+        assert.ok(isExpiredWisp(wisp, 7, now));
+        assert.ok(!isExpiredWisp(wisp, 10, now));
+        assert.ok(!isExpiredWisp({ ...wisp, status: 'open' }, 7, now));
+        assert.ok(!isExpiredWisp({ ...wisp, ephemeral: false }, 7, now));
+        assert.ok(!isExpiredWisp({ ...wisp, closed_at: null }, 7, now));
+    });
+
+    test('Expired wisps are split out in order', () => {
+        const cards = [
+            { ...wisp, id: 'w-1' },
+            { id: 'd-1', status: 'closed', ephemeral: false, closed_at: '2026-01-01T00:00:00Z' },
+            { ...wisp, id: 'w-2', closed_at: '2026-03-10T11:00:00Z' },
+            { ...wisp, id: 'w-3', closed_at: '2026-02-01T00:00:00Z' }
+        ];
+        const { cards: kept, expired } = collapseExpiredWisps(cards, 7, now);
+        assert.deepStrictEqual(kept.map(c => c.id), ['d-1', 'w-2']);
+        assert.deepStrictEqual(expired.map(c => c.id), ['w-1', 'w-3']);
+        assert.deepStrictEqual(collapseExpiredWisps(cards, 0, now).expired.map(c => c.id), ['w-1', 'w-2', 'w-3']);
+    });
+});
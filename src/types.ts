@@ -1,10 +1,12 @@
 import { z } from 'zod';
+import { MAX_PINNED } from './pinnedIssues';
 
 export type IssueStatus = "open" | "in_progress" | "blocked" | "closed";
 
 export type IssueType = "task" | "bug" | "feature" | "epic" | "chore";
 
-export type BoardColumnKey = "ready" | "open" | "in_progress" | "blocked" | "closed";
+/** Key of a configured board column (see boardColumns.ts); the defaults are ready, in_progress, blocked and closed */
+export type BoardColumnKey = string;
 
 export interface IssueRow {
   id: string;
@@ -84,6 +86,19 @@ export interface EnrichedCard extends MinimalCard {
   pinned?: boolean;
   blocked_by_count?: number;
   is_ready?: boolean;
+  due_at?: string | null;
+  defer_until?: string | null;
+  /** Id of the parent issue (parent-child dependency), used for epic swimlanes */
+  parent_id?: string | null;
+  /** Agent issues only; custom columns can match on it */
+  agent_state?: string | null;
+  /** Gates only (see src/gates.ts): what the issue waits on, its timeout and the issues waiting on it */
+  await_type?: string | null;
+  await_id?: string | null;
+  timeout_ns?: number | null;
+  waiters?: string | null;
+  /** Wisp (see src/wisps.ts); hidden by the board's Wisps toggle */
+  ephemeral?: boolean;
 }
 
 /**
@@ -228,6 +243,66 @@ export interface ColumnData extends ColumnLoadState {
 
 export type ColumnDataMap = Record<BoardColumnKey, ColumnData>;
 
+// Mutation inputs accepted by every BeadsAdapter (validated by IssueCreateSchema/IssueUpdateSchema)
+export interface IssueCreateInput {
+  title: string;
+  description?: string;
+  status?: IssueStatus;
+  priority?: number;
+  issue_type?: string;
+  assignee?: string | null;
+  estimated_minutes?: number | null;
+  acceptance_criteria?: string;
+  design?: string;
+  notes?: string;
+  external_ref?: string | null;
+  due_at?: string | null;
+  defer_until?: string | null;
+  labels?: string[];
+  pinned?: boolean;
+  is_template?: boolean;
+  ephemeral?: boolean;
+  parent_id?: string;
+  blocked_by_ids?: string[];
+  children_ids?: string[];
+}
+
+export interface IssueUpdateFields {
+  title?: string;
+  description?: string;
+  priority?: number;
+  issue_type?: string;
+  assignee?: string | null;
+  estimated_minutes?: number | null;
+  acceptance_criteria?: string;
+  design?: string;
+  external_ref?: string | null;
+  notes?: string;
+  due_at?: string | null;
+  defer_until?: string | null;
+  status?: string;
+  pinned?: boolean;
+  /** false promotes a wisp to a durable issue */
+  ephemeral?: boolean;
+}
+
+// Table view query parameters (validated by TableLoadPageSchema)
+export interface TableFilters {
+  search?: string;
+  priority?: string;
+  type?: string;
+  status?: string;
+  assignee?: string;
+  labels?: string[];
+  /** Search box query (see boardQuery.ts), evaluated by the adapter */
+  query?: string;
+}
+
+export interface TableSort {
+  id: string;
+  dir: 'asc' | 'desc';
+}
+
 // Issue ID format: [project.]prefix-suffix (e.g. beads-abc, smth-abc.3, my-org.beads-xyz)
 // Alphanumeric segments separated by dots/underscores/hyphens; at least one hyphen required.
 // Prevents consecutive special characters, path traversal, XSS, and command injection.
@@ -238,7 +313,15 @@ export const IssueIdSchema = z.string().regex(
   ISSUE_ID_PATTERN,
   'Invalid issue ID format - must match pattern: prefix-suffix'
 );
-const BoardColumnKeySchema = z.enum(['ready', 'open', 'in_progress', 'blocked', 'closed']);
+export const BoardColumnKeySchema = z.string().regex(
+  /^[a-z][a-z0-9_-]{0,49}$/,
+  'Invalid column key - must be lowercase letters, digits, "_" or "-"'
+);
+
+/** Key of one of the board's configured columns; messages naming other columns are rejected */
+export function configuredColumnKeySchema(columnKeys: string[]) {
+  return BoardColumnKeySchema.refine(key => columnKeys.includes(key), 'Unknown column');
+}
 
 export const IssueUpdateSchema = z.object({
   id: IssueIdSchema,
@@ -255,8 +338,12 @@ export const IssueUpdateSchema = z.object({
     notes: z.string().max(10000).optional(),
     external_ref: z.string().max(200).nullable().optional(),
     due_at: z.union([z.string().datetime(), z.null()]).optional(),
-    defer_until: z.union([z.string().datetime(), z.null()]).optional()
-  })
+    defer_until: z.union([z.string().datetime(), z.null()]).optional(),
+    pinned: z.boolean().optional(),
+    ephemeral: z.boolean().optional()
+  }),
+  /** updated_at of the issue the edit is based on; the update is rejected if it changed since */
+  expectedUpdatedAt: z.string().max(64).optional()
 });
 
 export const IssueCreateSchema = z.object({
@@ -287,6 +374,27 @@ export const SetStatusSchema = z.object({
   status: z.enum(['open', 'in_progress', 'blocked', 'closed'])
 });
 
+// Several dependency removals recorded as one undoable change (cycle breaking)
+export const DependencyRemovalSchema = z.object({
+  links: z.array(z.object({ id: IssueIdSchema, otherId: IssueIdSchema })).min(1).max(200)
+});
+
+export const IssueMoveSchema = z.object({
+  id: IssueIdSchema,
+  toColumn: BoardColumnKeySchema
+});
+
+// Drop into another swimlane (see swimlanes.ts); the extension plans the lane change
+// from the card's current lane, read from bd, to toLane
+export const IssueLaneMoveSchema = z.object({
+  id: IssueIdSchema,
+  groupBy: z.enum(['assignee', 'epic', 'priority', 'issue_type', 'label']),
+  labelPrefix: z.string().max(100).optional(),
+  toLane: z.string().max(200),
+  /** Also move the card into this column */
+  toColumn: BoardColumnKeySchema.optional()
+});
+
 export const CommentAddSchema = z.object({
   id: IssueIdSchema,
   text: z.string().min(1).max(10000),
@@ -301,9 +409,57 @@ export const LabelSchema = z.object({
 export const DependencySchema = z.object({
   id: IssueIdSchema,
   otherId: IssueIdSchema,
-  type: z.enum(['blocks', 'parent-child']).optional()
+  type: z.enum(['blocks', 'parent-child']).optional(),
+  /** Add the link even if it closes a dependency cycle */
+  force: z.boolean().optional()
+});
+
+// Bulk operations on selected cards; each issue is updated separately and reported on its own
+export const BulkActionSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('setStatus'), status: z.enum(['open', 'in_progress', 'blocked', 'closed']) }),
+  z.object({ kind: z.literal('setPriority'), priority: z.number().int().min(0).max(4) }),
+  z.object({ kind: z.literal('setAssignee'), assignee: z.string().max(100).nullable() }),
+  z.object({ kind: z.literal('addLabel'), label: z.string().min(1).max(100) }),
+  z.object({ kind: z.literal('removeLabel'), label: z.string().min(1).max(100) }),
+  z.object({ kind: z.literal('setParent'), parentId: IssueIdSchema }),
+  z.object({ kind: z.literal('close'), reason: z.string().max(500).optional() }),
+  z.object({ kind: z.literal('promote') })
+]);
+
+export const IssueBulkUpdateSchema = z.object({
+  ids: z.array(IssueIdSchema).min(1).max(200)
+    .refine(ids => new Set(ids).size === ids.length, 'Issue IDs must be unique'),
+  action: BulkActionSchema
+});
+
+export type BulkAction = z.infer<typeof BulkActionSchema>;
+
+// Order of the Pinned strip, saved per repository in workspace state (see pinnedIssues.ts)
+export const PinOrderSchema = z.object({
+  ids: z.array(IssueIdSchema).max(MAX_PINNED)
+});
+
+// "New from template": values for the template's {{name}} placeholders (see templates.ts)
+export const TemplateInstantiateSchema = z.object({
+  id: IssueIdSchema,
+  values: z.record(z.string().regex(/^[A-Za-z][\w-]*$/).max(50), z.string().max(500))
+});
+
+// Graph export written through a save dialog (see graphExport.ts); PNG content is base64
+export const GRAPH_EXPORT_MAX_LENGTH = 40_000_000;
+
+export const GraphExportSchema = z.object({
+  format: z.enum(['svg', 'png', 'mermaid', 'dot']),
+  content: z.string().min(1).max(GRAPH_EXPORT_MAX_LENGTH)
 });
 
+export interface BulkItemResult {
+  id: string;
+  ok: boolean;
+  /** Why this issue was not updated */
+  error?: string;
+}
+
 // Schemas for incremental loading messages
 export const BoardLoadColumnSchema = z.object({
   column: BoardColumnKeySchema,
@@ -322,13 +478,96 @@ export const TableLoadPageSchema = z.object({
     type: z.string().max(50).optional(),
     status: z.string().max(50).optional(),
     assignee: z.string().max(100).optional(),
-    labels: z.array(z.string().max(100)).max(20).optional()
+    labels: z.array(z.string().max(100)).max(20).optional(),
+    query: z.string().max(500).optional()
   }).optional(),
   sorting: z.array(z.object({ id: z.string().max(50), dir: z.enum(['asc', 'desc']) })).max(5).optional(),
-  offset: z.number().int().min(0).max(100000).optional(),
+  offset: z.number().int().min(0).max(Number.MAX_SAFE_INTEGER).optional(), // Paging is a slice of the filtered rows, so any offset is cheap
   limit: z.number().int().min(1).max(500).optional()
 });
 
+// Work-in-progress limits per Kanban column (settings and .beads/kanban.json)
+export type WipLimits = Partial<Record<BoardColumnKey, number>>;
+
+export interface WipConfig {
+  limits: WipLimits;
+  /** Reject moves into a column that is at its limit (enforced by the extension host) */
+  strict: boolean;
+}
+
+export const WipLimitsSchema = z.record(BoardColumnKeySchema, z.number().int().min(1));
+
+// Custom Kanban columns (settings and .beads/kanban.json); see boardColumns.ts
+const ColumnValuesSchema = z.array(z.string().max(100)).min(1).max(20);
+
+export const ColumnDefinitionSchema = z.object({
+  key: BoardColumnKeySchema,
+  title: z.string().trim().min(1).max(50),
+  match: z.object({
+    status: ColumnValuesSchema.optional(),
+    ready: z.boolean().optional(),
+    labels: ColumnValuesSchema.optional(),
+    excludeLabels: ColumnValuesSchema.optional(),
+    agentState: ColumnValuesSchema.optional(),
+    assignee: ColumnValuesSchema.optional()
+  }).strict(),
+  fallback: z.boolean().optional(),
+  onDrop: z.object({
+    status: z.enum(['open', 'in_progress', 'blocked', 'closed']).optional(),
+    addLabels: z.array(z.string().min(1).max(100)).max(20).optional(),
+    removeLabels: z.array(z.string().min(1).max(100)).max(20).optional(),
+    assignee: z.string().max(100).nullable().optional()
+  }).strict().optional()
+}).strict();
+
+export const BoardColumnsSchema = z.array(ColumnDefinitionSchema).min(1).max(12)
+  .refine(columns => new Set(columns.map(c => c.key)).size === columns.length, 'Column keys must be unique')
+  .refine(columns => columns.filter(c => c.fallback).length <= 1, 'At most one column can be the fallback');
+
+// Saved views: named snapshots of the board's filters, sorting, view mode and collapsed columns
+export type ViewMode = 'kanban' | 'table' | 'graph' | 'activity' | 'agents';
+
+export interface SavedView {
+  name: string;
+  viewMode: ViewMode;
+  filters: {
+    search: string;
+    priorities: number[];
+    types: string[];
+    statuses: string[];
+  };
+  sorting: TableSort[];
+  collapsedColumns: string[];
+}
+
+/** Where a saved view is stored: this workspace only, or `.beads/views.json` (committed with the repo) */
+export type SavedViewScope = 'workspace' | 'shared';
+
+export interface SavedViewEntry extends SavedView {
+  scope: SavedViewScope;
+}
+
+export const SavedViewStateSchema = z.object({
+  viewMode: z.enum(['kanban', 'table', 'graph', 'activity', 'agents']),
+  filters: z.object({
+    search: z.string().max(500),
+    priorities: z.array(z.number().int().min(0).max(4)).max(5),
+    types: z.array(z.string().max(50)).max(20),
+    statuses: z.array(z.string().max(50)).max(20)
+  }),
+  sorting: z.array(z.object({ id: z.string().max(50), dir: z.enum(['asc', 'desc']) })).max(5),
+  collapsedColumns: z.array(z.string().max(50)).max(10)
+});
+
+export const SavedViewSchema = SavedViewStateSchema.extend({
+  name: z.string().trim().min(1).max(80)
+});
+
+export const SavedViewRefSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scope: z.enum(['workspace', 'shared'])
+});
+
 // Graph View Types
 export interface GraphNode {
   id: string;
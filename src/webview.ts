@@ -9,6 +9,7 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
   const graphStyleUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, "media", "graph-styles.css")) + `?v=${version}`;
   const graphLayoutUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, "out", "webview", "graph-layout.js")) + `?v=${version}`;
   const graphViewUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, "out", "webview", "graph-view.js")) + `?v=${version}`;
+  const layoutWorkerUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, "out", "webview", "layout-worker.js")) + `?v=${version}`;
   const dompurifyUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, "media", "purify.min.js")) + `?v=${version}`;
   const markedUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, "media", "marked.min.js")) + `?v=${version}`;
 
@@ -30,6 +31,9 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
     - JavaScript style manipulations via .style property are not affected by style-src-attr
     - All user content is sanitized via DOMPurify preventing XSS
     - Nonce-based script loading prevents unauthorized script execution
+    - Workers only from blob: URLs; graph-view.js fetches the layout worker
+      (connect-src) and starts it from a blob, since webview resources are
+      cross-origin for new Worker()
     - frame-ancestors intentionally omitted: browsers ignore it when delivered
       via <meta>, and VS Code webviews are already sandboxed by the host iframe
   -->
@@ -44,14 +48,14 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
                  object-src 'none';
                  media-src 'none';
                  font-src 'none';
-                 worker-src 'none';
+                 worker-src blob:;
                  manifest-src 'none';">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <link href="${styleUri}" rel="stylesheet" />
   <link href="${graphStyleUri}" rel="stylesheet" />
   <title>Agent Native Abstraction Layer for Beads</title>
 </head>
-<body>
+<body data-layout-worker="${layoutWorkerUri}">
   <header class="topbar">
     <div class="title">
       <span class="title-text">Agent Native Abstraction Layer for Beads</span>
@@ -62,9 +66,25 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
         <button id="viewKanbanBtn" class="view-toggle-btn active">Kanban</button>
         <button id="viewTableBtn" class="view-toggle-btn">Table</button>
         <button id="viewGraphBtn" class="view-toggle-btn">Graph</button>
+        <button id="viewActivityBtn" class="view-toggle-btn" title="Recent changes across the repository">Activity</button>
+        <button id="viewAgentsBtn" class="view-toggle-btn" title="Agent beads, their hooked work and stalls">Agents</button>
+      </div>
+      <div id="swimlaneControls" class="swimlane-controls">
+        <select id="swimlaneGroupBy" class="select" title="Group Kanban cards into swimlanes">
+          <option value="none">Lanes: None</option>
+          <option value="assignee">Lanes: Assignee</option>
+          <option value="epic">Lanes: Epic</option>
+          <option value="priority">Lanes: Priority</option>
+          <option value="issue_type">Lanes: Type</option>
+          <option value="label">Lanes: Label prefix</option>
+        </select>
+        <input id="swimlaneLabelPrefix" type="text" class="search-input swimlane-prefix hidden" placeholder="Label prefix, e.g. area:" title="Cards are grouped by their first label starting with this prefix" />
       </div>
       <div class="filters">
-        <input id="filterSearch" type="text" placeholder="Search... (${modKey}+F)" title="Focus search (${modKey}+F)" class="search-input" />
+        <div class="search-wrapper">
+          <input id="filterSearch" type="text" placeholder="Search... (${modKey}+F)" title="Search or filter, e.g. assignee:me label:backend priority&lt;=1 updated&gt;-7d is:blocked is:gate has:due -type:chore (${modKey}+F)" class="search-input" aria-describedby="filterSearchError" />
+          <div id="filterSearchError" class="search-error hidden" role="alert"></div>
+        </div>
         <div class="status-filter-wrapper">
           <button id="filterPriorityBtn" class="select status-filter-btn" type="button" title="Filter by priority">
             <span id="filterPriorityLabel">Priority: All</span>
@@ -108,14 +128,32 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
             <label class="status-option"><input type="checkbox" value="pinned" /> Pinned</label>
           </div>
         </div>
+        <div id="gateSummary" class="gate-summary hidden" title="Issues waiting on an external event">
+          <button id="gateFilterOpen" class="btn" type="button" title="Show open gates (is:gate)"></button>
+          <button id="gateFilterOverdue" class="btn" type="button" title="Show gates past their timeout (is:overdue)"></button>
+        </div>
+        <button id="wispToggleBtn" class="btn" type="button" aria-pressed="true" title="Show or hide ephemeral issues (wisps)">⏱ Wisps</button>
         <button id="clearFiltersBtn" class="btn" title="Clear all filters">Clear Filters</button>
+        <div class="status-filter-wrapper">
+          <button id="savedViewsBtn" class="select status-filter-btn" type="button" title="Saved views">
+            <span>Views</span>
+            <span class="dropdown-arrow">▼</span>
+          </button>
+          <div id="savedViewsDropdown" class="status-dropdown saved-views-dropdown hidden">
+            <div id="savedViewsList" class="saved-views-list"></div>
+            <button id="saveViewBtn" class="saved-view-save" type="button">Save current view…</button>
+          </div>
+        </div>
       </div>
       <button id="refreshBtn" class="btn" title="Refresh board (${modKey}+R)">Refresh</button>
+      <button id="fromTemplateBtn" class="btn" title="Create issues from a template and its children">From Template</button>
       <button id="newBtn" class="btn primary" title="Create new issue (${modKey}+N)">New</button>
     </div>
   </header>
 
   <main>
+    <!-- Pinned issues above the Kanban columns, whatever the filters; drag to reorder -->
+    <div id="pinnedStrip" class="pinned-strip hidden" aria-label="Pinned issues"></div>
     <div id="board" class="board"></div>
     <div id="dependencyDiagram" class="dependency-diagram hidden">
       <!-- Left Sidebar: Issue List -->
@@ -123,6 +161,10 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
         <div class="graph-sidebar-header">
           <h3>ISSUES</h3>
         </div>
+        <!-- Critical path summary, shown while the Critical Path toggle is on -->
+        <div id="criticalPathPanel" class="critical-path-panel hidden"></div>
+        <!-- Blocking dependency cycles with the links to remove, shown while there are any -->
+        <div id="cyclePanel" class="critical-path-panel cycle-panel hidden"></div>
         <div id="graphIssueList" class="graph-issue-list">
           <!-- Populated by JavaScript -->
         </div>
@@ -140,16 +182,37 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
             <input type="number" id="focusDepth" min="1" max="5" value="2" style="width: 50px;" />
           </div>
           <div class="graph-controls-group">
-            <label for="graphDirection">Direction:</label>
+            <label title="Longest chain of open blocking dependencies to the selected issues (an epic includes its descendants), or across the graph when nothing is selected">
+              <input type="checkbox" id="criticalPathToggle" />
+              Critical Path
+            </label>
+            <label title="Fold each epic and its descendants into one node; expand them one at a time">
+              <input type="checkbox" id="clusterEpicsToggle" />
+              Group by Epic
+            </label>
+          </div>
+          <div class="graph-controls-group">
+            <label for="graphDirection">Layout:</label>
             <select id="graphDirection">
               <option value="TB">Top to Bottom</option>
               <option value="LR">Left to Right</option>
+              <option value="sugiyama-TB">Layered, fewer crossings (Top to Bottom)</option>
+              <option value="sugiyama-LR">Layered, fewer crossings (Left to Right)</option>
+              <option value="force">Force-directed</option>
+              <option value="radial">Radial around focus</option>
             </select>
           </div>
           <div class="graph-controls-group">
             <button id="autoLayoutBtn" class="secondary">Auto Layout</button>
             <button id="resetLayoutBtn" class="secondary">Reset View</button>
             <button id="centerViewBtn" class="secondary">Center View</button>
+            <select id="graphExportFormat" title="Save the graph as drawn, focus mode and filters included">
+              <option value="" selected>Export…</option>
+              <option value="svg">SVG image</option>
+              <option value="png">PNG image</option>
+              <option value="mermaid">Mermaid diagram</option>
+              <option value="dot">Graphviz DOT</option>
+            </select>
           </div>
           <div class="graph-stats">
             <div class="graph-stat">
@@ -199,6 +262,14 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
                 <div class="legend-line blocked-by"></div>
                 <span class="legend-text">Blocked By</span>
               </div>
+              <div class="graph-legend-item">
+                <div class="legend-line waits"></div>
+                <span class="legend-text">Waits On (gate)</span>
+              </div>
+              <div class="graph-legend-item">
+                <div class="legend-line critical"></div>
+                <span class="legend-text">Critical Path</span>
+              </div>
             </div>
           </div>
           <div class="zoom-controls">
@@ -225,6 +296,23 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
       <div class="edit-form-container">
         <!-- Header -->
         <h3 id="editFormHeader" class="form-section-header">Edit Issue</h3>
+
+        <!-- Details / History tabs (hidden in create mode) -->
+        <div id="detailTabs" class="detail-tabs" role="tablist">
+          <button type="button" class="detail-tab active" role="tab" data-tab="details" aria-selected="true">Details</button>
+          <button type="button" class="detail-tab" role="tab" data-tab="history" aria-selected="false">History</button>
+        </div>
+
+        <!-- History: change log from the beads event log, loaded when the tab opens -->
+        <div id="historyPanel" class="detail-history hidden" role="tabpanel">
+          <div class="history-toolbar">
+            <label class="form-label-small" for="historyKindFilter">Show:</label>
+            <select id="historyKindFilter" class="form-input-inline">
+              <option value="">All events</option>
+            </select>
+          </div>
+          <div id="historyList" class="history-list"></div>
+        </div>
         
         <!-- Row 1: Title -->
         <div class="form-row">
@@ -446,6 +534,59 @@ export function getWebviewHtml(webview: vscode.Webview, extensionUri: vscode.Uri
     </form>
   </dialog>
 
+  <!-- Right-click menu for Kanban cards and pinned issues -->
+  <div id="cardContextMenu" class="graph-context-menu card-context-menu hidden" role="menu">
+    <div class="context-menu-item" data-action="open" role="menuitem">Open</div>
+    <div class="context-menu-separator"></div>
+    <div class="context-menu-item" data-action="pin" role="menuitem">Pin</div>
+  </div>
+
+  <!-- New from template: pick a template, fill in its {{placeholders}} and clone its subtree -->
+  <dialog id="templateDialog" class="dialog">
+    <form method="dialog" class="dialogForm">
+      <h3 class="form-section-header">New from Template</h3>
+      <label class="form-label-small" for="templateSelect">Template</label>
+      <select id="templateSelect"></select>
+      <div id="templateSummary" class="muted-note"></div>
+      <div id="templateFields" class="template-fields"></div>
+      <div class="dialogActions">
+        <button type="button" id="templateCancelBtn" class="btn">Cancel</button>
+        <button type="button" id="templateCreateBtn" class="btn primary" disabled>Create</button>
+      </div>
+    </form>
+  </dialog>
+
+  <!-- Bulk actions for cards selected with ${modKey}+click / Shift+click -->
+  <div id="bulkBar" class="bulk-bar hidden" role="toolbar" aria-label="Bulk actions">
+    <span id="bulkCount" class="bulk-count"></span>
+    <select id="bulkStatus" class="select" title="Set status">
+      <option value="">Status…</option>
+      <option value="open">Open</option>
+      <option value="in_progress">In Progress</option>
+      <option value="blocked">Blocked</option>
+      <option value="closed">Closed</option>
+    </select>
+    <select id="bulkPriority" class="select" title="Set priority">
+      <option value="">Priority…</option>
+      <option value="0">P0</option>
+      <option value="1">P1</option>
+      <option value="2">P2</option>
+      <option value="3">P3</option>
+      <option value="4">P4</option>
+    </select>
+    <input id="bulkAssignee" type="text" class="search-input bulk-input" placeholder="Assignee" title="Leave empty to unassign" />
+    <button id="bulkAssignBtn" class="btn" type="button">Assign</button>
+    <input id="bulkLabel" type="text" class="search-input bulk-input" placeholder="Label" />
+    <button id="bulkAddLabelBtn" class="btn" type="button" title="Add label">+ Label</button>
+    <button id="bulkRemoveLabelBtn" class="btn" type="button" title="Remove label">− Label</button>
+    <input id="bulkParent" type="text" class="search-input bulk-input" placeholder="Parent ID" list="issueIdOptions" />
+    <button id="bulkParentBtn" class="btn" type="button">Set Parent</button>
+    <input id="bulkCloseReason" type="text" class="search-input bulk-input" placeholder="Close reason (optional)" />
+    <button id="bulkCloseBtn" class="btn" type="button">Close</button>
+    <button id="bulkPromoteBtn" class="btn" type="button" title="Make the selected ephemeral issues durable">Promote to durable</button>
+    <button id="bulkClearBtn" class="btn" type="button" title="Clear selection (Esc)">✕</button>
+  </div>
+
   <div id="toast" class="toast hidden"></div>
 
   <div id="loadingOverlay" class="loading-overlay hidden">
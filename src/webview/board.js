@@ -3,16 +3,37 @@ import { draggable } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
 import { dropTargetForElements } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
 import { combine } from '@atlaskit/pragmatic-drag-and-drop/combine';
 import { GraphView } from './graph-view.js';
+import { parseBoardQuery, matchesBoardQuery } from '../boardQuery';
+import { groupIntoLanes, laneMutations } from '../swimlanes';
+import { columnForCard as columnKeyForCard, planColumnMove, DEFAULT_COLUMNS } from '../boardColumns';
+import { OptimisticUpdates, applyBoardDelta } from '../optimisticUpdates';
+import { mergeIssueFields } from '../issueMerge';
+import { ACTIVITY_WINDOWS, activityActors, filterActivity, mergeActivity } from '../activityFeed';
+import { agentHealth, formatIdle, sortAgents } from '../agentMonitor';
+import { gateDeadline, gateLabel, isGate, isOpenGate, isOverdueGate } from '../gates';
+import { DEFAULT_WISP_COLLAPSE_DAYS, collapseExpiredWisps } from '../wisps';
+import { movePinned } from '../pinnedIssues';
+import { findCriticalPath, formatEffort } from '../criticalPath';
+import { blockingEdges, findDependencyCycles } from '../dependencyCycles';
 
 const vscode = acquireVsCodeApi();
 
 const boardEl = document.getElementById("board");
+const pinnedStrip = document.getElementById("pinnedStrip");
+const cardContextMenu = document.getElementById("cardContextMenu");
 const refreshBtn = document.getElementById("refreshBtn");
 const newBtn = document.getElementById("newBtn");
+const fromTemplateBtn = document.getElementById("fromTemplateBtn");
 const repoMenuBtn = document.getElementById("repoMenuBtn");
 const toastEl = document.getElementById("toast");
 
 const detDialog = document.getElementById("detailDialog");
+const templateDialog = document.getElementById("templateDialog");
+const templateSelect = document.getElementById("templateSelect");
+const templateSummary = document.getElementById("templateSummary");
+const templateFields = document.getElementById("templateFields");
+const templateCreateBtn = document.getElementById("templateCreateBtn");
+const templateCancelBtn = document.getElementById("templateCancelBtn");
 const detTitle = document.getElementById("detTitle");
 const detDesc = document.getElementById("detDesc");
 const detMeta = document.getElementById("detMeta");
@@ -29,7 +50,21 @@ const filterStatusBtn = document.getElementById("filterStatusBtn");
 const filterStatusLabel = document.getElementById("filterStatusLabel");
 const filterStatusDropdown = document.getElementById("filterStatusDropdown");
 const filterSearch = document.getElementById("filterSearch");
+const filterSearchError = document.getElementById("filterSearchError");
+const gateSummary = document.getElementById("gateSummary");
+const gateFilterOpenBtn = document.getElementById("gateFilterOpen");
+const gateFilterOverdueBtn = document.getElementById("gateFilterOverdue");
+const wispToggleBtn = document.getElementById("wispToggleBtn");
 const clearFiltersBtn = document.getElementById("clearFiltersBtn");
+const savedViewsBtn = document.getElementById("savedViewsBtn");
+const savedViewsDropdown = document.getElementById("savedViewsDropdown");
+const savedViewsList = document.getElementById("savedViewsList");
+const saveViewBtn = document.getElementById("saveViewBtn");
+const swimlaneControls = document.getElementById("swimlaneControls");
+const bulkBar = document.getElementById("bulkBar");
+const bulkCount = document.getElementById("bulkCount");
+const swimlaneGroupBy = document.getElementById("swimlaneGroupBy");
+const swimlaneLabelPrefix = document.getElementById("swimlaneLabelPrefix");
 
 // Global unhandled promise rejection handler
 // Prevents webview from becoming unresponsive due to uncaught rejections (e.g., postAsync timeouts)
@@ -44,9 +79,7 @@ window.addEventListener('unhandledrejection', (event) => {
 function setupBoardEventDelegation() {
     if (!boardEl) return;
 
-    let selectedCard = null;
-
-    // Handle single click events on cards - highlight/select only
+    // Handle single click events on cards - select only (Ctrl/Cmd toggles, Shift selects a range)
     boardEl.addEventListener('click', (e) => {
         // Find the closest .card element
         const cardEl = e.target.closest('.card');
@@ -55,14 +88,9 @@ function setupBoardEventDelegation() {
         const cardId = cardEl.dataset.id;
         if (!cardId) return;
 
-        // Remove previous selection
-        if (selectedCard) {
-            selectedCard.classList.remove('selected');
-        }
-
-        // Highlight the clicked card
-        cardEl.classList.add('selected');
-        selectedCard = cardEl;
+        // Shift ranges stay within the clicked column (or swimlane cell)
+        const orderedIds = Array.from(cardEl.parentElement.querySelectorAll('.card'), el => el.dataset.id);
+        selectWithModifiers(e, cardId, orderedIds);
         cardEl.focus(); // Focus for keyboard navigation
     });
 
@@ -339,15 +367,22 @@ if (filterStatusBtn && filterStatusDropdown) {
 const viewKanbanBtn = document.getElementById("viewKanbanBtn");
 const viewTableBtn = document.getElementById("viewTableBtn");
 const viewGraphBtn = document.getElementById("viewGraphBtn");
+const viewActivityBtn = document.getElementById("viewActivityBtn");
+const viewAgentsBtn = document.getElementById("viewAgentsBtn");
 
 // Graph view elements
 const dependencyDiagram = document.getElementById("dependencyDiagram");
 const focusModeToggle = document.getElementById("focusModeToggle");
 const focusDepthInput = document.getElementById("focusDepth");
+const criticalPathToggle = document.getElementById("criticalPathToggle");
+const clusterEpicsToggle = document.getElementById("clusterEpicsToggle");
+const criticalPathPanel = document.getElementById("criticalPathPanel");
+const cyclePanel = document.getElementById("cyclePanel");
 const graphDirectionSelect = document.getElementById("graphDirection");
 const autoLayoutBtn = document.getElementById("autoLayoutBtn");
 const resetLayoutBtn = document.getElementById("resetLayoutBtn");
 const centerViewBtn = document.getElementById("centerViewBtn");
+const graphExportSelect = document.getElementById("graphExportFormat");
 const zoomInBtn = document.getElementById("zoomInBtn");
 const zoomOutBtn = document.getElementById("zoomOutBtn");
 const zoomResetBtn = document.getElementById("zoomResetBtn");
@@ -378,6 +413,19 @@ const cardCache = new Map();
 // This prevents redundant loads when we already have the data
 const cardStateLevel = new Map();
 
+// Moves and edits shown before the extension confirms them, keyed by requestId
+const optimistic = new OptimisticUpdates();
+// requestId -> description of the optimistic change, for the rollback toast
+const optimisticLabels = new Map();
+
+// Version of the last board.minimal / board.delta applied (null = no delta base yet)
+// A board.delta whose baseVersion differs means a message was missed, so we ask for a full resync
+let boardVersion = null;
+let resyncRequested = false;
+
+// bd actor name from the extension; resolves `assignee:me` in search queries
+let currentActor = null;
+
 // Table view pagination state (server-side)
 let tablePaginationState = {
     currentPage: 0,
@@ -431,16 +479,63 @@ detDialog.addEventListener("cancel", (event) => {
 const vscodeState = vscode.getState() || {};
 const collapsedColumns = new Set(vscodeState.collapsedColumns || []);
 
-// View mode: 'kanban' (default), 'table', or 'graph'
+// View mode: 'kanban' (default), 'table', 'graph', 'activity' or 'agents'
 let viewMode = vscodeState.viewMode || 'kanban';
 
+// Activity view (see src/activityFeed.ts): entries are loaded when the view opens
+// and the extension streams new ones until it closes
+let activityEntries = null;
+let activityLoading = false;
+let activityFilter = vscodeState.activityFilter || { actor: '', window: '7d' };
+
+// Agents view (see src/agentMonitor.ts): reloaded with every board update, and
+// re-rendered on a timer while open so idle times and stalls stay current
+let agentList = null;
+let agentsLoading = false;
+let agentsTimer = null;
+const AGENTS_TICK_MS = 15000;
+
+// Kanban swimlanes (see src/swimlanes.ts); lanes are collapsed by lane key
+let swimlaneConfig = vscodeState.swimlanes || { groupBy: 'none', labelPrefix: '' };
+const collapsedLanes = new Set(vscodeState.collapsedLanes || []);
+
+// Column definitions and WIP limits, sent by the extension with every board (board.config)
+let columnDefinitions = DEFAULT_COLUMNS;
+let wipConfig = { limits: {}, strict: false };
+
+// Ephemeral issues (see src/wisps.ts): the toolbar toggle hides them everywhere; closed
+// wisps older than the collapse window are folded into a summary row per Kanban column
+let showWisps = vscodeState.showWisps !== false;
+let wispCollapseDays = DEFAULT_WISP_COLLAPSE_DAYS;
+const expandedWispColumns = new Set();
+
+// Pinned issues in strip order (pins.data, sent with every board); not limited by filters or paging
+let pinnedCards = [];
+let contextMenuCardId = null;
+
+// Multi-selected card ids for the bulk action bar; the anchor is where Shift+click ranges start
+const selectedIds = new Set();
+let selectionAnchor = null;
+
 // Initialize graph view
 let graphView = null;
 let graphState = {
   focusMode: false,
   focusNodeId: null,
   focusDepth: 2,
-  direction: 'TB'
+  layout: 'TB', // A GRAPH_LAYOUTS key, chosen in the graphDirection select
+  criticalPath: false,
+  criticalTargetIds: [], // Selection when the toggle was switched on; empty means the whole graph
+  clusterEpics: false
+};
+// Layout engine and direction for each choice in the graphDirection select
+const GRAPH_LAYOUTS = {
+  'TB': { engine: 'hierarchical', direction: 'TB' },
+  'LR': { engine: 'hierarchical', direction: 'LR' },
+  'sugiyama-TB': { engine: 'sugiyama', direction: 'TB' },
+  'sugiyama-LR': { engine: 'sugiyama', direction: 'LR' },
+  'force': { engine: 'force', direction: 'TB' },
+  'radial': { engine: 'radial', direction: 'TB' }
 };
 let isRenderingGraph = false; // Guard to prevent concurrent graph renders
 
@@ -601,6 +696,10 @@ function saveState() {
         ...vscode.getState(),
         collapsedColumns: [...collapsedColumns],
         viewMode: viewMode,
+        swimlanes: swimlaneConfig,
+        collapsedLanes: [...collapsedLanes],
+        activityFilter,
+        showWisps,
         tableSorting: tableState.sorting,
         tableColumnVisibility: tableState.columnVisibility,
         tableColumnOrder: tableState.columnOrder,
@@ -754,18 +853,21 @@ function requestId() {
 }
 
 // Post with promise support
-function postAsync(type, payload, loadingMessage = 'Loading...') {
+function postAsync(type, payload, loadingMessage = 'Loading...', timeoutMs = 30000) {
+    return postAsyncWithId(requestId(), type, payload, loadingMessage, timeoutMs);
+}
+
+function postAsyncWithId(reqId, type, payload, loadingMessage, timeoutMs = 30000) {
     showLoading(loadingMessage);
-    const reqId = requestId();
     return new Promise((resolve, reject) => {
-        // Timeout after 30 seconds
+        // Timeout after 30 seconds by default
         const timeoutId = setTimeout(() => {
             if (pendingRequests.has(reqId)) {
                 pendingRequests.delete(reqId);
                 // Don't call hideLoading here - let finally block handle it
                 reject(new Error('Request timeout'));
             }
-        }, 30000);
+        }, timeoutMs);
 
         // Store resolve, reject, timeoutId, and createdAt in the Map
         // This allows response handlers to clear the timeout properly and periodic cleanup
@@ -792,6 +894,110 @@ function post(type, payload) {
     vscode.postMessage({ type, requestId: reqId, payload });
 }
 
+// Show card changes right away, then post the mutation. The changes are rolled back,
+// with a toast naming `label`, if the extension reports an error or the request times out.
+// changes: [{ card, patch, column? }]
+async function postOptimistic(type, payload, changes, label, loadingMessage) {
+    const reqId = requestId();
+    for (const { card, patch, column } of changes) {
+        cardCache.set(card.id, optimistic.apply(reqId, card, patch, column));
+    }
+    optimisticLabels.set(reqId, label);
+    distributeCardsToColumns(Array.from(cardCache.values()));
+    render();
+
+    try {
+        return await postAsyncWithId(reqId, type, payload, loadingMessage);
+    } catch (err) {
+        // mutation.error rolls back before rejecting; a timeout gets here first
+        rollbackOptimistic(reqId, err.message);
+        err.rolledBack = true;
+        throw err;
+    } finally {
+        optimisticLabels.delete(reqId);
+    }
+}
+
+// Undo a request's optimistic changes without a toast
+function restoreOptimistic(reqId) {
+    if (!optimistic.isPending(reqId)) return false;
+    for (const card of optimistic.rollback(reqId)) {
+        if (cardCache.has(card.id)) cardCache.set(card.id, card);
+    }
+    distributeCardsToColumns(Array.from(cardCache.values()));
+    render();
+    return true;
+}
+
+function rollbackOptimistic(reqId, error, code) {
+    if (!restoreOptimistic(reqId)) return;
+
+    const label = optimisticLabels.get(reqId) || 'Change';
+    const reason = code === 'circuit_open'
+        ? 'bd is paused after repeated failures and will retry automatically in about a minute'
+        : error || 'Operation failed';
+    toast(`${label} was reverted: ${reason}`);
+}
+
+// Apply the board update for a request: its confirmed changes are now authoritative
+function settleOptimistic(reqId) {
+    for (const card of optimistic.settleRequest(reqId)) {
+        if (cardCache.has(card.id)) cardCache.set(card.id, card);
+    }
+}
+
+// Save the edit form with issue.update, guarded by the updated_at of the issue the
+// dialog loaded (base). If the issue changed elsewhere only in fields the form does
+// not touch (labels, comments, ...), the save is retried against the new version;
+// otherwise the error carries a three-way merge (err.merge) and the current issue
+// (err.conflict). Resolves with the issue version the save was based on.
+async function saveIssueEdits(base, data) {
+    const send = (expectedUpdatedAt) => {
+        const update = { id: base.id, updates: data, expectedUpdatedAt };
+        const current = cardCache.get(base.id);
+        return current
+            ? postOptimistic("issue.update", update, [{ card: current, patch: data }], `Edit of ${base.id}`, "Saving changes...")
+            : postAsync("issue.update", update, "Saving changes...");
+    };
+
+    try {
+        await send(base.updated_at);
+        return base;
+    } catch (err) {
+        if (!err.conflict) throw err;
+        const merge = mergeIssueFields(base, data, err.conflict);
+        if (merge.changes.length > 0) {
+            err.merge = merge;
+            throw err;
+        }
+        await send(err.conflict.updated_at);
+        return err.conflict;
+    }
+}
+
+// Optimistically move a dropped card into a column (issue.move)
+function moveCardToColumn(id, toColumn) {
+    const card = cardCache.get(id);
+    const title = columnDefinitions.find(c => c.key === toColumn)?.title || toColumn;
+    const payload = { id, toColumn };
+    if (!card) {
+        post('issue.move', payload);
+        return;
+    }
+
+    const plan = planColumnMove(columnDefinitions, card, toColumn);
+    const patch = {};
+    if (plan.status) patch.status = plan.status;
+    if (plan.addLabels.length > 0 || plan.removeLabels.length > 0) {
+        const labels = (card.labels || []).filter(label => !plan.removeLabels.includes(label));
+        patch.labels = [...labels, ...plan.addLabels];
+    }
+    if (plan.assignee !== undefined) patch.assignee = plan.assignee;
+
+    postOptimistic('issue.move', payload, [{ card, patch, column: toColumn }], `Move of ${id} to ${title}`, 'Moving card...')
+        .catch(() => { /* rolled back with a toast */ });
+}
+
 function toLocalDateTimeInput(value) {
     if (!value) return '';
     const date = new Date(value);
@@ -807,7 +1013,17 @@ function toIsoFromLocalInput(value) {
     return date.toISOString();
 }
 
+// Most recent undoable mutation reported by the extension (history.recorded)
+let undoOffer = null;
+const UNDO_OFFER_MS = 2000;
+
 function toast(msg, actionName, actionCb) {
+    // A success toast that follows a recorded mutation offers Undo
+    if (!actionName && undoOffer && Date.now() - undoOffer.at < UNDO_OFFER_MS) {
+        actionName = 'Undo';
+        actionCb = undoLastMutation;
+    }
+    undoOffer = null;
     toastEl.innerHTML = "";
     const span = document.createElement("span");
     span.textContent = msg;
@@ -848,28 +1064,56 @@ function toast(msg, actionName, actionCb) {
     setTimeout(hideToast, 5000);
 }
 
+// Undo or redo the most recent board mutation (history kept by the extension)
+async function replayHistory(direction) {
+    if (readOnly) return;
+    const undo = direction === 'undo';
+    try {
+        const response = await postAsync(undo ? 'history.undo' : 'history.redo', {}, undo ? 'Undoing...' : 'Redoing...');
+        undoOffer = null;
+        toast(`${undo ? 'Undid' : 'Redid'}: ${response?.label ?? 'last change'}`);
+    } catch (err) {
+        toast(err.message);
+    }
+}
+
+function undoLastMutation() {
+    replayHistory('undo');
+}
+
+// Column key for a card under the configured columns (see src/boardColumns.ts)
 function columnForCard(card) {
-    // Deterministic mapping (matches extension-side assumptions)
-    if (card.status === "closed") return "closed";
-    if (card.is_ready) return "ready";
-    if (card.status === "in_progress") return "in_progress";
+    // A card dropped into a column stays there until the move settles
+    return optimistic.columnFor(card.id) ?? columnKeyForCard(card, columnDefinitions);
+}
 
-    // If it's open but not ready, it must be because of blocking (direct or transitive).
-    // So we classify it as blocked.
-    if (card.status === "blocked" || (card.blocked_by_count || 0) > 0) return "blocked";
+// Parse the search box as a query (see src/boardQuery.ts) and show parse errors inline.
+// Terms with errors are skipped, so a half-typed query keeps filtering on the rest.
+function getSearchQuery() {
+    const { query, errors } = parseBoardQuery(filterSearch?.value || "");
 
-    // Fallback: If status is 'open' and not ready, and not explicitly blocked by count (transitive block),
-    // we still put it in 'blocked' because 'open' column is gone.
-    if (card.status === "open") return "blocked";
+    if (filterSearchError) {
+        if (errors.length > 0) {
+            filterSearchError.textContent = errors.map(e => e.message).join('; ');
+            filterSearchError.classList.remove('hidden');
+        } else {
+            filterSearchError.textContent = '';
+            filterSearchError.classList.add('hidden');
+        }
+    }
+    filterSearch?.classList.toggle('invalid', errors.length > 0);
+    filterSearch?.setAttribute('aria-invalid', errors.length > 0 ? 'true' : 'false');
 
-    return "blocked"; // Default fallback
+    return query;
 }
 
 // Phase 2: In-memory filtering over cardCache
 // Returns filtered array of cards based on current filter values
+// Used by the kanban, table and graph views so the search query means the same everywhere
 // Performance target: <16ms for 10,000 cards
 function getFilteredCards() {
-    const sVal = filterSearch?.value?.toLowerCase()?.trim() || "";
+    const query = getSearchQuery();
+    const queryContext = { me: currentActor, now: Date.now() };
 
     // Get selected values from custom dropdowns (multi-select)
     const selectedPriorities = getSelectedPriorities();
@@ -878,13 +1122,17 @@ function getFilteredCards() {
 
 
     // If no filters, return all cards from cache
-    if (selectedPriorities.length === 0 && selectedTypes.length === 0 && !sVal && selectedStatuses.length === 0) {
+    if (showWisps && selectedPriorities.length === 0 && selectedTypes.length === 0 && query.terms.length === 0 && selectedStatuses.length === 0) {
         return Array.from(cardCache.values());
     }
 
     // Filter cards in memory
     const filtered = [];
     for (const card of cardCache.values()) {
+        if (!showWisps && card.ephemeral) {
+            continue;
+        }
+
         // Priority filter (multi-select)
         if (selectedPriorities.length > 0 && !selectedPriorities.includes(card.priority)) {
             continue;
@@ -903,16 +1151,9 @@ function getFilteredCards() {
             }
         }
 
-        // Search filter (title, description, ID, or labels)
-        if (sVal !== "") {
-            const titleMatch = card.title.toLowerCase().includes(sVal);
-            const descMatch = card.description && card.description.toLowerCase().includes(sVal);
-            const idMatch = card.id.toLowerCase().includes(sVal);
-            const labelMatch = card.labels && card.labels.some(label => label.toLowerCase().includes(sVal));
-
-            if (!titleMatch && !descMatch && !idMatch && !labelMatch) {
-                continue;
-            }
+        // Search query (free text matches title, description, ID, or labels)
+        if (!matchesBoardQuery(query, card, queryContext)) {
+            continue;
         }
 
         filtered.push(card);
@@ -979,14 +1220,12 @@ function getSortedCards(cards, sortBy = 'updated_at', sortDir = 'desc') {
 // Phase 2: In-memory grouping by column
 // Takes array of cards and groups them into columns
 // Performance target: <16ms for 10,000 cards
-// Returns: { ready: [], in_progress: [], blocked: [], closed: [] }
+// Returns: { [columnKey]: cards }
 function getCardsByColumn(cards) {
-    const byColumn = {
-        ready: [],
-        in_progress: [],
-        blocked: [],
-        closed: []
-    };
+    const byColumn = {};
+    for (const col of columns) {
+        byColumn[col.key] = [];
+    }
     
     if (!cards || cards.length === 0) {
         return byColumn;
@@ -1010,9 +1249,13 @@ function render() {
         return;
     }
 
+    updateGateSummary();
+    renderPinnedStrip();
+
     // Update UI based on read-only mode
     if (readOnly) {
         newBtn.style.display = 'none'; // Hide New Issue button
+        fromTemplateBtn.style.display = 'none';
 
         // Show read-only banner if not already present
         if (!document.getElementById('readOnlyBanner')) {
@@ -1024,6 +1267,7 @@ function render() {
         }
     } else {
         newBtn.style.display = ''; // Show New Issue button
+        fromTemplateBtn.style.display = '';
 
         // Remove read-only banner if present
         const banner = document.getElementById('readOnlyBanner');
@@ -1035,10 +1279,17 @@ function render() {
     // Reset table pagination when filters/sort changes (user likely wants to see results from page 1)
     tablePaginationState.currentPage = 0;
 
+    boardEl.classList.toggle('swimlanes', viewMode === 'kanban' && swimlaneConfig.groupBy !== 'none');
+    swimlaneControls?.classList.toggle('hidden', viewMode !== 'kanban');
+
     if (viewMode === 'graph') {
         renderGraph();
     } else if (viewMode === 'table') {
         renderTable();
+    } else if (viewMode === 'activity') {
+        renderActivity();
+    } else if (viewMode === 'agents') {
+        renderAgents();
     } else {
         renderKanban();
     }
@@ -1074,7 +1325,8 @@ function renderKanban() {
 
         const selectedPriorities = getSelectedPriorities();
         const selectedTypes = getSelectedTypes();
-        const sVal = filterSearch.value.toLowerCase();
+        const query = getSearchQuery();
+        const queryContext = { me: currentActor, now: Date.now() };
 
         for (const col of columns) {
             const colKey = col.key;
@@ -1083,20 +1335,21 @@ function renderKanban() {
             byCol[colKey] = colCards.filter(c => {
                 if (selectedPriorities.length > 0 && !selectedPriorities.includes(c.priority)) return false;
                 if (selectedTypes.length > 0 && !selectedTypes.includes(c.issue_type)) return false;
-                if (sVal !== "" && !c.title.toLowerCase().includes(sVal)) return false;
+                if (!matchesBoardQuery(query, c, queryContext)) return false;
                 return true;
             });
         }
     }
 
-    // Capture scroll positions before clearing
+    // Capture scroll positions before clearing (keyed by lane as well when swimlanes are on)
     const scrollPositions = new Map();
     boardEl.querySelectorAll('.dropZone').forEach(el => {
         const colKey = el.dataset.col;
         if (colKey) {
-            scrollPositions.set(colKey, el.scrollTop);
+            scrollPositions.set(dropZoneScrollKey(colKey, el.dataset.lane), el.scrollTop);
         }
     });
+    const boardScrollTop = boardEl.scrollTop;
 
     // Clean up Pragmatic Drag and Drop instances before clearing DOM
     // This prevents memory leaks from orphaned event listeners
@@ -1117,302 +1370,715 @@ function renderKanban() {
     });
 
     boardEl.innerHTML = "";
+
+    const restoreScroll = (dropZone, colKey, laneKey) => {
+        const key = dropZoneScrollKey(colKey, laneKey);
+        if (scrollPositions.has(key)) {
+            // Use setTimeout to ensure DOM is fully rendered before scrolling
+            setTimeout(() => {
+                dropZone.scrollTop = scrollPositions.get(key);
+            }, 0);
+        }
+    };
+
+    if (swimlaneConfig.groupBy !== 'none') {
+        renderSwimlanes(byCol, restoreScroll);
+        setTimeout(() => {
+            boardEl.scrollTop = boardScrollTop;
+        }, 0);
+        return;
+    }
+
     for (const col of columns) {
         const colWrap = document.createElement("section");
         colWrap.className = "column";
         if (collapsedColumns.has(col.key)) {
             colWrap.classList.add("collapsed");
         }
+        markWipColumn(colWrap, col);
 
-        const header = document.createElement("div");
-        header.className = "columnHeader";
+        const header = createColumnHeader(col, byCol);
 
-        // Collapse toggle button
-        const toggleBtn = document.createElement("button");
-        toggleBtn.className = "icon-btn";
-        toggleBtn.innerHTML = collapsedColumns.has(col.key)
-            ? `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentcolor"><path d="M6 12l4-4-4-4"/></svg>` // Right arrow
-            : `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentcolor"><path d="M4 6l4 4 4-4"/></svg>`; // Down arrow (or similar indicating expansion) (Actually left/right might be better for column? Let's use simple chevrons)
-
-        // Better Ref: Expanded = Left/Inward? Collapsed = ...
-        // Let's just use standard: 
-        // Generic "Toggle" icon or:
-        // Expanded: < (collapse)
-        // Collapsed: > (expand)
-
-        // Let's match typical VS Code or side-panel behavior.
-        // When expanded, show "Collapse" (e.g. arrow pointing opposite to content flow or just standard chevron).
-        // Let's use: 
-        // Expanded: SVG for "Contract" (Arrows pointing in?) Or simple "Chevron Left" if it collapses left?
-        // Let's stick to: Chevron Left (<) to collapse, Chevron Right (>) to expand? 
-        // Or simply toggling state icon.
+        const dropZone = document.createElement("div");
+        dropZone.className = "dropZone";
+        dropZone.dataset.col = col.key;
+        setupDropZone(dropZone);
+
+        // Performance optimization: Use DocumentFragment for batch DOM operations
+        // This prevents reflow/repaint for each card, significantly improving render time for large datasets
+        const fragment = document.createDocumentFragment();
+        const { cards: listed, expired } = collapseExpiredWisps(byCol[col.key] || [], wispCollapseDays);
+        const expanded = expandedWispColumns.has(col.key);
+        for (const card of (expanded ? byCol[col.key] || [] : listed)) {
+            fragment.appendChild(createCardElement(card, col.key));
+        }
+        if (expired.length > 0) {
+            fragment.appendChild(createWispSummaryRow(col.key, expired.length, expanded));
+        }
+
+        // Single DOM operation: append all cards at once
+        dropZone.appendChild(fragment);
+
+        appendColumnFooter(dropZone, col);
+
+        // Restore scroll position for this column
+        restoreScroll(dropZone, col.key);
+
+        colWrap.appendChild(header);
+        colWrap.appendChild(dropZone);
+        boardEl.appendChild(colWrap);
+    }
+
+}
+
+function renderPinnedStrip() {
+    (pinnedStrip._cleanupFns || []).forEach(cleanup => cleanup());
+    pinnedStrip._cleanupFns = [];
+
+    const visible = viewMode === 'kanban' && pinnedCards.length > 0;
+    pinnedStrip.classList.toggle('hidden', !visible);
+    if (!visible) {
+        pinnedStrip.innerHTML = '';
+        return;
+    }
+
+    let html = '<span class="pinned-strip-title">📌 Pinned</span>';
+    for (const card of pinnedCards) {
+        html += `
+            <div class="pinned-card ${sanitizeClassName(`status-${card.status}`)}" data-id="${escapeHtml(card.id)}" title="${escapeHtml(card.title)}">
+                <span class="pinned-card-id">${escapeHtml(card.id)}</span>
+                <span class="pinned-card-title">${escapeHtml(card.title)}</span>
+            </div>`;
+    }
+    pinnedStrip.innerHTML = DOMPurify.sanitize(html, purifyConfig);
+
+    pinnedStrip.querySelectorAll('.pinned-card').forEach(el => {
+        const id = el.dataset.id;
+        el.tabIndex = 0;
+        el.setAttribute('role', 'button');
+        const open = () => openDetail(cardCache.get(id) || pinnedCards.find(c => c.id === id) || { id });
+        el.addEventListener('click', open);
+        el.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') open();
+        });
+        pinnedStrip._cleanupFns.push(combine(
+            draggable({
+                element: el,
+                getInitialData: () => ({ id, pinned: true }),
+                onDragStart: () => el.classList.add('sortable-drag'),
+                onDrop: () => el.classList.remove('sortable-drag')
+            }),
+            // Dropping on a pinned card puts the dragged one in front of it
+            dropTargetForElements({
+                element: el,
+                canDrop: ({ source }) => source.data.pinned === true && source.data.id !== id,
+                onDragEnter: () => el.classList.add('drop-before'),
+                onDragLeave: () => el.classList.remove('drop-before'),
+                onDrop: ({ source }) => {
+                    el.classList.remove('drop-before');
+                    reorderPinned(source.data.id, id);
+                }
+            })
+        ));
+    });
+
+    // Dropping on the strip's free space moves the card to the end
+    pinnedStrip._cleanupFns.push(dropTargetForElements({
+        element: pinnedStrip,
+        canDrop: ({ source }) => source.data.pinned === true,
+        onDrop: ({ source, location }) => {
+            if (location.current.dropTargets[0]?.element === pinnedStrip) {
+                reorderPinned(source.data.id, null);
+            }
+        }
+    }));
+}
+
+function reorderPinned(id, beforeId) {
+    const order = movePinned(pinnedCards.map(c => c.id), id, beforeId);
+    const byId = new Map(pinnedCards.map(c => [c.id, c]));
+    pinnedCards = order.map(pinnedId => byId.get(pinnedId));
+    renderPinnedStrip();
+    post('pins.reorder', { ids: order });
+}
+
+// Pin or unpin without opening the dialog; the strip follows with the next pins.data
+function setPinned(id, pinned) {
+    const payload = { id, updates: { pinned } };
+    const card = cardCache.get(id);
+    if (!card) {
+        post('issue.update', payload);
+        return;
+    }
+    postOptimistic('issue.update', payload, [{ card, patch: { pinned } }], `${pinned ? 'Pin' : 'Unpin'} of ${id}`, pinned ? 'Pinning...' : 'Unpinning...')
+        .catch(() => { /* rolled back with a toast */ });
+}
+
+function showCardContextMenu(e, id) {
+    e.preventDefault();
+    contextMenuCardId = id;
+    const pinned = pinnedCards.some(c => c.id === id) || Boolean(cardCache.get(id)?.pinned);
+    const pinItem = cardContextMenu.querySelector('[data-action="pin"]');
+    pinItem.textContent = pinned ? 'Unpin' : 'Pin';
+    pinItem.dataset.pinned = String(pinned);
+    pinItem.classList.toggle('disabled', readOnly);
+    cardContextMenu.style.left = `${e.clientX}px`;
+    cardContextMenu.style.top = `${e.clientY}px`;
+    cardContextMenu.classList.remove('hidden');
+}
+
+boardEl.addEventListener('contextmenu', (e) => {
+    const cardEl = e.target.closest('.card');
+    if (cardEl?.dataset.id) showCardContextMenu(e, cardEl.dataset.id);
+});
+
+pinnedStrip.addEventListener('contextmenu', (e) => {
+    const cardEl = e.target.closest('.pinned-card');
+    if (cardEl?.dataset.id) showCardContextMenu(e, cardEl.dataset.id);
+});
+
+cardContextMenu.addEventListener('click', (e) => {
+    const item = e.target.closest('.context-menu-item');
+    if (!item || item.classList.contains('disabled')) return;
+    cardContextMenu.classList.add('hidden');
+    const id = contextMenuCardId;
+    if (item.dataset.action === 'open') {
+        openDetail(cardCache.get(id) || pinnedCards.find(c => c.id === id) || { id });
+    } else if (item.dataset.action === 'pin') {
+        setPinned(id, item.dataset.pinned !== 'true');
+    }
+});
+
+document.addEventListener('click', (e) => {
+    if (!cardContextMenu.contains(e.target)) cardContextMenu.classList.add('hidden');
+});
+
+// Stands in for the closed wisps past the collapse window; clicking lists them
+function createWispSummaryRow(colKey, count, expanded) {
+    const row = document.createElement('button');
+    row.type = 'button';
+    row.className = 'wisp-summary';
+    row.setAttribute('aria-expanded', String(expanded));
+    const days = `${wispCollapseDays} day${wispCollapseDays === 1 ? '' : 's'}`;
+    row.textContent = expanded
+        ? `Hide ${count} old wisp${count === 1 ? '' : 's'}`
+        : `⏱ ${count} wisp${count === 1 ? '' : 's'} closed over ${days} ago`;
+    row.addEventListener('click', () => {
+        if (expanded) expandedWispColumns.delete(colKey);
+        else expandedWispColumns.add(colKey);
+        render();
+    });
+    return row;
+}
+
+function dropZoneScrollKey(colKey, laneKey) {
+    return laneKey === undefined ? colKey : `${laneKey}\u0000${colKey}`;
+}
+
+// Swimlanes: one row of columns per lane, under a shared row of column headers.
+// Column collapse applies to every lane; lanes collapse on their own.
+function renderSwimlanes(byCol, restoreScroll) {
+    const laneCards = columns.flatMap(col => byCol[col.key] || []);
+    const lanes = groupIntoLanes(laneCards, swimlaneConfig, id => cardCache.get(id)?.title);
+
+    const headerRow = document.createElement("div");
+    headerRow.className = "swimlane-header-row";
+    for (const col of columns) {
+        const colWrap = document.createElement("section");
+        colWrap.className = "column";
         if (collapsedColumns.has(col.key)) {
-            // Is collapsed. Show Expand (Right or Open)
-            toggleBtn.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 18 15 12 9 6"></polyline></svg>`;
-        } else {
-            // Is expanded. Show Collapse (Left? or Down?)
-            // Since it collapses horizontally, maybe Left < ?
-            toggleBtn.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="15 18 9 12 15 6"></polyline></svg>`;
+            colWrap.classList.add("collapsed");
         }
+        markWipColumn(colWrap, col);
+        colWrap.appendChild(createColumnHeader(col, byCol));
+        // Load More applies to the whole column, so it lives under the shared header
+        const footer = document.createElement("div");
+        footer.className = "swimlane-column-footer";
+        appendColumnFooter(footer, col);
+        colWrap.appendChild(footer);
+        headerRow.appendChild(colWrap);
+    }
+    boardEl.appendChild(headerRow);
+
+    for (const lane of lanes) {
+        const laneCollapsed = collapsedLanes.has(lane.key);
+
+        const laneEl = document.createElement("section");
+        laneEl.className = "swimlane";
+        laneEl.classList.toggle("collapsed", laneCollapsed);
+        laneEl.dataset.lane = lane.key;
+
+        const laneHeader = document.createElement("div");
+        laneHeader.className = "swimlane-header";
 
+        const toggleBtn = document.createElement("button");
+        toggleBtn.className = "icon-btn";
+        toggleBtn.setAttribute('aria-expanded', laneCollapsed ? 'false' : 'true');
+        toggleBtn.title = laneCollapsed ? 'Expand lane' : 'Collapse lane';
+        toggleBtn.innerHTML = laneCollapsed
+            ? `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 18 15 12 9 6"></polyline></svg>`
+            : `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="6 9 12 15 18 9"></polyline></svg>`;
         toggleBtn.onclick = () => {
-            if (collapsedColumns.has(col.key)) {
-                collapsedColumns.delete(col.key);
+            if (collapsedLanes.has(lane.key)) {
+                collapsedLanes.delete(lane.key);
             } else {
-                collapsedColumns.add(col.key);
+                collapsedLanes.add(lane.key);
             }
-            saveCollapsedColumnsState();
+            saveState();
             render();
         };
 
         const titleDiv = document.createElement("div");
-        titleDiv.className = "columnTitle";
-        titleDiv.textContent = col.title;
-
+        titleDiv.className = "swimlane-title";
+        titleDiv.textContent = lane.title;
+
+        // Per-lane column counts, e.g. "Ready 2 · In Progress 1 · Blocked 0 · Closed 4"
+        const laneByCol = {};
+        for (const card of lane.cards) {
+            const colKey = columnForCard(card);
+            (laneByCol[colKey] = laneByCol[colKey] || []).push(card);
+        }
         const countDiv = document.createElement("div");
-        countDiv.className = "columnCount";
+        countDiv.className = "swimlane-count";
+        countDiv.textContent = `${lane.cards.length}`;
+        countDiv.title = columns.map(col => `${col.title} ${(laneByCol[col.key] || []).length}`).join(' · ');
+
+        laneHeader.append(toggleBtn, titleDiv, countDiv);
+        laneEl.appendChild(laneHeader);
+
+        if (!laneCollapsed) {
+            const row = document.createElement("div");
+            row.className = "swimlane-row";
+
+            for (const col of columns) {
+                const cell = document.createElement("div");
+                cell.className = "swimlane-cell";
+                if (collapsedColumns.has(col.key)) {
+                    cell.classList.add("collapsed");
+                }
 
-        // Show "loaded / total" format for incremental loading
-        const colState = columnState[col.key];
-        const filteredCount = (byCol[col.key] || []).length;
-        const hasActiveFilters = getSelectedPriorities().length > 0 || getSelectedTypes().length > 0 || getSelectedStatuses().length > 0 || filterSearch.value;
-
-        if (colState && colState.totalCount > colState.cards.length) {
-            // Partial load: show "filtered (loaded / total)"
-            if (hasActiveFilters && filteredCount !== colState.cards.length) {
-                countDiv.textContent = `${filteredCount} matches (${colState.cards.length} / ${colState.totalCount} loaded)`;
-                countDiv.setAttribute('title', `${filteredCount} cards match filters out of ${colState.cards.length} loaded (${colState.totalCount} total in this column)`);
-            } else {
-                countDiv.textContent = `${colState.cards.length} / ${colState.totalCount} loaded`;
-                countDiv.setAttribute('title', `${colState.cards.length} cards loaded out of ${colState.totalCount} total in this column`);
-            }
-        } else if (colState && colState.totalCount > 0) {
-            // Fully loaded: show "filtered / total"
-            if (hasActiveFilters && filteredCount !== colState.totalCount) {
-                countDiv.textContent = `${filteredCount} matches of ${colState.totalCount}`;
-                countDiv.setAttribute('title', `${filteredCount} cards match filters out of ${colState.totalCount} total in this column`);
-            } else {
-                countDiv.textContent = `${colState.totalCount}`;
-                countDiv.setAttribute('title', `${colState.totalCount} cards in this column`);
+                const cellCards = laneByCol[col.key] || [];
+                const cellCount = document.createElement("div");
+                cellCount.className = "swimlane-cell-count";
+                cellCount.textContent = `${col.title}: ${cellCards.length}`;
+                cell.appendChild(cellCount);
+
+                const dropZone = document.createElement("div");
+                dropZone.className = "dropZone";
+                dropZone.dataset.col = col.key;
+                dropZone.dataset.lane = lane.key;
+                setupDropZone(dropZone);
+
+                const fragment = document.createDocumentFragment();
+                for (const card of cellCards) {
+                    fragment.appendChild(createCardElement(card, col.key));
+                }
+                dropZone.appendChild(fragment);
+                restoreScroll(dropZone, col.key, lane.key);
+
+                cell.appendChild(dropZone);
+                row.appendChild(cell);
             }
+            laneEl.appendChild(row);
+        }
+
+        boardEl.appendChild(laneEl);
+    }
+}
+
+
+// WIP limit status for a column; counts every issue in it, not just those matching filters
+function getWipStatus(col) {
+    const limit = wipConfig.limits?.[col.key];
+    if (!limit) return null;
+    const colState = columnState[col.key];
+    const count = colState ? Math.max(colState.totalCount || 0, colState.cards.length) : 0;
+    return { count, limit };
+}
+
+function markWipColumn(colWrap, col) {
+    const wip = getWipStatus(col);
+    colWrap.classList.toggle('wip-full', !!wip && wip.count === wip.limit);
+    colWrap.classList.toggle('wip-over', !!wip && wip.count > wip.limit);
+}
+
+// Column header with title, "loaded / total" counts and the collapse toggle
+function createColumnHeader(col, byCol) {
+    const header = document.createElement("div");
+    header.className = "columnHeader";
+
+    // Collapse toggle button
+    const toggleBtn = document.createElement("button");
+    toggleBtn.className = "icon-btn";
+    toggleBtn.innerHTML = collapsedColumns.has(col.key)
+        ? `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentcolor"><path d="M6 12l4-4-4-4"/></svg>` // Right arrow
+        : `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentcolor"><path d="M4 6l4 4 4-4"/></svg>`; // Down arrow (or similar indicating expansion) (Actually left/right might be better for column? Let's use simple chevrons)
+
+    // Better Ref: Expanded = Left/Inward? Collapsed = ...
+    // Let's just use standard: 
+    // Generic "Toggle" icon or:
+    // Expanded: < (collapse)
+    // Collapsed: > (expand)
+
+    // Let's match typical VS Code or side-panel behavior.
+    // When expanded, show "Collapse" (e.g. arrow pointing opposite to content flow or just standard chevron).
+    // Let's use: 
+    // Expanded: SVG for "Contract" (Arrows pointing in?) Or simple "Chevron Left" if it collapses left?
+    // Let's stick to: Chevron Left (<) to collapse, Chevron Right (>) to expand? 
+    // Or simply toggling state icon.
+    if (collapsedColumns.has(col.key)) {
+        // Is collapsed. Show Expand (Right or Open)
+        toggleBtn.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 18 15 12 9 6"></polyline></svg>`;
+    } else {
+        // Is expanded. Show Collapse (Left? or Down?)
+        // Since it collapses horizontally, maybe Left < ?
+        toggleBtn.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="15 18 9 12 15 6"></polyline></svg>`;
+    }
+
+    toggleBtn.onclick = () => {
+        if (collapsedColumns.has(col.key)) {
+            collapsedColumns.delete(col.key);
         } else {
-            // Legacy or no data
-            countDiv.textContent = filteredCount;
-            countDiv.setAttribute('title', `${filteredCount} cards in this column`);
+            collapsedColumns.add(col.key);
         }
+        saveCollapsedColumnsState();
+        render();
+    };
 
-        header.appendChild(titleDiv);
-        header.appendChild(countDiv);
-        header.appendChild(toggleBtn);
+    const titleDiv = document.createElement("div");
+    titleDiv.className = "columnTitle";
+    titleDiv.textContent = col.title;
+
+    const wip = getWipStatus(col);
+    if (wip) {
+        const wipBadge = document.createElement("span");
+        wipBadge.className = "wipCount";
+        wipBadge.textContent = `${wip.count}/${wip.limit}`;
+        wipBadge.title = `WIP limit: ${wip.count} of ${wip.limit} issues` + (wipConfig.strict ? ' (moves into a full column are rejected)' : '');
+        titleDiv.appendChild(wipBadge);
+    }
 
+    const countDiv = document.createElement("div");
+    countDiv.className = "columnCount";
 
-        const dropZone = document.createElement("div");
-        dropZone.className = "dropZone";
-        dropZone.dataset.col = col.key;
+    // Show "loaded / total" format for incremental loading
+    const colState = columnState[col.key];
+    const filteredCount = (byCol[col.key] || []).length;
+    const hasActiveFilters = getSelectedPriorities().length > 0 || getSelectedTypes().length > 0 || getSelectedStatuses().length > 0 || filterSearch.value;
 
-        // Initialize Pragmatic Drag and Drop on the dropZone
-        // Store cleanup functions for this column
-        if (!dropZone._cleanupFns) {
-            dropZone._cleanupFns = [];
+    if (colState && colState.totalCount > colState.cards.length) {
+        // Partial load: show "filtered (loaded / total)"
+        if (hasActiveFilters && filteredCount !== colState.cards.length) {
+            countDiv.textContent = `${filteredCount} matches (${colState.cards.length} / ${colState.totalCount} loaded)`;
+            countDiv.setAttribute('title', `${filteredCount} cards match filters out of ${colState.cards.length} loaded (${colState.totalCount} total in this column)`);
+        } else {
+            countDiv.textContent = `${colState.cards.length} / ${colState.totalCount} loaded`;
+            countDiv.setAttribute('title', `${colState.cards.length} cards loaded out of ${colState.totalCount} total in this column`);
         }
+    } else if (colState && colState.totalCount > 0) {
+        // Fully loaded: show "filtered / total"
+        if (hasActiveFilters && filteredCount !== colState.totalCount) {
+            countDiv.textContent = `${filteredCount} matches of ${colState.totalCount}`;
+            countDiv.setAttribute('title', `${filteredCount} cards match filters out of ${colState.totalCount} total in this column`);
+        } else {
+            countDiv.textContent = `${colState.totalCount}`;
+            countDiv.setAttribute('title', `${colState.totalCount} cards in this column`);
+        }
+    } else {
+        // Legacy or no data
+        countDiv.textContent = filteredCount;
+        countDiv.setAttribute('title', `${filteredCount} cards in this column`);
+    }
 
-        // Only set up drop target if not in read-only mode
-        if (!readOnly) {
-            const cleanupDropTarget = dropTargetForElements({
-                element: dropZone,
-                onDragEnter: () => {
-                    dropZone.classList.add('sortable-ghost');
-                },
-                onDragLeave: () => {
-                    dropZone.classList.remove('sortable-ghost');
-                },
-                onDrop({ source, location }) {
-                    dropZone.classList.remove('sortable-ghost');
+    header.appendChild(titleDiv);
+    header.appendChild(countDiv);
+    header.appendChild(toggleBtn);
 
-                    const destination = location.current.dropTargets[0];
-                    if (!destination) return;
+    return header;
+}
 
-                    const itemEl = source.element;
-                    const id = itemEl.dataset.id;
-                    const toColumn = destination.element.dataset.col;
-                    const fromColumn = itemEl.closest('.dropZone')?.dataset.col;
+// Make a column (or swimlane cell) accept dropped cards
+function setupDropZone(dropZone) {
+    // Initialize Pragmatic Drag and Drop on the dropZone
+    // Store cleanup functions for this column
+    if (!dropZone._cleanupFns) {
+        dropZone._cleanupFns = [];
+    }
 
-                    if (!id || !toColumn) return;
+    // Only set up drop target if not in read-only mode
+    if (!readOnly) {
+        const cleanupDropTarget = dropTargetForElements({
+            element: dropZone,
+            // Pinned strip cards are only reordered, never moved between columns
+            canDrop: ({ source }) => !source.data.pinned,
+            onDragEnter: () => {
+                dropZone.classList.add('sortable-ghost');
+            },
+            onDragLeave: () => {
+                dropZone.classList.remove('sortable-ghost');
+            },
+            onDrop({ source, location }) {
+                dropZone.classList.remove('sortable-ghost');
+
+                const destination = location.current.dropTargets[0];
+                if (!destination) return;
+
+                const itemEl = source.element;
+                const id = itemEl.dataset.id;
+                const toColumn = destination.element.dataset.col;
+                const fromZone = itemEl.closest('.dropZone');
+                const fromColumn = fromZone?.dataset.col;
+
+                if (!id || !toColumn) return;
+
+                // Dropped into another swimlane: change the grouped attribute first
+                const toLane = destination.element.dataset.lane;
+                const fromLane = fromZone?.dataset.lane;
+                if (toLane !== undefined && fromLane !== undefined && toLane !== fromLane) {
+                    moveCardToLane(id, fromLane, toLane, toColumn !== fromColumn ? toColumn : null);
+                    return;
+                }
 
-                    // If moved to a different column
-                    if (toColumn !== fromColumn) {
-                        post("issue.move", { id, toColumn });
-                    }
+                // If moved to a different column
+                if (toColumn !== fromColumn) {
+                    moveCardToColumn(id, toColumn);
                 }
-            });
-            dropZone._cleanupFns.push(cleanupDropTarget);
-        }
+            }
+        });
+        dropZone._cleanupFns.push(cleanupDropTarget);
+    }
+}
 
-        // Performance optimization: Use DocumentFragment for batch DOM operations
-        // This prevents reflow/repaint for each card, significantly improving render time for large datasets
-        const fragment = document.createDocumentFragment();
+function createCardElement(card, colKey) {
+    const el = document.createElement("div");
+    el.className = "card";
+    el.dataset.id = card.id;
+    if (selectedIds.has(card.id)) el.classList.add('selected');
+    if (card.ephemeral) el.classList.add('ephemeral');
+
+    // Accessibility: Make cards keyboard-navigable
+    el.setAttribute('tabindex', '0');
+    el.setAttribute('role', 'button');
+    el.setAttribute('aria-label', `Issue: ${escapeHtml(card.title)}`);
+
+    // Event listeners are now handled via event delegation on boardEl (see setupBoardEventDelegation)
+    // This prevents memory leaks from re-attaching listeners on every render
+
+    const badges = [];
+    // Sanitize all class names to prevent injection
+    badges.push({ text: `P${card.priority}`, cls: sanitizeClassName(`badge-priority-${card.priority}`) });
+    if (card.issue_type) {
+        badges.push({
+            text: card.issue_type,
+            cls: sanitizeClassName(`badge-type-${card.issue_type}`)
+        });
+    }
+    // Assignee badge positioned right after type
+    if (card.assignee) {
+        badges.push({ text: `Assignee: ${card.assignee}`, cls: 'badge-assignee' });
+    } else {
+        badges.push({ text: 'Assignee: Unassigned', cls: 'badge-assignee badge-unassigned' });
+    }
+    if (card.estimated_minutes) {
+        const hours = Math.floor(card.estimated_minutes / 60);
+        const mins = card.estimated_minutes % 60;
+        let timeStr = '';
+        if (hours > 0) timeStr += `${hours}h`;
+        if (mins > 0) timeStr += `${mins}m`;
+        badges.push({ text: `⏱ ${timeStr}`, cls: 'badge-estimate' });
+    }
 
-        for (const card of (byCol[col.key] || [])) {
-            const el = document.createElement("div");
-            el.className = "card";
-            el.dataset.id = card.id;
-
-            // Accessibility: Make cards keyboard-navigable
-            el.setAttribute('tabindex', '0');
-            el.setAttribute('role', 'button');
-            el.setAttribute('aria-label', `Issue: ${escapeHtml(card.title)}`);
-
-            // Event listeners are now handled via event delegation on boardEl (see setupBoardEventDelegation)
-            // This prevents memory leaks from re-attaching listeners on every render
-
-            const badges = [];
-            // Sanitize all class names to prevent injection
-            badges.push({ text: `P${card.priority}`, cls: sanitizeClassName(`badge-priority-${card.priority}`) });
-            if (card.issue_type) {
-                badges.push({
-                    text: card.issue_type,
-                    cls: sanitizeClassName(`badge-type-${card.issue_type}`)
-                });
-            }
-            // Assignee badge positioned right after type
-            if (card.assignee) {
-                badges.push({ text: `Assignee: ${card.assignee}`, cls: 'badge-assignee' });
-            } else {
-                badges.push({ text: 'Assignee: Unassigned', cls: 'badge-assignee badge-unassigned' });
-            }
-            if (card.estimated_minutes) {
-                const hours = Math.floor(card.estimated_minutes / 60);
-                const mins = card.estimated_minutes % 60;
-                let timeStr = '';
-                if (hours > 0) timeStr += `${hours}h`;
-                if (mins > 0) timeStr += `${mins}m`;
-                badges.push({ text: `⏱ ${timeStr}`, cls: 'badge-estimate' });
-            }
+    // Blocked By logic
+    if (card.blocked_by && card.blocked_by.length > 0) {
+        badges.push({ text: `blocked by ${card.blocked_by.length}`, cls: 'badge-blocked' });
+    } else if ((card.blocked_by_count || 0) > 0) {
+        badges.push({ text: `blocked:${card.blocked_by_count}`, cls: 'badge-blocked' });
+    }
 
-            // Blocked By logic
-            if (card.blocked_by && card.blocked_by.length > 0) {
-                badges.push({ text: `blocked by ${card.blocked_by.length}`, cls: 'badge-blocked' });
-            } else if ((card.blocked_by_count || 0) > 0) {
-                badges.push({ text: `blocked:${card.blocked_by_count}`, cls: 'badge-blocked' });
-            }
+    if (card.external_ref) badges.push({ text: card.external_ref });
+    for (const l of (card.labels || []).slice(0, 4)) badges.push({ text: `#${l}` });
+
+    // Flag badges
+    if (card.pinned) badges.push({ text: '📌 Pinned', cls: 'badge-flag' });
+    if (card.is_template) badges.push({ text: '📄 Template', cls: 'badge-flag' });
+    if (card.ephemeral) badges.push({ text: '⏱ Ephemeral', cls: 'badge-flag' });
+
+    // Gate badge: what the card waits on and time left before its timeout (see src/gates.ts)
+    if (isGate(card)) {
+        const deadline = gateDeadline(card);
+        const overdue = isOverdueGate(card);
+        const label = gateLabel(card);
+        badges.push({
+            text: deadline === null || card.status === 'closed' ? `⏳ ${label}` : `⏳ ${label} · ${gateCountdownText(deadline)}`,
+            cls: overdue ? 'badge-gate badge-gate-overdue' : 'badge-gate',
+            gate: { label, deadline }
+        });
+        el.classList.add('gate');
+        el.classList.toggle('gate-overdue', overdue);
+    }
 
-            if (card.external_ref) badges.push({ text: card.external_ref });
-            for (const l of (card.labels || []).slice(0, 4)) badges.push({ text: `#${l}` });
-
-            // Flag badges
-            if (card.pinned) badges.push({ text: '📌 Pinned', cls: 'badge-flag' });
-            if (card.is_template) badges.push({ text: '📄 Template', cls: 'badge-flag' });
-            if (card.ephemeral) badges.push({ text: '⏱ Ephemeral', cls: 'badge-flag' });
-
-            // Scheduling badges
-            if (card.due_at) {
-                const dueDate = new Date(card.due_at);
-                const now = new Date();
-                const isOverdue = dueDate < now;
-                badges.push({
-                    text: `📅 Due: ${dueDate.toLocaleDateString()}`,
-                    cls: isOverdue ? 'badge-overdue' : 'badge-due'
-                });
-            }
-            if (card.defer_until) {
-                const deferDate = new Date(card.defer_until);
-                badges.push({ text: `⏰ Defer: ${deferDate.toLocaleDateString()}`, cls: 'badge-defer' });
-            }
+    // Scheduling badges
+    if (card.due_at) {
+        const dueDate = new Date(card.due_at);
+        const now = new Date();
+        const isOverdue = dueDate < now;
+        badges.push({
+            text: `📅 Due: ${dueDate.toLocaleDateString()}`,
+            cls: isOverdue ? 'badge-overdue' : 'badge-due'
+        });
+    }
+    if (card.defer_until) {
+        const deferDate = new Date(card.defer_until);
+        badges.push({ text: `⏰ Defer: ${deferDate.toLocaleDateString()}`, cls: 'badge-defer' });
+    }
 
-            // Parent info
-            let parentHtml = "";
-            if (card.parent) {
-                parentHtml = `<div class="cardParent" title="Parent: ${escapeHtml(card.parent.title)}">
-                    <span class="icon-parent">↳</span> ${escapeHtml(card.parent.title)}
-                </div>`;
-            }
+    // Parent info
+    let parentHtml = "";
+    if (card.parent) {
+        parentHtml = `<div class="cardParent" title="Parent: ${escapeHtml(card.parent.title)}">
+            <span class="icon-parent">↳</span> ${escapeHtml(card.parent.title)}
+        </div>`;
+    }
 
-            // Apply DOMPurify to all innerHTML content for defense-in-depth
-            const htmlContent = `
-        ${parentHtml}
-        <div class="cardTitle">${escapeHtml(card.title)}</div>
-        <div class="badges">${badges.map(b => `<span class="badge ${sanitizeClassName(b.cls || '')}">${escapeHtml(b.text)}</span>`).join("")}</div>
-      `;
-            el.innerHTML = DOMPurify.sanitize(htmlContent, purifyConfig);
-
-            // Make card draggable (unless in read-only mode)
-            if (!readOnly) {
-                const cleanupDraggable = draggable({
-                    element: el,
-                    getInitialData: () => ({ id: card.id, fromColumn: col.key }),
-                    onDragStart: () => {
-                        el.classList.add('sortable-drag');
-                    },
-                    onDrop: () => {
-                        el.classList.remove('sortable-drag');
-                    },
-                });
-                // Store cleanup function on the element
-                el._cleanup = cleanupDraggable;
-            }
+    // Apply DOMPurify to all innerHTML content for defense-in-depth
+    const htmlContent = `
+    ${parentHtml}
+    <div class="cardTitle">${escapeHtml(card.title)}</div>
+    <div class="badges">${badges.map(b => `<span class="badge ${sanitizeClassName(b.cls || '')}"${gateBadgeAttrs(b.gate, card)}>${escapeHtml(b.text)}</span>`).join("")}</div>
+  `;
+    el.innerHTML = DOMPurify.sanitize(htmlContent, purifyConfig);
+
+    // Make card draggable (unless in read-only mode)
+    if (!readOnly) {
+        const cleanupDraggable = draggable({
+            element: el,
+            getInitialData: () => ({ id: card.id, fromColumn: colKey }),
+            onDragStart: () => {
+                el.classList.add('sortable-drag');
+            },
+            onDrop: () => {
+                el.classList.remove('sortable-drag');
+            },
+        });
+        // Store cleanup function on the element
+        el._cleanup = cleanupDraggable;
+    }
 
-            fragment.appendChild(el);
-        }
+    return el;
+}
 
-        // Single DOM operation: append all cards at once
-        dropZone.appendChild(fragment);
+function gateCountdownText(deadline, now = Date.now()) {
+    const remaining = deadline - now;
+    return remaining > 0 ? `${formatIdle(remaining)} left` : `overdue ${formatIdle(-remaining)}`;
+}
 
-        // Add loading spinner if column is loading
-        // colState already declared at line 536
-        if (colState && colState.loading) {
-            const loadingDiv = document.createElement('div');
-            loadingDiv.className = 'column-loading';
-            loadingDiv.innerHTML = `
-                <div class="spinner"></div>
-                <span>Loading...</span>
-            `;
-            dropZone.appendChild(loadingDiv);
-        }
-
-        // Add Load More button if there are more cards to load
-        if (colState && colState.hasMore && !colState.loading) {
-            const loadMoreDiv = document.createElement('div');
-            loadMoreDiv.className = 'load-more-container';
-            
-            const remaining = colState.totalCount - colState.cards.length;
-            const btn = document.createElement('button');
-            btn.className = 'btn load-more-btn';
-            btn.textContent = `Load More (${remaining} remaining)`;
-            btn.dataset.column = col.key;
-            
-            btn.onclick = async () => {
-                try {
-                    // Set loading state
-                    columnState[col.key].loading = true;
-                    render(); // Re-render to show spinner
-                    
-                    // Request more data
-                    await postAsync('board.loadMore', { column: col.key }, 'Loading more issues...');
-                } catch (error) {
-
-                    toast(`Failed to load more: ${error.message}`);
-                    columnState[col.key].loading = false;
-                    render();
-                }
-            };
-            
-            loadMoreDiv.appendChild(btn);
-            dropZone.appendChild(loadMoreDiv);
-        }
+// Open gates with a timeout carry their deadline so the countdown can tick without a re-render
+function gateBadgeAttrs(gate, card) {
+    if (!gate || gate.deadline === null || card.status === 'closed') return '';
+    return ` data-deadline="${gate.deadline}" data-gate="${escapeHtml(gate.label)}"`;
+}
 
-        // Restore scroll position for this column
-        if (scrollPositions.has(col.key)) {
-            // Use setTimeout to ensure DOM is fully rendered before scrolling
-            setTimeout(() => {
-                dropZone.scrollTop = scrollPositions.get(col.key);
-            }, 0);
-        }
+const GATE_TICK_MS = 30000;
+setInterval(() => {
+    const now = Date.now();
+    boardEl.querySelectorAll('.badge-gate[data-deadline]').forEach(badge => {
+        const deadline = Number(badge.dataset.deadline);
+        const overdue = deadline <= now;
+        badge.textContent = `⏳ ${badge.dataset.gate} · ${gateCountdownText(deadline, now)}`;
+        badge.classList.toggle('badge-gate-overdue', overdue);
+        badge.closest('.card')?.classList.toggle('gate-overdue', overdue);
+    });
+    updateGateSummary();
+}, GATE_TICK_MS);
 
-        colWrap.appendChild(header);
-        colWrap.appendChild(dropZone);
-        boardEl.appendChild(colWrap);
+// Toolbar chip counting open and overdue gates; each count toggles its search filter
+function updateGateSummary() {
+    if (!gateSummary) return;
+    const now = Date.now();
+    let open = 0;
+    let overdue = 0;
+    for (const card of cardCache.values()) {
+        if (!isOpenGate(card)) continue;
+        open++;
+        if (isOverdueGate(card, now)) overdue++;
+    }
+    gateSummary.classList.toggle('hidden', open === 0);
+    gateFilterOpenBtn.textContent = `⏳ ${open} gate${open === 1 ? '' : 's'}`;
+    gateFilterOverdueBtn.textContent = `${overdue} overdue`;
+    gateFilterOverdueBtn.classList.toggle('has-overdue', overdue > 0);
+    const terms = filterSearch.value.split(/\s+/);
+    gateFilterOpenBtn.classList.toggle('active', terms.includes('is:gate'));
+    gateFilterOverdueBtn.classList.toggle('active', terms.includes('is:overdue'));
+}
+
+function toggleSearchTerm(term) {
+    const terms = filterSearch.value.split(/\s+/).filter(Boolean);
+    const next = terms.includes(term) ? terms.filter(t => t !== term) : [...terms, term];
+    filterSearch.value = next.join(' ');
+    render();
+}
+
+gateFilterOpenBtn?.addEventListener('click', () => toggleSearchTerm('is:gate'));
+
+function updateWispToggle() {
+    wispToggleBtn.classList.toggle('active', showWisps);
+    wispToggleBtn.setAttribute('aria-pressed', String(showWisps));
+    wispToggleBtn.textContent = showWisps ? '⏱ Wisps' : '⏱ Wisps hidden';
+}
+
+wispToggleBtn.addEventListener('click', () => {
+    showWisps = !showWisps;
+    updateWispToggle();
+    saveState();
+    render();
+});
+updateWispToggle();
+gateFilterOverdueBtn?.addEventListener('click', () => toggleSearchTerm('is:overdue'));
+
+// Loading spinner and Load More button for a column
+function appendColumnFooter(container, col) {
+    const colState = columnState[col.key];
+    // Add loading spinner if column is loading
+    if (colState && colState.loading) {
+        const loadingDiv = document.createElement('div');
+        loadingDiv.className = 'column-loading';
+        loadingDiv.innerHTML = `
+            <div class="spinner"></div>
+            <span>Loading...</span>
+        `;
+        container.appendChild(loadingDiv);
     }
 
+    // Add Load More button if there are more cards to load
+    if (colState && colState.hasMore && !colState.loading) {
+        const loadMoreDiv = document.createElement('div');
+        loadMoreDiv.className = 'load-more-container';
+        
+        const remaining = colState.totalCount - colState.cards.length;
+        const btn = document.createElement('button');
+        btn.className = 'btn load-more-btn';
+        btn.textContent = `Load More (${remaining} remaining)`;
+        btn.dataset.column = col.key;
+        
+        btn.onclick = async () => {
+            try {
+                // Set loading state
+                columnState[col.key].loading = true;
+                render(); // Re-render to show spinner
+                
+                // Request more data
+                await postAsync('board.loadMore', { column: col.key }, 'Loading more issues...');
+            } catch (error) {
+
+                toast(`Failed to load more: ${error.message}`);
+                columnState[col.key].loading = false;
+                render();
+            }
+        };
+        
+        loadMoreDiv.appendChild(btn);
+        container.appendChild(loadMoreDiv);
+    }
 }
 
 // Flatten columnState into a deduplicated array of cards
@@ -1628,7 +2294,7 @@ function renderTable() {
 
     // Render all rows (already paginated server-side)
     for (const card of tableRows) {
-        tableHtml += '<tr class="table-row" data-id="' + escapeHtml(card.id) + '">';
+        tableHtml += '<tr class="table-row' + (selectedIds.has(card.id) ? ' selected' : '') + '" data-id="' + escapeHtml(card.id) + '">';
         for (const col of visibleColumns) {
             const cellContent = col.render(card);
             tableHtml += '<td>' + cellContent + '</td>';
@@ -1774,7 +2440,7 @@ function renderTable() {
 
     // Add click and keyboard handlers to table rows
     const rows = boardEl.querySelectorAll('.table-row');
-    let selectedRow = null;
+    const rowIds = Array.from(rows, row => row.dataset.id);
 
     for (const row of rows) {
         const cardId = row.dataset.id;
@@ -1784,15 +2450,9 @@ function renderTable() {
         row.style.cursor = 'pointer';
         row.setAttribute('tabindex', '0');
 
-        // Single click: select/highlight row
+        // Single click: select row (Ctrl/Cmd toggles, Shift selects a range)
         row.addEventListener('click', (e) => {
-            // Remove previous selection
-            if (selectedRow) {
-                selectedRow.classList.remove('selected');
-            }
-            // Highlight this row
-            row.classList.add('selected');
-            selectedRow = row;
+            selectWithModifiers(e, cardId, rowIds);
             row.focus();
         });
 
@@ -1927,6 +2587,12 @@ async function renderGraph() {
                 onNodeDrag: (nodeId, x, y) => {
                     // TODO: Save node positions to state
                     console.log(`Node ${nodeId} dragged to ${x}, ${y}`);
+                },
+                onClusterToggle: (nodeCount, edgeCount) => {
+                    if (nodeCountEl && edgeCountEl) {
+                        nodeCountEl.textContent = nodeCount;
+                        edgeCountEl.textContent = edgeCount;
+                    }
                 }
             });
         }
@@ -1957,16 +2623,22 @@ async function renderGraph() {
             }
         }
 
+        const criticalPath = graphState.criticalPath
+            ? findCriticalPath(fullCards, graphState.criticalTargetIds)
+            : null;
+
         // Build graph data
         const layoutOptions = {
-            direction: graphState.direction,
+            ...(GRAPH_LAYOUTS[graphState.layout] || GRAPH_LAYOUTS.TB),
             focusMode: graphState.focusMode,
             focusNodeId: graphState.focusNodeId,
-            focusDepth: graphState.focusDepth
+            focusDepth: graphState.focusDepth,
+            criticalPath: criticalPath ? criticalPath.ids : null,
+            clusterEpics: graphState.clusterEpics
         };
 
         // Render the graph with full card data (includes parent, children, blocks, blocked_by)
-        const layout = graphView.render(fullCards, layoutOptions);
+        const layout = await graphView.render(fullCards, layoutOptions);
 
         // Update stats
         if (nodeCountEl && edgeCountEl) {
@@ -1976,6 +2648,8 @@ async function renderGraph() {
 
         // Populate sidebar issue list
         populateGraphSidebar(enrichedCards);
+        renderCriticalPathPanel(criticalPath, fullCards);
+        renderCyclePanel(findDependencyCycles(blockingEdges(fullCards)), fullCards);
 
         // Wire up context menu actions (only once)
         if (!graphView.contextMenuWired) {
@@ -2014,22 +2688,161 @@ function populateGraphSidebar(cards) {
         item.appendChild(titleSpan);
 
         // Click to focus on node in graph
-        item.addEventListener('click', () => {
-            if (graphView) {
-                graphView.clearSelection();
-                const node = graphView.currentNodes.find(n => n.id === card.id);
-                if (node) {
-                    graphView.selectNode(node, false);
-                    // Center view on selected node
-                    graphView.centerView([node]);
-                }
-            }
-        });
+        item.addEventListener('click', () => selectGraphNode(card.id));
 
         issueList.appendChild(item);
     }
 }
 
+function selectGraphNode(id) {
+    if (!graphView) return;
+    graphView.clearSelection();
+    const node = graphView.currentNodes.find(n => n.id === id);
+    if (node) {
+        graphView.selectNode(node, false);
+        // Center view on selected node
+        graphView.centerView([node]);
+    }
+}
+
+function createCriticalPathItem(card, detail) {
+    const item = document.createElement('div');
+    item.className = 'graph-issue-item';
+    item.setAttribute('data-issue-id', card.id);
+
+    const idSpan = document.createElement('span');
+    idSpan.className = 'issue-id';
+    idSpan.textContent = card.id;
+
+    const titleSpan = document.createElement('span');
+    titleSpan.className = 'issue-title';
+    titleSpan.textContent = detail ? `${card.title} · ${detail}` : card.title;
+    titleSpan.title = titleSpan.textContent;
+
+    item.appendChild(idSpan);
+    item.appendChild(titleSpan);
+    item.addEventListener('click', () => selectGraphNode(card.id));
+    return item;
+}
+
+// Remaining effort, the chain itself and its bottlenecks, above the issue list
+function renderCriticalPathPanel(criticalPath, cards) {
+    if (!criticalPathPanel) return;
+    criticalPathPanel.innerHTML = '';
+    criticalPathPanel.classList.toggle('hidden', !graphState.criticalPath);
+    if (!graphState.criticalPath) return;
+
+    const heading = document.createElement('h4');
+    heading.textContent = 'Critical Path';
+    criticalPathPanel.appendChild(heading);
+
+    const summary = document.createElement('div');
+    summary.className = 'critical-path-summary';
+    criticalPathPanel.appendChild(summary);
+    if (!criticalPath) {
+        summary.textContent = graphState.criticalTargetIds.length > 0
+            ? 'The selected issues are all closed.'
+            : 'No open issues in the graph.';
+        return;
+    }
+
+    const byId = new Map(cards.map(card => [card.id, card]));
+    const count = criticalPath.ids.length;
+    summary.textContent = `Remaining effort: ${formatEffort(criticalPath.totalMinutes)} over ${count} issue${count === 1 ? '' : 's'}`;
+    const notes = [
+        graphState.criticalTargetIds.length > 0 ? `To ${graphState.criticalTargetIds.join(', ')}` : 'Longest chain in the graph'
+    ];
+    if (criticalPath.unestimated.length > 0) {
+        notes.push(`${criticalPath.unestimated.length} without an estimate`);
+    }
+    for (const note of notes) {
+        const noteEl = document.createElement('span');
+        noteEl.className = 'critical-path-note';
+        noteEl.textContent = note;
+        summary.appendChild(noteEl);
+    }
+
+    for (const id of criticalPath.ids) {
+        const card = byId.get(id);
+        const minutes = card.estimated_minutes > 0 ? formatEffort(card.estimated_minutes) : '';
+        criticalPathPanel.appendChild(createCriticalPathItem(card, minutes));
+    }
+
+    const bottleneckHeading = document.createElement('h4');
+    bottleneckHeading.textContent = 'Bottlenecks';
+    criticalPathPanel.appendChild(bottleneckHeading);
+    if (criticalPath.bottlenecks.length === 0) {
+        const none = document.createElement('div');
+        none.className = 'critical-path-summary';
+        none.textContent = 'Nothing on the path holds up other work.';
+        criticalPathPanel.appendChild(none);
+    }
+    for (const bottleneck of criticalPath.bottlenecks) {
+        criticalPathPanel.appendChild(createCriticalPathItem(
+            byId.get(bottleneck.id),
+            `holds up ${bottleneck.blocking} more`
+        ));
+    }
+}
+
+// Each blocking cycle with its links; the suggested ones can be removed in one click
+function renderCyclePanel(cycles, cards) {
+    if (!cyclePanel) return;
+    cyclePanel.innerHTML = '';
+    cyclePanel.classList.toggle('hidden', cycles.length === 0);
+    if (cycles.length === 0) return;
+
+    const byId = new Map(cards.map(card => [card.id, card]));
+    const heading = document.createElement('h4');
+    heading.textContent = `Dependency Cycles (${cycles.length})`;
+    cyclePanel.appendChild(heading);
+
+    cycles.forEach((cycle, index) => {
+        const summary = document.createElement('div');
+        summary.className = 'critical-path-summary';
+        summary.textContent = `${index + 1}. ${cycle.path.join(' → ')}`;
+        const note = document.createElement('span');
+        note.className = 'critical-path-note';
+        const count = cycle.removal.length;
+        note.textContent = `Remove ${count} link${count === 1 ? '' : 's'} to break it${cycle.minimal ? '' : ' (may not be the fewest)'}:`;
+        summary.appendChild(note);
+        cyclePanel.appendChild(summary);
+
+        const suggested = new Set(cycle.removal.map(link => `${link.from}->${link.to}`));
+        for (const link of cycle.edges) {
+            const blocker = byId.get(link.from);
+            const item = createCriticalPathItem(
+                { id: link.from, title: `blocks ${link.to}` },
+                blocker ? blocker.title : ''
+            );
+            item.classList.toggle('cycle-link-suggested', suggested.has(`${link.from}->${link.to}`));
+            cyclePanel.appendChild(item);
+        }
+
+        if (!readOnly) {
+            const removeBtn = document.createElement('button');
+            removeBtn.type = 'button';
+            removeBtn.className = 'secondary cycle-remove-btn';
+            removeBtn.textContent = `Remove suggested link${count === 1 ? '' : 's'}`;
+            removeBtn.addEventListener('click', () => removeCycleLinks(cycle.removal));
+            cyclePanel.appendChild(removeBtn);
+        }
+    });
+}
+
+// A link "from blocks to" is the dependency of `to` on `from`; all of them are one undoable change
+async function removeCycleLinks(links) {
+    const count = `${links.length} link${links.length === 1 ? '' : 's'}`;
+    try {
+        await postAsync('issue.removeDependencies', {
+            links: links.map(link => ({ id: link.to, otherId: link.from }))
+        }, `Removing ${count}...`);
+        toast(`Removed ${count}`);
+    } catch (err) {
+        toast(`Failed to remove links: ${err.message}`);
+    }
+}
+
 function setupGraphContextMenu() {
     const contextMenu = document.getElementById('graphContextMenu');
     if (!contextMenu) return;
@@ -2119,41 +2932,315 @@ function focusOnSelectedNode() {
 
 // Removed duplicate escapeHtml function - using the DOM-based implementation at line ~284 instead
 
+// Load the Activity view's entries; the extension streams newer ones with activity.append
+async function loadActivity() {
+    if (activityLoading) return;
+    activityLoading = true;
+    try {
+        const response = await postAsync('activity.load', undefined, 'Loading activity...');
+        activityEntries = response.payload?.entries || [];
+    } catch (error) {
+        activityEntries = [];
+        toast('Failed to load activity: ' + error.message);
+    } finally {
+        activityLoading = false;
+    }
+    if (viewMode === 'activity') renderActivity();
+}
+
+function renderActivity() {
+    if (activityEntries === null) {
+        boardEl.innerHTML = '<div class="activity-view"><div class="muted-note">Loading activity...</div></div>';
+        loadActivity();
+        return;
+    }
+
+    const actors = activityActors(activityEntries);
+    if (activityFilter.actor && !actors.includes(activityFilter.actor)) {
+        actors.push(activityFilter.actor);
+    }
+    const entries = filterActivity(activityEntries, activityFilter);
+
+    const windowLabels = { '1h': 'Last hour', '24h': 'Last 24 hours', '7d': 'Last 7 days', '30d': 'Last 30 days', all: 'All loaded' };
+    let html = `
+        <div class="activity-view">
+            <div class="activity-toolbar">
+                <select id="activityActor" class="select" title="Filter by actor">
+                    <option value="">All actors</option>
+                    ${actors.map(a => `<option value="${escapeHtml(a)}"${a === activityFilter.actor ? ' selected' : ''}>${escapeHtml(a)}</option>`).join('')}
+                </select>
+                <select id="activityWindow" class="select" title="Time window">
+                    ${Object.keys(ACTIVITY_WINDOWS).map(w => `<option value="${w}"${w === activityFilter.window ? ' selected' : ''}>${windowLabels[w] || w}</option>`).join('')}
+                </select>
+                <span class="activity-count">${entries.length} of ${activityEntries.length} events</span>
+            </div>
+            ${activityEntries.some(e => e.rebuilt) ? `<div class="history-partial-note">${escapeHtml(PARTIAL_ACTIVITY_NOTE)}</div>` : ''}
+            <ol class="activity-list">`;
+    for (const entry of entries) {
+        const date = new Date(entry.created_at);
+        const time = Number.isNaN(date.getTime()) ? entry.created_at : date.toLocaleString();
+        const changes = entry.changes
+            .map(c => `<span class="activity-change">${escapeHtml(c.field)}: ${escapeHtml(formatHistoryValue(c.before))} → ${escapeHtml(formatHistoryValue(c.after))}</span>`)
+            .join('');
+        html += `
+                <li class="activity-entry" data-id="${escapeHtml(entry.issue_id)}">
+                    <span class="history-kind history-kind-${escapeHtml(entry.kind)}">${escapeHtml(HISTORY_KIND_LABELS[entry.kind] || entry.kind)}</span>
+                    <span class="activity-issue"><span class="activity-issue-id">${escapeHtml(entry.issue_id)}</span> ${escapeHtml(entry.issue_title)}</span>
+                    <span class="history-actor">${escapeHtml(entry.actor)}</span>
+                    <span class="history-time" title="${escapeHtml(entry.created_at)}">${escapeHtml(time)}</span>
+                    ${changes || entry.comment ? `<div class="activity-details">${changes}${entry.comment ? `<span class="history-comment">${escapeHtml(entry.comment)}</span>` : ''}</div>` : ''}
+                </li>`;
+    }
+    html += `
+            </ol>
+            ${entries.length === 0 ? '<div class="muted-note">No activity in this window.</div>' : ''}
+        </div>`;
+    boardEl.innerHTML = DOMPurify.sanitize(html, purifyConfig);
+
+    document.getElementById('activityActor')?.addEventListener('change', (e) => {
+        activityFilter = { ...activityFilter, actor: e.target.value };
+        saveState();
+        renderActivity();
+    });
+    document.getElementById('activityWindow')?.addEventListener('change', (e) => {
+        activityFilter = { ...activityFilter, window: e.target.value };
+        saveState();
+        renderActivity();
+    });
+    boardEl.querySelectorAll('.activity-entry').forEach(el => {
+        const open = () => openDetail(cardCache.get(el.dataset.id) || { id: el.dataset.id });
+        el.tabIndex = 0; // DOMPurify strips tabindex
+        el.addEventListener('click', open);
+        el.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                open();
+            }
+        });
+    });
+}
+
+async function loadAgents() {
+    if (agentsLoading) return;
+    agentsLoading = true;
+    try {
+        const response = await postAsync('agents.load', undefined, 'Loading agents...');
+        agentList = response.payload?.agents || [];
+    } catch (error) {
+        agentList = agentList || [];
+        toast('Failed to load agents: ' + error.message);
+    } finally {
+        agentsLoading = false;
+    }
+    if (viewMode === 'agents') renderAgents();
+}
+
+function renderAgents() {
+    if (!agentsTimer) {
+        agentsTimer = setInterval(() => {
+            if (viewMode === 'agents' && agentList !== null) renderAgents();
+        }, AGENTS_TICK_MS);
+    }
+    if (agentList === null) {
+        boardEl.innerHTML = '<div class="agents-view"><div class="muted-note">Loading agents...</div></div>';
+        loadAgents();
+        return;
+    }
+
+    const now = Date.now();
+    const agents = sortAgents(agentList, now);
+    const stalledCount = agents.filter(a => agentHealth(a, now).stalled).length;
+
+    let html = `
+        <div class="agents-view">
+            <div class="agents-summary">
+                ${agents.length} agent${agents.length === 1 ? '' : 's'}${stalledCount ? `, <span class="agent-stalled-count">${stalledCount} stalled</span>` : ''}
+            </div>`;
+    if (agents.length === 0) {
+        html += '<div class="muted-note">No agent beads in this repository.</div>';
+    } else {
+        html += `
+            <table class="agents-table">
+                <thead>
+                    <tr><th>Agent</th><th>Rig</th><th>Role</th><th>State</th><th>Hooked work</th><th>Last activity</th><th>Timeout</th></tr>
+                </thead>
+                <tbody>`;
+        for (const agent of agents) {
+            const { idleMs, stalled } = agentHealth(agent, now);
+            const state = agent.agent_state || 'unknown';
+            const hook = agent.hook_bead
+                ? `<button type="button" class="btn agent-hook" data-id="${escapeHtml(agent.hook_bead)}" title="Open hooked issue">${escapeHtml(agent.hook_bead)}${agent.hook_title ? ` <span class="agent-hook-title">${escapeHtml(agent.hook_title)}</span>` : ''}</button>`
+                : '<span class="agent-hook-title">—</span>';
+            html += `
+                    <tr class="agent-row${stalled ? ' stalled' : ''}" data-id="${escapeHtml(agent.id)}">
+                        <td><span class="agent-id">${escapeHtml(agent.id)}</span> ${escapeHtml(agent.title)}</td>
+                        <td>${escapeHtml(agent.rig || '')}</td>
+                        <td>${escapeHtml(agent.role_type || '')}</td>
+                        <td><span class="agent-state agent-state-${escapeHtml(state)}">${escapeHtml(state)}</span>${stalled ? ' <span class="agent-stalled">Stalled</span>' : ''}</td>
+                        <td>${hook}</td>
+                        <td title="${escapeHtml(agent.last_activity || '')}">${idleMs === null ? 'Never' : `${formatIdle(idleMs)} ago`}</td>
+                        <td>${agent.timeout_ns === null ? '' : formatIdle(agent.timeout_ns / 1e6)}</td>
+                    </tr>`;
+        }
+        html += `
+                </tbody>
+            </table>`;
+    }
+    html += '</div>';
+    boardEl.innerHTML = DOMPurify.sanitize(html, purifyConfig);
+
+    boardEl.querySelectorAll('.agent-row').forEach(row => {
+        row.addEventListener('dblclick', () => openDetail(cardCache.get(row.dataset.id) || { id: row.dataset.id }));
+    });
+    boardEl.querySelectorAll('.agent-hook').forEach(btn => {
+        btn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            openDetail(cardCache.get(btn.dataset.id) || { id: btn.dataset.id });
+        });
+    });
+}
+
+// New from template: the extension lists template beads and reports the
+// {{placeholders}} used in a template's subtree; one input is shown per placeholder
+async function openTemplateDialog() {
+    templateSelect.innerHTML = '';
+    templateFields.innerHTML = '';
+    templateSummary.textContent = '';
+    templateCreateBtn.disabled = true;
+    let templates;
+    try {
+        const response = await postAsync('templates.list', undefined, 'Loading templates...');
+        templates = response.payload?.templates || [];
+    } catch (error) {
+        toast('Failed to load templates: ' + error.message);
+        return;
+    }
+    if (templates.length === 0) {
+        toast('No templates yet. Check "Template" on an issue to use it here.');
+        return;
+    }
+    for (const template of templates) {
+        const option = document.createElement('option');
+        option.value = template.id;
+        option.textContent = `${template.title} (${template.id})`;
+        templateSelect.appendChild(option);
+    }
+    templateDialog.showModal();
+    inspectTemplate(templateSelect.value);
+}
+
+async function inspectTemplate(id) {
+    templateFields.innerHTML = '';
+    templateSummary.textContent = '';
+    templateCreateBtn.disabled = true;
+    let detail;
+    try {
+        const response = await postAsync('templates.inspect', { id }, 'Reading template...');
+        detail = response.payload;
+    } catch (error) {
+        if (templateSelect.value === id) templateSummary.textContent = 'Failed to read template: ' + error.message;
+        return;
+    }
+    if (templateSelect.value !== id) return; // another template was picked meanwhile
+    templateSummary.textContent = `Creates ${detail.issueCount} issue${detail.issueCount === 1 ? '' : 's'}`;
+    for (const name of detail.placeholders) {
+        const label = document.createElement('label');
+        label.className = 'form-label-small';
+        label.textContent = name;
+        label.htmlFor = `templateValue-${name}`;
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.id = `templateValue-${name}`;
+        input.dataset.placeholder = name;
+        input.placeholder = `{{${name}}}`;
+        input.maxLength = 500;
+        templateFields.append(label, input);
+    }
+    templateCreateBtn.disabled = false;
+    templateFields.querySelector('input')?.focus();
+}
+
+async function createFromTemplate() {
+    const values = {};
+    for (const input of templateFields.querySelectorAll('input[data-placeholder]')) {
+        values[input.dataset.placeholder] = input.value.trim();
+    }
+    const empty = Object.keys(values).filter(name => values[name] === '');
+    if (empty.length > 0) {
+        toast(`Fill in ${empty.map(name => `{{${name}}}`).join(', ')}`);
+        return;
+    }
+    templateCreateBtn.disabled = true;
+    try {
+        const result = await postAsync('templates.instantiate', { id: templateSelect.value, values }, 'Creating from template...', 120000);
+        templateDialog.close();
+        toast(`Created ${result.created.length} issue${result.created.length === 1 ? '' : 's'} from template`);
+        openDetail(cardCache.get(result.id) || { id: result.id });
+    } catch (error) {
+        toast('Failed to create from template: ' + error.message);
+    } finally {
+        templateCreateBtn.disabled = false;
+    }
+}
+
+fromTemplateBtn.addEventListener('click', openTemplateDialog);
+templateSelect.addEventListener('change', () => inspectTemplate(templateSelect.value));
+templateCreateBtn.addEventListener('click', createFromTemplate);
+templateCancelBtn.addEventListener('click', () => templateDialog.close());
+
+// Switch between kanban, table, graph, activity and agents views
+function setViewMode(mode) {
+    if (viewMode === 'activity' && mode !== 'activity') {
+        activityEntries = null;
+        post('activity.unwatch');
+    }
+    if (viewMode === 'agents' && mode !== 'agents') {
+        clearInterval(agentsTimer);
+        agentsTimer = null;
+        agentList = null;
+    }
+    viewMode = mode;
+    viewKanbanBtn.classList.toggle('active', mode === 'kanban');
+    viewTableBtn.classList.toggle('active', mode === 'table');
+    viewGraphBtn.classList.toggle('active', mode === 'graph');
+    viewActivityBtn.classList.toggle('active', mode === 'activity');
+    viewAgentsBtn.classList.toggle('active', mode === 'agents');
+    if (mode !== 'graph') {
+        boardEl.classList.remove('hidden');
+        dependencyDiagram.classList.add('hidden');
+    }
+    saveState();
+    render();
+}
+
 // View toggle event listeners
 viewKanbanBtn.addEventListener("click", () => {
     if (viewMode !== 'kanban') {
-        viewMode = 'kanban';
-        viewKanbanBtn.classList.add('active');
-        viewTableBtn.classList.remove('active');
-        viewGraphBtn.classList.remove('active');
-        boardEl.classList.remove('hidden');
-        dependencyDiagram.classList.add('hidden');
-        saveState();
-        render();
+        setViewMode('kanban');
     }
 });
 
 viewTableBtn.addEventListener("click", () => {
     if (viewMode !== 'table') {
-        viewMode = 'table';
-        viewTableBtn.classList.add('active');
-        viewKanbanBtn.classList.remove('active');
-        viewGraphBtn.classList.remove('active');
-        boardEl.classList.remove('hidden');
-        dependencyDiagram.classList.add('hidden');
-        saveState();
-        render();
+        setViewMode('table');
     }
 });
 
 viewGraphBtn.addEventListener("click", () => {
     if (viewMode !== 'graph') {
-        viewMode = 'graph';
-        viewGraphBtn.classList.add('active');
-        viewKanbanBtn.classList.remove('active');
-        viewTableBtn.classList.remove('active');
-        saveState();
-        render();
+        setViewMode('graph');
+    }
+});
+
+viewActivityBtn.addEventListener("click", () => {
+    if (viewMode !== 'activity') {
+        setViewMode('activity');
+    }
+});
+
+viewAgentsBtn.addEventListener("click", () => {
+    if (viewMode !== 'agents') {
+        setViewMode('agents');
     }
 });
 
@@ -2168,12 +3255,207 @@ if (viewMode === 'graph') {
     viewTableBtn.classList.add('active');
     viewKanbanBtn.classList.remove('active');
     viewGraphBtn.classList.remove('active');
+} else if (viewMode === 'activity') {
+    viewActivityBtn.classList.add('active');
+    viewKanbanBtn.classList.remove('active');
+    viewTableBtn.classList.remove('active');
+    viewGraphBtn.classList.remove('active');
+} else if (viewMode === 'agents') {
+    viewAgentsBtn.classList.add('active');
+    viewKanbanBtn.classList.remove('active');
+    viewTableBtn.classList.remove('active');
+    viewGraphBtn.classList.remove('active');
 } else {
     viewKanbanBtn.classList.add('active');
     viewTableBtn.classList.remove('active');
     viewGraphBtn.classList.remove('active');
 }
 
+// Swimlane controls
+function updateSwimlaneControls() {
+    swimlaneGroupBy.value = swimlaneConfig.groupBy;
+    swimlaneLabelPrefix.value = swimlaneConfig.labelPrefix || '';
+    swimlaneLabelPrefix.classList.toggle('hidden', swimlaneConfig.groupBy !== 'label');
+    swimlaneControls.classList.toggle('hidden', viewMode !== 'kanban');
+}
+
+if (swimlaneControls && swimlaneGroupBy && swimlaneLabelPrefix) {
+    swimlaneGroupBy.addEventListener('change', () => {
+        swimlaneConfig = { ...swimlaneConfig, groupBy: swimlaneGroupBy.value };
+        // Lane keys mean something else under another grouping
+        collapsedLanes.clear();
+        updateSwimlaneControls();
+        saveState();
+        render();
+    });
+
+    swimlaneLabelPrefix.addEventListener('input', debounce(() => {
+        swimlaneConfig = { ...swimlaneConfig, labelPrefix: swimlaneLabelPrefix.value.trim() };
+        collapsedLanes.clear();
+        saveState();
+        render();
+    }, 300));
+
+    updateSwimlaneControls();
+}
+
+// Move a card into another swimlane (and column, if it changed) as one undoable
+// change: the extension plans and applies it, and reverts it all if a step fails
+function moveCardToLane(id, fromLane, toLane, toColumn) {
+    const card = cardCache.get(id) || flattenColumnState().find(c => c.id === id);
+    if (!card) return;
+
+    let mutations;
+    try {
+        mutations = laneMutations(card, swimlaneConfig, fromLane, toLane);
+    } catch (err) {
+        toast(err.message);
+        return;
+    }
+
+    // Show the card in its new lane right away
+    const patch = {};
+    let labels = card.labels || [];
+    for (const { type, payload } of mutations) {
+        if (type === 'issue.update') Object.assign(patch, payload.updates);
+        if (type === 'issue.addLabel') labels = [...labels, payload.label];
+        if (type === 'issue.removeLabel') labels = labels.filter(label => label !== payload.label);
+        if (type === 'issue.addDependency') patch.parent_id = payload.otherId;
+        if (type === 'issue.removeDependency') patch.parent_id = null;
+    }
+    if (toColumn) {
+        const plan = planColumnMove(columnDefinitions, { ...card, ...patch, labels }, toColumn);
+        if (plan.status) patch.status = plan.status;
+        labels = [...labels.filter(label => !plan.removeLabels.includes(label)), ...plan.addLabels];
+        if (plan.assignee !== undefined) patch.assignee = plan.assignee;
+    }
+    if (labels !== (card.labels || [])) patch.labels = labels;
+
+    const payload = { id, groupBy: swimlaneConfig.groupBy, toLane };
+    if (swimlaneConfig.labelPrefix) payload.labelPrefix = swimlaneConfig.labelPrefix;
+    if (toColumn) payload.toColumn = toColumn;
+
+    postOptimistic('issue.moveToLane', payload, [{ card, patch, column: toColumn || undefined }], `Move of ${id} to another lane`, 'Moving card...')
+        .catch(() => { /* rolled back with a toast */ });
+}
+
+// Multi-select: a plain click selects one card, Ctrl/Cmd+click toggles, Shift+click
+// selects the range from the anchor within the same column or table
+function selectWithModifiers(e, id, orderedIds) {
+    const anchorIndex = selectionAnchor ? orderedIds.indexOf(selectionAnchor) : -1;
+    if (e.shiftKey && anchorIndex !== -1) {
+        if (!(e.ctrlKey || e.metaKey)) selectedIds.clear();
+        const index = orderedIds.indexOf(id);
+        const [from, to] = index < anchorIndex ? [index, anchorIndex] : [anchorIndex, index];
+        orderedIds.slice(from, to + 1).forEach(rangeId => selectedIds.add(rangeId));
+    } else if (e.ctrlKey || e.metaKey) {
+        if (selectedIds.has(id)) {
+            selectedIds.delete(id);
+        } else {
+            selectedIds.add(id);
+        }
+        selectionAnchor = id;
+    } else {
+        selectedIds.clear();
+        selectedIds.add(id);
+        selectionAnchor = id;
+    }
+    updateSelectionUI();
+}
+
+function clearSelection() {
+    selectedIds.clear();
+    selectionAnchor = null;
+    updateSelectionUI();
+}
+
+function updateSelectionUI() {
+    for (const el of boardEl.querySelectorAll('.card, .table-row')) {
+        el.classList.toggle('selected', selectedIds.has(el.dataset.id));
+    }
+    // A single selected card is just the highlight; the bar is for two or more
+    const showBar = selectedIds.size > 1 && !readOnly;
+    bulkBar.classList.toggle('hidden', !showBar);
+    if (showBar) {
+        bulkCount.textContent = `${selectedIds.size} selected`;
+    }
+}
+
+// Apply one action to every selected issue (issue.bulkUpdate); failed issues stay selected
+async function runBulkAction(action) {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+
+    let results;
+    try {
+        // Each issue is a separate bd write, so allow more time for large batches
+        const response = await postAsync('issue.bulkUpdate', { ids, action }, `Updating ${ids.length} issues...`, Math.max(30000, ids.length * 2000));
+        results = Array.isArray(response?.results) ? response.results : [];
+    } catch (err) {
+        toast(`Bulk update failed: ${err.message}`);
+        return;
+    }
+
+    const failed = results.filter(r => !r.ok);
+    if (failed.length === 0) {
+        toast(`Updated ${results.length} issues`);
+        clearSelection();
+        return;
+    }
+    selectedIds.clear();
+    failed.forEach(r => selectedIds.add(r.id));
+    updateSelectionUI();
+    const details = failed.slice(0, 3).map(r => `${r.id}: ${r.error}`).join('; ');
+    const more = failed.length > 3 ? ` (+${failed.length - 3} more)` : '';
+    toast(`Updated ${results.length - failed.length} of ${results.length}. Failed: ${details}${more}`);
+}
+
+document.getElementById('bulkStatus').addEventListener('change', (e) => {
+    const status = e.target.value;
+    e.target.value = '';
+    if (status) runBulkAction({ kind: 'setStatus', status });
+});
+
+document.getElementById('bulkPriority').addEventListener('change', (e) => {
+    const priority = e.target.value;
+    e.target.value = '';
+    if (priority !== '') runBulkAction({ kind: 'setPriority', priority: Number(priority) });
+});
+
+document.getElementById('bulkAssignBtn').addEventListener('click', () => {
+    const assignee = document.getElementById('bulkAssignee').value.trim();
+    runBulkAction({ kind: 'setAssignee', assignee: assignee || null });
+});
+
+for (const [buttonId, kind] of [['bulkAddLabelBtn', 'addLabel'], ['bulkRemoveLabelBtn', 'removeLabel']]) {
+    document.getElementById(buttonId).addEventListener('click', () => {
+        const label = document.getElementById('bulkLabel').value.trim();
+        if (!label) {
+            toast('Enter a label first');
+            return;
+        }
+        runBulkAction({ kind, label });
+    });
+}
+
+document.getElementById('bulkParentBtn').addEventListener('click', () => {
+    const parentId = document.getElementById('bulkParent').value.trim();
+    if (!parentId) {
+        toast('Enter a parent issue ID first');
+        return;
+    }
+    runBulkAction({ kind: 'setParent', parentId });
+});
+
+document.getElementById('bulkCloseBtn').addEventListener('click', () => {
+    const reason = document.getElementById('bulkCloseReason').value.trim();
+    runBulkAction(reason ? { kind: 'close', reason } : { kind: 'close' });
+});
+
+document.getElementById('bulkPromoteBtn').addEventListener('click', () => runBulkAction({ kind: 'promote' }));
+
+document.getElementById('bulkClearBtn').addEventListener('click', clearSelection);
+
 // Graph control event listeners
 if (focusModeToggle) {
     focusModeToggle.addEventListener('change', () => {
@@ -2188,6 +3470,28 @@ if (focusModeToggle) {
     });
 }
 
+if (criticalPathToggle) {
+    criticalPathToggle.addEventListener('change', () => {
+        graphState.criticalPath = criticalPathToggle.checked;
+        // Trace to whatever is selected now; with nothing selected, the whole graph
+        graphState.criticalTargetIds = graphState.criticalPath && graphView
+            ? Array.from(graphView.selectedNodeIds)
+            : [];
+        if (viewMode === 'graph') {
+            renderGraph();
+        }
+    });
+}
+
+if (clusterEpicsToggle) {
+    clusterEpicsToggle.addEventListener('change', () => {
+        graphState.clusterEpics = clusterEpicsToggle.checked;
+        if (viewMode === 'graph') {
+            renderGraph();
+        }
+    });
+}
+
 if (focusDepthInput) {
     focusDepthInput.addEventListener('change', () => {
         graphState.focusDepth = parseInt(focusDepthInput.value, 10);
@@ -2199,7 +3503,7 @@ if (focusDepthInput) {
 
 if (graphDirectionSelect) {
     graphDirectionSelect.addEventListener('change', () => {
-        graphState.direction = graphDirectionSelect.value;
+        graphState.layout = graphDirectionSelect.value;
         if (viewMode === 'graph') {
             renderGraph();
         }
@@ -2232,6 +3536,23 @@ if (centerViewBtn) {
     });
 }
 
+if (graphExportSelect) {
+    graphExportSelect.addEventListener('change', async () => {
+        const format = graphExportSelect.value;
+        graphExportSelect.value = '';
+        if (!format || !graphView) return;
+        try {
+            const content = format === 'svg' ? graphView.exportSvg().svg
+                : format === 'png' ? await graphView.exportPng()
+                : graphView.exportText(format);
+            // Not postAsync: the extension waits on the save dialog, which can outlast the request timeout
+            post('graph.export', { format, content });
+        } catch (err) {
+            toast(`Export failed: ${err.message}`);
+        }
+    });
+}
+
 if (zoomInBtn) {
     zoomInBtn.addEventListener('click', () => {
         if (graphView) {
@@ -2331,6 +3652,127 @@ clearFiltersBtn.addEventListener("click", () => {
     render();
 });
 
+// Saved views: named snapshots of filters, sorting, view mode and collapsed columns.
+// The extension owns storage (workspace state or .beads/views.json) and prompts for names.
+let savedViews = [];
+
+// Check exactly the given values in a filter dropdown, falling back to "All"
+function setFilterCheckboxes(dropdown, values) {
+    if (!dropdown) return;
+    const wanted = new Set(values.map(String));
+    let anyChecked = false;
+    dropdown.querySelectorAll('input[type="checkbox"]').forEach(cb => {
+        cb.checked = cb.value !== '' && wanted.has(cb.value);
+        anyChecked = anyChecked || cb.checked;
+    });
+    const allCheckbox = dropdown.querySelector('input[value=""]');
+    if (allCheckbox) {
+        allCheckbox.checked = !anyChecked;
+    }
+}
+
+function captureViewState() {
+    return {
+        viewMode,
+        filters: {
+            search: filterSearch.value,
+            priorities: getSelectedPriorities(),
+            types: getSelectedTypes(),
+            statuses: getSelectedStatuses()
+        },
+        sorting: tableState.sorting.map(s => ({ id: s.id, dir: s.dir })),
+        collapsedColumns: [...collapsedColumns]
+    };
+}
+
+function applySavedView(view) {
+    setFilterCheckboxes(filterPriorityDropdown, view.filters.priorities);
+    updatePriorityLabel();
+    setFilterCheckboxes(filterTypeDropdown, view.filters.types);
+    updateTypeLabel();
+    setFilterCheckboxes(filterStatusDropdown, view.filters.statuses);
+    updateStatusLabel();
+    filterSearch.value = view.filters.search;
+
+    tableState.sorting = view.sorting.map(s => ({ id: s.id, dir: s.dir }));
+    tablePaginationState.currentPage = 0;
+
+    collapsedColumns.clear();
+    view.collapsedColumns.forEach(key => collapsedColumns.add(key));
+
+    // Persists state and re-renders with the new filters
+    setViewMode(view.viewMode);
+    toast(`Applied view "${view.name}"`);
+}
+
+function renderSavedViewsList() {
+    if (!savedViewsList) return;
+    savedViewsList.innerHTML = '';
+
+    if (savedViews.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'saved-views-empty';
+        empty.textContent = 'No saved views';
+        savedViewsList.appendChild(empty);
+        return;
+    }
+
+    for (const view of savedViews) {
+        const item = document.createElement('div');
+        item.className = 'saved-view-item';
+
+        const applyBtn = document.createElement('button');
+        applyBtn.type = 'button';
+        applyBtn.className = 'saved-view-apply';
+        applyBtn.title = `Apply "${view.name}"`;
+        const name = document.createElement('span');
+        name.textContent = view.name;
+        const scope = document.createElement('span');
+        scope.className = 'saved-view-scope';
+        scope.textContent = view.scope === 'shared' ? 'shared' : 'workspace';
+        applyBtn.append(name, scope);
+        applyBtn.addEventListener('click', () => {
+            savedViewsDropdown.classList.add('hidden');
+            applySavedView(view);
+        });
+
+        const deleteBtn = document.createElement('button');
+        deleteBtn.type = 'button';
+        deleteBtn.className = 'saved-view-delete';
+        deleteBtn.title = `Delete "${view.name}"`;
+        deleteBtn.setAttribute('aria-label', `Delete saved view ${view.name}`);
+        deleteBtn.textContent = '×';
+        deleteBtn.addEventListener('click', () => {
+            // The extension asks for confirmation and replies with the updated list
+            post('views.delete', { name: view.name, scope: view.scope });
+        });
+
+        item.append(applyBtn, deleteBtn);
+        savedViewsList.appendChild(item);
+    }
+}
+
+if (savedViewsBtn && savedViewsDropdown) {
+    savedViewsBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        savedViewsDropdown.classList.toggle('hidden');
+    });
+
+    document.addEventListener('click', (e) => {
+        if (!savedViewsDropdown.contains(e.target) && e.target !== savedViewsBtn) {
+            savedViewsDropdown.classList.add('hidden');
+        }
+    });
+
+    saveViewBtn.addEventListener('click', () => {
+        savedViewsDropdown.classList.add('hidden');
+        // Not postAsync: the extension waits on name/scope prompts, which can outlast the request timeout
+        post('views.save', { view: captureViewState() });
+    });
+
+    renderSavedViewsList();
+}
+
 // Keyboard shortcuts
 document.addEventListener("keydown", (e) => {
     // Detect platform-specific modifier key
@@ -2347,6 +3789,13 @@ document.addEventListener("keydown", (e) => {
         requestDetailClose();
         return;
     }
+
+    // Escape: Clear multi-selection
+    if (e.key === 'Escape' && selectedIds.size > 0) {
+        e.preventDefault();
+        clearSelection();
+        return;
+    }
     
     // Don't trigger other shortcuts while typing (unless it's Escape)
     if (isTyping && e.key !== 'Escape') {
@@ -2358,6 +3807,13 @@ document.addEventListener("keydown", (e) => {
         }
     }
     
+    // Ctrl/Cmd+Z: Undo, Ctrl/Cmd+Shift+Z: Redo
+    if (modKey && e.key.toLowerCase() === 'z' && !detDialog.open) {
+        e.preventDefault();
+        replayHistory(e.shiftKey ? 'redo' : 'undo');
+        return;
+    }
+
     // Ctrl/Cmd+R: Refresh board
     if (modKey && e.key.toLowerCase() === 'r') {
         e.preventDefault();
@@ -2382,6 +3838,37 @@ document.addEventListener("keydown", (e) => {
     }
 });
 
+// Rebuild columnState (and legacy boardData) from a flat list of cards
+function distributeCardsToColumns(cards) {
+    columnState = {};
+    for (const { key: col } of columns) {
+        columnState[col] = {
+            cards: [],
+            offset: 0,
+            totalCount: 0,
+            hasMore: false,
+            loading: false
+        };
+    }
+
+    for (const card of cards) {
+        const col = columnForCard(card);
+        if (columnState[col]) {
+            columnState[col].cards.push(card);
+        }
+    }
+
+    for (const { key: col } of columns) {
+        columnState[col].totalCount = columnState[col].cards.length;
+    }
+
+    // Maintain backward compatibility with boardData
+    boardData = {
+        columns: columns,
+        cards: cards
+    };
+}
+
 window.addEventListener("message", (event) => {
     const msg = event.data;
     if (!msg || !msg.type) {
@@ -2392,6 +3879,8 @@ window.addEventListener("message", (event) => {
     // Handle cleanup message from extension (for proper disposal)
     if (msg.type === "webview.cleanup") {
         cleanupPendingRequests();
+        clearInterval(agentsTimer);
+        agentsTimer = null;
         return;
     }
 
@@ -2407,6 +3896,10 @@ window.addEventListener("message", (event) => {
         cardCache.clear();
         cardStateLevel.clear();
 
+        // board.data is not versioned; the extension sends a full board.minimal before the next delta
+        boardVersion = null;
+        if (msg.requestId) settleOptimistic(msg.requestId);
+
         // Support both legacy flat cards array and new columnData structure
         if (msg.payload.columnData) {
             // New incremental loading format
@@ -2422,7 +3915,8 @@ window.addEventListener("message", (event) => {
             }
 
             // Initialize columnState from columnData
-            for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
+            columnState = {};
+            for (const { key: col } of columns) {
                 const data = msg.payload.columnData[col];
                 if (data && typeof data === 'object') {
                     columnState[col] = {
@@ -2445,7 +3939,8 @@ window.addEventListener("message", (event) => {
             const cards = Array.isArray(msg.payload.cards) ? msg.payload.cards : [];
 
             // Distribute cards into columns
-            for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
+            columnState = {};
+            for (const { key: col } of columns) {
                 columnState[col] = {
                     cards: [],
                     offset: 0,
@@ -2468,7 +3963,7 @@ window.addEventListener("message", (event) => {
             }
 
             // Update counts
-            for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
+            for (const { key: col } of columns) {
                 columnState[col].totalCount = columnState[col].cards.length;
             }
         }
@@ -2499,57 +3994,105 @@ window.addEventListener("message", (event) => {
         
         const cards = msg.payload.cards || [];
         
-        // Initialize columns with default kanban columns
-        columns = [
-            { key: "ready", title: "Ready" },
-            { key: "in_progress", title: "In Progress" },
-            { key: "blocked", title: "Blocked" },
-            { key: "closed", title: "Closed" }
-        ];
+        // Columns configured for this board (board.config arrives first)
+        columns = columnDefinitions.map(({ key, title }) => ({ key, title }));
         
         // Phase 2: Populate cardCache with all MinimalCard data
         cardCache.clear();
         cardStateLevel.clear();
         for (const card of cards) {
-            cardCache.set(card.id, card);
+            cardCache.set(card.id, optimistic.reconcile(card));
             cardStateLevel.set(card.id, 'minimal');
         }
+        if (msg.requestId) settleOptimistic(msg.requestId);
 
+        boardVersion = typeof msg.payload.version === 'number' ? msg.payload.version : null;
+        resyncRequested = false;
+        currentActor = typeof msg.payload.actor === 'string' ? msg.payload.actor : null;
+
+        distributeCardsToColumns(Array.from(cardCache.values()));
+
+        // A full board (refresh, repository switch) reloads the Activity and Agents views too
+        if (viewMode === 'activity' && !activityLoading) activityEntries = null;
+        if (viewMode === 'agents') loadAgents();
         
-        // Initialize columnState by distributing cards into columns
-        for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
-            columnState[col] = {
-                cards: [],
-                offset: 0,
-                totalCount: 0,
-                hasMore: false,
-                loading: false
-            };
-        }
+        render();
+        hideLoading();
         
-        // Distribute cards into appropriate columns
-        for (const card of cards) {
-            const col = columnForCard(card);
-            if (columnState[col]) {
-                columnState[col].cards.push(card);
+        // Resolve any pending request waiting for board data
+        if (msg.requestId && pendingRequests.has(msg.requestId)) {
+            const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
+            if (timeoutId) {
+                clearTimeout(timeoutId);
             }
+            pendingRequests.delete(msg.requestId);
+            resolve(msg.payload);
         }
-        
-        // Update counts
-        for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
-            columnState[col].totalCount = columnState[col].cards.length;
+        return;
+    }
+
+    if (msg.type === "history.recorded") {
+        toast(msg.payload?.label || 'Change saved', 'Undo', undoLastMutation);
+        // Sent just before mutation.ok, so a success toast shown right after keeps the Undo action
+        undoOffer = { at: Date.now() };
+        return;
+    }
+
+    if (msg.type === "board.config") {
+        const nextColumns = Array.isArray(msg.payload?.columns) && msg.payload.columns.length > 0
+            ? msg.payload.columns
+            : DEFAULT_COLUMNS;
+        const nextWip = msg.payload?.wip || { limits: {}, strict: false };
+        const nextWispDays = typeof msg.payload?.wispCollapseDays === 'number' ? msg.payload.wispCollapseDays : DEFAULT_WISP_COLLAPSE_DAYS;
+        const columnsChanged = JSON.stringify(nextColumns) !== JSON.stringify(columnDefinitions);
+        if (!columnsChanged && JSON.stringify(nextWip) === JSON.stringify(wipConfig) && nextWispDays === wispCollapseDays) {
+            return;
+        }
+        columnDefinitions = nextColumns;
+        wipConfig = nextWip;
+        wispCollapseDays = nextWispDays;
+        if (columnsChanged && boardVersion !== null) {
+            // Re-place the cached cards now; the board that follows confirms them
+            columns = columnDefinitions.map(({ key, title }) => ({ key, title }));
+            distributeCardsToColumns(Array.from(cardCache.values()));
         }
-        
-        // Maintain backward compatibility with boardData
-        boardData = {
-            columns: columns,
-            cards: cards
-        };
-        
         render();
-        hideLoading();
-        
-        // Resolve any pending request waiting for board data
+        return;
+    }
+
+    // Incremental update after a mutation or external change: only changed cards are sent
+    if (msg.type === "board.delta") {
+        const delta = msg.payload;
+        if (!delta || typeof delta !== 'object' || typeof delta.version !== 'number') {
+            console.error('Invalid board.delta payload');
+            return;
+        }
+
+        // Missed a delta (or never got a versioned board): the cache can't be patched safely
+        const applied = applyBoardDelta(cardCache, optimistic, boardVersion, msg);
+        if (!applied) {
+            console.warn(`board.delta gap: have v${boardVersion}, delta is v${delta.baseVersion} -> v${delta.version}`);
+            if (!resyncRequested) {
+                resyncRequested = true;
+                post('board.resync');
+            }
+            return;
+        }
+
+        for (const id of applied.removed) {
+            cardStateLevel.delete(id);
+        }
+        // Full details of a changed card are stale; loadFullIssue fetches them again
+        for (const id of applied.updated) {
+            cardStateLevel.set(id, 'minimal');
+        }
+
+        boardVersion = delta.version;
+        distributeCardsToColumns(Array.from(cardCache.values()));
+        // Agent state lives on agent beads, so any change may concern the Agents view
+        if (viewMode === 'agents') loadAgents();
+        render();
+
         if (msg.requestId && pendingRequests.has(msg.requestId)) {
             const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
             if (timeoutId) {
@@ -2616,8 +4159,28 @@ window.addEventListener("message", (event) => {
         return;
     }
 
+    if (msg.type === "issue.conflict") {
+        // issue.update refused: the issue changed since the edit form loaded it
+        if (msg.requestId) restoreOptimistic(msg.requestId);
+        if (msg.requestId && pendingRequests.has(msg.requestId)) {
+            const { reject, timeoutId } = pendingRequests.get(msg.requestId);
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+            pendingRequests.delete(msg.requestId);
+            const err = new Error('The issue was changed by someone else');
+            err.conflict = msg.payload?.card;
+            reject(err);
+        }
+        return;
+    }
+
     if (msg.type === "mutation.error") {
-        toast(msg.error || "Operation failed.");
+        if (msg.requestId && optimistic.isPending(msg.requestId)) {
+            rollbackOptimistic(msg.requestId, msg.error, msg.code);
+        } else {
+            toast(msg.error || "Operation failed.");
+        }
         
         // Reject pending request
         if (msg.requestId && pendingRequests.has(msg.requestId)) {
@@ -2648,6 +4211,68 @@ window.addEventListener("message", (event) => {
         return;
     }
 
+    if (msg.type === "pins.data") {
+        pinnedCards = Array.isArray(msg.payload?.cards) ? msg.payload.cards : [];
+        renderPinnedStrip();
+        return;
+    }
+
+    if (msg.type === "templates.data" || msg.type === "templates.detail") {
+        if (msg.requestId && pendingRequests.has(msg.requestId)) {
+            const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+            pendingRequests.delete(msg.requestId);
+            resolve(msg);
+        }
+        return;
+    }
+
+    if (msg.type === "agents.data") {
+        if (msg.requestId && pendingRequests.has(msg.requestId)) {
+            const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+            pendingRequests.delete(msg.requestId);
+            resolve(msg);
+        }
+        return;
+    }
+
+    if (msg.type === "activity.data") {
+        if (msg.requestId && pendingRequests.has(msg.requestId)) {
+            const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+            pendingRequests.delete(msg.requestId);
+            resolve(msg);
+        }
+        return;
+    }
+
+    if (msg.type === "activity.append") {
+        if (activityEntries !== null) {
+            activityEntries = mergeActivity(activityEntries, msg.payload.entries || []);
+            if (viewMode === 'activity') renderActivity();
+        }
+        return;
+    }
+
+    if (msg.type === "issue.history") {
+        if (msg.requestId && pendingRequests.has(msg.requestId)) {
+            const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+            pendingRequests.delete(msg.requestId);
+            resolve(msg);
+        }
+        return;
+    }
+
     // Phase 2: Handle issue.full response (full card details)
     if (msg.type === "issue.full") {
 
@@ -2665,7 +4290,22 @@ window.addEventListener("message", (event) => {
         return;
     }
 
+    if (msg.type === "views.data") {
+        savedViews = msg.payload.views || [];
+        renderSavedViewsList();
+        return;
+    }
+
+    // Sent by the "Beads: Apply Saved View" command
+    if (msg.type === "views.apply") {
+        applySavedView(msg.payload.view);
+        return;
+    }
+
     if (msg.type === "mutation.ok") {
+        // The board update for this request follows and settles any optimistic change
+        if (msg.requestId) optimistic.confirm(msg.requestId);
+
         // Resolve pending request
         if (msg.requestId && pendingRequests.has(msg.requestId)) {
             const { resolve, timeoutId } = pendingRequests.get(msg.requestId);
@@ -2674,7 +4314,7 @@ window.addEventListener("message", (event) => {
                 clearTimeout(timeoutId);
             }
             pendingRequests.delete(msg.requestId);
-            resolve();
+            resolve(msg.payload);
         }
         return;
     }
@@ -2722,10 +4362,300 @@ async function loadFullIssue(issueId) {
     }
 }
 
+// Edit form input for each field of a three-way merge (see src/issueMerge.ts)
+const MERGE_FIELD_INPUTS = {
+    title: { selector: '#editTitle', label: 'Title' },
+    status: { selector: '#editStatus', label: 'Status' },
+    issue_type: { selector: '#editType', label: 'Type' },
+    priority: { selector: '#editPriority', label: 'Priority' },
+    assignee: { selector: '#editAssignee', label: 'Assignee' },
+    estimated_minutes: { selector: '#editEst', label: 'Estimate' },
+    external_ref: { selector: '#editExtRef', label: 'External ref' },
+    due_at: { selector: '#editDueAt', label: 'Due', date: true },
+    defer_until: { selector: '#editDeferUntil', label: 'Defer until', date: true },
+    description: { selector: '#editDesc', label: 'Description' },
+    acceptance_criteria: { selector: '#editAC', label: 'Acceptance criteria' },
+    design: { selector: '#editDesign', label: 'Design' },
+    notes: { selector: '#editNotes', label: 'Notes' }
+};
+
+function formatMergeValue(field, value) {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if (MERGE_FIELD_INPUTS[field]?.date) {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+    }
+    const text = String(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+// Show the fields changed elsewhere while the dialog was open. Changes that do not
+// clash with the form are taken as is; for conflicts the user keeps theirs or mine.
+// Applying writes the chosen values into the form and makes `latest` the version
+// the next save is checked against (onApplied); the user then saves again.
+function showMergePanel(form, merge, latest, onApplied) {
+    form.querySelector('#mergePanel')?.remove();
+
+    const panel = document.createElement('div');
+    panel.id = 'mergePanel';
+    panel.className = 'merge-panel';
+
+    const conflicts = merge.changes.filter(c => c.conflict).length;
+    const intro = document.createElement('p');
+    intro.textContent = conflicts > 0
+        ? `This issue was changed while you were editing. ${conflicts} field${conflicts > 1 ? 's conflict' : ' conflicts'} with your edits; choose which value to keep.`
+        : 'This issue was changed while you were editing. Their changes below will be merged into your edits.';
+    panel.appendChild(intro);
+
+    const table = document.createElement('table');
+    table.className = 'merge-table';
+    table.innerHTML = '<thead><tr><th>Field</th><th>Yours</th><th>Theirs</th></tr></thead>';
+    const tbody = document.createElement('tbody');
+    for (const change of merge.changes) {
+        const row = document.createElement('tr');
+        if (change.conflict) row.className = 'merge-conflict';
+
+        const name = document.createElement('td');
+        name.textContent = MERGE_FIELD_INPUTS[change.field]?.label || change.field;
+        row.appendChild(name);
+
+        for (const side of ['mine', 'theirs']) {
+            const cell = document.createElement('td');
+            const value = document.createElement('span');
+            value.className = 'merge-value';
+            value.textContent = formatMergeValue(change.field, change[side]);
+            value.title = String(change[side] ?? '');
+            if (change.conflict) {
+                const choice = document.createElement('label');
+                const radio = document.createElement('input');
+                radio.type = 'radio';
+                radio.name = `merge-${change.field}`;
+                radio.value = side;
+                radio.checked = side === 'mine';
+                choice.append(radio, value);
+                cell.appendChild(choice);
+            } else {
+                // Only their side changed the field
+                if (side === 'mine') value.classList.add('merge-unchanged');
+                cell.appendChild(value);
+            }
+            row.appendChild(cell);
+        }
+        tbody.appendChild(row);
+    }
+    table.appendChild(tbody);
+    panel.appendChild(table);
+
+    const actions = document.createElement('div');
+    actions.className = 'merge-actions';
+    const applyBtn = document.createElement('button');
+    applyBtn.type = 'button';
+    applyBtn.className = 'btn';
+    applyBtn.textContent = 'Apply merge';
+    const cancelBtn = document.createElement('button');
+    cancelBtn.type = 'button';
+    cancelBtn.className = 'btn';
+    cancelBtn.textContent = 'Cancel';
+    actions.append(applyBtn, cancelBtn);
+    panel.appendChild(actions);
+
+    applyBtn.onclick = () => {
+        for (const change of merge.changes) {
+            const useTheirs = !change.conflict ||
+                panel.querySelector(`input[name="merge-${change.field}"]:checked`)?.value === 'theirs';
+            const input = MERGE_FIELD_INPUTS[change.field];
+            const el = input && form.querySelector(input.selector);
+            if (!el) continue;
+            const value = useTheirs ? change.theirs : change.mine;
+            el.value = input.date ? toLocalDateTimeInput(value) : (value ?? '');
+        }
+        onApplied(latest);
+        detailDirty = true;
+        panel.remove();
+        toast('Merged with the latest version. Review and save.');
+    };
+    cancelBtn.onclick = () => panel.remove();
+
+    const header = form.querySelector('#editFormHeader');
+    if (header) {
+        header.after(panel);
+    } else {
+        form.prepend(panel);
+    }
+    panel.scrollIntoView({ block: 'nearest' });
+}
+
+// Event kinds from the beads event log (see src/issueEvents.ts)
+const HISTORY_KIND_LABELS = {
+    created: 'Created',
+    updated: 'Updated',
+    status_changed: 'Status changed',
+    commented: 'Commented',
+    closed: 'Closed',
+    reopened: 'Reopened',
+    dependency_added: 'Dependency added',
+    dependency_removed: 'Dependency removed',
+    label_added: 'Label added',
+    label_removed: 'Label removed',
+    compacted: 'Compacted'
+};
+
+// Shown above a history bd rebuilt from the issue (see getIssueHistory): it is not the event log
+const PARTIAL_HISTORY_NOTE = 'Partial history: bd does not print its event log, so only creation, comments and closing are shown, without field changes. Set beadsKanban.dataSource to "direct" to read the full history from the database.';
+
+// Shown above a feed bd rebuilt from the issue list (see activityFromIssues)
+const PARTIAL_ACTIVITY_NOTE = 'Partial activity: bd does not print its event log, so each issue shows only its creation, last update and closing, without field changes, comments, moves or dependency changes. Set beadsKanban.dataSource to "direct" to read the full feed from the database.';
+
+// Events of the issue shown in the History tab; null until the tab is opened
+let historyEvents = null;
+let historyIssueId = null;
+
+function formatHistoryValue(value) {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+function renderHistoryList(form) {
+    const list = form.querySelector('#historyList');
+    if (!list) return;
+    list.innerHTML = '';
+    if (!historyEvents) {
+        list.innerHTML = '<div class="muted-note">Loading history...</div>';
+        return;
+    }
+    if (historyEvents.some(e => e.rebuilt)) {
+        const note = document.createElement('div');
+        note.className = 'history-partial-note';
+        note.textContent = PARTIAL_HISTORY_NOTE;
+        list.appendChild(note);
+    }
+    const kind = form.querySelector('#historyKindFilter')?.value || '';
+    const events = kind ? historyEvents.filter(e => e.kind === kind) : historyEvents;
+    if (events.length === 0) {
+        list.insertAdjacentHTML('beforeend', '<div class="muted-note">No events recorded.</div>');
+        return;
+    }
+    for (const event of events) {
+        const entry = document.createElement('div');
+        entry.className = 'history-entry';
+
+        const head = document.createElement('div');
+        head.className = 'history-entry-head';
+        const badge = document.createElement('span');
+        badge.className = `history-kind history-kind-${event.kind}`;
+        badge.textContent = HISTORY_KIND_LABELS[event.kind] || event.kind;
+        const actor = document.createElement('span');
+        actor.className = 'history-actor';
+        actor.textContent = event.actor;
+        const time = document.createElement('span');
+        time.className = 'history-time';
+        const date = new Date(event.created_at);
+        time.textContent = Number.isNaN(date.getTime()) ? event.created_at : date.toLocaleString();
+        time.title = event.created_at;
+        head.append(badge, actor, time);
+        entry.appendChild(head);
+
+        if (event.changes.length > 0) {
+            const table = document.createElement('table');
+            table.className = 'history-diff';
+            for (const change of event.changes) {
+                const row = table.insertRow();
+                row.insertCell().textContent = change.field;
+                const before = row.insertCell();
+                before.className = 'history-before';
+                before.textContent = formatHistoryValue(change.before);
+                row.insertCell().textContent = '→';
+                const after = row.insertCell();
+                after.className = 'history-after';
+                after.textContent = formatHistoryValue(change.after);
+            }
+            entry.appendChild(table);
+        }
+        if (event.comment) {
+            const comment = document.createElement('div');
+            comment.className = 'history-comment';
+            comment.textContent = event.comment;
+            entry.appendChild(comment);
+        }
+        list.appendChild(entry);
+    }
+}
+
+// Kinds in the filter are the ones the issue actually has
+function refreshHistoryKindFilter(form) {
+    const select = form.querySelector('#historyKindFilter');
+    if (!select) return;
+    const current = select.value;
+    const kinds = [...new Set((historyEvents || []).map(e => e.kind))];
+    select.innerHTML = '<option value="">All events</option>';
+    for (const kind of kinds) {
+        const option = document.createElement('option');
+        option.value = kind;
+        option.textContent = HISTORY_KIND_LABELS[kind] || kind;
+        select.appendChild(option);
+    }
+    select.value = kinds.includes(current) ? current : '';
+}
+
+async function loadIssueHistory(form, issueId) {
+    historyEvents = null;
+    historyIssueId = issueId;
+    renderHistoryList(form);
+    try {
+        const response = await postAsync('issue.getHistory', { id: issueId }, 'Loading history...');
+        if (historyIssueId !== issueId) return; // dialog moved on to another issue
+        historyEvents = response.payload?.events || [];
+    } catch (error) {
+        if (historyIssueId !== issueId) return;
+        historyEvents = [];
+        toast('Failed to load history: ' + error.message);
+    }
+    refreshHistoryKindFilter(form);
+    renderHistoryList(form);
+}
+
+// Details / History tabs. History is fetched each time the tab is opened so it
+// includes changes made while the dialog was open.
+function setupDetailTabs(form, card, isCreateMode) {
+    const tabs = form.querySelector('#detailTabs');
+    const container = form.querySelector('.edit-form-container');
+    const panel = form.querySelector('#historyPanel');
+    if (!tabs || !container || !panel) return;
+
+    const showTab = (name) => {
+        const history = name === 'history';
+        container.classList.toggle('history-mode', history);
+        panel.classList.toggle('hidden', !history);
+        tabs.querySelectorAll('.detail-tab').forEach(tab => {
+            const active = tab.dataset.tab === name;
+            tab.classList.toggle('active', active);
+            tab.setAttribute('aria-selected', String(active));
+        });
+        if (history) loadIssueHistory(form, card.id);
+    };
+
+    historyEvents = null;
+    historyIssueId = null;
+    tabs.classList.toggle('hidden', isCreateMode);
+    tabs.querySelectorAll('.detail-tab').forEach(tab => {
+        tab.onclick = () => showTab(tab.dataset.tab);
+    });
+    const filter = form.querySelector('#historyKindFilter');
+    if (filter) {
+        filter.value = '';
+        filter.onchange = () => renderHistoryList(form);
+    }
+    showTab('details');
+}
+
 // ============================================================================
 // STATIC FORM POPULATION - Populates the static HTML form with card data
 // ============================================================================
 function populateStaticEditForm(form, card, isCreateMode) {
+    // A merge panel belongs to the previous edit session
+    form.querySelector('#mergePanel')?.remove();
+
     // Helper functions
     const setVal = (sel, val) => { const el = form.querySelector(sel); if (el) el.value = val ?? ''; };
     const setChk = (sel, val) => { const el = form.querySelector(sel); if (el) el.checked = !!val; };
@@ -2943,7 +4873,7 @@ function refreshStaticFormIssueDatalist(form, card) {
     if (!datalist) return;
     
     const allCards = [];
-    for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
+    for (const { key: col } of columns) {
         if (columnState[col]?.cards) allCards.push(...columnState[col].cards);
     }
     
@@ -3010,7 +4940,7 @@ async function openDetail(card) {
     
     // Collect all cards from columnState for the datalist
     const allCards = [];
-    for (const col of ['ready', 'in_progress', 'blocked', 'closed']) {
+    for (const { key: col } of columns) {
         if (columnState[col]?.cards) {
             allCards.push(...columnState[col].cards);
         }
@@ -3283,6 +5213,7 @@ async function openDetail(card) {
     // STATIC FORM FIX: Instead of rebuilding HTML, populate static form fields
     // The form HTML is now defined statically in webview.ts
     populateStaticEditForm(form, card, isCreateMode);
+    setupDetailTabs(form, card, isCreateMode);
 
     detailDirty = false;
     const dirtyFieldIds = [
@@ -3391,16 +5322,25 @@ async function openDetail(card) {
                         toast("Issue created successfully");
                     }
                 } else {
-                    // Update existing issue
-                    await postAsync("issue.update", { id: card.id, updates: data }, "Saving changes...");
+                    // Update existing issue; the ephemeral and pinned flags are only sent when they changed
+                    if (data.ephemeral === Boolean(card.ephemeral)) delete data.ephemeral;
+                    if (data.pinned === Boolean(card.pinned)) delete data.pinned;
+                    await saveIssueEdits(card, data);
                     toast("Changes saved successfully");
                 }
                 detailDirty = false;
                 detDialog.close();
             } catch (err) {
-                // Show error feedback (mutation.error toast or timeout/network error)
-
-                toast(`Failed to ${isCreateMode ? 'create issue' : 'save changes'}: ${err.message}`);
+                if (err.merge) {
+                    // Changed elsewhere since the dialog opened: merge before saving again
+                    showMergePanel(form, err.merge, err.conflict, (latest) => { card = latest; });
+                    return;
+                }
+                // Show error feedback (mutation.error toast or timeout/network error).
+                // A failed edit of a cached card was already reverted with a toast.
+                if (isCreateMode || !err.rolledBack) {
+                    toast(`Failed to ${isCreateMode ? 'create issue' : 'save changes'}: ${err.message}`);
+                }
             }
         } else {
             toast("Title is required");
@@ -3921,3 +5861,4 @@ ${card.design || 'None'}
 
 
 post("board.loadMinimal");
+post("views.list");
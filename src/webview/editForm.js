@@ -931,7 +931,8 @@ async function handleSave(e) {
                 toast("Issue created successfully");
             }
         } else {
-            await postAsync("issue.update", { id: currentCard.id, updates: data }, "Saving changes...");
+            // Refused with issue.conflict if the issue changed since it was loaded
+            await postAsync("issue.update", { id: currentCard.id, updates: data, expectedUpdatedAt: currentCard.updated_at }, "Saving changes...");
             toast("Changes saved successfully");
         }
 
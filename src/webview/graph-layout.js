@@ -1,8 +1,13 @@
 /**
  * BFS-based hierarchical layout algorithm for dependency graphs
  * Assigns nodes to layers based on dependency depth and calculates positions
+ *
+ * computeLayout also dispatches to the other engines (src/graphLayouts.ts).
+ * Everything here is DOM-free so it can run in the layout worker.
  */
 
+import { forceLayout, radialLayout, sugiyamaLayout } from '../graphLayouts';
+
 /**
  * Find root nodes (nodes with no incoming edges)
  * @param {Array} nodes - Array of graph nodes
@@ -256,6 +261,39 @@ export function computeHierarchicalLayout(graphData, options = {}) {
   };
 }
 
+/**
+ * Compute a layout with the engine named in options.engine
+ * ('hierarchical' by default, 'sugiyama', 'force' or 'radial')
+ * @param {Object} graphData - Graph data with nodes and edges
+ * @param {Object} options - Layout options, plus centerNodeId for radial
+ * @returns {Object} Layout result shaped like computeHierarchicalLayout's
+ */
+export function computeLayout(graphData, options = {}) {
+  const { engine = 'hierarchical' } = options;
+  const { nodes, edges } = graphData;
+
+  if (engine === 'hierarchical' || !nodes || nodes.length === 0) {
+    return computeHierarchicalLayout(graphData, options);
+  }
+
+  const cycleNodes = detectCycles(buildAdjacencyMap(edges), nodes);
+  const ids = nodes.map(node => node.id);
+  const layout = engine === 'force' ? forceLayout
+    : engine === 'radial' ? radialLayout
+    : sugiyamaLayout;
+  const { positions, metadata } = layout(ids, edges, options);
+
+  const byId = new Map(positions.map(position => [position.id, position]));
+  for (const node of nodes) {
+    const position = byId.get(node.id);
+    node.x = position.x;
+    node.y = position.y;
+    node.layer = position.layer;
+  }
+
+  return { nodes, edges, cycleNodes, metadata };
+}
+
 /**
  * Filter graph to focus on a specific node and its dependencies
  * @param {Object} graphData - Graph data with nodes and edges
@@ -3,12 +3,26 @@
  * Renders nodes and edges for dependency graphs with drag-and-drop support
  */
 
-import { computeHierarchicalLayout, focusOnNode } from './graph-layout.js';
+import { computeLayout, focusOnNode } from './graph-layout.js';
+import { parseWaiters } from '../gates';
+import { clusterProgress, collapseClusters, epicClusters } from '../graphClusters';
+import { toDot, toMermaid } from '../graphExport';
 
 const NODE_WIDTH = 200;
 const NODE_HEIGHT = 80;
 const NODE_PADDING = 10;
 const ARROW_SIZE = 8;
+const CLUSTER_PADDING = 16;
+const CLUSTER_HEADER = 22;
+const EXPORT_PADDING = 20;
+const EXPORT_MAX_PIXELS = 8192; // Longest PNG side; browsers refuse larger canvases
+
+// Computed style properties copied onto every element of an exported SVG
+const EXPORT_STYLE_PROPERTIES = [
+  'display', 'visibility', 'opacity',
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline'
+];
 
 export class GraphView {
   constructor(container, options = {}) {
@@ -21,6 +35,7 @@ export class GraphView {
     };
 
     this.svg = null;
+    this.clustersGroup = null;
     this.edgesGroup = null;
     this.nodesGroup = null;
     this.transform = { x: 0, y: 0, scale: 1 };
@@ -30,6 +45,15 @@ export class GraphView {
     this.currentEdges = []; // Store current edges for updates
     this.rubberBandState = null; // For rubber band selection
     this.contextMenu = null; // Context menu element
+    this.layoutWorker = null; // Promise of the layout Web Worker (null inside once it has failed)
+    this.layoutRequests = new Map(); // Worker request id -> { resolve, reject }
+    this.nextLayoutRequestId = 1;
+    this.graphData = { nodes: [], edges: [] }; // Graph after focus filtering, before clusters fold
+    this.layoutOptions = {};
+    this.clusters = new Map(); // Epic id -> descendant ids (when grouping by epic)
+    this.expandedClusters = new Set(); // Epics drawn open; all others are folded
+    this.representative = new Map(); // Hidden node id -> epic it is folded into
+    this.cycleNodes = new Set();
 
     this.init();
   }
@@ -50,7 +74,11 @@ export class GraphView {
     // Create arrow marker definitions
     this.createArrowMarkers();
 
-    // Create groups for edges and nodes (edges rendered first, below nodes)
+    // Create groups for cluster boxes, edges and nodes (drawn in that order, bottom to top)
+    this.clustersGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    this.clustersGroup.setAttribute('class', 'clusters-group');
+    this.svg.appendChild(this.clustersGroup);
+
     this.edgesGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
     this.edgesGroup.setAttribute('class', 'edges-group');
     this.svg.appendChild(this.edgesGroup);
@@ -78,6 +106,14 @@ export class GraphView {
     const markerBlockedBy = this.createMarker('arrow-blocked-by', 'var(--vscode-charts-orange)');
     defs.appendChild(markerBlockedBy);
 
+    // Arrow marker for gate waiters
+    const markerWaits = this.createMarker('arrow-waits', 'var(--vscode-charts-purple)');
+    defs.appendChild(markerWaits);
+
+    // Arrow marker for critical path edges
+    const markerCritical = this.createMarker('arrow-critical', 'var(--vscode-charts-blue)');
+    defs.appendChild(markerCritical);
+
     this.svg.appendChild(defs);
   }
 
@@ -106,7 +142,7 @@ export class GraphView {
 
     this.svg.addEventListener('mousedown', (e) => {
       // Rubber band selection with Shift key on empty canvas
-      if (e.shiftKey && (e.target === this.svg || e.target === this.edgesGroup || e.target === this.nodesGroup)) {
+      if (e.shiftKey && (e.target === this.svg || e.target === this.clustersGroup || e.target === this.edgesGroup || e.target === this.nodesGroup)) {
         const svgPoint = this.getSVGPoint(e);
         this.rubberBandState = {
           startX: svgPoint.x,
@@ -120,7 +156,7 @@ export class GraphView {
         selectionRect.setAttribute('class', 'selection-rectangle');
         this.svg.appendChild(selectionRect);
         e.preventDefault();
-      } else if (e.target === this.svg || e.target === this.edgesGroup || e.target === this.nodesGroup) {
+      } else if (e.target === this.svg || e.target === this.clustersGroup || e.target === this.edgesGroup || e.target === this.nodesGroup) {
         // Pan on empty canvas without Shift
         isPanning = true;
         startPoint = { x: e.clientX - this.transform.x, y: e.clientY - this.transform.y };
@@ -272,6 +308,7 @@ export class GraphView {
     const transform = `translate(${this.transform.x}, ${this.transform.y}) scale(${this.transform.scale})`;
     this.nodesGroup.setAttribute('transform', transform);
     this.edgesGroup.setAttribute('transform', transform);
+    this.clustersGroup.setAttribute('transform', transform);
   }
 
   zoom(factor) {
@@ -336,7 +373,7 @@ export class GraphView {
     this.applyTransform();
   }
 
-  render(cards, layoutOptions = {}) {
+  async render(cards, layoutOptions = {}) {
     // Build graph data from cards
     const graphData = this.buildGraphData(cards);
 
@@ -350,49 +387,307 @@ export class GraphView {
       );
     }
 
-    // Compute layout
-    const layout = computeHierarchicalLayout(filteredData, {
+    this.graphData = filteredData;
+    this.layoutOptions = layoutOptions;
+    this.clusters = layoutOptions.clusterEpics
+      ? epicClusters(filteredData.nodes, filteredData.edges)
+      : new Map();
+
+    // Compute layout (in the layout worker when it is available)
+    const layout = await this.computeLayout(this.visibleGraph(), this.layoutSettings(layoutOptions));
+    this.cycleNodes = layout.cycleNodes;
+    this.draw(layout.nodes, layout.edges);
+
+    // Set up SVG viewBox to allow scrolling/panning beyond initial viewport
+    this.setupViewBox(layout.nodes);
+
+    // Note: centerView is NOT called here - viewBox with xMidYMid meet handles centering
+    // User can manually click "Center View" button if needed
+    // this.centerView(layout.nodes);
+
+    return layout;
+  }
+
+  layoutSettings(layoutOptions) {
+    return {
+      engine: layoutOptions.engine || 'hierarchical',
       direction: layoutOptions.direction || 'TB',
       nodeWidth: NODE_WIDTH,
       nodeHeight: NODE_HEIGHT,
       horizontalSpacing: layoutOptions.horizontalSpacing || 250,
-      verticalSpacing: layoutOptions.verticalSpacing || 120
-    });
+      verticalSpacing: layoutOptions.verticalSpacing || 120,
+      centerNodeId: layoutOptions.focusNodeId || Array.from(this.selectedNodeIds)[0] || null
+    };
+  }
 
+  // The graph with every epic cluster that is not expanded folded into its epic
+  visibleGraph() {
+    const collapsed = Array.from(this.clusters.keys()).filter(id => !this.expandedClusters.has(id));
+    const visible = collapseClusters(this.graphData, this.clusters, collapsed);
+    this.representative = visible.representative;
+    return visible;
+  }
+
+  draw(nodes, edges) {
     // Store nodes and edges for drag updates
-    this.currentNodes = layout.nodes;
-    this.currentEdges = layout.edges;
+    this.currentNodes = nodes;
+    this.currentEdges = edges;
 
     // Clear existing content
-    while (this.edgesGroup.firstChild) {
-      this.edgesGroup.removeChild(this.edgesGroup.firstChild);
+    for (const group of [this.clustersGroup, this.edgesGroup, this.nodesGroup]) {
+      while (group.firstChild) {
+        group.removeChild(group.firstChild);
+      }
     }
-    while (this.nodesGroup.firstChild) {
-      this.nodesGroup.removeChild(this.nodesGroup.firstChild);
+
+    // Critical path (ids from first blocker to target): highlight its nodes and blocking edges.
+    // Issues folded into an epic are stood for by the epic.
+    const criticalPath = (this.layoutOptions.criticalPath || [])
+      .map(id => this.representative.get(id) || id)
+      .filter((id, i, path) => i === 0 || path[i - 1] !== id);
+    const criticalNodes = new Set(criticalPath);
+    const criticalEdges = new Set();
+    for (let i = 1; i < criticalPath.length; i++) {
+      criticalEdges.add(`${criticalPath[i - 1]}->${criticalPath[i]}`);
     }
+    this.svg.classList.toggle('critical-path-active', criticalNodes.size > 0);
+
+    this.drawClusters();
 
     // Render edges
-    for (const edge of layout.edges) {
-      const sourceNode = layout.nodes.find(n => n.id === edge.from);
-      const targetNode = layout.nodes.find(n => n.id === edge.to);
+    for (const edge of edges) {
+      const sourceNode = nodes.find(n => n.id === edge.from);
+      const targetNode = nodes.find(n => n.id === edge.to);
       if (sourceNode && targetNode) {
-        this.renderEdge(edge, sourceNode, targetNode);
+        const isCritical = (edge.type === 'blocks' || edge.type === 'blocked-by') &&
+          criticalEdges.has(`${edge.from}->${edge.to}`);
+        this.renderEdge(edge, sourceNode, targetNode, isCritical);
       }
     }
 
-    // Render nodes
-    for (const node of layout.nodes) {
-      this.renderNode(node, layout.cycleNodes.has(node.id));
+    // Render nodes; folded epics show how far along their descendants are
+    for (const node of nodes) {
+      const members = this.clusters.get(node.id);
+      const progress = members && !this.expandedClusters.has(node.id)
+        ? clusterProgress(this.graphData.nodes, members)
+        : null;
+      this.renderNode(node, this.cycleNodes.has(node.id), criticalNodes.has(node.id), progress);
     }
+  }
 
-    // Set up SVG viewBox to allow scrolling/panning beyond initial viewport
-    this.setupViewBox(layout.nodes);
+  // Bounding box of the visible nodes of an epic's cluster, the epic included
+  clusterBounds(epicId) {
+    const members = new Set([epicId, ...(this.clusters.get(epicId) || [])]);
+    const nodes = this.currentNodes.filter(node => members.has(node.id));
+    if (nodes.length === 0) return null;
+    const x = Math.min(...nodes.map(node => node.x));
+    const y = Math.min(...nodes.map(node => node.y));
+    return {
+      x,
+      y,
+      width: Math.max(...nodes.map(node => node.x)) + NODE_WIDTH - x,
+      height: Math.max(...nodes.map(node => node.y)) + NODE_HEIGHT - y
+    };
+  }
 
-    // Note: centerView is NOT called here - viewBox with xMidYMid meet handles centering
-    // User can manually click "Center View" button if needed
-    // this.centerView(layout.nodes);
+  // Boxes behind expanded clusters, outer ones first, with a header to fold them
+  drawClusters() {
+    while (this.clustersGroup.firstChild) {
+      this.clustersGroup.removeChild(this.clustersGroup.firstChild);
+    }
 
-    return layout;
+    const boxes = [];
+    for (const epicId of this.expandedClusters) {
+      const epic = this.currentNodes.find(node => node.id === epicId);
+      const bounds = this.clusters.has(epicId) && epic ? this.clusterBounds(epicId) : null;
+      if (bounds) {
+        boxes.push({ epic, bounds });
+      }
+    }
+    boxes.sort((a, b) => b.bounds.width * b.bounds.height - a.bounds.width * a.bounds.height);
+
+    for (const { epic, bounds } of boxes) {
+      const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+      g.setAttribute('class', 'graph-cluster');
+      g.setAttribute('data-cluster-id', epic.id);
+
+      const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      rect.setAttribute('class', 'cluster-box');
+      rect.setAttribute('x', bounds.x - CLUSTER_PADDING);
+      rect.setAttribute('y', bounds.y - CLUSTER_PADDING - CLUSTER_HEADER);
+      rect.setAttribute('width', bounds.width + CLUSTER_PADDING * 2);
+      rect.setAttribute('height', bounds.height + CLUSTER_PADDING * 2 + CLUSTER_HEADER);
+      rect.setAttribute('rx', '8');
+      g.appendChild(rect);
+
+      const { closed, total } = clusterProgress(this.graphData.nodes, this.clusters.get(epic.id));
+      const header = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      header.setAttribute('class', 'cluster-toggle');
+      header.setAttribute('x', bounds.x - CLUSTER_PADDING + 8);
+      header.setAttribute('y', bounds.y - CLUSTER_PADDING - 6);
+      header.textContent = `▾ ${this.truncateText(epic.card.title || epic.id, 40)} · ${closed}/${total} closed`;
+      header.addEventListener('mousedown', (e) => e.stopPropagation());
+      header.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.toggleCluster(epic.id);
+      });
+      g.appendChild(header);
+
+      this.clustersGroup.appendChild(g);
+    }
+  }
+
+  /**
+   * Fold or unfold one epic cluster without laying out the whole graph again:
+   * the cluster is laid out on its own where the epic stands, and nodes to the
+   * right of or below it move by however much it grew or shrank.
+   */
+  toggleCluster(epicId) {
+    const epic = this.currentNodes.find(node => node.id === epicId);
+    if (!epic || !this.clusters.has(epicId)) return;
+
+    const expanding = !this.expandedClusters.has(epicId);
+    const oldBox = this.clusterBounds(epicId);
+    if (expanding) {
+      this.expandedClusters.add(epicId);
+    } else {
+      this.expandedClusters.delete(epicId);
+    }
+
+    const visible = this.visibleGraph();
+    const inCluster = new Set([epicId, ...this.clusters.get(epicId)]);
+    let newBox;
+    if (expanding) {
+      const local = {
+        nodes: visible.nodes.filter(node => inCluster.has(node.id)),
+        edges: visible.edges.filter(edge => inCluster.has(edge.from) && inCluster.has(edge.to))
+      };
+      const settings = this.layoutSettings(this.layoutOptions);
+      computeLayout(local, {
+        ...settings,
+        engine: settings.engine === 'sugiyama' ? 'sugiyama' : 'hierarchical'
+      });
+      const minX = Math.min(...local.nodes.map(node => node.x));
+      const minY = Math.min(...local.nodes.map(node => node.y));
+      for (const node of local.nodes) {
+        node.x += oldBox.x - minX;
+        node.y += oldBox.y - minY;
+      }
+      const maxX = Math.max(...local.nodes.map(node => node.x));
+      const maxY = Math.max(...local.nodes.map(node => node.y));
+      newBox = { x: oldBox.x, y: oldBox.y, width: maxX + NODE_WIDTH - oldBox.x, height: maxY + NODE_HEIGHT - oldBox.y };
+    } else {
+      epic.x = oldBox.x;
+      epic.y = oldBox.y;
+      newBox = { x: oldBox.x, y: oldBox.y, width: NODE_WIDTH, height: NODE_HEIGHT };
+    }
+
+    const dx = newBox.width - oldBox.width;
+    const dy = newBox.height - oldBox.height;
+    for (const node of visible.nodes) {
+      if (inCluster.has(node.id)) continue;
+      if (node.x >= oldBox.x + oldBox.width) node.x += dx;
+      if (node.y >= oldBox.y + oldBox.height) node.y += dy;
+    }
+
+    this.draw(visible.nodes, visible.edges);
+    this.setupViewBox(visible.nodes);
+    if (this.options.onClusterToggle) {
+      this.options.onClusterToggle(visible.nodes.length, visible.edges.length);
+    }
+  }
+
+  async computeLayout(graphData, options) {
+    const worker = await this.getLayoutWorker();
+    if (!worker) {
+      return computeLayout(graphData, options);
+    }
+
+    try {
+      const result = await new Promise((resolve, reject) => {
+        const id = this.nextLayoutRequestId++;
+        this.layoutRequests.set(id, { resolve, reject });
+        worker.postMessage({
+          id,
+          graph: { nodes: graphData.nodes.map(node => ({ id: node.id })), edges: graphData.edges },
+          options
+        });
+      });
+
+      // Copy the worker's positions onto our nodes, which carry the cards
+      const positions = new Map(result.nodes.map(node => [node.id, node]));
+      for (const node of graphData.nodes) {
+        const position = positions.get(node.id);
+        if (position) {
+          node.x = position.x;
+          node.y = position.y;
+          node.layer = position.layer;
+        }
+      }
+      return {
+        nodes: graphData.nodes,
+        edges: graphData.edges,
+        cycleNodes: new Set(result.cycleNodes),
+        metadata: result.metadata
+      };
+    } catch (error) {
+      console.warn('[Graph] Layout worker failed, laying out on the main thread:', error);
+      return computeLayout(graphData, options);
+    }
+  }
+
+  // Start the layout worker once. Webview resources are cross-origin for new Worker(),
+  // so the bundle is fetched and started from a blob URL (CSP worker-src blob:).
+  getLayoutWorker() {
+    if (this.layoutWorker) {
+      return this.layoutWorker;
+    }
+
+    const url = document.body.dataset.layoutWorker;
+    if (!url || typeof Worker === 'undefined') {
+      this.layoutWorker = Promise.resolve(null);
+      return this.layoutWorker;
+    }
+
+    this.layoutWorker = fetch(url)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.text();
+      })
+      .then(source => {
+        const blobUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+        const worker = new Worker(blobUrl);
+
+        worker.addEventListener('message', (event) => {
+          const { id, error } = event.data;
+          const request = this.layoutRequests.get(id);
+          if (!request) return;
+          this.layoutRequests.delete(id);
+          if (error) {
+            request.reject(new Error(error));
+          } else {
+            request.resolve(event.data);
+          }
+        });
+        worker.addEventListener('error', (event) => {
+          // The worker is unusable: fail what is waiting and lay out on the main thread from now on
+          event.preventDefault();
+          for (const request of this.layoutRequests.values()) {
+            request.reject(new Error(event.message || 'Layout worker error'));
+          }
+          this.layoutRequests.clear();
+          worker.terminate();
+          this.layoutWorker = Promise.resolve(null);
+        });
+        return worker;
+      })
+      .catch(error => {
+        console.warn('[Graph] Layout worker unavailable, laying out on the main thread:', error);
+        return null;
+      });
+    return this.layoutWorker;
   }
 
   setupViewBox(nodes) {
@@ -480,14 +775,22 @@ export class GraphView {
           addEdge(blocker.id, card.id, 'blocked-by');
         }
       }
+
+      // Gates: each waiter points at the gate, and a gate awaiting another bead points at it
+      for (const waiter of parseWaiters(card.waiters)) {
+        addEdge(waiter, card.id, 'waits');
+      }
+      if (card.await_type && card.await_id && nodeMap.has(card.await_id)) {
+        addEdge(card.id, card.await_id, 'waits');
+      }
     }
 
     return { nodes, edges };
   }
 
-  renderNode(node, isInCycle = false) {
+  renderNode(node, isInCycle = false, isCritical = false, progress = null) {
     const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-    g.setAttribute('class', 'graph-node');
+    g.setAttribute('class', isCritical ? 'graph-node critical' : 'graph-node');
     g.setAttribute('data-node-id', node.id);
     g.setAttribute('transform', `translate(${node.x}, ${node.y})`);
 
@@ -548,6 +851,47 @@ export class GraphView {
       g.appendChild(warningText);
     }
 
+    // Folded epic: descendants' progress and a toggle to unfold it
+    if (progress) {
+      const { closed, total } = progress;
+      const barWidth = NODE_WIDTH - NODE_PADDING * 2;
+      const track = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      track.setAttribute('class', 'cluster-progress-track');
+      track.setAttribute('x', NODE_PADDING);
+      track.setAttribute('y', NODE_HEIGHT - 8);
+      track.setAttribute('width', barWidth);
+      track.setAttribute('height', 4);
+      g.appendChild(track);
+
+      const bar = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      bar.setAttribute('class', 'cluster-progress-bar');
+      bar.setAttribute('x', NODE_PADDING);
+      bar.setAttribute('y', NODE_HEIGHT - 8);
+      bar.setAttribute('width', total > 0 ? (barWidth * closed) / total : 0);
+      bar.setAttribute('height', 4);
+      g.appendChild(bar);
+
+      const count = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      count.setAttribute('class', 'node-type cluster-count');
+      count.setAttribute('x', NODE_WIDTH - NODE_PADDING);
+      count.setAttribute('y', 65);
+      count.textContent = `${closed}/${total} closed`;
+      g.appendChild(count);
+
+      const toggle = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      toggle.setAttribute('class', 'cluster-toggle');
+      toggle.setAttribute('x', NODE_WIDTH - (isInCycle ? 45 : 22));
+      toggle.setAttribute('y', 25);
+      toggle.textContent = '⊞';
+      toggle.addEventListener('mousedown', (e) => e.stopPropagation());
+      toggle.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.toggleCluster(node.id);
+      });
+      g.appendChild(toggle);
+      g.classList.add('cluster-folded');
+    }
+
     // Event handlers
     g.style.cursor = 'move';
 
@@ -572,9 +916,14 @@ export class GraphView {
     this.nodesGroup.appendChild(g);
   }
 
-  renderEdge(edge, sourceNode, targetNode) {
+  renderEdge(edge, sourceNode, targetNode, isCritical = false) {
     const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-    path.setAttribute('class', `edge edge-${edge.type}`);
+    path.setAttribute('class', isCritical ? `edge edge-${edge.type} critical` : `edge edge-${edge.type}`);
+    if (edge.rolledUp) {
+      // Stands for edges to issues folded into an epic; thicker the more it carries
+      path.classList.add('rolled-up');
+      path.style.strokeWidth = `${Math.min(2 + edge.count, 8)}`;
+    }
     path.setAttribute('data-edge-from', edge.from);
     path.setAttribute('data-edge-to', edge.to);
     path.setAttribute('data-edge-type', edge.type);
@@ -594,11 +943,15 @@ export class GraphView {
     let marker = 'arrow-parent';
     if (edge.type === 'blocks') marker = 'arrow-blocks';
     else if (edge.type === 'blocked-by') marker = 'arrow-blocked-by';
+    else if (edge.type === 'waits') marker = 'arrow-waits';
+    if (isCritical) marker = 'arrow-critical';
     path.setAttribute('marker-end', `url(#${marker})`);
 
     // Add dashed style for blocks edges
     if (edge.type === 'blocks' || edge.type === 'blocked-by') {
       path.setAttribute('stroke-dasharray', '5,5');
+    } else if (edge.type === 'waits') {
+      path.setAttribute('stroke-dasharray', '2,4');
     }
 
     this.edgesGroup.appendChild(path);
@@ -713,8 +1066,11 @@ export class GraphView {
         nodeElement.setAttribute('transform', `translate(${node.x}, ${node.y})`);
       }
 
-      // Update connected edges
+      // Update connected edges and the boxes of expanded clusters
       this.updateConnectedEdges(node.id);
+      if (this.expandedClusters.size > 0) {
+        this.drawClusters();
+      }
 
       e.preventDefault();
     };
@@ -764,6 +1120,85 @@ export class GraphView {
     }
   }
 
+  /**
+   * The graph as drawn (focus mode, filters and folded epics included) as a
+   * standalone SVG document: styles are inlined with the theme's colours
+   * resolved, the view is cropped to the graph and pan/zoom is left out.
+   */
+  exportSvg() {
+    const groups = [this.clustersGroup, this.edgesGroup, this.nodesGroup];
+    const boxes = groups.map(group => group.getBBox()).filter(box => box.width > 0 || box.height > 0);
+    if (boxes.length === 0) {
+      throw new Error('The graph is empty');
+    }
+    const minX = Math.min(...boxes.map(box => box.x)) - EXPORT_PADDING;
+    const minY = Math.min(...boxes.map(box => box.y)) - EXPORT_PADDING;
+    const width = Math.max(...boxes.map(box => box.x + box.width)) + EXPORT_PADDING - minX;
+    const height = Math.max(...boxes.map(box => box.y + box.height)) + EXPORT_PADDING - minY;
+
+    const clone = this.svg.cloneNode(true);
+    const originals = [this.svg, ...this.svg.querySelectorAll('*')];
+    const copies = [clone, ...clone.querySelectorAll('*')];
+    // Theme variables mean nothing outside VS Code, so every element gets its resolved style
+    originals.forEach((original, i) => {
+      const computed = getComputedStyle(original);
+      const style = EXPORT_STYLE_PROPERTIES
+        .map(property => `${property}:${computed.getPropertyValue(property)}`)
+        .join(';');
+      copies[i].setAttribute('style', style);
+      copies[i].removeAttribute('class');
+    });
+    for (const copy of clone.querySelectorAll('[transform]')) {
+      if (copy.parentNode === clone) {
+        copy.removeAttribute('transform');
+      }
+    }
+
+    const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    background.setAttribute('x', minX);
+    background.setAttribute('y', minY);
+    background.setAttribute('width', width);
+    background.setAttribute('height', height);
+    background.setAttribute('fill', getComputedStyle(this.svg).getPropertyValue('background-color'));
+    clone.insertBefore(background, clone.firstChild);
+
+    clone.removeAttribute('id');
+    clone.removeAttribute('preserveAspectRatio');
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('viewBox', `${minX} ${minY} ${width} ${height}`);
+    clone.setAttribute('width', Math.ceil(width));
+    clone.setAttribute('height', Math.ceil(height));
+    return {
+      svg: '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(clone),
+      width,
+      height
+    };
+  }
+
+  /** The exported SVG rasterized at twice its size (less for huge graphs), as base64 PNG */
+  async exportPng() {
+    const { svg, width, height } = this.exportSvg();
+    const scale = Math.min(2, EXPORT_MAX_PIXELS / Math.max(width, height));
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Could not rasterize the graph'));
+      image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png').replace(/^data:image\/png;base64,/, '');
+  }
+
+  /** The graph as drawn, as Mermaid or Graphviz DOT source */
+  exportText(format) {
+    const graph = { nodes: this.currentNodes, edges: this.currentEdges };
+    const direction = this.layoutSettings(this.layoutOptions).direction;
+    return format === 'dot' ? toDot(graph, { direction }) : toMermaid(graph, { direction });
+  }
+
   truncateText(text, maxLength) {
     if (text.length <= maxLength) return text;
     return text.substring(0, maxLength - 3) + '...';
@@ -0,0 +1,22 @@
+/**
+ * Web Worker that computes graph layouts off the webview's main thread
+ * Receives { id, graph: { nodes: [{ id }], edges }, options } and replies with
+ * { id, nodes: [{ id, x, y, layer }], cycleNodes, metadata } or { id, error }
+ */
+
+import { computeLayout } from './graph-layout.js';
+
+self.addEventListener('message', (event) => {
+  const { id, graph, options } = event.data;
+  try {
+    const layout = computeLayout(graph, options);
+    self.postMessage({
+      id,
+      nodes: layout.nodes.map(node => ({ id: node.id, x: node.x, y: node.y, layer: node.layer })),
+      cycleNodes: Array.from(layout.cycleNodes),
+      metadata: layout.metadata
+    });
+  } catch (error) {
+    self.postMessage({ id, error: error.message || String(error) });
+  }
+});
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { BulkItemResult, WipConfig, WipLimits, WipLimitsSchema } from './types';
+import { readBoardConfigFile } from './boardConfig';
+
+/**
+ * Read WIP limits from `.beads/kanban.json` (`wipLimits`, `wipStrict`) and the
+ * `beadsKanban.wipLimits` / `beadsKanban.wipLimitStrict` settings.
+ * The file holds the team's limits; settings override them per column, and
+ * strict mode is on if either source enables it.
+ */
+export async function loadWipConfig(workspaceRoot: string | null, output: vscode.OutputChannel): Promise<WipConfig> {
+  const file = workspaceRoot ? await readWipFromFile(workspaceRoot, output) : {};
+  const config = vscode.workspace.getConfiguration('beadsKanban');
+
+  const fromSettings = WipLimitsSchema.safeParse(config.get<unknown>('wipLimits', {}));
+  if (!fromSettings.success) {
+    output.appendLine(`[WipLimits] Ignoring invalid beadsKanban.wipLimits setting: ${fromSettings.error.message}`);
+  }
+
+  return {
+    limits: { ...file.limits, ...(fromSettings.success ? fromSettings.data : {}) },
+    strict: config.get<boolean>('wipLimitStrict', false) || file.strict === true
+  };
+}
+
+async function readWipFromFile(workspaceRoot: string, output: vscode.OutputChannel): Promise<{ limits?: WipLimits; strict?: boolean }> {
+  const file = await readBoardConfigFile(workspaceRoot, output);
+  const limits = WipLimitsSchema.safeParse(file.wipLimits ?? {});
+  if (!limits.success) {
+    output.appendLine(`[WipLimits] Ignoring invalid wipLimits in .beads/kanban.json: ${limits.error.message}`);
+  }
+  return {
+    limits: limits.success ? limits.data : undefined,
+    strict: file.wipStrict === true
+  };
+}
+
+/**
+ * Error to report when a card cannot be moved into `column` under strict mode.
+ * @param title Column title used in the message
+ * @param count Issues currently in the column, not counting the moved one
+ * @returns null if the move is allowed
+ */
+export function wipLimitError(config: WipConfig, column: string, title: string, count: number): string | null {
+  const limit = config.limits[column];
+  if (!config.strict || limit === undefined || count < limit) {
+    return null;
+  }
+  return `WIP limit reached: ${title} already has ${count} of ${limit} issues. Finish or move work out of the column first.`;
+}
+
+/**
+ * Split issues moved into `column` together (a bulk status change) into those
+ * that still fit under its limit, in the given order, and those rejected.
+ * @param count Issues currently in the column, not counting the moved ones
+ */
+export function admitToColumn(
+  config: WipConfig,
+  column: string,
+  title: string,
+  count: number,
+  ids: string[]
+): { admitted: string[]; rejected: BulkItemResult[] } {
+  const admitted: string[] = [];
+  const rejected: BulkItemResult[] = [];
+  for (const id of ids) {
+    const error = wipLimitError(config, column, title, count + admitted.length);
+    if (error) {
+      rejected.push({ id, ok: false, error });
+    } else {
+      admitted.push(id);
+    }
+  }
+  return { admitted, rejected };
+}
@@ -0,0 +1,42 @@
+/**
+ * Ephemeral issues ("wisps"): short-lived beads such as agent scratch work.
+ * Once a wisp has been closed for longer than the collapse window, the Kanban
+ * board folds it into a summary row instead of listing it.
+ *
+ * Bundled into the webview (see scripts/build-webview.js), so this module must
+ * not import Node or VS Code APIs.
+ */
+
+export interface WispCard {
+  status?: string;
+  ephemeral?: boolean;
+  closed_at?: string | null;
+}
+
+/** Default for the `beadsKanban.ephemeralCollapseDays` setting */
+export const DEFAULT_WISP_COLLAPSE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A closed wisp whose closed_at is more than `windowDays` ago */
+export function isExpiredWisp(card: WispCard, windowDays: number, now: number = Date.now()): boolean {
+  if (!card.ephemeral || card.status !== 'closed' || !card.closed_at) {
+    return false;
+  }
+  const closed = Date.parse(card.closed_at);
+  return !Number.isNaN(closed) && now - closed > windowDays * DAY_MS;
+}
+
+/** Split cards into those to list and the expired wisps to summarise, keeping their order */
+export function collapseExpiredWisps<T extends WispCard>(
+  cards: T[],
+  windowDays: number,
+  now: number = Date.now()
+): { cards: T[]; expired: T[] } {
+  const kept: T[] = [];
+  const expired: T[] = [];
+  for (const card of cards) {
+    (isExpiredWisp(card, windowDays, now) ? expired : kept).push(card);
+  }
+  return { cards: kept, expired };
+}